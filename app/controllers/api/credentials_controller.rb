@@ -0,0 +1,103 @@
+class Api::CredentialsController < ApplicationController
+  include WebauthnOrigin
+
+  skip_before_action :verify_authenticity_token,
+                      only: %i[index options create update destroy]
+  before_action :require_authentication
+  before_action :set_webauthn_origin, only: [ :options, :create ]
+  before_action :set_credential, only: [ :update, :destroy ]
+
+  # GET /api/credentials
+  def index
+    @credentials = current_user.credentials.order(:created_at)
+    render json: { credentials: @credentials.map { |credential| credential_json(credential) } }
+  end
+
+  # POST /api/credentials/options
+  def options
+    options = WebAuthn::Credential.options_for_create(
+      user: {
+        id: WebAuthn.generate_user_id,
+        name: "user_#{current_user.id}",
+        display_name: "Passkey User"
+      },
+      # Stop the authenticator from registering a device it already holds a passkey for
+      exclude: current_user.credentials.pluck(:credential_id)
+    )
+
+    session[:webauthn_challenge] = options.challenge
+    session[:webauthn_challenge_expires_at] = 5.minutes.from_now
+
+    render json: options
+  rescue => e
+    Rails.logger.error "WebAuthn credential options error: #{e.message}"
+    render json: { error: "Failed to generate registration options" }, status: :internal_server_error
+  end
+
+  # POST /api/credentials
+  def create
+    challenge = session[:webauthn_challenge]
+    challenge_expires_at = session[:webauthn_challenge_expires_at]
+
+    if challenge.blank? || challenge_expires_at.blank? || Time.current > challenge_expires_at
+      return render json: { error: "Invalid or expired challenge" }, status: :bad_request
+    end
+
+    begin
+      webauthn_credential = WebAuthn::Credential.from_create(params[:credential])
+      webauthn_credential.verify(challenge)
+
+      @credential = current_user.credentials.create!(
+        credential_id: webauthn_credential.id,
+        public_key: webauthn_credential.public_key,
+        sign_count: webauthn_credential.sign_count,
+        nickname: params[:nickname]
+      )
+
+      session.delete(:webauthn_challenge)
+      session.delete(:webauthn_challenge_expires_at)
+
+      render json: { success: true, credential: credential_json(@credential) }, status: :created
+    rescue WebAuthn::Error => e
+      Rails.logger.error "WebAuthn credential verification error: #{e.message}"
+      render json: { error: "Registration verification failed" }, status: :bad_request
+    end
+  end
+
+  # PATCH /api/credentials/:id
+  def update
+    if @credential.update(nickname: params[:nickname])
+      render json: { success: true, credential: credential_json(@credential) }
+    else
+      render json: {
+        error: "Passkey update failed",
+        errors: @credential.errors.full_messages
+      }, status: :unprocessable_entity
+    end
+  end
+
+  # DELETE /api/credentials/:id
+  def destroy
+    # The last passkey is the only way back into the account
+    if current_user.credentials.count <= 1
+      return render json: { error: "You cannot remove your only passkey" }, status: :unprocessable_entity
+    end
+
+    @credential.destroy
+    render json: { success: true, message: "Passkey removed successfully" }
+  end
+
+  private
+
+  def set_credential
+    @credential = current_user.credentials.find_by(id: params[:id])
+
+    unless @credential
+      render json: { error: "Passkey not found" }, status: :not_found
+    end
+  end
+
+  def credential_json(credential)
+    credential.as_json(only: [ :id, :nickname, :sign_count, :last_used_at, :created_at ])
+  end
+end
@@ -0,0 +1,67 @@
+class Api::LabelsController < ApplicationController
+  skip_before_action :verify_authenticity_token,
+                      only: %i[index create update destroy]
+  before_action :require_authentication
+  before_action :set_label, only: [ :update, :destroy ]
+
+  # GET /api/labels
+  def index
+    @labels = current_user.labels.alphabetical
+    render json: { labels: @labels.map { |label| label_json(label) } }
+  end
+
+  # POST /api/labels
+  def create
+    @label = current_user.labels.build(label_params)
+
+    if @label.save
+      render json: { success: true, label: label_json(@label) }, status: :created
+    else
+      render json: {
+        error: "Label creation failed",
+        errors: @label.errors.full_messages
+      }, status: :unprocessable_entity
+    end
+  end
+
+  # PATCH /api/labels/:id
+  def update
+    if @label.update(label_params)
+      render json: { success: true, label: label_json(@label) }
+    else
+      render json: {
+        error: "Label update failed",
+        errors: @label.errors.full_messages
+      }, status: :unprocessable_entity
+    end
+  end
+
+  # DELETE /api/labels/:id
+  def destroy
+    # Removing a label also detaches it from every todo that carried it
+    @label.destroy
+    render json: { success: true, message: "Label deleted successfully" }
+  end
+
+  private
+
+  def label_params
+    if params[:label].is_a?(ActionController::Parameters)
+      params.require(:label).permit(:name, :color)
+    else
+      params.permit(:name, :color)
+    end
+  end
+
+  def set_label
+    @label = current_user.labels.find_by(id: params[:id])
+
+    unless @label
+      render json: { error: "Label not found" }, status: :not_found
+    end
+  end
+
+  def label_json(label)
+    label.as_json(only: [ :id, :name, :color ])
+  end
+end
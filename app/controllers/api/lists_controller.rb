@@ -0,0 +1,74 @@
+class Api::ListsController < ApplicationController
+  skip_before_action :verify_authenticity_token,
+                      only: %i[index create update destroy]
+  before_action :require_authentication
+  before_action :set_list, only: [ :update, :destroy ]
+
+  # GET /api/lists
+  def index
+    # Make sure there is always a list to put todos in
+    current_user.default_list
+
+    @lists = current_user.lists.ordered
+    render json: { lists: @lists.map { |list| list_json(list) } }
+  end
+
+  # POST /api/lists - new lists go to the bottom of the sidebar
+  def create
+    @list = current_user.lists.build(list_params)
+
+    if @list.save
+      render json: { success: true, list: list_json(@list) }, status: :created
+    else
+      render json: {
+        error: "List creation failed",
+        errors: @list.errors.full_messages
+      }, status: :unprocessable_entity
+    end
+  end
+
+  # PATCH /api/lists/:id
+  def update
+    if @list.update(list_params)
+      render json: { success: true, list: list_json(@list) }
+    else
+      render json: {
+        error: "List update failed",
+        errors: @list.errors.full_messages
+      }, status: :unprocessable_entity
+    end
+  end
+
+  # DELETE /api/lists/:id
+  def destroy
+    if current_user.lists.count == 1
+      return render json: { error: "You need at least one list" }, status: :unprocessable_entity
+    end
+
+    # The list's todos, archived ones included, go with it
+    @list.destroy
+    render json: { success: true, message: "List deleted successfully" }
+  end
+
+  private
+
+  def list_params
+    if params[:list].is_a?(ActionController::Parameters)
+      params.require(:list).permit(:name)
+    else
+      params.permit(:name)
+    end
+  end
+
+  def set_list
+    @list = current_user.lists.find_by(id: params[:id])
+
+    unless @list
+      render json: { error: "List not found" }, status: :not_found
+    end
+  end
+
+  def list_json(list)
+    list.as_json(only: [ :id, :name, :position ])
+  end
+end
@@ -0,0 +1,36 @@
+class Api::PreferencesController < ApplicationController
+  skip_before_action :verify_authenticity_token,
+                      only: %i[show update]
+  before_action :require_authentication
+
+  # GET /api/preferences
+  def show
+    render json: { preferences: preferences_json }
+  end
+
+  # PATCH /api/preferences
+  def update
+    if current_user.update(preference_params)
+      render json: { success: true, preferences: preferences_json }
+    else
+      render json: {
+        error: "Preferences update failed",
+        errors: current_user.errors.full_messages
+      }, status: :unprocessable_entity
+    end
+  end
+
+  private
+
+  def preference_params
+    if params[:preference].is_a?(ActionController::Parameters)
+      params.require(:preference).permit(:auto_archive_after_days)
+    else
+      params.permit(:auto_archive_after_days)
+    end
+  end
+
+  def preferences_json
+    current_user.as_json(only: [ :auto_archive_after_days ])
+  end
+end
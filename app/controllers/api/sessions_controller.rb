@@ -1,6 +1,16 @@
 class Api::SessionsController < ApplicationController
     # protect_from_forgery with: :null_session
     skip_before_action :verify_authenticity_token, only: :destroy
+
+  # GET /api/session
+  def show
+    if authenticated?
+      render json: { authenticated: true, user_id: current_user.id }
+    else
+      render json: { authenticated: false }
+    end
+  end
+
   # POST /api/logout
   def destroy
     begin
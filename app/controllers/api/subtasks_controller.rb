@@ -0,0 +1,112 @@
+class Api::SubtasksController < ApplicationController
+  include TodoSerialization
+
+  skip_before_action :verify_authenticity_token,
+                      only: %i[index create update destroy reorder]
+  before_action :require_authentication
+  before_action :set_todo
+  before_action :set_subtask, only: [ :update, :destroy ]
+
+  # Mutations also return the parent todo, so clients pick up its progress
+  # and any automatic completion in one round trip. Checking off or deleting a
+  # subtask can complete a repeating todo, which then carries its next_occurrence
+
+  # GET /api/todos/:todo_id/subtasks
+  def index
+    render json: { subtasks: @todo.subtasks.map { |subtask| subtask_json(subtask) } }
+  end
+
+  # POST /api/todos/:todo_id/subtasks
+  def create
+    @subtask = @todo.subtasks.build(subtask_params)
+    @subtask.position = (@todo.subtasks.maximum(:position) || 0) + 1
+
+    if @subtask.save
+      render json: {
+        success: true,
+        subtask: subtask_json(@subtask),
+        todo: todo_json(@todo.reload)
+      }, status: :created
+    else
+      render json: {
+        error: "Subtask creation failed",
+        errors: @subtask.errors.full_messages
+      }, status: :unprocessable_entity
+    end
+  end
+
+  # PATCH /api/todos/:todo_id/subtasks/:id
+  def update
+    if @subtask.update(subtask_params)
+      @todo.complete_if_subtasks_done!
+      render json: {
+        success: true,
+        subtask: subtask_json(@subtask),
+        todo: todo_json_with_next_occurrence(@todo.reload)
+      }
+    else
+      render json: {
+        error: "Subtask update failed",
+        errors: @subtask.errors.full_messages
+      }, status: :unprocessable_entity
+    end
+  end
+
+  # DELETE /api/todos/:todo_id/subtasks/:id
+  def destroy
+    @subtask.destroy
+    # Removing the last unchecked subtask can leave only checked ones
+    @todo.complete_if_subtasks_done!
+
+    render json: { success: true, todo: todo_json_with_next_occurrence(@todo.reload) }
+  end
+
+  # PATCH /api/todos/:todo_id/subtasks/reorder
+  # Takes every subtask id of the todo in the new order
+  def reorder
+    ids = Array(params[:ids]).map(&:to_i)
+    subtasks = @todo.subtasks.index_by(&:id)
+
+    unless ids.sort == subtasks.keys.sort
+      return render json: { error: "ids must list every subtask of the todo exactly once" }, status: :bad_request
+    end
+
+    Subtask.transaction do
+      # Park on negative positions first so the unique index never sees a clash
+      ids.each_with_index { |id, index| subtasks[id].update_column(:position, -(index + 1)) }
+      ids.each_with_index { |id, index| subtasks[id].update_column(:position, index + 1) }
+    end
+
+    render json: { success: true, todo: todo_json(@todo.reload) }
+  end
+
+  private
+
+  def subtask_params
+    if params[:subtask].is_a?(ActionController::Parameters)
+      params.require(:subtask).permit(:title, :done)
+    else
+      params.permit(:title, :done)
+    end
+  end
+
+  def set_todo
+    @todo = current_user.todos.find_by(id: params[:todo_id])
+
+    unless @todo
+      render json: { error: "Todo not found" }, status: :not_found
+    end
+  end
+
+  def set_subtask
+    @subtask = @todo.subtasks.find_by(id: params[:id])
+
+    unless @subtask
+      render json: { error: "Subtask not found" }, status: :not_found
+    end
+  end
+
+  def subtask_json(subtask)
+    subtask.as_json(only: [ :id, :title, :done, :position ])
+  end
+end
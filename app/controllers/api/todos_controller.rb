@@ -1,33 +1,51 @@
 class Api::TodosController < ApplicationController
+  include TodoSerialization
+
+  BULK_OPERATIONS = %w[complete reopen delete move_to_top move_to_bottom archive restore].freeze
+  MAX_BATCH_SIZE = 500
+
   skip_before_action :verify_authenticity_token,
-                      only: %i[index show create update destroy reorder]
+                      only: %i[index show create batch update destroy reorder move bulk clear_completed]
   before_action :require_authentication
-  before_action :set_todo, only: [ :show, :update, :destroy ]
-  before_action :verify_todo_ownership, only: [ :show, :update, :destroy ]
-
-  # GET /api/todos
+  before_action :set_todo, only: [ :show, :update, :destroy, :move ]
+  before_action :verify_todo_ownership, only: [ :show, :update, :destroy, :move ]
+  before_action :set_list, only: [ :index, :create, :batch, :clear_completed ]
+
+  # GET /api/todos - the todos of the user's default list
+  # GET /api/todos?list_id=3 - the todos of another of the user's lists
+  # GET /api/todos?q=milk - only todos whose title contains the query, ignoring case
+  # GET /api/todos?archived=true - archived todos instead, most recently archived first
   def index
-    @todos = current_user.todos.ordered
-    render json: { todos: @todos.as_json(only: [ :id, :title, :status, :position, :created_at ]) }
+    current_user.archive_stale_completed_todos!
+
+    @todos = if params[:archived] == "true"
+      @list.todos.archived.order(archived_at: :desc)
+    else
+      @list.todos.active.ordered
+    end
+    @todos = @todos.search(params[:q]).includes(:labels, :subtasks)
+
+    render json: { todos: @todos.map { |todo| todo_json(todo) } }
   end
 
   # GET /api/todos/:id
   def show
-    render json: { todo: @todo.as_json(only: [ :id, :title, :status, :position, :created_at ]) }
+    render json: { todo: todo_json(@todo) }
   end
 
-  # POST /api/todos
+  # POST /api/todos - into the list given by list_id, or the default list
   def create
     @todo = current_user.todos.build(todo_params)
+    @todo.list = @list
+    assign_labels(@todo)
 
-    # Assign next available position
-    max_position = current_user.todos.maximum(:position) || 0
-    @todo.position = max_position + 1
+    # Append at the end, leaving room to move todos in between later
+    @todo.position = Todo.next_position_for(@list)
 
     if @todo.save
       render json: {
         success: true,
-        todo: @todo.as_json(only: [ :id, :title, :status, :position, :created_at ])
+        todo: todo_json(@todo)
       }, status: :created
     else
       render json: {
@@ -37,12 +55,77 @@ class Api::TodosController < ApplicationController
     end
   end
 
+  # POST /api/todos/batch - add todos to the end of the list given by list_id, or the default
+  # list, in the order sent. If any of them is invalid none are added, and the errors name
+  # the todos by their place in the batch, counting from 1
+  def batch
+    rows = params[:todos]
+    unless rows.is_a?(Array) && rows.length.between?(1, MAX_BATCH_SIZE)
+      return render json: { error: "Send between 1 and #{MAX_BATCH_SIZE} todos" }, status: :bad_request
+    end
+
+    todos = []
+    errors = []
+
+    ActiveRecord::Base.transaction do
+      # Batches and moves by the same user run one at a time
+      current_user.lock!
+      first_position = Todo.next_position_for(@list)
+
+      rows.each.with_index(1) do |row, number|
+        todo = build_batch_todo(row, first_position + (number - 1) * Todo::POSITION_GAP)
+        if todo.valid?
+          todos << todo
+        else
+          errors.concat(todo.errors.full_messages.map { |message| "Todo #{number}: #{message}" })
+        end
+      rescue ArgumentError => e
+        # An unknown status
+        errors << "Todo #{number}: #{e.message}"
+      end
+
+      raise ActiveRecord::Rollback if errors.any?
+
+      todos.each(&:save!)
+    end
+
+    if errors.any?
+      render json: {
+        error: "Todo import failed",
+        errors: errors
+      }, status: :unprocessable_entity
+    else
+      render json: {
+        success: true,
+        todos: todos.map { |todo| todo_json(todo) }
+      }, status: :created
+    end
+  end
+
   # PATCH /api/todos/:id
+  # A list_id moves the todo to the end of that list. Completing a repeating todo
+  # creates its next occurrence, returned as the todo's next_occurrence
   def update
-    if @todo.update(todo_params)
+    if params.key?(:list_id)
+      new_list = current_user.lists.find_by(id: params[:list_id])
+      return render json: { error: "List not found" }, status: :not_found unless new_list
+    end
+
+    # Label assignment on a saved todo writes straight away, so undo it if the todo is invalid
+    updated = Todo.transaction do
+      assign_labels(@todo)
+      @todo.update(todo_params) || raise(ActiveRecord::Rollback)
+      @todo.move_to_list!(new_list) if new_list
+      # Opting in with every subtask already checked completes the todo straight away,
+      # but an explicit reopen wins
+      @todo.complete_if_subtasks_done! unless todo_params.key?(:status)
+      true
+    end
+
+    if updated
       render json: {
         success: true,
-        todo: @todo.as_json(only: [ :id, :title, :status, :position, :created_at ])
+        todo: todo_json_with_next_occurrence(@todo)
       }
     else
       render json: {
@@ -54,15 +137,14 @@ class Api::TodosController < ApplicationController
 
   # DELETE /api/todos/:id
   def destroy
+    # The gap left behind needs no renumbering; the remaining todos keep their order
     @todo.destroy
 
-    # Maintain position integrity by updating positions of remaining todos
-    current_user.todos.where("position > ?", @todo.position).update_all("position = position - 1")
-
     render json: { success: true, message: "Todo deleted successfully" }
   end
 
   # PATCH /api/todos/reorder
+  # Rewrites positions for a whole list; single moves should use PATCH /api/todos/:id/move
   def reorder
     updates = params[:updates] || []
 
@@ -85,12 +167,15 @@ class Api::TodosController < ApplicationController
       return render json: { error: "Unauthorized access to todos" }, status: :forbidden
     end
 
-    # Handle single todo reordering (most common case for drag-and-drop)
-    if updates.length == 1
-      handle_single_todo_reorder(updates.first, user_todos.first)
-    else
-      # Handle multiple todo reordering with conflict resolution
-      handle_multiple_todo_reorder(updates, user_todos)
+    # Positions order a single list
+    if user_todos.distinct.count(:list_id) > 1
+      return render json: { error: "Todos to reorder must be in the same list" }, status: :bad_request
+    end
+
+    ActiveRecord::Base.transaction do
+      # Reorders and moves by the same user run one at a time
+      current_user.lock!
+      reorder_list(user_todos.first.list, updates)
     end
 
     render json: { success: true, message: "Todos reordered successfully" }
@@ -101,125 +186,200 @@ class Api::TodosController < ApplicationController
     render json: { error: "Reorder failed" }, status: :internal_server_error
   end
 
-  private
+  # PATCH /api/todos/:id/move
+  # Takes either before_id or after_id: the todo to put this one directly in front of or behind.
+  # Todos that are not mentioned keep their relative order, so a move made in a filtered
+  # view never shuffles the todos that view hides
+  def move
+    before_id = params[:before_id].presence
+    after_id = params[:after_id].presence
 
-  def todo_params
-    if params[:todo].is_a?(ActionController::Parameters)
-      # フロントから { todo: { title: ... } } で来た場合
-      params.require(:todo).permit(:title, :status)
-    else
-      # フロントから { title: ... } で来た場合
-      params.permit(:title, :status)
+    if before_id.nil? == after_id.nil?
+      return render json: { error: "Provide exactly one of before_id or after_id" }, status: :bad_request
     end
-  end
 
+    target = current_user.todos.find_by(id: before_id || after_id)
 
-  def set_todo
-    @todo = Todo.find_by(id: params[:id])
+    unless target
+      return render json: { error: "Target todo not found" }, status: :not_found
+    end
 
-    unless @todo
-      render json: { error: "Todo not found" }, status: :not_found
+    # Moving to another list goes through PATCH /api/todos/:id with a list_id
+    if target.list_id != @todo.list_id
+      return render json: { error: "Target todo is in another list" }, status: :unprocessable_entity
     end
+
+    if target.id == @todo.id
+      return render json: { error: "A todo cannot be moved next to itself" }, status: :bad_request
+    end
+
+    @todo.move_next_to!(target, before_id ? :before : :after)
+
+    render json: { success: true, todo: todo_json(@todo) }
   end
 
-  def verify_todo_ownership
-    return unless @todo
+  # PATCH /api/todos/bulk
+  # Applies one operation to several todos of one list at once; either every todo changes
+  # or none do. Responds with the active todos of that list
+  def bulk
+    ids = Array(params[:ids]).map(&:to_i).uniq
+    operation = params[:operation].to_s
 
-    unless @todo.user_id == current_user.id
-      render json: { error: "Unauthorized access to todo" }, status: :forbidden
+    if ids.empty?
+      return render json: { error: "No todos selected" }, status: :bad_request
     end
-  end
 
-  # Normalize positions to be sequential starting from 1
-  def normalize_positions_for_user(user)
-    todos = user.todos.order(:position)
-    todos.each_with_index do |todo, index|
-      expected_position = index + 1
-      if todo.position != expected_position
-        todo.update_column(:position, expected_position)
+    unless BULK_OPERATIONS.include?(operation)
+      return render json: { error: "Unknown bulk operation: #{operation}" }, status: :bad_request
+    end
+
+    todos = current_user.todos.where(id: ids)
+
+    if todos.count != ids.count
+      return render json: { error: "Unauthorized access to todos" }, status: :forbidden
+    end
+
+    list_ids = todos.distinct.pluck(:list_id)
+    if list_ids.length > 1
+      return render json: { error: "Selected todos must be in the same list" }, status: :bad_request
+    end
+    list = current_user.lists.find(list_ids.first)
+
+    ActiveRecord::Base.transaction do
+      case operation
+      when "complete"
+        completing = todos.where(status: :open).to_a
+        todos.where(status: :open).update_all(status: Todo.statuses[:done], completed_at: Time.current, updated_at: Time.current)
+        # update_all skips callbacks, so repeating todos get their next occurrence here
+        completing.select(&:recurring?).each(&:schedule_next_occurrence!)
+      when "reopen"
+        todos.where(status: :done).update_all(status: Todo.statuses[:open], completed_at: nil, updated_at: Time.current)
+      when "archive"
+        todos.active.update_all(archived_at: Time.current)
+      when "restore"
+        todos.archived.update_all(archived_at: nil)
+      when "delete"
+        todos.destroy_all
+      when "move_to_top", "move_to_bottom"
+        move_todos_to_edge(list, ids, operation == "move_to_top" ? :top : :bottom)
       end
     end
+
+    render json: {
+      success: true,
+      todos: list.todos.active.ordered.includes(:labels, :subtasks).map { |todo| todo_json(todo) }
+    }
+  rescue ActiveRecord::ActiveRecordError => e
+    Rails.logger.error "Bulk update error: #{e.message}"
+    render json: { error: "Bulk update failed" }, status: :unprocessable_entity
   end
 
-  # Handle single todo reordering (drag-and-drop)
-  def handle_single_todo_reorder(update, todo)
-    new_position = update[:position].to_i
-    old_position = todo.position
+  # PATCH /api/todos/clear_completed
+  # Archives every done todo of a list (list_id, or the default list); they can be restored from the archive
+  def clear_completed
+    todos = @list.todos.active.done
+    archived_ids = todos.pluck(:id)
+    todos.update_all(archived_at: Time.current)
 
-    return if new_position == old_position
+    render json: { success: true, archived_ids: archived_ids }
+  end
 
-    ActiveRecord::Base.transaction do
-      # Get all todos for this user in order
-      all_todos = current_user.todos.ordered.to_a
+  private
 
-      # Step 1: Move all todos to temporary negative positions to avoid conflicts
-      all_todos.each_with_index do |todo_item, index|
-        todo_item.update_column(:position, -(index + 1))
-      end
+  def todo_params
+    attributes = if params[:todo].is_a?(ActionController::Parameters)
+      # フロントから { todo: { title: ... } } で来た場合
+      # fetch rather than require: a labels-only update wraps to an empty hash
+      params.fetch(:todo).permit(:title, :description, :status, :priority, :due_at, :complete_with_subtasks)
+    else
+      # フロントから { title: ... } で来た場合
+      params.permit(:title, :description, :status, :priority, :due_at, :complete_with_subtasks)
+    end
 
-      # Step 2: Remove the todo being moved from its current position
-      moved_todo = all_todos.delete_at(old_position - 1)  # Convert to 0-based index
+    attributes[:recurrence] = requested_recurrence if recurrence_params
+    attributes
+  end
 
-      # Step 3: Insert it at the new position
-      insert_index = [ new_position - 1, 0 ].max  # Convert to 0-based index, ensure >= 0
-      insert_index = [ insert_index, all_todos.length ].min  # Ensure <= array length
-      all_todos.insert(insert_index, moved_todo)
+  def build_batch_todo(row, position)
+    attributes = row.is_a?(ActionController::Parameters) ? row.permit(:title, :description, :status, :priority, :due_at) : {}
+    current_user.todos.build(attributes.merge(list: @list, position: position))
+  end
 
-      # Step 4: Update all positions to match the new order
-      all_todos.each_with_index do |todo_item, index|
-        new_pos = index + 1
-        todo_item.update_column(:position, new_pos)
-      end
+  # Wherever the request put recurrence, top level or wrapped, even when it is null
+  def recurrence_params
+    [ params[:todo], params ].find { |source| source.is_a?(ActionController::Parameters) && source.key?(:recurrence) }
+  end
+
+  # A rule is a hash; anything else is passed on for the model to reject, and null stops the repeats
+  def requested_recurrence
+    rule = recurrence_params[:recurrence]
+    return rule unless rule.is_a?(ActionController::Parameters)
+
+    rule.permit(:frequency, :interval, :day, :utc_offset, weekdays: []).to_h
+  end
+
+  # label_ids is not a Todo column, so Rails' JSON params wrapper leaves it at the top level
+  def requested_label_ids
+    if params.key?(:label_ids)
+      Array(params[:label_ids])
+    elsif params[:todo].is_a?(ActionController::Parameters) && params[:todo].key?(:label_ids)
+      Array(params[:todo][:label_ids])
     end
   end
 
-  # Handle multiple todo reordering with conflict resolution
-  def handle_multiple_todo_reorder(updates, user_todos)
-    ActiveRecord::Base.transaction do
-      # Step 1: Temporarily move all affected todos to negative positions to avoid conflicts
-      temp_position_offset = -1000
-      updates.each_with_index do |update, index|
-        todo = user_todos.find(update[:id])
-        todo.update!(position: temp_position_offset - index)
-      end
+  # Only the current user's labels can be attached; unknown ids are ignored
+  def assign_labels(todo)
+    label_ids = requested_label_ids
+    return if label_ids.nil?
 
-      # Step 2: Sort updates by target position to process them in order
-      sorted_updates = updates.sort_by { |update| update[:position].to_i }
+    todo.labels = current_user.labels.where(id: label_ids)
+  end
 
-      # Step 3: Process position conflicts by reassigning positions sequentially
-      position_assignments = {}
-      used_positions = Set.new
+  # The list named by list_id, or the user's default list without one
+  def set_list
+    @list = params[:list_id].present? ? current_user.lists.find_by(id: params[:list_id]) : current_user.default_list
 
-      # Get all current positions for this user (excluding the ones being moved)
-      todo_ids = updates.map { |update| update[:id] }
-      current_positions = current_user.todos.where.not(id: todo_ids).pluck(:position)
-      used_positions.merge(current_positions)
+    unless @list
+      render json: { error: "List not found" }, status: :not_found
+    end
+  end
 
-      # Assign positions, resolving conflicts
-      sorted_updates.each do |update|
-        desired_position = update[:position].to_i
+  def set_todo
+    @todo = Todo.find_by(id: params[:id])
 
-        # Skip invalid positions
-        next if desired_position <= 0
+    unless @todo
+      render json: { error: "Todo not found" }, status: :not_found
+    end
+  end
 
-        # Find the next available position starting from the desired position
-        final_position = desired_position
-        while used_positions.include?(final_position)
-          final_position += 1
-        end
+  def verify_todo_ownership
+    return unless @todo
 
-        position_assignments[update[:id]] = final_position
-        used_positions.add(final_position)
-      end
+    unless @todo.user_id == current_user.id
+      render json: { error: "Unauthorized access to todo" }, status: :forbidden
+    end
+  end
 
-      # Step 4: Apply the final position assignments
-      position_assignments.each do |todo_id, final_position|
-        todo = user_todos.find(todo_id)
-        todo.update!(position: final_position)
-      end
+  # Put the todos at the given places, counted from 1 among the list's active todos.
+  # The other active todos fill the remaining places in their current order, archived
+  # todos keep their slots, and the whole list is spread POSITION_GAP apart again
+  def reorder_list(list, updates)
+    ranks = updates.to_h { |update| [ update[:id].to_i, update[:position].to_i ] }
+    todos = list.todos.ordered.to_a
+    moved, active = todos.reject(&:archived?).partition { |todo| ranks.key?(todo.id) }
 
-      # Step 5: Normalize all positions to be sequential starting from 1
-      normalize_positions_for_user(current_user)
+    moved.sort_by { |todo| [ ranks[todo.id], todo.position ] }.each do |todo|
+      active.insert([ ranks[todo.id] - 1, active.length ].min, todo)
     end
+
+    Todo.spread_positions!(todos.map { |todo| todo.archived? ? todo : active.shift })
+  end
+
+  # Move the given todos to the top or bottom of their list, keeping their relative order
+  def move_todos_to_edge(list, ids, edge)
+    selected, rest = list.todos.ordered.to_a.partition { |todo| ids.include?(todo.id) }
+    new_order = edge == :top ? selected + rest : rest + selected
+
+    Todo.spread_positions!(new_order)
   end
 end
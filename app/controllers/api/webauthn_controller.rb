@@ -1,4 +1,6 @@
 class Api::WebauthnController < ApplicationController
+  include WebauthnOrigin
+
   skip_before_action :verify_authenticity_token,
                     only: %i[
                       registration_options
@@ -61,7 +63,8 @@ class Api::WebauthnController < ApplicationController
       credential = user.credentials.create!(
         credential_id: webauthn_credential.id,
         public_key: webauthn_credential.public_key,
-        sign_count: webauthn_credential.sign_count
+        sign_count: webauthn_credential.sign_count,
+        last_used_at: Time.current
       )
 
       # Clear challenge from session
@@ -133,7 +136,7 @@ class Api::WebauthnController < ApplicationController
       )
 
       # Update sign count to prevent replay attacks
-      stored_credential.update!(sign_count: webauthn_credential.sign_count)
+      stored_credential.update!(sign_count: webauthn_credential.sign_count, last_used_at: Time.current)
 
       # Clear challenge
       session.delete(:webauthn_challenge)
@@ -152,14 +155,4 @@ class Api::WebauthnController < ApplicationController
       render json: { error: "Authentication failed" }, status: :internal_server_error
     end
   end
-
-  private
-
-  def set_webauthn_origin
-    WebAuthn.configure do |config|
-      config.allowed_origins = [ request.base_url ]
-      config.rp_name = "Passkey ToDo Board"
-      config.rp_id = request.host
-    end
-  end
 end
@@ -0,0 +1,26 @@
+# frozen_string_literal: true
+
+module TodoSerialization
+  extend ActiveSupport::Concern
+
+  private
+
+  # The JSON shape of a todo, shared by every endpoint that returns one
+  def todo_json(todo)
+    todo.as_json(
+      only: [ :id, :list_id, :title, :description, :status, :priority, :position, :due_at, :completed_at, :archived_at, :complete_with_subtasks, :recurrence, :created_at ],
+      include: {
+        labels: { only: [ :id, :name, :color ] },
+        subtasks: { only: [ :id, :title, :done, :position ] }
+      }
+    )
+  end
+
+  # A todo after a change that may have completed it, with the next occurrence that
+  # scheduled if it repeats
+  def todo_json_with_next_occurrence(todo)
+    json = todo_json(todo)
+    json["next_occurrence"] = todo_json(todo.next_occurrence) if todo.next_occurrence
+    json
+  end
+end
@@ -0,0 +1,16 @@
+# frozen_string_literal: true
+
+module WebauthnOrigin
+  extend ActiveSupport::Concern
+
+  private
+
+  # Relying party settings follow the host serving the request
+  def set_webauthn_origin
+    WebAuthn.configure do |config|
+      config.allowed_origins = [ request.base_url ]
+      config.rp_name = "Passkey ToDo Board"
+      config.rp_id = request.host
+    end
+  end
+end
@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback } from 'react';
+import { preferencesApi } from '../utils/preferencesApi';
+import { ErrorMessage } from './ErrorMessage';
+import { NetworkError, isNetworkError } from '../utils/networkError';
+
+const AUTO_ARCHIVE_OPTIONS = [1, 7, 14, 30, 90];
+
+interface ArchiveSettingsProps {
+  className?: string;
+}
+
+export function ArchiveSettings({ className = '' }: ArchiveSettingsProps) {
+  const [autoArchiveAfterDays, setAutoArchiveAfterDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<Error | NetworkError | null>(null);
+
+  const loadPreferences = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const preferences = await preferencesApi.get();
+      setAutoArchiveAfterDays(preferences.auto_archive_after_days);
+    } catch (err) {
+      console.error('Preferences loading error:', err);
+      setError(err as Error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPreferences();
+  }, [loadPreferences]);
+
+  const handleChange = async (value: string) => {
+    const days = value === '' ? null : Number(value);
+    const previousDays = autoArchiveAfterDays;
+
+    setAutoArchiveAfterDays(days);
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const preferences = await preferencesApi.update({ auto_archive_after_days: days });
+      setAutoArchiveAfterDays(preferences.auto_archive_after_days);
+    } catch (err) {
+      console.error('Preferences update error:', err);
+      setAutoArchiveAfterDays(previousDays);
+      setError(err as Error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // A value set some other way still shows up as an option
+  const options = autoArchiveAfterDays === null || AUTO_ARCHIVE_OPTIONS.includes(autoArchiveAfterDays)
+    ? AUTO_ARCHIVE_OPTIONS
+    : [...AUTO_ARCHIVE_OPTIONS, autoArchiveAfterDays].sort((a, b) => a - b);
+
+  return (
+    <div className={className}>
+      <h2 className="m-0 mb-4 text-gray-dark text-xl font-semibold">Archive</h2>
+
+      {error && (
+        <ErrorMessage
+          error={error}
+          onDismiss={() => setError(null)}
+          onRetry={isNetworkError(error) ? loadPreferences : undefined}
+        />
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 p-3 bg-gray-light rounded-lg border border-gray-border-light">
+        <label htmlFor="auto-archive-after-days" className="flex-1 text-sm text-gray-dark">
+          Automatically archive completed todos
+        </label>
+        <select
+          id="auto-archive-after-days"
+          value={autoArchiveAfterDays ?? ''}
+          onChange={(e) => handleChange(e.target.value)}
+          disabled={isLoading || isSaving}
+          className="input-field w-auto! py-1.5 px-2 text-sm"
+        >
+          <option value="">Never</option>
+          {options.map(days => (
+            <option key={days} value={days}>
+              {days === 1 ? 'After 1 day' : `After ${days} days`}
+            </option>
+          ))}
+        </select>
+      </div>
+      <p className="m-0 mt-2 text-xs text-gray-text">
+        Archived todos can be restored from the Archived tab of your todo list.
+      </p>
+    </div>
+  );
+}
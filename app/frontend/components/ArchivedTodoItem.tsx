@@ -0,0 +1,53 @@
+import { Todo } from '../types/todo';
+import { HighlightedText } from './HighlightedText';
+import { LabelChip } from './LabelChip';
+
+interface ArchivedTodoItemProps {
+  todo: Todo;
+  onRestore: (todo: Todo) => void;
+  isRestoring?: boolean;
+  highlight?: string;
+}
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: date.getFullYear() !== new Date().getFullYear() ? 'numeric' : undefined,
+  });
+};
+
+export function ArchivedTodoItem({ todo, onRestore, isRestoring = false, highlight }: ArchivedTodoItemProps) {
+  return (
+    <div className="card mb-2 opacity-80">
+      <div className="p-3 flex items-start gap-3">
+        <div className="flex-1 min-w-0 flex flex-col gap-1">
+          <span className={`text-sm leading-relaxed text-gray-dark break-words ${todo.status === 'done' ? 'line-through text-gray-text' : ''}`}>
+            <HighlightedText text={todo.title} query={highlight} />
+          </span>
+          {todo.labels && todo.labels.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {todo.labels.map(label => (
+                <LabelChip key={label.id} label={label} />
+              ))}
+            </div>
+          )}
+          <span className="text-xs text-gray-text">
+            {todo.completed_at && `Completed ${formatDate(todo.completed_at)} · `}
+            {todo.archived_at && `Archived ${formatDate(todo.archived_at)}`}
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={() => onRestore(todo)}
+          disabled={isRestoring}
+          className="btn-outline py-1 px-2 text-xs shrink-0"
+          aria-label={`Restore ${todo.title}`}
+        >
+          Restore
+        </button>
+      </div>
+    </div>
+  );
+}
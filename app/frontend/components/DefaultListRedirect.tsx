@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { listsApi } from '../utils/listsApi';
+import { ErrorMessage } from './ErrorMessage';
+import { NetworkError, isNetworkError } from '../utils/networkError';
+
+// "/" has no list of its own, so it opens the first one, keeping any search in the URL
+export function DefaultListRedirect() {
+  const [listId, setListId] = useState<number | null>(null);
+  const [error, setError] = useState<string | Error | NetworkError | null>(null);
+  const location = useLocation();
+
+  const loadLists = useCallback(async () => {
+    setError(null);
+
+    try {
+      const lists = await listsApi.list();
+      if (lists.length === 0) {
+        setError('You have no lists yet.');
+        return;
+      }
+      setListId(lists[0].id);
+    } catch (err) {
+      console.error('List loading error:', err);
+      setError(err as Error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLists();
+  }, [loadLists]);
+
+  if (listId !== null) {
+    return <Navigate to={{ pathname: `/lists/${listId}`, search: location.search }} replace />;
+  }
+
+  if (error) {
+    return (
+      <ErrorMessage
+        error={error}
+        onRetry={isNetworkError(error) ? loadLists : undefined}
+        className="max-w-3xl mx-auto"
+      />
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center gap-2 py-8 text-gray-text text-sm">
+      <span className="spinner-sm border-gray-border-light border-t-primary" aria-hidden="true"></span>
+      Loading lists...
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { MarkdownContent } from './MarkdownContent';
+
+interface DescriptionEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onKeyDown?: (e: React.KeyboardEvent) => void;
+  disabled?: boolean;
+}
+
+type DescriptionTab = 'write' | 'preview';
+
+const DESCRIPTION_MAX_LENGTH = 10000;
+
+export function DescriptionEditor({ value, onChange, onKeyDown, disabled = false }: DescriptionEditorProps) {
+  const [tab, setTab] = useState<DescriptionTab>('write');
+
+  const tabClass = (name: DescriptionTab) =>
+    `py-1 px-2 text-xs border-none bg-transparent cursor-pointer border-b-2 ${tab === name ? 'border-primary text-primary font-medium' : 'border-transparent text-gray-text hover:text-gray-dark'}`;
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex gap-1" role="tablist" aria-label="Description mode">
+        <button type="button" role="tab" aria-selected={tab === 'write'} className={tabClass('write')} onClick={() => setTab('write')}>
+          Write
+        </button>
+        <button type="button" role="tab" aria-selected={tab === 'preview'} className={tabClass('preview')} onClick={() => setTab('preview')}>
+          Preview
+        </button>
+      </div>
+
+      {tab === 'write' ? (
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={onKeyDown}
+          className="input-field py-1.5 px-2 text-sm min-h-24 resize-y"
+          placeholder="Add notes… Markdown is supported"
+          disabled={disabled}
+          maxLength={DESCRIPTION_MAX_LENGTH}
+          aria-label="Description"
+        />
+      ) : (
+        <div className="min-h-24 py-1.5 px-2 border border-gray-border rounded" role="tabpanel" aria-label="Description preview">
+          {value.trim() ? (
+            <MarkdownContent source={value} />
+          ) : (
+            <p className="text-sm text-gray-text">Nothing to preview</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
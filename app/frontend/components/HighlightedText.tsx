@@ -0,0 +1,28 @@
+interface HighlightedTextProps {
+  text: string;
+  query?: string;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export function HighlightedText({ text, query = '' }: HighlightedTextProps) {
+  const trimmedQuery = query.trim();
+  if (!trimmedQuery) {
+    return <>{text}</>;
+  }
+
+  // Splitting on a capture group keeps the matches at the odd indexes
+  const parts = text.split(new RegExp(`(${escapeRegExp(trimmedQuery)})`, 'gi'));
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 text-inherit rounded-sm px-0.5">{part}</mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
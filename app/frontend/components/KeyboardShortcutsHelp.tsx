@@ -0,0 +1,64 @@
+import React, { useEffect, useRef } from 'react';
+import { KEYBOARD_SHORTCUTS } from '../utils/keyboardShortcuts';
+
+interface KeyboardShortcutsHelpProps {
+  onClose: () => void;
+}
+
+export function KeyboardShortcutsHelp({ onClose }: KeyboardShortcutsHelpProps) {
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    closeButtonRef.current?.focus();
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' || e.key === '?') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center p-4 bg-black/40"
+      onClick={onClose}
+    >
+      <div
+        className="card w-full max-w-sm p-4"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="keyboard-shortcuts-title"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h2 id="keyboard-shortcuts-title" className="m-0 text-gray-dark text-lg font-semibold">Keyboard shortcuts</h2>
+          <button
+            ref={closeButtonRef}
+            type="button"
+            className="bg-transparent border-none text-xl text-gray-text cursor-pointer p-0 leading-none hover:text-gray-dark"
+            onClick={onClose}
+            aria-label="Close keyboard shortcuts"
+          >
+            ×
+          </button>
+        </div>
+        <dl className="m-0 flex flex-col gap-2 text-sm">
+          {KEYBOARD_SHORTCUTS.map(shortcut => (
+            <div key={shortcut.description} className="flex items-center justify-between gap-4">
+              <dt className="flex gap-1 shrink-0">
+                {shortcut.keys.map(key => (
+                  <kbd key={key} className="py-0.5 px-1.5 border border-gray-border rounded bg-gray-light font-mono text-xs text-gray-dark">
+                    {key}
+                  </kbd>
+                ))}
+              </dt>
+              <dd className="m-0 text-right text-gray-text">{shortcut.description}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { Label } from '../types/label';
+import { getLabelTextColor } from '../utils/labelColors';
+
+interface LabelChipProps {
+  label: Label;
+  className?: string;
+}
+
+export function LabelChip({ label, className = '' }: LabelChipProps) {
+  return (
+    <span
+      className={`inline-flex items-center py-0.5 px-2 rounded-full text-xs font-medium leading-tight whitespace-nowrap ${className}`}
+      style={{ backgroundColor: label.color, color: getLabelTextColor(label.color) }}
+    >
+      {label.name}
+    </span>
+  );
+}
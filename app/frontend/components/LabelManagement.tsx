@@ -0,0 +1,222 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Label } from '../types/label';
+import { labelsApi } from '../utils/labelsApi';
+import { LABEL_COLORS } from '../utils/labelColors';
+import { ErrorMessage } from './ErrorMessage';
+import { LabelChip } from './LabelChip';
+import { NetworkError, isNetworkError } from '../utils/networkError';
+
+interface LabelManagementProps {
+  className?: string;
+}
+
+export function LabelManagement({ className = '' }: LabelManagementProps) {
+  const [labels, setLabels] = useState<Label[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editColor, setEditColor] = useState(LABEL_COLORS[0]);
+  const [error, setError] = useState<string | Error | NetworkError | null>(null);
+
+  const loadLabels = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setLabels(await labelsApi.list());
+    } catch (err) {
+      console.error('Label loading error:', err);
+      setError(err as Error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLabels();
+  }, [loadLabels]);
+
+  const handleEditStart = (label: Label) => {
+    setEditingId(label.id);
+    setEditName(label.name);
+    setEditColor(label.color);
+    setError(null);
+  };
+
+  const handleEditCancel = () => {
+    setEditingId(null);
+    setEditName('');
+  };
+
+  const handleEditSave = async (label: Label) => {
+    const trimmedName = editName.trim();
+
+    if (!trimmedName) {
+      setError('Label name cannot be empty');
+      return;
+    }
+
+    if (trimmedName === label.name && editColor === label.color) {
+      handleEditCancel();
+      return;
+    }
+
+    setBusyId(label.id);
+    setError(null);
+
+    try {
+      const updated = await labelsApi.update(label.id, { name: trimmedName, color: editColor });
+      setLabels(prevLabels =>
+        prevLabels
+          .map(item => (item.id === updated.id ? updated : item))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+      handleEditCancel();
+    } catch (err) {
+      console.error('Label update error:', err);
+      setError(err as Error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent, label: Label) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleEditSave(label);
+    } else if (e.key === 'Escape') {
+      handleEditCancel();
+    }
+  };
+
+  const handleDelete = async (label: Label) => {
+    if (busyId !== null) return;
+
+    if (!confirm(`Delete the "${label.name}" label? It will be removed from every todo.`)) {
+      return;
+    }
+
+    setBusyId(label.id);
+    setError(null);
+
+    try {
+      await labelsApi.destroy(label.id);
+      setLabels(prevLabels => prevLabels.filter(item => item.id !== label.id));
+    } catch (err) {
+      console.error('Label deletion error:', err);
+      setError(err as Error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const clearError = () => {
+    setError(null);
+  };
+
+  return (
+    <div className={className}>
+      <h2 className="m-0 mb-4 text-gray-dark text-xl font-semibold">Labels</h2>
+
+      {error && (
+        <ErrorMessage
+          error={error}
+          onDismiss={clearError}
+          onRetry={isNetworkError(error) ? loadLabels : undefined}
+        />
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 py-4 text-gray-text text-sm">
+          <span className="spinner-sm border-gray-border-light border-t-primary" aria-hidden="true"></span>
+          Loading labels...
+        </div>
+      ) : labels.length === 0 ? (
+        <p className="m-0 text-sm text-gray-text">
+          You have no labels yet. Create one from the Labels button when adding a todo.
+        </p>
+      ) : (
+        <ul className="list-none m-0 p-0 flex flex-col gap-2" aria-label="Your labels">
+          {labels.map(label => (
+            <li
+              key={label.id}
+              className="flex items-center gap-3 p-3 bg-gray-light rounded-lg border border-gray-border-light"
+            >
+              {editingId === label.id ? (
+                <div className="flex flex-1 flex-wrap items-center gap-2">
+                  <input
+                    type="text"
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    onKeyDown={(e) => handleEditKeyDown(e, label)}
+                    className="input-field flex-1 py-1.5 px-2 text-sm"
+                    aria-label="Label name"
+                    disabled={busyId === label.id}
+                    maxLength={50}
+                    autoFocus
+                  />
+                  <div className="flex gap-1">
+                    {LABEL_COLORS.map(color => (
+                      <button
+                        key={color}
+                        type="button"
+                        onClick={() => setEditColor(color)}
+                        className={`w-5 h-5 rounded-full border-2 cursor-pointer ${editColor === color ? 'border-gray-dark' : 'border-transparent'}`}
+                        style={{ backgroundColor: color }}
+                        aria-label={`Colour ${color}`}
+                        aria-pressed={editColor === color}
+                      />
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleEditSave(label)}
+                    disabled={busyId === label.id}
+                    className="btn-primary py-1 px-2 text-xs"
+                  >
+                    Save
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleEditCancel}
+                    disabled={busyId === label.id}
+                    className="btn-outline py-1 px-2 text-xs"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <div className="flex-1 min-w-0">
+                    <LabelChip label={label} />
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => handleEditStart(label)}
+                      disabled={busyId !== null}
+                      className="btn-outline py-1 px-2 text-xs"
+                      aria-label={`Edit ${label.name}`}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(label)}
+                      disabled={busyId !== null}
+                      className="btn-danger py-1 px-2 text-xs"
+                      aria-label={`Delete ${label.name}`}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
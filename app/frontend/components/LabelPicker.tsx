@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { Label } from '../types/label';
+import { labelsApi } from '../utils/labelsApi';
+import { LABEL_COLORS } from '../utils/labelColors';
+import { getUserFriendlyErrorMessage } from '../utils/networkError';
+import { LabelChip } from './LabelChip';
+
+interface LabelPickerProps {
+  selectedIds: number[];
+  onChange: (labelIds: number[]) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function LabelPicker({ selectedIds, onChange, disabled = false, className = '' }: LabelPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [labels, setLabels] = useState<Label[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState(LABEL_COLORS[0]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Labels are only fetched the first time the picker is opened
+  const loadLabels = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setLabels(await labelsApi.list());
+    } catch (err) {
+      console.error('Label loading error:', err);
+      setError(getUserFriendlyErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggleOpen = () => {
+    if (!isOpen && labels === null && !isLoading) {
+      loadLabels();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleToggleLabel = (labelId: number) => {
+    if (selectedIds.includes(labelId)) {
+      onChange(selectedIds.filter(id => id !== labelId));
+    } else {
+      onChange([...selectedIds, labelId]);
+    }
+  };
+
+  const handleCreate = async () => {
+    const trimmedName = newName.trim();
+    if (!trimmedName || isCreating) return;
+
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const label = await labelsApi.create({ name: trimmedName, color: newColor });
+      setLabels(prevLabels =>
+        [...(prevLabels || []), label].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      onChange([...selectedIds, label.id]);
+      setNewName('');
+    } catch (err) {
+      console.error('Label creation error:', err);
+      setError(getUserFriendlyErrorMessage(err));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleNewNameKeyDown = (e: React.KeyboardEvent) => {
+    // The picker sits inside todo forms, so Enter must not submit them
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleCreate();
+    }
+  };
+
+  return (
+    <div className={className}>
+      <button
+        type="button"
+        onClick={handleToggleOpen}
+        disabled={disabled}
+        className="btn-outline py-1 px-2 text-xs"
+        aria-expanded={isOpen}
+      >
+        <span aria-hidden="true">🏷️</span> Labels{selectedIds.length > 0 ? ` (${selectedIds.length})` : ''}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 p-3 bg-gray-light rounded-md border border-gray-border-light" role="group" aria-label="Labels">
+          {isLoading ? (
+            <p className="m-0 text-xs text-gray-text">Loading labels...</p>
+          ) : labels && labels.length > 0 ? (
+            <div className="flex flex-wrap gap-3 mb-3">
+              {labels.map(label => (
+                <label key={label.id} className="flex items-center gap-1.5 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(label.id)}
+                    onChange={() => handleToggleLabel(label.id)}
+                    disabled={disabled}
+                    aria-label={label.name}
+                  />
+                  <LabelChip label={label} />
+                </label>
+              ))}
+            </div>
+          ) : labels ? (
+            <p className="m-0 mb-3 text-xs text-gray-text">No labels yet. Create one below.</p>
+          ) : null}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={handleNewNameKeyDown}
+              className="input-field flex-1 py-1 px-2 text-xs"
+              placeholder="New label"
+              aria-label="New label name"
+              disabled={isCreating}
+              maxLength={50}
+            />
+            <div className="flex gap-1">
+              {LABEL_COLORS.map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => setNewColor(color)}
+                  className={`w-5 h-5 rounded-full border-2 cursor-pointer ${newColor === color ? 'border-gray-dark' : 'border-transparent'}`}
+                  style={{ backgroundColor: color }}
+                  aria-label={`Colour ${color}`}
+                  aria-pressed={newColor === color}
+                />
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={isCreating || !newName.trim()}
+              className="btn-secondary py-1 px-2 text-xs"
+            >
+              {isCreating ? 'Creating...' : 'Create'}
+            </button>
+          </div>
+
+          {error && (
+            <p className="m-0 mt-2 text-xs text-danger" role="alert">{error}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,24 @@
 import React from 'react';
-import { Outlet, Link, NavLink, useNavigate } from 'react-router-dom';
+import { Outlet, Link, NavLink, useMatch, useNavigate } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
+import { useToasts } from '../hooks/useToasts';
+import { OfflineIndicator } from './OfflineIndicator';
+import { UpdatePrompt } from './UpdatePrompt';
+import { ListSidebar } from './ListSidebar';
 
 export function Layout() {
   const { user, logout } = useAuth();
+  const { flushToasts } = useToasts();
   const navigate = useNavigate();
+  // "/" only redirects to a list, so every list counts as the Todos page
+  const listMatch = useMatch('/lists/:listId');
+  const boardMatch = useMatch('/lists/:listId/board');
+  // The board shows the list on screen, and the list view the board's list
+  const currentListId = listMatch?.params.listId ?? boardMatch?.params.listId;
 
   const handleLogout = async () => {
+    // Deletions still waiting for their undo toast need the session to reach the server
+    await flushToasts();
     await logout();
     navigate('/auth');
   };
@@ -20,7 +32,7 @@ export function Layout() {
           </Link>
           <nav className="flex items-center gap-8">
             <NavLink
-              to="/"
+              to={currentListId ? `/lists/${currentListId}` : '/'}
               className={({ isActive }) =>
                 `text-gray-text no-underline font-medium py-2 border-b-2 transition-all duration-200 hover:text-gray-dark ${
                   isActive ? 'text-primary border-primary' : 'border-transparent'
@@ -30,6 +42,16 @@ export function Layout() {
             >
               Todos
             </NavLink>
+            <NavLink
+              to={currentListId ? `/lists/${currentListId}/board` : '/board'}
+              className={({ isActive }) =>
+                `text-gray-text no-underline font-medium py-2 border-b-2 transition-all duration-200 hover:text-gray-dark ${
+                  isActive ? 'text-primary border-primary' : 'border-transparent'
+                }`
+              }
+            >
+              Board
+            </NavLink>
             <NavLink
               to="/account"
               className={({ isActive }) =>
@@ -41,6 +63,7 @@ export function Layout() {
               Account
             </NavLink>
             <div className="flex items-center gap-4">
+              <OfflineIndicator />
               <span className="text-gray-text text-sm">User #{user?.id}</span>
               <button
                 type="button"
@@ -53,10 +76,14 @@ export function Layout() {
           </nav>
         </div>
       </header>
+      <UpdatePrompt />
 
-      <main className="max-w-6xl mx-auto py-8 px-4">
-        <Outlet />
-      </main>
+      <div className="max-w-6xl mx-auto py-8 px-4 flex gap-8">
+        <ListSidebar />
+        <main className="flex-1 min-w-0">
+          <Outlet />
+        </main>
+      </div>
     </div>
   );
 }
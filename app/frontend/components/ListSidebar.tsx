@@ -0,0 +1,275 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { NavLink, useMatch, useNavigate } from 'react-router-dom';
+import { List } from '../types/list';
+import { listsApi } from '../utils/listsApi';
+import { ErrorMessage } from './ErrorMessage';
+import { NetworkError, isNetworkError } from '../utils/networkError';
+import { useListDropTarget } from '../hooks/useTodoDrag';
+import { useToasts } from '../hooks/useToasts';
+
+interface ListSidebarProps {
+  className?: string;
+}
+
+interface ListLinkProps {
+  list: List;
+  to: string;
+}
+
+// Each entry is also where a todo dragged in the list can be dropped
+function ListLink({ list, to }: ListLinkProps) {
+  const { setNodeRef, isOver } = useListDropTarget(list);
+
+  return (
+    <NavLink
+      ref={setNodeRef}
+      to={to}
+      className={({ isActive }) =>
+        `flex-1 min-w-0 truncate py-1.5 px-2 rounded no-underline text-sm transition-colors duration-200 hover:bg-white ${
+          isActive ? 'bg-white text-primary font-medium' : 'text-gray-dark'
+        } ${isOver ? 'ring-2 ring-primary bg-white' : ''}`
+      }
+    >
+      {list.name}
+    </NavLink>
+  );
+}
+
+export function ListSidebar({ className = '' }: ListSidebarProps) {
+  const [lists, setLists] = useState<List[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [newName, setNewName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editName, setEditName] = useState('');
+  const [error, setError] = useState<string | Error | NetworkError | null>(null);
+  const { showToast } = useToasts();
+  const navigate = useNavigate();
+  const listMatch = useMatch('/lists/:listId');
+  const boardMatch = useMatch('/lists/:listId/board');
+  const isBoard = useMatch('/board') !== null || boardMatch !== null;
+  const currentListId = Number((listMatch ?? boardMatch)?.params.listId);
+  // Switching lists keeps the current view, list or board
+  const listPath = (list: List) => (isBoard ? `/lists/${list.id}/board` : `/lists/${list.id}`);
+
+  const loadLists = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setLists(await listsApi.list());
+    } catch (err) {
+      console.error('List loading error:', err);
+      setError(err as Error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLists();
+  }, [loadLists]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmedName = newName.trim();
+    if (!trimmedName || isCreating) return;
+
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const list = await listsApi.create({ name: trimmedName });
+      setLists(prevLists => [...prevLists, list]);
+      setNewName('');
+      navigate(listPath(list));
+    } catch (err) {
+      console.error('List creation error:', err);
+      setError(err as Error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleEditStart = (list: List) => {
+    setEditingId(list.id);
+    setEditName(list.name);
+    setError(null);
+  };
+
+  const handleEditCancel = () => {
+    setEditingId(null);
+    setEditName('');
+  };
+
+  const handleEditSave = async (list: List) => {
+    const trimmedName = editName.trim();
+
+    if (!trimmedName) {
+      setError('List name cannot be empty');
+      return;
+    }
+
+    if (trimmedName === list.name) {
+      handleEditCancel();
+      return;
+    }
+
+    setBusyId(list.id);
+    setError(null);
+
+    try {
+      const updated = await listsApi.update(list.id, { name: trimmedName });
+      setLists(prevLists => prevLists.map(item => (item.id === updated.id ? updated : item)));
+      handleEditCancel();
+    } catch (err) {
+      console.error('List update error:', err);
+      setError(err as Error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent, list: List) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleEditSave(list);
+    } else if (e.key === 'Escape') {
+      handleEditCancel();
+    }
+  };
+
+  // No confirmation: the list disappears at once and an undo toast offers it back.
+  // It is deleted on the server, todos and all, only once the toast expires
+  const handleDelete = (list: List) => {
+    if (busyId !== null) return;
+
+    const index = lists.findIndex(item => item.id === list.id);
+    const remainingLists = lists.filter(item => item.id !== list.id);
+    const wasShown = list.id === currentListId;
+    setLists(remainingLists);
+    setError(null);
+    // The list on screen is gone, so show the first one left instead
+    if (wasShown && remainingLists.length > 0) {
+      navigate(listPath(remainingLists[0]), { replace: true });
+    }
+
+    const restore = () => {
+      setLists(prevLists => {
+        const restored = prevLists.filter(item => item.id !== list.id);
+        restored.splice(Math.min(index, restored.length), 0, list);
+        return restored;
+      });
+    };
+
+    showToast({
+      message: `Deleted the "${list.name}" list and its todos`,
+      actionLabel: 'Undo',
+      onAction: () => {
+        restore();
+        if (wasShown) {
+          navigate(listPath(list), { replace: true });
+        }
+      },
+      onExpire: async () => {
+        try {
+          await listsApi.destroy(list.id);
+        } catch (err) {
+          console.error('List deletion error:', err);
+          restore();
+          setError(err as Error);
+        }
+      },
+    });
+  };
+
+  const clearError = () => {
+    setError(null);
+  };
+
+  return (
+    <aside className={`w-56 shrink-0 ${className}`} aria-label="Lists">
+      <h2 className="m-0 mb-3 text-gray-text text-xs font-semibold uppercase tracking-wide">Lists</h2>
+
+      {error && (
+        <ErrorMessage
+          error={error}
+          onDismiss={clearError}
+          onRetry={isNetworkError(error) ? loadLists : undefined}
+          className="mb-3"
+        />
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 py-2 text-gray-text text-sm">
+          <span className="spinner-sm border-gray-border-light border-t-primary" aria-hidden="true"></span>
+          Loading lists...
+        </div>
+      ) : (
+        <ul className="list-none m-0 mb-3 p-0 flex flex-col gap-1">
+          {lists.map(list => (
+            <li key={list.id} className="group flex items-center gap-1">
+              {editingId === list.id ? (
+                <input
+                  type="text"
+                  value={editName}
+                  onChange={(e) => setEditName(e.target.value)}
+                  onKeyDown={(e) => handleEditKeyDown(e, list)}
+                  className="input-field flex-1 py-1 px-2 text-sm"
+                  aria-label="List name"
+                  disabled={busyId === list.id}
+                  maxLength={50}
+                  autoFocus
+                />
+              ) : (
+                <>
+                  <ListLink list={list} to={listPath(list)} />
+                  <button
+                    type="button"
+                    onClick={() => handleEditStart(list)}
+                    disabled={busyId !== null}
+                    className="w-6 h-6 border-none bg-transparent cursor-pointer rounded text-xs opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-white"
+                    aria-label={`Rename ${list.name}`}
+                  >
+                    ✏️
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(list)}
+                    disabled={busyId !== null || lists.length === 1}
+                    className="w-6 h-6 border-none bg-transparent cursor-pointer rounded text-xs opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-danger-bg disabled:hidden"
+                    aria-label={`Delete ${list.name}`}
+                  >
+                    🗑️
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleCreate} className="flex gap-1">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New list"
+          className="input-field flex-1 min-w-0 py-1 px-2 text-sm"
+          aria-label="New list name"
+          disabled={isCreating}
+          maxLength={50}
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim() || isCreating}
+          className="btn-outline py-1 px-2 text-xs"
+        >
+          Add
+        </button>
+      </form>
+    </aside>
+  );
+}
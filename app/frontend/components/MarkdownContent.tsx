@@ -0,0 +1,80 @@
+import { ReactNode } from 'react';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '../utils/markdown';
+
+interface MarkdownContentProps {
+  source: string;
+  className?: string;
+}
+
+const HEADING_CLASSES = ['text-base font-semibold', 'text-sm font-semibold', 'text-sm font-medium'];
+
+function renderInline(nodes: MarkdownInline[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'code':
+        return <code key={index} className="px-1 rounded bg-gray-light font-mono text-xs">{node.text}</code>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-primary underline break-all">
+            {renderInline(node.children)}
+          </a>
+        );
+      case 'break':
+        return <br key={index} />;
+    }
+  });
+}
+
+function renderBlocks(blocks: MarkdownBlock[]): ReactNode[] {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading': {
+        const Heading = `h${Math.min(block.level + 2, 6)}` as 'h3' | 'h4' | 'h5' | 'h6';
+        return (
+          <Heading key={index} className={`${HEADING_CLASSES[Math.min(block.level, 3) - 1]} text-gray-dark`}>
+            {renderInline(block.children)}
+          </Heading>
+        );
+      }
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children)}</p>;
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>);
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="list-decimal pl-5">{items}</ol>
+        ) : (
+          <ul key={index} className="list-disc pl-5">{items}</ul>
+        );
+      }
+      case 'code':
+        return (
+          <pre key={index} className="p-2 rounded bg-gray-light font-mono text-xs overflow-x-auto">
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'quote':
+        return (
+          <blockquote key={index} className="pl-3 border-l-2 border-gray-border text-gray-text flex flex-col gap-2">
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+      case 'rule':
+        return <hr key={index} className="border-gray-border" />;
+    }
+  });
+}
+
+// Renders Markdown as React elements only, never as raw HTML, so the output cannot run script
+export function MarkdownContent({ source, className = '' }: MarkdownContentProps) {
+  return (
+    <div className={`flex flex-col gap-2 text-sm leading-relaxed text-gray-dark break-words ${className}`}>
+      {renderBlocks(parseMarkdown(source))}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { List } from '../types/list';
+import { listsApi } from '../utils/listsApi';
+import { getUserFriendlyErrorMessage } from '../utils/networkError';
+
+interface MoveToListMenuProps {
+  // The list the todo is in now, which is left out of the choices
+  currentListId?: number;
+  onSelect: (list: List) => void;
+  className?: string;
+}
+
+export function MoveToListMenu({ currentListId, onSelect, className = '' }: MoveToListMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [lists, setLists] = useState<List[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Lists can be added or renamed in the sidebar at any time, so they are fetched on every open
+  const loadLists = async () => {
+    setLists(null);
+    setError(null);
+
+    try {
+      setLists(await listsApi.list());
+    } catch (err) {
+      console.error('List loading error:', err);
+      setError(getUserFriendlyErrorMessage(err));
+    }
+  };
+
+  const handleToggleOpen = () => {
+    if (!isOpen) {
+      loadLists();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleSelect = (list: List) => {
+    setIsOpen(false);
+    onSelect(list);
+  };
+
+  const otherLists = (lists || []).filter(list => list.id !== currentListId);
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        type="button"
+        onClick={handleToggleOpen}
+        className="w-8 h-8 border-none bg-transparent cursor-pointer rounded flex items-center justify-center text-sm transition-colors duration-200 hover:bg-gray-light"
+        aria-label="Move to…"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        📂
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute right-0 top-full z-10 mt-1 min-w-40 py-1 bg-white border border-gray-border rounded-md shadow-md"
+          role="menu"
+          aria-label="Move to list"
+        >
+          {error ? (
+            <p className="m-0 py-1.5 px-3 text-xs text-danger" role="alert">{error}</p>
+          ) : lists === null ? (
+            <p className="m-0 py-1.5 px-3 text-xs text-gray-text">Loading lists...</p>
+          ) : otherLists.length === 0 ? (
+            <p className="m-0 py-1.5 px-3 text-xs text-gray-text">No other lists yet</p>
+          ) : (
+            otherLists.map(list => (
+              <button
+                key={list.id}
+                type="button"
+                role="menuitem"
+                onClick={() => handleSelect(list)}
+                className="block w-full py-1.5 px-3 border-none bg-transparent text-left text-sm text-gray-dark cursor-pointer hover:bg-gray-light"
+              >
+                {list.name}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { useOfflineSync } from '../hooks/useOfflineSync';
+import { syncOfflineChanges } from '../utils/todosApi';
+
+export function OfflineIndicator() {
+  const { isOnline, pendingCount, isSyncing } = useOfflineSync();
+
+  if (isOnline && pendingCount === 0) {
+    return null;
+  }
+
+  const changes = pendingCount === 1 ? '1 change' : `${pendingCount} changes`;
+
+  return (
+    <div
+      className="flex items-center gap-2 py-1 px-3 rounded-full bg-warning-bg border border-warning-border text-warning-text text-xs font-medium"
+      role="status"
+    >
+      {!isOnline ? (
+        <span>{pendingCount > 0 ? `Offline · ${changes} waiting to sync` : 'Offline'}</span>
+      ) : isSyncing ? (
+        <span>Syncing {changes}…</span>
+      ) : (
+        <>
+          <span>{changes} waiting to sync</span>
+          {/* The server may have been unreachable while the browser still counted as online */}
+          <button
+            type="button"
+            className="bg-transparent border-none p-0 text-xs font-semibold text-warning-text underline cursor-pointer"
+            onClick={() => syncOfflineChanges()}
+          >
+            Sync now
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import React from 'react';
-import { useAuth } from '../hooks/useAuth';
+import React, { useState, useEffect } from 'react';
+import { useAuth, isConditionalMediationAvailable } from '../hooks/useAuth';
 
 interface PasskeyAuthenticationProps {
   onSuccess?: () => void;
@@ -8,6 +8,19 @@ interface PasskeyAuthenticationProps {
 
 export function PasskeyAuthentication({ onSuccess, className = '' }: PasskeyAuthenticationProps) {
   const { login, isLoading, error, clearError } = useAuth();
+  const [supportsAutofill, setSupportsAutofill] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    isConditionalMediationAvailable().then(available => {
+      if (!cancelled) {
+        setSupportsAutofill(available);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   const handleLogin = async () => {
     clearError();
@@ -39,6 +52,24 @@ export function PasskeyAuthentication({ onSuccess, className = '' }: PasskeyAuth
           </div>
         )}
 
+        {supportsAutofill && (
+          <div className="mb-4">
+            <label htmlFor="passkey-autofill" className="block mb-2 font-medium text-gray-dark text-sm">
+              Saved passkeys
+            </label>
+            {/* "webauthn" lets the browser list this site's passkeys in the autofill dropdown */}
+            <input
+              id="passkey-autofill"
+              type="text"
+              name="username"
+              autoComplete="username webauthn"
+              placeholder="Select a passkey from autofill"
+              className="input-field"
+              disabled={isLoading}
+            />
+          </div>
+        )}
+
         <div className="mb-6">
           <button
             type="button"
@@ -0,0 +1,273 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import { Passkey } from '../types/auth';
+import { ErrorMessage } from './ErrorMessage';
+import { NetworkError, isNetworkError } from '../utils/networkError';
+
+interface PasskeyManagementProps {
+  className?: string;
+}
+
+export function PasskeyManagement({ className = '' }: PasskeyManagementProps) {
+  const { listPasskeys, addPasskey, renamePasskey, removePasskey } = useAuth();
+  const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newNickname, setNewNickname] = useState('');
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editNickname, setEditNickname] = useState('');
+  const [error, setError] = useState<string | Error | NetworkError | null>(null);
+
+  const loadPasskeys = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setPasskeys(await listPasskeys());
+    } catch (err) {
+      console.error('Passkey loading error:', err);
+      setError(err as Error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [listPasskeys]);
+
+  useEffect(() => {
+    loadPasskeys();
+  }, [loadPasskeys]);
+
+  const handleAdd = async () => {
+    if (isAdding) return;
+
+    setIsAdding(true);
+    setError(null);
+
+    try {
+      const passkey = await addPasskey(newNickname.trim() || undefined);
+      setPasskeys(prevPasskeys => [...prevPasskeys, passkey]);
+      setNewNickname('');
+    } catch (err) {
+      console.error('Passkey registration error:', err);
+      setError(err as Error);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleEditStart = (passkey: Passkey) => {
+    setEditingId(passkey.id);
+    setEditNickname(passkey.nickname || '');
+    setError(null);
+  };
+
+  const handleEditCancel = () => {
+    setEditingId(null);
+    setEditNickname('');
+  };
+
+  const handleEditSave = async (passkey: Passkey) => {
+    const trimmedNickname = editNickname.trim();
+
+    if (trimmedNickname === (passkey.nickname || '')) {
+      handleEditCancel();
+      return;
+    }
+
+    setBusyId(passkey.id);
+    setError(null);
+
+    try {
+      const updated = await renamePasskey(passkey.id, trimmedNickname);
+      setPasskeys(prevPasskeys =>
+        prevPasskeys.map(item => (item.id === updated.id ? updated : item))
+      );
+      handleEditCancel();
+    } catch (err) {
+      console.error('Passkey rename error:', err);
+      setError(err as Error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent, passkey: Passkey) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleEditSave(passkey);
+    } else if (e.key === 'Escape') {
+      handleEditCancel();
+    }
+  };
+
+  const handleRemove = async (passkey: Passkey) => {
+    if (busyId !== null || passkeys.length <= 1) return;
+
+    if (!confirm(`Remove "${passkey.nickname || 'Unnamed passkey'}"? You will no longer be able to sign in with it.`)) {
+      return;
+    }
+
+    setBusyId(passkey.id);
+    setError(null);
+
+    try {
+      await removePasskey(passkey.id);
+      setPasskeys(prevPasskeys => prevPasskeys.filter(item => item.id !== passkey.id));
+    } catch (err) {
+      console.error('Passkey removal error:', err);
+      setError(err as Error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const clearError = () => {
+    setError(null);
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  const isLastPasskey = passkeys.length <= 1;
+
+  return (
+    <div className={className}>
+      <h2 className="m-0 mb-4 text-gray-dark text-xl font-semibold">Passkeys</h2>
+
+      {error && (
+        <ErrorMessage
+          error={error}
+          onDismiss={clearError}
+          onRetry={isNetworkError(error) ? loadPasskeys : undefined}
+        />
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 py-4 text-gray-text text-sm">
+          <span className="spinner-sm border-gray-border-light border-t-primary" aria-hidden="true"></span>
+          Loading passkeys...
+        </div>
+      ) : (
+        <ul className="list-none m-0 p-0 flex flex-col gap-2" aria-label="Registered passkeys">
+          {passkeys.map(passkey => (
+            <li
+              key={passkey.id}
+              className="flex items-center gap-3 p-4 bg-gray-light rounded-lg border border-gray-border-light"
+            >
+              <span className="text-2xl shrink-0" aria-hidden="true">🔑</span>
+
+              <div className="flex-1 min-w-0">
+                {editingId === passkey.id ? (
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={editNickname}
+                      onChange={(e) => setEditNickname(e.target.value)}
+                      onKeyDown={(e) => handleEditKeyDown(e, passkey)}
+                      className="input-field py-1.5 px-2 text-sm"
+                      placeholder="e.g. Work laptop"
+                      aria-label="Passkey nickname"
+                      disabled={busyId === passkey.id}
+                      maxLength={64}
+                      autoFocus
+                    />
+                    <button
+                      type="button"
+                      onClick={() => handleEditSave(passkey)}
+                      disabled={busyId === passkey.id}
+                      className="btn-primary py-1 px-2 text-xs"
+                    >
+                      Save
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleEditCancel}
+                      disabled={busyId === passkey.id}
+                      className="btn-outline py-1 px-2 text-xs"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex flex-col gap-1">
+                    <span className="text-base text-gray-dark font-medium break-words">
+                      {passkey.nickname || 'Unnamed passkey'}
+                    </span>
+                    <span className="text-xs text-gray-text">
+                      Added {formatDate(passkey.created_at)}
+                      {' · '}
+                      {passkey.last_used_at ? `Last used ${formatDate(passkey.last_used_at)}` : 'Never used'}
+                    </span>
+                  </div>
+                )}
+              </div>
+
+              {editingId !== passkey.id && (
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => handleEditStart(passkey)}
+                    disabled={busyId !== null}
+                    className="btn-outline py-1 px-2 text-xs"
+                    aria-label={`Rename ${passkey.nickname || 'unnamed passkey'}`}
+                  >
+                    Rename
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(passkey)}
+                    disabled={busyId !== null || isLastPasskey}
+                    className="btn-danger py-1 px-2 text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+                    aria-label={`Remove ${passkey.nickname || 'unnamed passkey'}`}
+                    title={isLastPasskey ? 'You cannot remove your only passkey' : undefined}
+                  >
+                    Remove
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2 mt-4">
+        <input
+          type="text"
+          value={newNickname}
+          onChange={(e) => setNewNickname(e.target.value)}
+          className="input-field flex-1"
+          placeholder="Nickname for the new passkey (optional)"
+          aria-label="New passkey nickname"
+          disabled={isAdding}
+          maxLength={64}
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={isAdding || isLoading}
+          className="btn-secondary whitespace-nowrap"
+        >
+          {isAdding ? (
+            <>
+              <span className="spinner-sm" aria-hidden="true"></span>
+              Adding...
+            </>
+          ) : (
+            'Add a Passkey'
+          )}
+        </button>
+      </div>
+      {isLastPasskey && !isLoading && (
+        <p className="m-0 mt-2 text-left text-xs text-gray-text">
+          Add a passkey on a second device so you can still sign in if this one is lost.
+        </p>
+      )}
+    </div>
+  );
+}
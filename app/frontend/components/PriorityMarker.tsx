@@ -0,0 +1,21 @@
+import { TodoPriority } from '../types/todo';
+import { getPriority } from '../utils/priorities';
+
+interface PriorityMarkerProps {
+  priority?: TodoPriority;
+  className?: string;
+}
+
+export function PriorityMarker({ priority, className = '' }: PriorityMarkerProps) {
+  const { label, color } = getPriority(priority);
+
+  return (
+    <span
+      className={`inline-block w-2.5 h-2.5 rounded-full flex-shrink-0 ${className}`}
+      style={{ backgroundColor: color }}
+      role="img"
+      aria-label={`${label} priority`}
+      title={`${label} priority`}
+    />
+  );
+}
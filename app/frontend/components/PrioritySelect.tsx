@@ -0,0 +1,27 @@
+import { TodoPriority } from '../types/todo';
+import { PRIORITIES } from '../utils/priorities';
+
+interface PrioritySelectProps {
+  value: TodoPriority;
+  onChange: (priority: TodoPriority) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function PrioritySelect({ value, onChange, disabled = false, className = '' }: PrioritySelectProps) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as TodoPriority)}
+      className={`input-field w-auto! ${className}`}
+      disabled={disabled}
+      aria-label="Priority"
+    >
+      {PRIORITIES.map(priority => (
+        <option key={priority.value} value={priority.value}>
+          {priority.label} priority
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,53 @@
+import { QuickAdd } from '../utils/quickAdd';
+import { getPriority } from '../utils/priorities';
+import { describeRecurrence } from '../utils/recurrence';
+import { LabelChip } from './LabelChip';
+
+interface QuickAddPreviewProps {
+  parsed: QuickAdd;
+  className?: string;
+}
+
+const chipClass = 'inline-flex items-center gap-1 py-0.5 px-2 rounded-full border border-gray-border-light bg-gray-light text-xs text-gray-dark whitespace-nowrap';
+
+// Times are only shown when one was typed; a bare day is due by its end
+function formatDue(dueAt: string) {
+  const date = new Date(dueAt);
+  const day = date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  const endOfDay = date.getHours() === 23 && date.getMinutes() === 59 && date.getSeconds() === 59;
+  return endOfDay ? day : `${day}, ${date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`;
+}
+
+// What the quick-add line will set besides the title, shown while it is typed
+export function QuickAddPreview({ parsed, className = '' }: QuickAddPreviewProps) {
+  const { dueAt, labels, priority, recurrence } = parsed;
+  if (!dueAt && labels.length === 0 && !priority && !recurrence) {
+    return null;
+  }
+
+  return (
+    <ul className={`flex flex-wrap items-center gap-1 m-0 p-0 list-none ${className}`} aria-label="Quick add preview">
+      {dueAt && (
+        <li className={chipClass}>
+          <span aria-hidden="true">📅</span> Due {formatDue(dueAt)}
+        </li>
+      )}
+      {priority && (
+        <li className={chipClass}>
+          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: getPriority(priority).color }} aria-hidden="true"></span>
+          {getPriority(priority).label} priority
+        </li>
+      )}
+      {recurrence && (
+        <li className={chipClass}>
+          <span aria-hidden="true">🔁</span> {describeRecurrence(recurrence)}
+        </li>
+      )}
+      {labels.map(label => (
+        <li key={label.id} className="flex">
+          <LabelChip label={label} />
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,106 @@
+import { TodoRecurrence } from '../types/todo';
+import { RecurrenceFrequency, WEEKDAYS, defaultRecurrence } from '../utils/recurrence';
+
+interface RecurrencePickerProps {
+  value: TodoRecurrence | null;
+  onChange: (recurrence: TodoRecurrence | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const FREQUENCIES: { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'daily', label: 'Repeats daily' },
+  { value: 'weekly', label: 'Repeats weekly' },
+  { value: 'monthly', label: 'Repeats monthly' },
+];
+
+// Out-of-range numbers are left for the server to turn down, so typing is never fought
+const toNumber = (value: string) => Number.parseInt(value, 10) || 0;
+
+export function RecurrencePicker({ value, onChange, disabled = false, className = '' }: RecurrencePickerProps) {
+  const handleFrequencyChange = (frequency: string) => {
+    onChange(frequency ? defaultRecurrence(frequency as RecurrenceFrequency) : null);
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    if (value?.frequency !== 'weekly') return;
+
+    const weekdays = value.weekdays.includes(weekday)
+      ? value.weekdays.filter(day => day !== weekday)
+      : [...value.weekdays, weekday].sort((a, b) => a - b);
+    onChange({ ...value, weekdays });
+  };
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 text-sm ${className}`}>
+      <select
+        value={value?.frequency ?? ''}
+        onChange={(e) => handleFrequencyChange(e.target.value)}
+        className="input-field w-auto! py-1! text-sm"
+        disabled={disabled}
+        aria-label="Repeat"
+      >
+        <option value="">Doesn't repeat</option>
+        {FREQUENCIES.map(frequency => (
+          <option key={frequency.value} value={frequency.value}>
+            {frequency.label}
+          </option>
+        ))}
+      </select>
+
+      {value?.frequency === 'daily' && (
+        <label className="flex items-center gap-1 text-gray-text">
+          every
+          <input
+            type="number"
+            min={1}
+            max={365}
+            value={value.interval}
+            onChange={(e) => onChange({ ...value, interval: toNumber(e.target.value) })}
+            className="input-field w-16! py-1! text-sm"
+            disabled={disabled}
+            aria-label="Days between repeats"
+          />
+          days
+        </label>
+      )}
+
+      {value?.frequency === 'weekly' && (
+        <div className="flex gap-1" role="group" aria-label="Repeat on">
+          {WEEKDAYS.map((name, weekday) => {
+            const selected = value.weekdays.includes(weekday);
+            return (
+              <button
+                key={name}
+                type="button"
+                onClick={() => toggleWeekday(weekday)}
+                className={`w-7 h-7 rounded-full border text-xs cursor-pointer ${selected ? 'bg-primary border-primary text-white' : 'bg-white border-gray-border text-gray-dark hover:border-primary'}`}
+                disabled={disabled}
+                aria-pressed={selected}
+                aria-label={name}
+              >
+                {name[0]}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {value?.frequency === 'monthly' && (
+        <label className="flex items-center gap-1 text-gray-text">
+          on day
+          <input
+            type="number"
+            min={1}
+            max={31}
+            value={value.day}
+            onChange={(e) => onChange({ ...value, day: toNumber(e.target.value) })}
+            className="input-field w-16! py-1! text-sm"
+            disabled={disabled}
+            aria-label="Day of the month"
+          />
+        </label>
+      )}
+    </div>
+  );
+}
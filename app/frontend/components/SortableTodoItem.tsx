@@ -3,19 +3,27 @@ import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { Todo } from '../types/todo';
 import { TodoItem } from './TodoItem';
+import { TodoSelectCheckbox } from './TodoSelectCheckbox';
 
 interface SortableTodoItemProps {
   todo: Todo;
   onTodoUpdated?: (todo: Todo) => void;
-  onTodoDeleted?: (todoId: number) => void;
   isDragging?: boolean;
+  // Pass onSelectToggle to show a selection checkbox
+  isSelected?: boolean;
+  onSelectToggle?: (todo: Todo, extendRange: boolean) => void;
+  isFocused?: boolean;
+  onFocus?: (todo: Todo) => void;
 }
 
 export function SortableTodoItem({
   todo,
   onTodoUpdated,
-  onTodoDeleted,
-  isDragging = false
+  isDragging = false,
+  isSelected = false,
+  onSelectToggle,
+  isFocused = false,
+  onFocus,
 }: SortableTodoItemProps) {
   const {
     attributes,
@@ -34,6 +42,10 @@ export function SortableTodoItem({
 
   return (
     <div ref={setNodeRef} style={style} className="flex items-start gap-2 mb-2">
+      {onSelectToggle && (
+        <TodoSelectCheckbox todo={todo} isSelected={isSelected} onToggle={onSelectToggle} />
+      )}
+
       <div
         className="flex items-center justify-center w-6 h-10 cursor-grab text-gray-text rounded transition-all duration-200 mt-3 hover:bg-gray-light hover:text-gray-dark active:cursor-grabbing"
         {...attributes}
@@ -46,8 +58,9 @@ export function SortableTodoItem({
         <TodoItem
           todo={todo}
           onTodoUpdated={onTodoUpdated}
-          onTodoDeleted={onTodoDeleted}
           className={isDragging ? 'shadow-lg rotate-2' : ''}
+          isFocused={isFocused}
+          onFocus={onFocus}
         />
       </div>
     </div>
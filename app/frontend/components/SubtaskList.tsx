@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { Todo } from '../types/todo';
+import { Subtask } from '../types/subtask';
+import { useTodoStore } from '../hooks/useTodoStore';
+import { subtasksApi } from '../utils/subtasksApi';
+import { getUserFriendlyErrorMessage } from '../utils/networkError';
+
+interface SubtaskListProps {
+  todo: Todo;
+  // Receives the parent todo after every change, with its subtasks and status
+  onTodoUpdated: (todo: Todo) => void;
+}
+
+export function SubtaskList({ todo, onTodoUpdated }: SubtaskListProps) {
+  const [newTitle, setNewTitle] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { addTodo, updateTodo } = useTodoStore();
+
+  const subtasks = todo.subtasks || [];
+
+  const run = async (request: () => Promise<Todo>): Promise<boolean> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      // Checking off the last subtask can complete a repeating todo and schedule its next occurrence
+      const { next_occurrence: nextOccurrence, ...updatedTodo } = await request();
+      onTodoUpdated(updatedTodo);
+      if (nextOccurrence) {
+        addTodo(nextOccurrence);
+      }
+      return true;
+    } catch (err) {
+      console.error('Subtask update error:', err);
+      setError(getUserFriendlyErrorMessage(err));
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const trimmedTitle = newTitle.trim();
+    if (!trimmedTitle || isLoading) return;
+
+    const success = await run(() => subtasksApi.create(todo.id, { title: trimmedTitle }));
+    if (success) {
+      setNewTitle('');
+    }
+  };
+
+  const handleAddKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleAdd();
+    }
+  };
+
+  const handleToggle = (subtask: Subtask) => {
+    run(() => subtasksApi.update(todo.id, subtask.id, { done: !subtask.done }));
+  };
+
+  const handleDelete = (subtask: Subtask) => {
+    run(() => subtasksApi.destroy(todo.id, subtask.id));
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const ids = subtasks.map(subtask => subtask.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+
+    run(() => subtasksApi.reorder(todo.id, ids));
+  };
+
+  // An edit to the todo itself, so it goes through the store: the box flips at once and
+  // the request waits for any other change to the todo still on its way
+  const handleAutoCompleteChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const enabled = e.target.checked;
+    setError(null);
+
+    try {
+      const { next_occurrence: _nextOccurrence, ...updatedTodo } = await updateTodo(todo, { complete_with_subtasks: enabled });
+      onTodoUpdated(updatedTodo);
+    } catch (err) {
+      console.error('Subtask update error:', err);
+      setError(getUserFriendlyErrorMessage(err));
+    }
+  };
+
+  const iconButtonClass =
+    'w-6 h-6 border-none bg-transparent cursor-pointer rounded flex items-center justify-center text-xs text-gray-text transition-colors duration-200 hover:bg-gray-light disabled:cursor-not-allowed disabled:opacity-40';
+
+  return (
+    <div className="flex flex-col gap-2 mt-2 pl-8">
+      {subtasks.length > 0 && (
+        <ul className="flex flex-col gap-1" aria-label={`Subtasks of ${todo.title}`}>
+          {subtasks.map((subtask, index) => (
+            <li key={subtask.id} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={subtask.done}
+                onChange={() => handleToggle(subtask)}
+                disabled={isLoading}
+                aria-label={subtask.title}
+                className="cursor-pointer"
+              />
+              <span className={`flex-1 min-w-0 break-words ${subtask.done ? 'line-through text-gray-text' : 'text-gray-dark'}`}>
+                {subtask.title}
+              </span>
+              <button
+                type="button"
+                onClick={() => handleMove(index, -1)}
+                disabled={isLoading || index === 0}
+                className={iconButtonClass}
+                aria-label={`Move ${subtask.title} up`}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => handleMove(index, 1)}
+                disabled={isLoading || index === subtasks.length - 1}
+                className={iconButtonClass}
+                aria-label={`Move ${subtask.title} down`}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(subtask)}
+                disabled={isLoading}
+                className={iconButtonClass}
+                aria-label={`Delete subtask ${subtask.title}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <input
+        type="text"
+        value={newTitle}
+        onChange={(e) => setNewTitle(e.target.value)}
+        onKeyDown={handleAddKeyDown}
+        placeholder="Add a subtask and press Enter"
+        className="input-field py-1 px-2 text-sm"
+        disabled={isLoading}
+        maxLength={255}
+        aria-label="Add a subtask"
+      />
+
+      <label className="flex items-center gap-2 text-xs text-gray-text cursor-pointer">
+        <input
+          type="checkbox"
+          checked={!!todo.complete_with_subtasks}
+          onChange={handleAutoCompleteChange}
+          disabled={isLoading}
+        />
+        Complete this todo when every subtask is done
+      </label>
+
+      {error && (
+        <div className="error-alert py-2 px-3 flex items-center justify-between text-sm" role="alert">
+          <span className="flex-1">{error}</span>
+          <button
+            type="button"
+            className="bg-transparent border-none text-lg text-danger cursor-pointer p-0 leading-none ml-2 hover:text-danger-hover"
+            onClick={() => setError(null)}
+            aria-label="Dismiss subtask error"
+          >
+            ×
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { Toast } from '../hooks/useToasts';
+
+interface ToastStackProps {
+  toasts: Toast[];
+  onAction: (id: number) => void;
+  onDismiss: (id: number) => void;
+}
+
+export function ToastStack({ toasts, onAction, onDismiss }: ToastStackProps) {
+  return (
+    <div
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex flex-col gap-2 w-[calc(100%-2rem)] max-w-sm"
+      aria-live="polite"
+    >
+      {toasts.map(toast => (
+        <div
+          key={toast.id}
+          className={`flex items-center gap-3 py-3 px-4 rounded-lg shadow-lg text-sm text-white ${
+            toast.variant === 'error' ? 'bg-danger' : 'bg-gray-dark'
+          }`}
+          role="status"
+        >
+          <span className="flex-1">{toast.message}</span>
+          {toast.actionLabel && (
+            <button
+              type="button"
+              className="bg-transparent border-none p-0 text-sm font-semibold text-blue-300 cursor-pointer hover:text-blue-200"
+              onClick={() => onAction(toast.id)}
+            >
+              {toast.actionLabel}
+            </button>
+          )}
+          <button
+            type="button"
+            className="bg-transparent border-none p-0 text-lg leading-none text-white/70 cursor-pointer hover:text-white"
+            onClick={() => onDismiss(toast.id)}
+            aria-label="Dismiss notification"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
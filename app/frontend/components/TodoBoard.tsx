@@ -0,0 +1,211 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  DndContext,
+  closestCorners,
+  KeyboardSensor,
+  PointerSensor,
+  useDroppable,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+  DragStartEvent,
+  DragOverlay,
+} from '@dnd-kit/core';
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { Todo } from '../types/todo';
+import { todosApi } from '../utils/todosApi';
+import { useTodoStore } from '../hooks/useTodoStore';
+import { getUserFriendlyErrorMessage } from '../utils/networkError';
+import { placementForDrop } from '../utils/todoMove';
+import { BoardColumn, BOARD_COLUMNS, columnDroppableId, columnForDrop, columnTodos } from '../utils/boardColumns';
+import { TodoForm } from './TodoForm';
+import { TodoItem } from './TodoItem';
+import { SortableTodoItem } from './SortableTodoItem';
+
+interface BoardColumnViewProps {
+  column: BoardColumn;
+  todos: Todo[];
+  activeId: number | null;
+  onTodoUpdated: (todo: Todo) => void;
+}
+
+// Each column is a drop target of its own, so a card can be dropped into an empty one
+function BoardColumnView({ column, todos, activeId, onTodoUpdated }: BoardColumnViewProps) {
+  const { setNodeRef, isOver } = useDroppable({ id: columnDroppableId(column) });
+
+  return (
+    <section
+      ref={setNodeRef}
+      className={`flex-1 min-w-64 p-3 rounded-lg border transition-colors duration-200 ${isOver ? 'bg-white border-primary' : 'bg-gray-light border-gray-border-light'}`}
+      aria-label={column.title}
+    >
+      <h3 className="m-0 mb-3 flex items-center justify-between text-sm font-semibold text-gray-dark">
+        {column.title}
+        <span className="py-0.5 px-2 rounded-full bg-white text-xs font-normal text-gray-text">{todos.length}</span>
+      </h3>
+
+      <SortableContext items={todos.map(todo => todo.id)} strategy={verticalListSortingStrategy}>
+        {todos.map(todo => (
+          <SortableTodoItem
+            key={todo.id}
+            todo={todo}
+            onTodoUpdated={onTodoUpdated}
+            isDragging={activeId === todo.id}
+          />
+        ))}
+      </SortableContext>
+
+      {todos.length === 0 && (
+        <p className="m-0 py-6 text-center text-xs text-gray-text">Drop todos here</p>
+      )}
+    </section>
+  );
+}
+
+interface TodoBoardProps {
+  className?: string;
+  // The list to show; the default list without one
+  listId?: number;
+  columns?: BoardColumn[];
+}
+
+export function TodoBoard({ className = '', listId, columns = BOARD_COLUMNS }: TodoBoardProps) {
+  const { todos, setTodos, addTodo, replaceTodo, moveTodo, moveTodoToStatus } = useTodoStore();
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const [moveError, setMoveError] = useState<string | null>(null);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const loadTodos = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setTodos(await todosApi.list({ listId }), listId ?? null);
+    } catch (err) {
+      console.error('Todo loading error:', err);
+      setError(getUserFriendlyErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [listId, setTodos]);
+
+  useEffect(() => {
+    loadTodos();
+  }, [loadTodos]);
+
+  const handleDragStart = useCallback((event: DragStartEvent) => {
+    setActiveId(event.active.id as number);
+    setMoveError(null);
+  }, []);
+
+  const handleDragCancel = useCallback(() => {
+    setActiveId(null);
+  }, []);
+
+  // Within a column a drop is a move next to the card dropped on; into another column it
+  // is a status change, placed before the card dropped on if there was one
+  const handleDragEnd = useCallback(async (event: DragEndEvent) => {
+    const { active, over } = event;
+    setActiveId(null);
+
+    const todo = todos.find(item => item.id === active.id);
+    const column = over ? columnForDrop(columns, todos, over.id) : null;
+    if (!over || !todo || !column) {
+      return;
+    }
+
+    const overTodoId = typeof over.id === 'number' ? over.id : null;
+
+    try {
+      if (column.status === todo.status) {
+        const placement = overTodoId === null ? null : placementForDrop(columnTodos(todos, column), todo.id, overTodoId);
+        if (placement) {
+          await moveTodo(todo, placement);
+        }
+      } else {
+        await moveTodoToStatus(todo, column.status, overTodoId === null ? undefined : { before_id: overTodoId });
+      }
+    } catch (err) {
+      console.error('Board move error:', err);
+      setMoveError(getUserFriendlyErrorMessage(err));
+    }
+  }, [columns, todos, moveTodo, moveTodoToStatus]);
+
+  const activeTodo = activeId === null ? null : todos.find(todo => todo.id === activeId);
+
+  return (
+    <div className={className}>
+      <TodoForm onTodoCreated={addTodo} listId={listId} className="mb-6" />
+
+      {error ? (
+        <div className="error-alert py-3 px-4 flex items-center justify-between text-sm" role="alert">
+          <span>{error}</span>
+          <button type="button" onClick={loadTodos} className="btn-outline py-1 px-3 text-xs">
+            Try Again
+          </button>
+        </div>
+      ) : isLoading ? (
+        <div className="flex items-center justify-center gap-2 py-8 text-gray-text text-sm">
+          <span className="spinner-sm border-gray-border-light border-t-primary" aria-hidden="true"></span>
+          Loading todos...
+        </div>
+      ) : (
+        <>
+          {moveError && (
+            <div className="error-alert mb-4 py-2 px-3 flex items-center justify-between text-sm" role="alert">
+              <span className="flex-1">{moveError}</span>
+              <button
+                type="button"
+                className="bg-transparent border-none text-lg text-danger cursor-pointer p-0 leading-none ml-2 hover:text-danger-hover"
+                onClick={() => setMoveError(null)}
+                aria-label="Dismiss error"
+              >
+                ×
+              </button>
+            </div>
+          )}
+
+          <DndContext
+            sensors={sensors}
+            collisionDetection={closestCorners}
+            onDragStart={handleDragStart}
+            onDragEnd={handleDragEnd}
+            onDragCancel={handleDragCancel}
+          >
+            <div className="flex gap-4 items-start overflow-x-auto">
+              {columns.map(column => (
+                <BoardColumnView
+                  key={column.id}
+                  column={column}
+                  todos={columnTodos(todos, column)}
+                  activeId={activeId}
+                  onTodoUpdated={replaceTodo}
+                />
+              ))}
+            </div>
+
+            <DragOverlay>
+              {activeTodo ? (
+                <div className="rotate-[5deg] shadow-2xl">
+                  <TodoItem todo={activeTodo} className="border-primary bg-gray-light" />
+                </div>
+              ) : null}
+            </DragOverlay>
+          </DndContext>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,26 +1,60 @@
-import React, { useState } from 'react';
-import { TodoFormData, TodoApiResponse } from '../types/todo';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Todo, TodoFormData, TodoPriority, TodoRecurrence } from '../types/todo';
+import { Label } from '../types/label';
 import { ErrorMessage } from './ErrorMessage';
-import { api } from '../utils/api';
+import { todosApi } from '../utils/todosApi';
+import { labelsApi } from '../utils/labelsApi';
 import { NetworkError, isNetworkError } from '../utils/networkError';
+import { toDueAt } from '../utils/dueDate';
+import { DEFAULT_PRIORITY } from '../utils/priorities';
+import { withLocalTimeZone } from '../utils/recurrence';
+import { parseQuickAdd } from '../utils/quickAdd';
+import { LabelPicker } from './LabelPicker';
+import { PrioritySelect } from './PrioritySelect';
+import { RecurrencePicker } from './RecurrencePicker';
+import { QuickAddPreview } from './QuickAddPreview';
 
 interface TodoFormProps {
-  onTodoCreated?: (todo: any) => void;
+  onTodoCreated?: (todo: Todo) => void;
   className?: string;
+  // Lets the page focus the title field, e.g. from a keyboard shortcut
+  inputRef?: React.Ref<HTMLInputElement>;
+  // The list new todos go into; the default list without one
+  listId?: number;
 }
 
-export function TodoForm({ onTodoCreated, className = '' }: TodoFormProps) {
+export function TodoForm({ onTodoCreated, className = '', inputRef, listId }: TodoFormProps) {
   const [title, setTitle] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [labelIds, setLabelIds] = useState<number[]>([]);
+  const [priority, setPriority] = useState<TodoPriority>(DEFAULT_PRIORITY);
+  const [recurrence, setRecurrence] = useState<TodoRecurrence | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | Error | NetworkError | null>(null);
+  const [knownLabels, setKnownLabels] = useState<Label[]>([]);
+  const labelsRequestedRef = useRef(false);
+
+  // The title can carry a due date, #labels, a !priority and a repeat rule, e.g.
+  // "Pay rent tomorrow 9am #finance !high every month"; they win over the controls below
+  const parsed = useMemo(() => parseQuickAdd(title, { labels: knownLabels }), [title, knownLabels]);
+
+  // Labels are only needed to read #tags, so they are fetched once the first one is typed.
+  // Without them the tags stay in the title
+  useEffect(() => {
+    if (!title.includes('#') || labelsRequestedRef.current) return;
+
+    labelsRequestedRef.current = true;
+    labelsApi.list().then(setKnownLabels, err => {
+      console.error('Label loading error:', err);
+    });
+  }, [title]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     setError(null);
 
-    const trimmedTitle = title.trim();
-    if (!trimmedTitle) {
+    if (!parsed.title) {
       setError('Todo title cannot be empty');
       return;
     }
@@ -28,21 +62,38 @@ export function TodoForm({ onTodoCreated, className = '' }: TodoFormProps) {
     setIsLoading(true);
 
     try {
-      const data = await api.post('/todos', { title: trimmedTitle });
-
-      if (data.success && data.todo) {
-        setTitle('');
-        setError(null);
-
-        if (onTodoCreated) {
-          onTodoCreated(data.todo);
-        }
-      } else {
-        if (data.errors && data.errors.length > 0) {
-          setError(data.errors.join(', '));
-        } else {
-          setError(data.error || 'Failed to create todo');
-        }
+      const todoData: TodoFormData = { title: parsed.title };
+      if (listId !== undefined) {
+        todoData.list_id = listId;
+      }
+      const dueAt = parsed.dueAt ?? toDueAt(dueDate);
+      if (dueAt) {
+        todoData.due_at = dueAt;
+      }
+      const allLabelIds = [...new Set([...labelIds, ...parsed.labels.map(label => label.id)])];
+      if (allLabelIds.length > 0) {
+        todoData.label_ids = allLabelIds;
+      }
+      const chosenPriority = parsed.priority ?? priority;
+      if (chosenPriority !== DEFAULT_PRIORITY) {
+        todoData.priority = chosenPriority;
+      }
+      const chosenRecurrence = parsed.recurrence ?? recurrence;
+      if (chosenRecurrence) {
+        todoData.recurrence = withLocalTimeZone(chosenRecurrence);
+      }
+
+      const todo = await todosApi.create(todoData);
+
+      setTitle('');
+      setDueDate('');
+      setLabelIds([]);
+      setPriority(DEFAULT_PRIORITY);
+      setRecurrence(null);
+      setError(null);
+
+      if (onTodoCreated) {
+        onTodoCreated(todo);
       }
     } catch (err) {
       console.error('Todo creation error:', err);
@@ -71,6 +122,7 @@ export function TodoForm({ onTodoCreated, className = '' }: TodoFormProps) {
           </label>
           <div className="flex gap-2">
             <input
+              ref={inputRef}
               id="todo-title"
               type="text"
               value={title}
@@ -79,6 +131,15 @@ export function TodoForm({ onTodoCreated, className = '' }: TodoFormProps) {
               className={`input-field flex-1 ${error ? 'error' : ''}`}
               disabled={isLoading}
               maxLength={255}
+              aria-describedby="todo-quick-add-hint"
+            />
+            <input
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+              className="input-field w-auto! shrink-0"
+              disabled={isLoading}
+              aria-label="Due date"
             />
             <button
               type="submit"
@@ -95,6 +156,30 @@ export function TodoForm({ onTodoCreated, className = '' }: TodoFormProps) {
               )}
             </button>
           </div>
+          <QuickAddPreview parsed={parsed} className="mt-2" />
+          <p id="todo-quick-add-hint" className="sr-only">
+            Type a due date, #label, !priority or repeat rule after the title, e.g. tomorrow 9am #home !high every week
+          </p>
+          <div className="flex flex-wrap items-start gap-2 mt-2">
+            <PrioritySelect
+              value={priority}
+              onChange={setPriority}
+              disabled={isLoading}
+              className="py-1! text-sm shrink-0"
+            />
+            <RecurrencePicker
+              value={recurrence}
+              onChange={setRecurrence}
+              disabled={isLoading}
+              className="shrink-0"
+            />
+            <LabelPicker
+              selectedIds={labelIds}
+              onChange={setLabelIds}
+              disabled={isLoading}
+              className="flex-1"
+            />
+          </div>
         </div>
 
         {error && (
@@ -0,0 +1,250 @@
+import { useState, useEffect, useMemo, ChangeEvent } from 'react';
+import { List } from '../types/list';
+import { listsApi } from '../utils/listsApi';
+import { todosApi } from '../utils/todosApi';
+import { getPriority } from '../utils/priorities';
+import {
+  IMPORT_FORMATS,
+  ImportFormat,
+  ImportFormatError,
+  ImportRow,
+  MAX_IMPORT_SIZE,
+  detectImportFormat,
+  parseImport,
+} from '../utils/todoImport';
+import { ErrorMessage } from './ErrorMessage';
+
+interface TodoImportProps {
+  className?: string;
+}
+
+const countTodos = (count: number) => (count === 1 ? '1 todo' : `${count} todos`);
+
+// FileReader rather than File.text(), which older browsers lack
+function readFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+}
+
+const formatDue = (dueAt: string) =>
+  new Date(dueAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// Paste or upload todos, check every row the way the server will, then add the valid ones in one go
+export function TodoImport({ className = '' }: TodoImportProps) {
+  const [input, setInput] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [chosenFormat, setChosenFormat] = useState<ImportFormat | 'auto'>('auto');
+  const [lists, setLists] = useState<List[]>([]);
+  const [listId, setListId] = useState<number | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<Error | string | null>(null);
+  const [imported, setImported] = useState<string | null>(null);
+
+  // Without the lists, todos still go to the default list
+  useEffect(() => {
+    listsApi.list().then(loaded => {
+      setLists(loaded);
+      setListId(current => current ?? loaded[0]?.id ?? null);
+    }, err => {
+      console.error('List loading error:', err);
+    });
+  }, []);
+
+  const detectedFormat = useMemo(() => detectImportFormat(input, fileName), [input, fileName]);
+  const format = chosenFormat === 'auto' ? detectedFormat : chosenFormat;
+
+  const preview = useMemo((): { rows: ImportRow[]; formatError: string | null } => {
+    if (!input.trim()) {
+      return { rows: [], formatError: null };
+    }
+    try {
+      return { rows: parseImport(input, format), formatError: null };
+    } catch (err) {
+      if (err instanceof ImportFormatError) {
+        return { rows: [], formatError: err.message };
+      }
+      throw err;
+    }
+  }, [input, format]);
+
+  const validRows = preview.rows.filter(row => row.errors.length === 0);
+  const invalidCount = preview.rows.length - validRows.length;
+  const tooMany = validRows.length > MAX_IMPORT_SIZE;
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setImported(null);
+
+    try {
+      setInput(await readFile(file));
+      setFileName(file.name);
+    } catch (err) {
+      console.error('Import file error:', err);
+      setError(`Could not read ${file.name}`);
+    }
+  };
+
+  const handleInputChange = (value: string) => {
+    setInput(value);
+    setFileName('');
+    setImported(null);
+  };
+
+  const handleImport = async () => {
+    if (validRows.length === 0 || tooMany || isImporting) return;
+
+    setIsImporting(true);
+    setError(null);
+
+    try {
+      const todos = await todosApi.batchCreate(validRows.map(row => row.todo), listId ?? undefined);
+      const listName = lists.find(list => list.id === listId)?.name;
+      setImported(`Imported ${countTodos(todos.length)}${listName ? ` into ${listName}` : ''}.`);
+      setInput('');
+      setFileName('');
+    } catch (err) {
+      console.error('Todo import error:', err);
+      setError(err as Error);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <h2 className="m-0 mb-4 text-gray-dark text-xl font-semibold">Import Todos</h2>
+      <p className="m-0 mb-4 text-sm text-gray-text">
+        Bring todos over from a plain text list (one per line), a Markdown checklist, a CSV file with a
+        title column, or a JSON list. Check the preview, then add them to the end of a list.
+      </p>
+
+      {error && <ErrorMessage error={error} onDismiss={() => setError(null)} className="mb-4" />}
+
+      {imported && (
+        <div className="mb-4 py-2 px-3 rounded-lg border border-success bg-white text-sm text-success" role="status">
+          {imported}
+        </div>
+      )}
+
+      <div className="flex flex-col gap-3 p-3 bg-gray-light rounded-lg border border-gray-border-light">
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex flex-col gap-1 text-sm text-gray-dark">
+            Import file
+            <input
+              type="file"
+              accept=".txt,.md,.markdown,.csv,.json,text/plain,text/markdown,text/csv,application/json"
+              onChange={handleFileChange}
+              disabled={isImporting}
+              className="text-sm"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-dark">
+            Format
+            <select
+              value={chosenFormat}
+              onChange={(e) => setChosenFormat(e.target.value as ImportFormat | 'auto')}
+              disabled={isImporting}
+              className="input-field w-auto! py-1.5 px-2 text-sm"
+            >
+              <option value="auto">
+                Detect ({IMPORT_FORMATS.find(option => option.value === detectedFormat)?.label})
+              </option>
+              {IMPORT_FORMATS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          {lists.length > 0 && (
+            <label className="flex flex-col gap-1 text-sm text-gray-dark">
+              Import into
+              <select
+                value={listId ?? ''}
+                onChange={(e) => setListId(Number(e.target.value))}
+                disabled={isImporting}
+                className="input-field w-auto! py-1.5 px-2 text-sm"
+              >
+                {lists.map(list => (
+                  <option key={list.id} value={list.id}>{list.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+
+        <label className="flex flex-col gap-1 text-sm text-gray-dark">
+          Or paste todos
+          <textarea
+            value={input}
+            onChange={(e) => handleInputChange(e.target.value)}
+            disabled={isImporting}
+            rows={5}
+            className="input-field font-mono text-xs"
+            placeholder={'- [ ] Pay rent\n- [x] Book flights'}
+          />
+        </label>
+      </div>
+
+      {preview.formatError && (
+        <p className="m-0 mt-3 text-sm text-danger" role="alert">{preview.formatError}</p>
+      )}
+
+      {preview.rows.length > 0 && (
+        <div className="mt-4">
+          <div className="max-h-80 overflow-auto border border-gray-border-light rounded-lg">
+            <table className="w-full text-sm border-collapse" aria-label="Import preview">
+              <thead className="bg-gray-light text-left text-xs text-gray-text">
+                <tr>
+                  <th className="py-2 px-3 font-medium">{format === 'json' ? 'Item' : 'Line'}</th>
+                  <th className="py-2 px-3 font-medium">Title</th>
+                  <th className="py-2 px-3 font-medium">Status</th>
+                  <th className="py-2 px-3 font-medium">Priority</th>
+                  <th className="py-2 px-3 font-medium">Due</th>
+                  <th className="py-2 px-3 font-medium">Problems</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map(row => (
+                  <tr
+                    key={row.source}
+                    className={`border-t border-gray-border-light ${row.errors.length > 0 ? 'bg-danger-bg' : ''}`}
+                    aria-invalid={row.errors.length > 0}
+                  >
+                    <td className="py-2 px-3 text-gray-text">{row.source}</td>
+                    <td className="py-2 px-3 text-gray-dark break-all">{row.todo.title}</td>
+                    <td className="py-2 px-3">{row.todo.status === 'done' ? 'Done' : 'Open'}</td>
+                    <td className="py-2 px-3">{getPriority(row.todo.priority).label}</td>
+                    <td className="py-2 px-3 whitespace-nowrap">{row.todo.due_at ? formatDue(row.todo.due_at) : ''}</td>
+                    <td className="py-2 px-3 text-danger">{row.errors.join('; ')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3 mt-3">
+            <p className="m-0 text-sm text-gray-text">
+              {tooMany
+                ? `At most ${MAX_IMPORT_SIZE} todos can be imported at once.`
+                : `${countTodos(validRows.length)} ready to import${invalidCount > 0 ? `; ${invalidCount} with problems will be skipped` : ''}.`}
+            </p>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={validRows.length === 0 || tooMany || isImporting}
+              className="btn-primary"
+            >
+              {isImporting ? 'Importing...' : `Import ${countTodos(validRows.length)}`}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,35 +1,99 @@
-import React, { useState } from 'react';
-import { Todo, TodoUpdateData, TodoApiResponse } from '../types/todo';
+import React, { useEffect, useRef, useState } from 'react';
+import { Todo, TodoPriority, TodoRecurrence, TodoUpdateData } from '../types/todo';
+import { List } from '../types/list';
+import { useTodoStore } from '../hooks/useTodoStore';
+import { getUserFriendlyErrorMessage } from '../utils/networkError';
+import { toDueAt, toDateInputValue, getDueStatus } from '../utils/dueDate';
+import { DEFAULT_PRIORITY } from '../utils/priorities';
+import { describeRecurrence, sameRecurrence, withLocalTimeZone } from '../utils/recurrence';
+import { isTypingTarget } from '../utils/keyboardShortcuts';
+import { LabelChip } from './LabelChip';
+import { LabelPicker } from './LabelPicker';
+import { HighlightedText } from './HighlightedText';
+import { SubtaskList } from './SubtaskList';
+import { MarkdownContent } from './MarkdownContent';
+import { DescriptionEditor } from './DescriptionEditor';
+import { PriorityMarker } from './PriorityMarker';
+import { PrioritySelect } from './PrioritySelect';
+import { RecurrencePicker } from './RecurrencePicker';
+import { MoveToListMenu } from './MoveToListMenu';
+
+const sameLabelIds = (a: number[], b: number[]) =>
+  a.length === b.length && a.every(id => b.includes(id));
 
 interface TodoItemProps {
   todo: Todo;
   onTodoUpdated?: (todo: Todo) => void;
-  onTodoDeleted?: (todoId: number) => void;
+  highlight?: string;
   className?: string;
+  // The todo that keyboard shortcuts act on; the list keeps track of which one it is
+  isFocused?: boolean;
+  onFocus?: (todo: Todo) => void;
 }
 
-export function TodoItem({ todo, onTodoUpdated, onTodoDeleted, className = '' }: TodoItemProps) {
+export function TodoItem({ todo, onTodoUpdated, highlight, className = '', isFocused = false, onFocus }: TodoItemProps) {
+  const { toggleTodoStatus, updateTodo, deleteTodo, moveTodoToList } = useTodoStore();
   const [isEditing, setIsEditing] = useState(false);
   const [editTitle, setEditTitle] = useState(todo.title);
-  const [isLoading, setIsLoading] = useState(false);
+  const [editDueDate, setEditDueDate] = useState(toDateInputValue(todo.due_at));
+  const [editLabelIds, setEditLabelIds] = useState<number[]>([]);
+  const [editDescription, setEditDescription] = useState(todo.description || '');
+  const [editPriority, setEditPriority] = useState<TodoPriority>(todo.priority ?? DEFAULT_PRIORITY);
+  const [editRecurrence, setEditRecurrence] = useState<TodoRecurrence | null>(todo.recurrence ?? null);
+  const [showSubtasks, setShowSubtasks] = useState(false);
+  const [showDescription, setShowDescription] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  // Take focus when the list moves to this todo, after editing it and after it moves,
+  // since moving a node can drop its focus. Never take it from a field the user is in
+  useEffect(() => {
+    const activeElement = document.activeElement;
+    if (isFocused && !isEditing && !cardRef.current?.contains(activeElement) && !isTypingTarget(activeElement)) {
+      cardRef.current?.focus();
+    }
+  }, [isFocused, isEditing, todo.position]);
+
+  const currentLabelIds = (todo.labels || []).map(label => label.id);
+  const subtasks = todo.subtasks || [];
+  const doneSubtaskCount = subtasks.filter(subtask => subtask.done).length;
 
+  // The store adds the next occurrence of a completed repeating todo on its own, so the
+  // todo passed on never carries it
+  const reportUpdate = (updatedTodo: Todo) => {
+    const { next_occurrence: _nextOccurrence, ...confirmed } = updatedTodo;
+    if (onTodoUpdated) {
+      onTodoUpdated(confirmed);
+    }
+  };
+
+  // The checkbox flips at once, so it can be toggled again before the server answers
   const handleStatusToggle = async () => {
-    if (isLoading) return;
+    setError(null);
 
-    const newStatus = todo.status === 'open' ? 'done' : 'open';
-    await updateTodo({ status: newStatus });
+    try {
+      reportUpdate(await toggleTodoStatus(todo));
+    } catch (err) {
+      console.error('Todo update error:', err);
+      setError(getUserFriendlyErrorMessage(err));
+    }
   };
 
   const handleEditStart = () => {
     setIsEditing(true);
     setEditTitle(todo.title);
+    setEditDueDate(toDateInputValue(todo.due_at));
+    setEditLabelIds(currentLabelIds);
+    setEditDescription(todo.description || '');
+    setEditPriority(todo.priority ?? DEFAULT_PRIORITY);
+    setEditRecurrence(todo.recurrence ?? null);
     setError(null);
   };
 
   const handleEditCancel = () => {
     setIsEditing(false);
     setEditTitle(todo.title);
+    setEditDueDate(toDateInputValue(todo.due_at));
     setError(null);
   };
 
@@ -41,14 +105,42 @@ export function TodoItem({ todo, onTodoUpdated, onTodoDeleted, className = '' }:
       return;
     }
 
-    if (trimmedTitle === todo.title) {
+    const updates: TodoUpdateData = {};
+    if (trimmedTitle !== todo.title) {
+      updates.title = trimmedTitle;
+    }
+    if (editDueDate !== toDateInputValue(todo.due_at)) {
+      updates.due_at = toDueAt(editDueDate);
+    }
+    if (editPriority !== (todo.priority ?? DEFAULT_PRIORITY)) {
+      updates.priority = editPriority;
+    }
+    if (!sameRecurrence(editRecurrence, todo.recurrence)) {
+      updates.recurrence = editRecurrence && withLocalTimeZone(editRecurrence);
+    }
+    if (!sameLabelIds(editLabelIds, currentLabelIds)) {
+      updates.label_ids = editLabelIds;
+    }
+    const description = editDescription.trim() ? editDescription : null;
+    if (description !== (todo.description ?? null)) {
+      updates.description = description;
+    }
+
+    if (Object.keys(updates).length === 0) {
       setIsEditing(false);
       return;
     }
 
-    const success = await updateTodo({ title: trimmedTitle });
-    if (success) {
-      setIsEditing(false);
+    // The edit shows right away; if the server turns it down, the form comes back with it
+    setIsEditing(false);
+    setError(null);
+
+    try {
+      reportUpdate(await updateTodo(todo, updates));
+    } catch (err) {
+      console.error('Todo update error:', err);
+      setError(getUserFriendlyErrorMessage(err));
+      setIsEditing(true);
     }
   };
 
@@ -61,79 +153,46 @@ export function TodoItem({ todo, onTodoUpdated, onTodoDeleted, className = '' }:
     }
   };
 
-  const handleDelete = async () => {
-    if (isLoading) return;
-
-    if (!confirm('Are you sure you want to delete this todo?')) {
-      return;
+  // Enter starts a new line in the description; Ctrl/Cmd+Enter saves
+  const handleDescriptionKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleEditSave();
+    } else if (e.key === 'Escape') {
+      handleEditCancel();
     }
+  };
+
+  // No confirmation: the todo disappears at once and an undo toast offers it back
+  const handleDelete = () => {
+    deleteTodo(todo);
+  };
 
-    setIsLoading(true);
+  // The todo leaves this list at once; it only comes back if the server turns the move down
+  const handleMoveToList = async (list: List) => {
     setError(null);
 
     try {
-      const response = await fetch(`/api/todos/${todo.id}`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Requested-With': 'XMLHttpRequest',
-        },
-        credentials: 'same-origin',
-      });
-
-      const data = await response.json();
-
-      if (response.ok && data.success) {
-        if (onTodoDeleted) {
-          onTodoDeleted(todo.id);
-        }
-      } else {
-        setError(data.error || 'Failed to delete todo');
-      }
+      await moveTodoToList(todo, list);
     } catch (err) {
-      console.error('Todo deletion error:', err);
-      setError('Network error. Please try again.');
-    } finally {
-      setIsLoading(false);
+      console.error('Todo move error:', err);
+      setError(getUserFriendlyErrorMessage(err));
     }
   };
 
-  const updateTodo = async (updates: TodoUpdateData): Promise<boolean> => {
-    setIsLoading(true);
-    setError(null);
+  // Shortcuts for the todo itself, only while the card has focus rather than a field inside it
+  const handleShortcutKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target !== e.currentTarget || isEditing || e.ctrlKey || e.metaKey || e.altKey) return;
 
-    try {
-      const response = await fetch(`/api/todos/${todo.id}`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Requested-With': 'XMLHttpRequest',
-        },
-        credentials: 'same-origin',
-        body: JSON.stringify(updates),
-      });
-
-      const data: TodoApiResponse = await response.json();
-
-      if (response.ok && data.success && data.todo) {
-        if (onTodoUpdated) {
-          onTodoUpdated(data.todo);
-        }
-        return true;
-      } else {
-        if (data.errors && data.errors.length > 0) {
-          setError(data.errors.join(', '));
-        } else {
-          setError(data.error || 'Failed to update todo');
-        }
-        return false;
-      }
-    } catch (err) {
-      console.error('Todo update error:', err);
-      setError('Network error. Please try again.');
-      return false;
-    } finally {
-      setIsLoading(false);
+    if (e.key === 'x') {
+      e.preventDefault();
+      handleStatusToggle();
+    } else if (e.key === 'e' || e.key === 'Enter') {
+      e.preventDefault();
+      handleEditStart();
+    } else if (e.key === '#' || e.key === 'Delete') {
+      e.preventDefault();
+      handleDelete();
     }
   };
 
@@ -150,8 +209,19 @@ export function TodoItem({ todo, onTodoUpdated, onTodoDeleted, className = '' }:
     });
   };
 
+  // Finished todos are never flagged, however late they were
+  const dueStatus = todo.due_at && todo.status === 'open' ? getDueStatus(todo.due_at) : null;
+
   return (
-    <div className={`card mb-2 transition-shadow duration-200 hover:shadow-md ${todo.status === 'done' ? 'opacity-70' : ''} ${className}`}>
+    <div
+      ref={cardRef}
+      className={`card mb-2 transition-shadow duration-200 hover:shadow-md outline-none ${isFocused ? 'ring-2 ring-primary' : ''} ${todo.status === 'done' ? 'opacity-70' : ''} ${className}`}
+      tabIndex={-1}
+      role="group"
+      onKeyDown={handleShortcutKeyDown}
+      onFocus={() => onFocus?.(todo)}
+      aria-label={todo.title}
+    >
       <div className="p-3">
         <div className="flex items-start gap-3">
           <button
@@ -160,10 +230,8 @@ export function TodoItem({ todo, onTodoUpdated, onTodoDeleted, className = '' }:
               ${todo.status === 'done'
                 ? 'bg-success border-success text-white'
                 : 'bg-white border-gray-border hover:border-primary'
-              }
-              ${isLoading ? 'cursor-not-allowed opacity-50' : ''}`}
+              }`}
             onClick={handleStatusToggle}
-            disabled={isLoading}
             aria-label={`Mark as ${todo.status === 'open' ? 'done' : 'open'}`}
           >
             {todo.status === 'done' && (
@@ -180,15 +248,42 @@ export function TodoItem({ todo, onTodoUpdated, onTodoDeleted, className = '' }:
                   onChange={(e) => setEditTitle(e.target.value)}
                   onKeyDown={handleEditKeyDown}
                   className={`input-field py-1.5 px-2 text-sm ${error ? 'error' : ''}`}
-                  disabled={isLoading}
                   maxLength={255}
                   autoFocus
                 />
+                <div className="flex gap-2">
+                  <input
+                    type="date"
+                    value={editDueDate}
+                    onChange={(e) => setEditDueDate(e.target.value)}
+                    onKeyDown={handleEditKeyDown}
+                    className="input-field py-1.5 px-2 text-sm"
+                    aria-label="Due date"
+                  />
+                  <PrioritySelect
+                    value={editPriority}
+                    onChange={setEditPriority}
+                    className="py-1.5! px-2! text-sm shrink-0"
+                  />
+                </div>
+                <RecurrencePicker
+                  value={editRecurrence}
+                  onChange={setEditRecurrence}
+                />
+                <LabelPicker
+                  selectedIds={editLabelIds}
+                  onChange={setEditLabelIds}
+                />
+                <DescriptionEditor
+                  value={editDescription}
+                  onChange={setEditDescription}
+                  onKeyDown={handleDescriptionKeyDown}
+                />
                 <div className="flex gap-2">
                   <button
                     type="button"
                     onClick={handleEditSave}
-                    disabled={isLoading || !editTitle.trim()}
+                    disabled={!editTitle.trim()}
                     className="btn-primary py-1 px-2 text-xs"
                   >
                     Save
@@ -196,7 +291,6 @@ export function TodoItem({ todo, onTodoUpdated, onTodoDeleted, className = '' }:
                   <button
                     type="button"
                     onClick={handleEditCancel}
-                    disabled={isLoading}
                     className="btn-outline py-1 px-2 text-xs"
                   >
                     Cancel
@@ -205,14 +299,78 @@ export function TodoItem({ todo, onTodoUpdated, onTodoDeleted, className = '' }:
               </div>
             ) : (
               <div className="flex flex-col gap-1">
-                <span className={`text-sm leading-relaxed text-gray-dark break-words ${todo.status === 'done' ? 'line-through text-gray-text' : ''}`}>
-                  {todo.title}
-                </span>
-                <span className="text-xs text-gray-text">
+                <div className="flex items-start gap-2">
+                  <PriorityMarker priority={todo.priority} className="mt-1.5" />
+                  {todo.description ? (
+                    <button
+                      type="button"
+                      onClick={() => setShowDescription(!showDescription)}
+                      className={`text-left bg-transparent border-none p-0 cursor-pointer min-w-0 text-sm leading-relaxed text-gray-dark break-words hover:text-primary ${todo.status === 'done' ? 'line-through text-gray-text' : ''}`}
+                      aria-expanded={showDescription}
+                      title={showDescription ? 'Hide notes' : 'Show notes'}
+                    >
+                      <HighlightedText text={todo.title} query={highlight} />
+                      <span className="ml-1 text-xs no-underline" aria-hidden="true">📝</span>
+                    </button>
+                  ) : (
+                    <span className={`min-w-0 text-sm leading-relaxed text-gray-dark break-words ${todo.status === 'done' ? 'line-through text-gray-text' : ''}`}>
+                      <HighlightedText text={todo.title} query={highlight} />
+                    </span>
+                  )}
+                </div>
+                {todo.description && showDescription && (
+                  <MarkdownContent source={todo.description} className="py-1" />
+                )}
+                {todo.labels && todo.labels.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {todo.labels.map(label => (
+                      <LabelChip key={label.id} label={label} />
+                    ))}
+                  </div>
+                )}
+                <span className="flex flex-wrap items-center gap-2 text-xs text-gray-text">
                   {formatDate(todo.created_at)}
+                  <button
+                    type="button"
+                    onClick={() => setShowSubtasks(!showSubtasks)}
+                    className="bg-transparent border-none p-0 text-xs text-gray-text cursor-pointer hover:text-primary"
+                    aria-expanded={showSubtasks}
+                    aria-label={showSubtasks ? 'Hide subtasks' : 'Show subtasks'}
+                  >
+                    {subtasks.length > 0 ? (
+                      <span title={`${doneSubtaskCount} of ${subtasks.length} subtasks done`}>
+                        ☑ {doneSubtaskCount}/{subtasks.length}
+                      </span>
+                    ) : (
+                      '+ Subtasks'
+                    )}
+                  </button>
+                  {todo.due_at && (
+                    <>
+                      <span>· Due {formatDate(todo.due_at)}</span>
+                      {dueStatus === 'overdue' && (
+                        <span className="py-0.5 px-1.5 rounded bg-danger-bg border border-danger-border text-danger font-medium">
+                          Overdue
+                        </span>
+                      )}
+                      {dueStatus === 'today' && (
+                        <span className="py-0.5 px-1.5 rounded bg-warning-bg border border-warning-border text-warning-text font-medium">
+                          Due today
+                        </span>
+                      )}
+                    </>
+                  )}
+                  {todo.recurrence && (
+                    <span title="Repeats when completed">
+                      <span aria-hidden="true">🔁</span> {describeRecurrence(todo.recurrence)}
+                    </span>
+                  )}
                 </span>
               </div>
             )}
+            {showSubtasks && !isEditing && (
+              <SubtaskList todo={todo} onTodoUpdated={reportUpdate} />
+            )}
           </div>
         </div>
 
@@ -221,16 +379,15 @@ export function TodoItem({ todo, onTodoUpdated, onTodoDeleted, className = '' }:
             <button
               type="button"
               onClick={handleEditStart}
-              disabled={isLoading}
               className="w-8 h-8 border-none bg-transparent cursor-pointer rounded flex items-center justify-center text-sm transition-colors duration-200 hover:bg-gray-light disabled:cursor-not-allowed disabled:opacity-50"
               aria-label="Edit todo"
             >
               ✏️
             </button>
+            <MoveToListMenu currentListId={todo.list_id} onSelect={handleMoveToList} />
             <button
               type="button"
               onClick={handleDelete}
-              disabled={isLoading}
               className="w-8 h-8 border-none bg-transparent cursor-pointer rounded flex items-center justify-center text-sm transition-colors duration-200 hover:bg-danger-bg disabled:cursor-not-allowed disabled:opacity-50"
               aria-label="Delete todo"
             >
@@ -1,171 +1,452 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
-  DndContext,
-  closestCenter,
-  KeyboardSensor,
-  PointerSensor,
-  useSensor,
-  useSensors,
+  useDndMonitor,
   DragEndEvent,
   DragStartEvent,
   DragOverlay,
 } from '@dnd-kit/core';
 import {
-  arrayMove,
   SortableContext,
-  sortableKeyboardCoordinates,
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable';
-import { Todo, TodoListResponse, TodoReorderUpdate, TodoReorderResponse } from '../types/todo';
+import { Todo, TodoBulkOperation, TodoMovePlacement } from '../types/todo';
+import { Label } from '../types/label';
+import { todosApi } from '../utils/todosApi';
+import { useTodoStore } from '../hooks/useTodoStore';
+import { listForDrop } from '../hooks/useTodoDrag';
+import { getUserFriendlyErrorMessage } from '../utils/networkError';
+import { TodoSortOrder, TODO_SORT_OPTIONS, sortTodos } from '../utils/todoSort';
+import { placementForDrop } from '../utils/todoMove';
+import { isTypingTarget } from '../utils/keyboardShortcuts';
 import { TodoForm } from './TodoForm';
 import { TodoItem } from './TodoItem';
 import { SortableTodoItem } from './SortableTodoItem';
+import { TodoSelectCheckbox } from './TodoSelectCheckbox';
+import { ArchivedTodoItem } from './ArchivedTodoItem';
+import { LabelChip } from './LabelChip';
+import { KeyboardShortcutsHelp } from './KeyboardShortcutsHelp';
+
+// Wait for a pause in typing before asking the server for search results
+const SEARCH_DEBOUNCE_MS = 300;
+
+const matchesSearch = (todo: Todo, query: string) =>
+  todo.title.toLowerCase().includes(query.toLowerCase());
+
+const BULK_ACTIONS: { operation: TodoBulkOperation; label: string }[] = [
+  { operation: 'complete', label: 'Complete' },
+  { operation: 'reopen', label: 'Reopen' },
+  { operation: 'move_to_top', label: 'Move to top' },
+  { operation: 'move_to_bottom', label: 'Move to bottom' },
+  { operation: 'archive', label: 'Archive' },
+];
 
 interface TodoListProps {
   className?: string;
+  // The list to show; the default list without one
+  listId?: number;
+  // Pass both to keep the search query somewhere else, e.g. in the URL
+  searchQuery?: string;
+  onSearchChange?: (query: string) => void;
 }
 
-export function TodoList({ className = '' }: TodoListProps) {
-  const [todos, setTodos] = useState<Todo[]>([]);
+export function TodoList({ className = '', listId, searchQuery, onSearchChange }: TodoListProps) {
+  const {
+    todos,
+    setTodos,
+    addTodo,
+    replaceTodo,
+    moveTodo,
+    moveTodoToList,
+    bulkUpdateTodos,
+    clearCompleted,
+    restoreTodos,
+  } = useTodoStore();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [filter, setFilter] = useState<'all' | 'open' | 'done'>('all');
+  const [filter, setFilter] = useState<'all' | 'open' | 'done' | 'archived'>('all');
+  const [labelFilter, setLabelFilter] = useState<number | null>(null);
+  const [sortOrder, setSortOrder] = useState<TodoSortOrder>('manual');
   const [activeId, setActiveId] = useState<number | null>(null);
   const [isReordering, setIsReordering] = useState(false);
   const [reorderError, setReorderError] = useState<string | null>(null);
-
-  const sensors = useSensors(
-    useSensor(PointerSensor),
-    useSensor(KeyboardSensor, {
-      coordinateGetter: sortableKeyboardCoordinates,
-    })
-  );
-
-  const loadTodos = useCallback(async () => {
+  const [localSearchQuery, setLocalSearchQuery] = useState('');
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [isBulkUpdating, setIsBulkUpdating] = useState(false);
+  const [bulkError, setBulkError] = useState<string | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+  const [archivedTodos, setArchivedTodos] = useState<Todo[]>([]);
+  const [isLoadingArchived, setIsLoadingArchived] = useState(false);
+  const [archivedError, setArchivedError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+  // The todo keyboard shortcuts act on
+  const [focusedId, setFocusedId] = useState<number | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  // The last checkbox clicked, where a shift-click range starts
+  const selectionAnchorRef = useRef<number | null>(null);
+  const latestLoadRef = useRef(0);
+  const hasLoadedRef = useRef(false);
+  const titleInputRef = useRef<HTMLInputElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const focusedIndexRef = useRef(-1);
+  const shortcutHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+
+  const query = searchQuery ?? localSearchQuery;
+  const setQuery = onSearchChange ?? setLocalSearchQuery;
+  const trimmedQuery = query.trim();
+  const isSearching = trimmedQuery !== '';
+
+  const loadTodos = useCallback(async (q: string) => {
+    // Responses can arrive out of order while typing; only the latest one counts
+    const loadId = ++latestLoadRef.current;
     setIsLoading(true);
     setError(null);
 
     try {
-      const response = await fetch('/api/todos', {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Requested-With': 'XMLHttpRequest',
-        },
-        credentials: 'same-origin',
-      });
-
-      if (response.ok) {
-        const data: TodoListResponse = await response.json();
-        setTodos(data.todos || []);
-      } else {
-        const errorData = await response.json();
-        setError(errorData.error || 'Failed to load todos');
+      const loadedTodos = await todosApi.list({ q, listId });
+      if (loadId === latestLoadRef.current) {
+        setTodos(loadedTodos, listId ?? null);
       }
     } catch (err) {
       console.error('Todo loading error:', err);
-      setError('Network error. Please try again.');
+      if (loadId === latestLoadRef.current) {
+        setError(getUserFriendlyErrorMessage(err));
+      }
     } finally {
-      setIsLoading(false);
+      if (loadId === latestLoadRef.current) {
+        setIsLoading(false);
+      }
     }
-  }, []);
+  }, [listId, setTodos]);
 
   useEffect(() => {
-    loadTodos();
-  }, [loadTodos]);
+    // Load straight away on mount and when the search is cleared
+    if (!hasLoadedRef.current || !trimmedQuery) {
+      hasLoadedRef.current = true;
+      loadTodos(trimmedQuery);
+      return;
+    }
 
-  const handleTodoCreated = useCallback((newTodo: Todo) => {
-    setTodos(prevTodos => [...prevTodos, newTodo]);
-  }, []);
+    const timer = setTimeout(() => loadTodos(trimmedQuery), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [trimmedQuery, loadTodos]);
 
-  const handleTodoUpdated = useCallback((updatedTodo: Todo) => {
-    setTodos(prevTodos =>
-      prevTodos.map(todo =>
-        todo.id === updatedTodo.id ? updatedTodo : todo
-      )
-    );
-  }, []);
+  // Archived todos live outside the store and are only fetched when their tab is open
+  const loadArchivedTodos = useCallback(async () => {
+    setIsLoadingArchived(true);
+    setArchivedError(null);
 
-  const handleTodoDeleted = useCallback((todoId: number) => {
-    setTodos(prevTodos => prevTodos.filter(todo => todo.id !== todoId));
-  }, []);
+    try {
+      setArchivedTodos(await todosApi.list({ archived: true, listId }));
+    } catch (err) {
+      console.error('Archived todo loading error:', err);
+      setArchivedError(getUserFriendlyErrorMessage(err));
+    } finally {
+      setIsLoadingArchived(false);
+    }
+  }, [listId]);
+
+  useEffect(() => {
+    if (filter === 'archived') {
+      loadArchivedTodos();
+    }
+  }, [filter, loadArchivedTodos]);
 
   const handleDragStart = useCallback((event: DragStartEvent) => {
     setActiveId(event.active.id as number);
     setReorderError(null);
   }, []);
 
-  const handleDragEnd = useCallback(async (event: DragEndEvent) => {
-    const { active, over } = event;
+  const handleDragCancel = useCallback(() => {
     setActiveId(null);
+  }, []);
 
-    if (!over || active.id === over.id) {
-      return;
-    }
+  // Only labels that are on at least one todo are offered as filters
+  const availableLabels = Array.from(
+    new Map<number, Label>(
+      todos.flatMap(todo => todo.labels || []).map(label => [label.id, label])
+    ).values()
+  ).sort((a, b) => a.name.localeCompare(b.name));
 
-    const activeIndex = todos.findIndex(todo => todo.id === active.id);
-    const overIndex = todos.findIndex(todo => todo.id === over.id);
+  const activeLabelFilter = labelFilter !== null && availableLabels.some(label => label.id === labelFilter)
+    ? labelFilter
+    : null;
 
-    if (activeIndex === -1 || overIndex === -1) {
-      return;
-    }
+  // The server filters by the query too, but matching locally narrows the list
+  // as you type, and covers todos added or renamed since the last response
+  const searchedTodos = isSearching
+    ? todos.filter(todo => matchesSearch(todo, trimmedQuery))
+    : todos;
 
-    const reorderedTodos = arrayMove(todos, activeIndex, overIndex);
-    setTodos(reorderedTodos);
+  const labelledTodos = activeLabelFilter === null
+    ? searchedTodos
+    : searchedTodos.filter(todo => todo.labels?.some(label => label.id === activeLabelFilter));
+
+  const filteredTodos = labelledTodos.filter(todo => {
+    switch (filter) {
+      case 'open':
+        return todo.status === 'open';
+      case 'done':
+        return todo.status === 'done';
+      case 'archived':
+        return false;
+      default:
+        return true;
+    }
+  });
 
-    const updates: TodoReorderUpdate[] = reorderedTodos.map((todo, index) => ({
-      id: todo.id,
-      position: index + 1,
-    }));
+  const sortedTodos = sortTodos(filteredTodos, sortOrder);
+  const canDrag = !isSearching && sortOrder === 'manual';
 
+  // The store restores the previous order if the server rejects the move
+  const runMove = useCallback(async (todo: Todo, placement: TodoMovePlacement) => {
     setIsReordering(true);
     try {
-      const response = await fetch('/api/todos/reorder', {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Requested-With': 'XMLHttpRequest',
-        },
-        credentials: 'same-origin',
-        body: JSON.stringify({ updates }),
-      });
-
-      const data: TodoReorderResponse = await response.json();
-
-      if (!response.ok || !data.success) {
-        setTodos(todos);
-        setReorderError(data.error || 'Failed to reorder todos');
-      }
+      await moveTodo(todo, placement);
     } catch (err) {
       console.error('Reorder error:', err);
-      setTodos(todos);
-      setReorderError('Network error. Please try again.');
+      setReorderError(getUserFriendlyErrorMessage(err));
     } finally {
       setIsReordering(false);
     }
-  }, [todos]);
+  }, [moveTodo]);
 
-  const handleDragCancel = useCallback(() => {
+  const runMoveToList = useCallback(async (todo: Todo, list: { id: number; name: string }) => {
+    setIsReordering(true);
+    try {
+      await moveTodoToList(todo, list);
+    } catch (err) {
+      console.error('Move to list error:', err);
+      setReorderError(getUserFriendlyErrorMessage(err));
+    } finally {
+      setIsReordering(false);
+    }
+  }, [moveTodoToList]);
+
+  // Drops are worked out in the list as shown, then sent as a single move next to the
+  // todo dropped on, so todos hidden by a filter keep their place
+  const handleDragEnd = useCallback(async (event: DragEndEvent) => {
+    const { active, over } = event;
     setActiveId(null);
-  }, []);
 
-  const filteredTodos = todos.filter(todo => {
-    switch (filter) {
-      case 'open':
-        return todo.status === 'open';
-      case 'done':
-        return todo.status === 'done';
-      default:
-        return true;
+    const todo = sortedTodos.find(item => item.id === active.id);
+    const targetList = listForDrop(over);
+    if (targetList) {
+      if (todo && targetList.id !== todo.list_id) {
+        await runMoveToList(todo, targetList);
+      }
+      return;
+    }
+
+    // A derived order says nothing about positions, so it must never be written back
+    if (!over || !canDrag) {
+      return;
+    }
+
+    const placement = placementForDrop(sortedTodos, active.id as number, over.id as number);
+    if (!todo || !placement) {
+      return;
     }
+
+    await runMove(todo, placement);
+  }, [sortedTodos, canDrag, runMove, runMoveToList]);
+
+  // The drag context spans the sidebar as well; see TodoDragProvider
+  useDndMonitor(useMemo(() => ({
+    onDragStart: handleDragStart,
+    onDragEnd: handleDragEnd,
+    onDragCancel: handleDragCancel,
+  }), [handleDragStart, handleDragEnd, handleDragCancel]));
+
+  const focusedIndex = sortedTodos.findIndex(todo => todo.id === focusedId);
+
+  // When the focused todo goes away, e.g. after deleting it, focus the one that took its place
+  useEffect(() => {
+    if (focusedIndex !== -1) {
+      focusedIndexRef.current = focusedIndex;
+    } else if (focusedId !== null) {
+      const fallback = sortedTodos[Math.min(focusedIndexRef.current, sortedTodos.length - 1)];
+      setFocusedId(fallback ? fallback.id : null);
+    }
+  }, [focusedIndex, focusedId, sortedTodos]);
+
+  const focusTodoAt = (index: number) => {
+    const todo = sortedTodos[Math.max(0, Math.min(index, sortedTodos.length - 1))];
+    if (todo) {
+      setFocusedId(todo.id);
+    }
+  };
+
+  // Alt+↑/↓ moves the focused todo past its neighbour, the same way a drop would
+  const moveFocusedTodo = (offset: number) => {
+    const todo = sortedTodos[focusedIndex];
+    const neighbour = sortedTodos[focusedIndex + offset];
+    if (!todo || !neighbour || isReordering) {
+      return;
+    }
+
+    if (!canDrag) {
+      setReorderError(isSearching ? 'Clear the search to reorder todos.' : 'Switch to manual order to reorder todos.');
+      return;
+    }
+
+    runMove(todo, offset < 0 ? { before_id: neighbour.id } : { after_id: neighbour.id });
+  };
+
+  // Shortcuts that act on the focused todo itself are handled by TodoItem
+  const handleShortcutKeyDown = (e: KeyboardEvent) => {
+    if (e.defaultPrevented || showShortcuts || e.ctrlKey || e.metaKey || isTypingTarget(e.target)) {
+      return;
+    }
+
+    if (e.altKey) {
+      if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+        e.preventDefault();
+        moveFocusedTodo(e.key === 'ArrowUp' ? -1 : 1);
+      }
+      return;
+    }
+
+    switch (e.key) {
+      case 'j':
+        e.preventDefault();
+        focusTodoAt(focusedIndex + 1);
+        break;
+      case 'k':
+        e.preventDefault();
+        focusTodoAt(focusedIndex === -1 ? sortedTodos.length - 1 : focusedIndex - 1);
+        break;
+      case 'n':
+        e.preventDefault();
+        titleInputRef.current?.focus();
+        break;
+      case '/':
+        e.preventDefault();
+        searchInputRef.current?.focus();
+        break;
+      case '?':
+        e.preventDefault();
+        setShowShortcuts(true);
+        break;
+    }
+  };
+
+  // Listen once, but always run the handler from the latest render
+  useEffect(() => {
+    shortcutHandlerRef.current = handleShortcutKeyDown;
   });
 
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => shortcutHandlerRef.current(e);
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   const counts = {
     all: todos.length,
     open: todos.filter(todo => todo.status === 'open').length,
     done: todos.filter(todo => todo.status === 'done').length,
   };
 
+  // The status buttons count within the selected label
+  const filterCounts = {
+    all: labelledTodos.length,
+    open: labelledTodos.filter(todo => todo.status === 'open').length,
+    done: labelledTodos.filter(todo => todo.status === 'done').length,
+  };
+
+  // Only what is on screen can be acted on, so a selection never reaches into other filters
+  const visibleIds = sortedTodos.map(todo => todo.id);
+  const selectedVisibleIds = visibleIds.filter(id => selectedIds.has(id));
+  const allVisibleSelected = visibleIds.length > 0 && selectedVisibleIds.length === visibleIds.length;
+
+  const handleSelectToggle = (todo: Todo, extendRange: boolean) => {
+    const shouldSelect = !selectedIds.has(todo.id);
+    const anchorIndex = selectionAnchorRef.current === null ? -1 : visibleIds.indexOf(selectionAnchorRef.current);
+    const todoIndex = visibleIds.indexOf(todo.id);
+
+    const ids = extendRange && anchorIndex !== -1
+      ? visibleIds.slice(Math.min(anchorIndex, todoIndex), Math.max(anchorIndex, todoIndex) + 1)
+      : [todo.id];
+
+    setSelectedIds(prevIds => {
+      const nextIds = new Set(prevIds);
+      ids.forEach(id => (shouldSelect ? nextIds.add(id) : nextIds.delete(id)));
+      return nextIds;
+    });
+    selectionAnchorRef.current = todo.id;
+  };
+
+  const handleSelectAll = () => {
+    setSelectedIds(prevIds => {
+      const nextIds = new Set(prevIds);
+      visibleIds.forEach(id => (allVisibleSelected ? nextIds.delete(id) : nextIds.add(id)));
+      return nextIds;
+    });
+  };
+
+  const handleSelectionModeToggle = () => {
+    setIsSelecting(!isSelecting);
+    setSelectedIds(new Set());
+    setBulkError(null);
+    selectionAnchorRef.current = null;
+  };
+
+  const handleBulkAction = async (operation: TodoBulkOperation) => {
+    if (selectedVisibleIds.length === 0 || isBulkUpdating) return;
+
+    setIsBulkUpdating(true);
+    setBulkError(null);
+
+    try {
+      await bulkUpdateTodos(selectedVisibleIds, operation);
+      if (operation === 'delete') {
+        setSelectedIds(new Set());
+      }
+    } catch (err) {
+      console.error('Bulk update error:', err);
+      setBulkError(getUserFriendlyErrorMessage(err));
+    } finally {
+      setIsBulkUpdating(false);
+    }
+  };
+
+  const handleClearCompleted = async () => {
+    if (isClearing) return;
+
+    setIsClearing(true);
+    setBulkError(null);
+
+    try {
+      await clearCompleted();
+    } catch (err) {
+      console.error('Clear completed error:', err);
+      setBulkError(getUserFriendlyErrorMessage(err));
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  const handleRestore = async (todo: Todo) => {
+    setRestoringId(todo.id);
+    setArchivedError(null);
+
+    try {
+      await restoreTodos([todo.id]);
+      setArchivedTodos(prevTodos => prevTodos.filter(item => item.id !== todo.id));
+    } catch (err) {
+      console.error('Todo restore error:', err);
+      setArchivedError(getUserFriendlyErrorMessage(err));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const visibleArchivedTodos = isSearching
+    ? archivedTodos.filter(todo => matchesSearch(todo, trimmedQuery))
+    : archivedTodos;
+
   const clearError = () => {
     setError(null);
   };
@@ -175,12 +456,12 @@ export function TodoList({ className = '' }: TodoListProps) {
   };
 
   const handleRetry = () => {
-    loadTodos();
+    loadTodos(trimmedQuery);
   };
 
   const activeTodo = activeId ? todos.find(todo => todo.id === activeId) : null;
 
-  if (isLoading && todos.length === 0) {
+  if (isLoading && todos.length === 0 && !isSearching) {
     return (
       <div className={`max-w-xl mx-auto p-4 ${className}`}>
         <div className="flex flex-col items-center justify-center py-12 text-gray-text">
@@ -203,7 +484,7 @@ export function TodoList({ className = '' }: TodoListProps) {
         </p>
       </div>
 
-      <TodoForm onTodoCreated={handleTodoCreated} />
+      <TodoForm onTodoCreated={addTodo} inputRef={titleInputRef} listId={listId} />
 
       {error && (
         <div className="error-alert mb-4" role="alert">
@@ -246,39 +527,218 @@ export function TodoList({ className = '' }: TodoListProps) {
         </div>
       )}
 
-      {todos.length > 0 && (
-        <div className="flex gap-2 mb-4 p-2 bg-gray-light rounded-lg">
-          <button
-            type="button"
-            className={`py-2 px-3 border rounded-md bg-transparent text-gray-text text-sm cursor-pointer transition-all duration-200 hover:bg-white hover:text-gray-dark
-              ${filter === 'all' ? 'bg-white border-gray-border text-gray-dark font-medium' : 'border-transparent'}`}
-            onClick={() => setFilter('all')}
-          >
-            All ({counts.all})
-          </button>
-          <button
-            type="button"
-            className={`py-2 px-3 border rounded-md bg-transparent text-gray-text text-sm cursor-pointer transition-all duration-200 hover:bg-white hover:text-gray-dark
-              ${filter === 'open' ? 'bg-white border-gray-border text-gray-dark font-medium' : 'border-transparent'}`}
-            onClick={() => setFilter('open')}
-          >
-            Open ({counts.open})
-          </button>
+      {bulkError && (
+        <div className="warning-alert mb-4" role="alert">
+          <div className="flex items-center justify-between gap-4">
+            <span className="flex-1 text-sm">{bulkError}</span>
+            <button
+              type="button"
+              className="bg-transparent border-none text-xl text-warning-text cursor-pointer p-0 leading-none hover:text-amber-800"
+              onClick={() => setBulkError(null)}
+              aria-label="Dismiss bulk action error"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+      )}
+
+      {(todos.length > 0 || isSearching) && (
+        <div className="flex gap-2 mb-4">
+          <div className="relative flex-1">
+            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-gray-text pointer-events-none" aria-hidden="true">🔍</span>
+            <input
+              ref={searchInputRef}
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') {
+                  setQuery('');
+                }
+              }}
+              placeholder="Search todos"
+              aria-label="Search todos"
+              className="input-field pl-9!"
+            />
+          </div>
+          {filter !== 'archived' && (
+            <select
+              value={sortOrder}
+              onChange={(e) => setSortOrder(e.target.value as TodoSortOrder)}
+              className="input-field w-auto! shrink-0"
+              aria-label="Sort todos"
+            >
+              {TODO_SORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+
+      {/* Always shown, so the archive stays reachable when every todo has been archived */}
+      <div className="flex gap-2 mb-4 p-2 bg-gray-light rounded-lg">
+        <button
+          type="button"
+          className={`py-2 px-3 border rounded-md bg-transparent text-gray-text text-sm cursor-pointer transition-all duration-200 hover:bg-white hover:text-gray-dark
+            ${filter === 'all' ? 'bg-white border-gray-border text-gray-dark font-medium' : 'border-transparent'}`}
+          onClick={() => setFilter('all')}
+        >
+          All ({filterCounts.all})
+        </button>
+        <button
+          type="button"
+          className={`py-2 px-3 border rounded-md bg-transparent text-gray-text text-sm cursor-pointer transition-all duration-200 hover:bg-white hover:text-gray-dark
+            ${filter === 'open' ? 'bg-white border-gray-border text-gray-dark font-medium' : 'border-transparent'}`}
+          onClick={() => setFilter('open')}
+        >
+          Open ({filterCounts.open})
+        </button>
+        <button
+          type="button"
+          className={`py-2 px-3 border rounded-md bg-transparent text-gray-text text-sm cursor-pointer transition-all duration-200 hover:bg-white hover:text-gray-dark
+            ${filter === 'done' ? 'bg-white border-gray-border text-gray-dark font-medium' : 'border-transparent'}`}
+          onClick={() => setFilter('done')}
+        >
+          Done ({filterCounts.done})
+        </button>
+        <button
+          type="button"
+          className={`py-2 px-3 border rounded-md bg-transparent text-gray-text text-sm cursor-pointer transition-all duration-200 hover:bg-white hover:text-gray-dark
+            ${filter === 'archived' ? 'bg-white border-gray-border text-gray-dark font-medium' : 'border-transparent'}`}
+          onClick={() => setFilter('archived')}
+        >
+          Archived
+        </button>
+        {todos.length > 0 && filter !== 'archived' && (
           <button
             type="button"
-            className={`py-2 px-3 border rounded-md bg-transparent text-gray-text text-sm cursor-pointer transition-all duration-200 hover:bg-white hover:text-gray-dark
-              ${filter === 'done' ? 'bg-white border-gray-border text-gray-dark font-medium' : 'border-transparent'}`}
-            onClick={() => setFilter('done')}
+            className={`ml-auto py-2 px-3 border rounded-md bg-transparent text-gray-text text-sm cursor-pointer transition-all duration-200 hover:bg-white hover:text-gray-dark
+              ${isSelecting ? 'bg-white border-gray-border text-gray-dark font-medium' : 'border-transparent'}`}
+            onClick={handleSelectionModeToggle}
+            aria-pressed={isSelecting}
           >
-            Done ({counts.done})
+            Select
           </button>
+        )}
+      </div>
+
+      {isSelecting && todos.length > 0 && filter !== 'archived' && (
+        <div className="flex flex-wrap items-center gap-2 mb-4 p-2 border border-gray-border-light rounded-lg" role="toolbar" aria-label="Bulk actions">
+          <label className="flex items-center gap-2 text-sm text-gray-dark cursor-pointer">
+            <input
+              type="checkbox"
+              className="w-4 h-4 cursor-pointer accent-primary"
+              checked={allVisibleSelected}
+              onChange={handleSelectAll}
+              disabled={visibleIds.length === 0}
+              aria-label="Select all shown todos"
+            />
+            {selectedVisibleIds.length} selected
+          </label>
+          <div className="flex flex-wrap gap-2 ml-auto">
+            {BULK_ACTIONS.map(action => (
+              <button
+                key={action.operation}
+                type="button"
+                className="btn-outline py-1 px-2 text-xs"
+                onClick={() => handleBulkAction(action.operation)}
+                disabled={selectedVisibleIds.length === 0 || isBulkUpdating}
+              >
+                {action.label}
+              </button>
+            ))}
+            <button
+              type="button"
+              className="btn-danger py-1 px-2 text-xs"
+              onClick={() => handleBulkAction('delete')}
+              disabled={selectedVisibleIds.length === 0 || isBulkUpdating}
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      )}
+
+      {availableLabels.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 -mt-2 mb-4 px-2" role="group" aria-label="Filter by label">
+          {availableLabels.map(label => (
+            <button
+              key={label.id}
+              type="button"
+              className={`p-0 border-2 rounded-full bg-transparent cursor-pointer transition-opacity duration-200
+                ${activeLabelFilter === label.id ? 'border-gray-dark' : 'border-transparent opacity-70 hover:opacity-100'}`}
+              onClick={() => setLabelFilter(activeLabelFilter === label.id ? null : label.id)}
+              aria-pressed={activeLabelFilter === label.id}
+              aria-label={`Filter by label ${label.name}`}
+            >
+              <LabelChip label={label} />
+            </button>
+          ))}
+          {activeLabelFilter !== null && (
+            <button
+              type="button"
+              className="bg-transparent border-none p-0 text-xs text-gray-text cursor-pointer hover:text-gray-dark"
+              onClick={() => setLabelFilter(null)}
+            >
+              Clear label filter
+            </button>
+          )}
         </div>
       )}
 
       <div className="relative">
-        {filteredTodos.length === 0 ? (
+        {filter === 'archived' ? (
+          <>
+            {archivedError && (
+              <div className="error-alert mb-4" role="alert">
+                <div className="flex items-center justify-between gap-4">
+                  <span className="flex-1 text-sm">{archivedError}</span>
+                  <button
+                    type="button"
+                    className="py-1 px-2 border border-danger rounded bg-white text-danger text-xs cursor-pointer transition-colors duration-200 hover:bg-danger-bg"
+                    onClick={loadArchivedTodos}
+                  >
+                    Retry
+                  </button>
+                </div>
+              </div>
+            )}
+            {isLoadingArchived ? (
+              <div className="flex items-center justify-center gap-2 py-12 text-gray-text text-sm">
+                <span className="spinner-sm border-gray-border-light border-t-primary" aria-hidden="true"></span>
+                Loading archived todos...
+              </div>
+            ) : visibleArchivedTodos.length === 0 ? (
+              <div className="text-center py-12 text-gray-text">
+                <div className="text-5xl mb-4" aria-hidden="true">📦</div>
+                <h3 className="m-0 mb-2 text-gray-dark text-xl font-medium">No archived todos</h3>
+                <p className="m-0 text-sm leading-relaxed">Completed todos you clear end up here, ready to be restored.</p>
+              </div>
+            ) : (
+              visibleArchivedTodos.map(todo => (
+                <ArchivedTodoItem
+                  key={todo.id}
+                  todo={todo}
+                  onRestore={handleRestore}
+                  isRestoring={restoringId === todo.id}
+                  highlight={trimmedQuery}
+                />
+              ))
+            )}
+          </>
+        ) : sortedTodos.length === 0 ? (
           <div className="text-center py-12 text-gray-text">
-            {todos.length === 0 ? (
+            {isSearching && searchedTodos.length === 0 ? (
+              <>
+                <div className="text-5xl mb-4" aria-hidden="true">🔍</div>
+                <h3 className="m-0 mb-2 text-gray-dark text-xl font-medium">No todos match "{trimmedQuery}"</h3>
+                <p className="m-0 text-sm leading-relaxed">Try a different search, or clear it to see everything.</p>
+              </>
+            ) : todos.length === 0 ? (
               <>
                 <div className="text-5xl mb-4" aria-hidden="true">📝</div>
                 <h3 className="m-0 mb-2 text-gray-dark text-xl font-medium">No todos yet</h3>
@@ -289,33 +749,60 @@ export function TodoList({ className = '' }: TodoListProps) {
                 <div className="text-5xl mb-4" aria-hidden="true">🔍</div>
                 <h3 className="m-0 mb-2 text-gray-dark text-xl font-medium">No {filter} todos</h3>
                 <p className="m-0 text-sm leading-relaxed">
-                  {filter === 'open'
-                    ? 'All your todos are completed!'
-                    : 'No completed todos yet.'
+                  {activeLabelFilter !== null
+                    ? 'No todos match this label and status.'
+                    : filter === 'open'
+                      ? 'All your todos are completed!'
+                      : 'No completed todos yet.'
                   }
                 </p>
               </>
             )}
           </div>
+        ) : !canDrag ? (
+          // Positions are only meaningful across the whole list in manual order,
+          // so search results and sorted views are not draggable
+          <>
+            {sortedTodos.map(todo => (
+              <div key={todo.id} className="flex items-start gap-2">
+                {isSelecting && (
+                  <TodoSelectCheckbox
+                    todo={todo}
+                    isSelected={selectedIds.has(todo.id)}
+                    onToggle={handleSelectToggle}
+                  />
+                )}
+                <div className="flex-1 min-w-0">
+                  <TodoItem
+                    todo={todo}
+                    onTodoUpdated={replaceTodo}
+                    highlight={trimmedQuery}
+                    isFocused={focusedId === todo.id}
+                    onFocus={(item) => setFocusedId(item.id)}
+                  />
+                </div>
+              </div>
+            ))}
+            <p className="m-0 mt-2 text-center text-xs text-gray-text">
+              {isSearching ? 'Clear the search to reorder todos.' : 'Switch to manual order to reorder todos.'}
+            </p>
+          </>
         ) : (
-          <DndContext
-            sensors={sensors}
-            collisionDetection={closestCenter}
-            onDragStart={handleDragStart}
-            onDragEnd={handleDragEnd}
-            onDragCancel={handleDragCancel}
-          >
+          <>
             <SortableContext
-              items={filteredTodos.map(todo => todo.id)}
+              items={sortedTodos.map(todo => todo.id)}
               strategy={verticalListSortingStrategy}
             >
-              {filteredTodos.map(todo => (
+              {sortedTodos.map(todo => (
                 <SortableTodoItem
                   key={todo.id}
                   todo={todo}
-                  onTodoUpdated={handleTodoUpdated}
-                  onTodoDeleted={handleTodoDeleted}
+                  onTodoUpdated={replaceTodo}
                   isDragging={activeId === todo.id}
+                  isSelected={selectedIds.has(todo.id)}
+                  onSelectToggle={isSelecting ? handleSelectToggle : undefined}
+                  isFocused={focusedId === todo.id}
+                  onFocus={(item) => setFocusedId(item.id)}
                 />
               ))}
             </SortableContext>
@@ -330,11 +817,33 @@ export function TodoList({ className = '' }: TodoListProps) {
                 </div>
               ) : null}
             </DragOverlay>
-          </DndContext>
+          </>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 mt-2">
+        <button
+          type="button"
+          className="bg-transparent border-none p-0 text-xs text-gray-text cursor-pointer hover:text-gray-dark"
+          onClick={() => setShowShortcuts(true)}
+        >
+          Keyboard shortcuts (?)
+        </button>
+        {filter !== 'archived' && counts.done > 0 && (
+          <button
+            type="button"
+            className="bg-transparent border-none p-0 text-xs text-gray-text cursor-pointer hover:text-gray-dark disabled:cursor-not-allowed disabled:opacity-50"
+            onClick={handleClearCompleted}
+            disabled={isClearing}
+          >
+            Clear completed ({counts.done})
+          </button>
         )}
       </div>
 
-      {(isLoading && todos.length > 0) || isReordering ? (
+      {showShortcuts && <KeyboardShortcutsHelp onClose={() => setShowShortcuts(false)} />}
+
+      {(isLoading && todos.length > 0 && !isSearching) || isReordering || isBulkUpdating ? (
         <div className="absolute inset-0 bg-white/80 flex flex-col items-center justify-center rounded-lg gap-2">
           <div className="spinner-md border-gray-border-light border-t-primary" aria-hidden="true"></div>
           {isReordering && <span className="text-sm text-gray-text">Reordering...</span>}
@@ -0,0 +1,20 @@
+import { Todo } from '../types/todo';
+
+interface TodoSelectCheckboxProps {
+  todo: Todo;
+  isSelected: boolean;
+  // extendRange is true for shift-clicks, which select everything since the last click
+  onToggle: (todo: Todo, extendRange: boolean) => void;
+}
+
+export function TodoSelectCheckbox({ todo, isSelected, onToggle }: TodoSelectCheckboxProps) {
+  return (
+    <input
+      type="checkbox"
+      className="w-4 h-4 mt-4 shrink-0 cursor-pointer accent-primary"
+      checked={isSelected}
+      onChange={(e) => onToggle(todo, (e.nativeEvent as MouseEvent).shiftKey)}
+      aria-label={`Select ${todo.title}`}
+    />
+  );
+}
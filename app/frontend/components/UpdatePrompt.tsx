@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { applyUpdate, isUpdateAvailable, onUpdateAvailable } from '../utils/serviceWorker';
+
+// Offers to reload into a newly deployed build once its service worker is ready
+export function UpdatePrompt() {
+  const [updateAvailable, setUpdateAvailable] = useState(isUpdateAvailable);
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => onUpdateAvailable(setUpdateAvailable), []);
+
+  if (!updateAvailable || dismissed) {
+    return null;
+  }
+
+  return (
+    <div className="bg-primary text-white text-sm" role="status">
+      <div className="max-w-6xl mx-auto px-4 py-2 flex items-center justify-between gap-4">
+        <span>A new version of the app is available.</span>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            className="bg-white text-primary border-none rounded py-1 px-3 text-sm font-semibold cursor-pointer"
+            onClick={applyUpdate}
+          >
+            Reload
+          </button>
+          <button
+            type="button"
+            className="bg-transparent border-none p-0 text-white text-sm underline cursor-pointer"
+            onClick={() => setDismissed(true)}
+          >
+            Later
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
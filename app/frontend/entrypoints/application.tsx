@@ -2,12 +2,18 @@ import React from 'react'
 import { createRoot } from 'react-dom/client'
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom'
 import { AuthProvider } from '../hooks/useAuth'
+import { ToastProvider } from '../hooks/useToasts'
+import { TodoStoreProvider } from '../hooks/useTodoStore'
+import { TodoDragProvider } from '../hooks/useTodoDrag'
 import { AuthPage } from '../pages/AuthPage'
 import { TodoPage } from '../pages/TodoPage'
+import { BoardPage } from '../pages/BoardPage'
 import { AccountPage } from '../pages/AccountPage'
 import { Layout } from '../components/Layout'
 import { ProtectedRoute } from '../components/ProtectedRoute'
+import { DefaultListRedirect } from '../components/DefaultListRedirect'
 import { ErrorBoundary } from '../components/ErrorBoundary'
+import { registerServiceWorker } from '../utils/serviceWorker'
 import './application.css'
 
 const App: React.FC = () => {
@@ -22,10 +28,19 @@ const App: React.FC = () => {
             {/* Protected routes with layout */}
             <Route path="/" element={
               <ProtectedRoute>
-                <Layout />
+                <ToastProvider>
+                  <TodoStoreProvider>
+                    <TodoDragProvider>
+                      <Layout />
+                    </TodoDragProvider>
+                  </TodoStoreProvider>
+                </ToastProvider>
               </ProtectedRoute>
             }>
-              <Route index element={<TodoPage />} />
+              <Route index element={<DefaultListRedirect />} />
+              <Route path="lists/:listId" element={<TodoPage />} />
+              <Route path="board" element={<BoardPage />} />
+              <Route path="lists/:listId/board" element={<BoardPage />} />
               <Route path="account" element={<AccountPage />} />
             </Route>
             
@@ -44,4 +59,9 @@ if (container) {
   root.render(<App />)
 } else {
   console.error('Root element not found! Make sure there is a <div id="root"></div> in your HTML')
-}
\ No newline at end of file
+}
+
+// Only production builds have a service worker; in development it would serve stale code
+if (import.meta.env.PROD) {
+  registerServiceWorker()
+}
@@ -0,0 +1,126 @@
+/**
+ * Service worker that keeps the app usable without a connection. The page
+ * registers /service-worker.js, which Rails renders with the app shell of the
+ * current build and which then loads this file.
+ *
+ * - The app shell (the HTML page, entry scripts and styles) is cached on install
+ * - Hashed build assets are served from the cache first, since they never change
+ * - Todo and list API reads go to the network first and fall back to the last answer
+ * - Page loads go to the network first and fall back to the cached shell
+ * - The cached API answers are dropped when the page says the user signed out
+ *
+ * A new build waits until the page asks it to take over, so an open tab is
+ * never switched to new code behind the user's back
+ */
+
+// The DOM lib has no service worker types, so only what is used here is declared
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void
+}
+
+interface ExtendableMessageEvent extends ExtendableEvent {
+  data: any
+}
+
+interface FetchEvent extends ExtendableEvent {
+  request: Request
+  respondWith(response: Promise<Response>): void
+}
+
+interface AppShell {
+  version: string
+  assetsPath: string
+  urls: string[]
+}
+
+interface ServiceWorkerScope {
+  APP_SHELL: AppShell
+  location: Location
+  clients: { claim(): Promise<void> }
+  skipWaiting(): Promise<void>
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void
+  addEventListener(type: 'message', listener: (event: ExtendableMessageEvent) => void): void
+}
+
+const worker = self as unknown as ServiceWorkerScope
+const shell = worker.APP_SHELL
+
+const SHELL_CACHE = `app-shell-${shell.version}`
+const API_CACHE = 'api-todos'
+const API_PATHS = ['/api/todos', '/api/lists']
+
+worker.addEventListener('install', event => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(shell.urls)))
+})
+
+worker.addEventListener('activate', event => {
+  // Drop the shells of earlier builds; the API cache is the same for every build
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys.filter(key => key !== SHELL_CACHE && key !== API_CACHE).map(key => caches.delete(key))
+      ))
+      .then(() => worker.clients.claim())
+  )
+})
+
+worker.addEventListener('message', event => {
+  if (event.data?.type === 'SKIP_WAITING') {
+    worker.skipWaiting()
+  } else if (event.data?.type === 'CLEAR_API_CACHE') {
+    // One user's todos must never answer for the next one to sign in
+    event.waitUntil(caches.delete(API_CACHE))
+  }
+})
+
+worker.addEventListener('fetch', event => {
+  const { request } = event
+  const url = new URL(request.url)
+
+  if (request.method !== 'GET' || url.origin !== worker.location.origin) {
+    return
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/'))
+  } else if (API_PATHS.some(path => url.pathname === path || url.pathname.startsWith(`${path}/`))) {
+    event.respondWith(networkFirst(request, API_CACHE))
+  } else if (url.pathname.startsWith(shell.assetsPath) || shell.urls.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE))
+  }
+})
+
+async function cacheFirst(request: Request, cacheName: string): Promise<Response> {
+  const cached = await caches.match(request)
+  if (cached) {
+    return cached
+  }
+
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(cacheName)
+    await cache.put(request, response.clone())
+  }
+  return response
+}
+
+// fallbackUrl answers for any request that is not cached itself, e.g. the shell for every page
+async function networkFirst(request: Request, cacheName: string, fallbackUrl?: string): Promise<Response> {
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      const cache = await caches.open(cacheName)
+      await cache.put(fallbackUrl ?? request, response.clone())
+    }
+    return response
+  } catch (error) {
+    const cached = await caches.match(fallbackUrl ?? request)
+    if (cached) {
+      return cached
+    }
+    throw error
+  }
+}
+
+export {}
@@ -1,7 +1,36 @@
-import React, { createContext, useContext, useReducer, useCallback, ReactNode } from 'react';
-import { AuthState, User, AuthError } from '../types/auth';
-import { api } from '../utils/api';
+import React, { createContext, useContext, useReducer, useCallback, useEffect, useRef, ReactNode } from 'react';
+import {
+  AuthState,
+  User,
+  AuthError,
+  SessionResponse,
+  Passkey,
+  PasskeyListResponse,
+  PasskeyResponse,
+} from '../types/auth';
+import { api, apiClient } from '../utils/api';
 import { NetworkError } from '../utils/networkError';
+import { clearCachedLists } from '../utils/listsApi';
+import { isConnectionError, isOnline } from '../utils/offlineQueue';
+import { createOfflineStorage } from '../utils/offlineStorage';
+import { clearApiCache } from '../utils/serviceWorker';
+import { offlineTodos, syncOfflineChanges } from '../utils/todosApi';
+
+const SESSION_USER_KEY = 'sessionUser';
+
+// The last user the server confirmed, so the installed app still opens offline
+const storage = createOfflineStorage();
+
+const lastSessionUser = async (): Promise<User | null> => {
+  try {
+    return (await storage.get<User>(SESSION_USER_KEY)) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+const forgetSessionUser = () =>
+  storage.delete(SESSION_USER_KEY).catch(error => console.error('Could not clear offline data:', error));
 
 // Action types
 type AuthAction =
@@ -9,13 +38,14 @@ type AuthAction =
   | { type: 'AUTH_SUCCESS'; payload: User }
   | { type: 'AUTH_ERROR'; payload: string }
   | { type: 'AUTH_LOGOUT' }
+  | { type: 'AUTH_RESTORE'; payload: User | null }
   | { type: 'CLEAR_ERROR' };
 
-// Initial state
+// Initial state: loading until the server tells us whether a session exists
 const initialState: AuthState = {
   user: null,
   isAuthenticated: false,
-  isLoading: false,
+  isLoading: true,
   error: null,
 };
 
@@ -52,6 +82,17 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
         isLoading: false,
         error: null,
       };
+    case 'AUTH_RESTORE':
+      // A sign-in that completed before the session check wins
+      if (state.isAuthenticated) {
+        return state;
+      }
+      return {
+        ...state,
+        user: action.payload,
+        isAuthenticated: action.payload !== null,
+        isLoading: false,
+      };
     case 'CLEAR_ERROR':
       return {
         ...state,
@@ -85,12 +126,100 @@ const bufferToBase64Url = (buffer: ArrayBuffer): string => {
     .replace(/=+$/, '');
 };
 
+// Create a credential from server registration options and encode it for the server
+const createPasskeyCredential = async (options: any) => {
+  // Convert challenge and user ID from base64url to ArrayBuffer
+  const publicKeyCredentialCreationOptions = {
+    ...options,
+    challenge: base64UrlToUint8Array(options.challenge),
+    user: {
+      ...options.user,
+      id: base64UrlToUint8Array(options.user.id),
+    },
+    excludeCredentials: options.excludeCredentials?.map((cred: any) => ({
+      ...cred,
+      id: base64UrlToUint8Array(cred.id),
+    })) || [],
+  };
+
+  // Create credential
+  const credential = await navigator.credentials.create({
+    publicKey: publicKeyCredentialCreationOptions,
+  }) as PublicKeyCredential;
+
+  if (!credential) {
+    throw new Error('Failed to create credential');
+  }
+
+  const rawId = bufferToBase64Url(credential.rawId);
+  const response = credential.response as AuthenticatorAttestationResponse;
+
+  // Prepare credential for server
+  return {
+    id: rawId,
+    rawId,
+    response: {
+      attestationObject: bufferToBase64Url(response.attestationObject),
+      clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+    },
+    type: credential.type,
+  };
+};
+
+// Convert server authentication options into the shape navigator.credentials.get expects
+const toCredentialRequestOptions = (options: any): PublicKeyCredentialRequestOptions => ({
+  ...options,
+  challenge: base64UrlToUint8Array(options.challenge),
+  allowCredentials: options.allowCredentials?.map((cred: any) => ({
+    ...cred,
+    id: base64UrlToUint8Array(cred.id),
+  })) || [],
+});
+
+// Encode an assertion for the authentication verify endpoint
+const encodeAssertion = (credential: PublicKeyCredential) => {
+  const rawId = bufferToBase64Url(credential.rawId);
+  const response = credential.response as AuthenticatorAssertionResponse;
+
+  return {
+    id: rawId,
+    rawId,
+    response: {
+      authenticatorData: bufferToBase64Url(response.authenticatorData),
+      clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+      signature: bufferToBase64Url(response.signature),
+      userHandle: response.userHandle ? bufferToBase64Url(response.userHandle) : null,
+    },
+    type: credential.type,
+  };
+};
+
+// Whether the browser can offer passkeys through input autofill
+export const isConditionalMediationAvailable = async (): Promise<boolean> => {
+  if (typeof PublicKeyCredential === 'undefined' ||
+      typeof PublicKeyCredential.isConditionalMediationAvailable !== 'function') {
+    return false;
+  }
+
+  try {
+    return await PublicKeyCredential.isConditionalMediationAvailable();
+  } catch {
+    return false;
+  }
+};
+
 // Context type
 interface AuthContextType extends AuthState {
   register: () => Promise<void>;
   login: () => Promise<void>;
+  startConditionalLogin: () => Promise<void>;
+  cancelConditionalLogin: () => void;
   logout: () => Promise<void>;
   clearError: () => void;
+  listPasskeys: () => Promise<Passkey[]>;
+  addPasskey: (nickname?: string) => Promise<Passkey>;
+  renamePasskey: (id: number, nickname: string) => Promise<Passkey>;
+  removePasskey: (id: number) => Promise<void>;
 }
 
 // Create context
@@ -103,6 +232,76 @@ interface AuthProviderProps {
 
 export function AuthProvider({ children }: AuthProviderProps) {
   const [state, dispatch] = useReducer(authReducer, initialState);
+  const conditionalLoginRef = useRef<AbortController | null>(null);
+  const isAuthenticatedRef = useRef(state.isAuthenticated);
+
+  useEffect(() => {
+    isAuthenticatedRef.current = state.isAuthenticated;
+  }, [state.isAuthenticated]);
+
+  // Restore an existing server session on mount
+  useEffect(() => {
+    let cancelled = false;
+
+    // Without a connection there is no telling whether the session still holds, so
+    // whoever was signed in last stays signed in; the first request that reaches the
+    // server and is refused signs them out
+    const restoreSession = async () => {
+      let user: User | null;
+      try {
+        if (isOnline()) {
+          const result = await api.get<SessionResponse>('/session');
+          user = result.authenticated && result.user_id ? { id: result.user_id } : null;
+          if (!user) {
+            await forgetSessionUser();
+          }
+        } else {
+          user = await lastSessionUser();
+        }
+      } catch (error) {
+        console.error('Session restore error:', error);
+        user = isConnectionError(error) ? await lastSessionUser() : null;
+      }
+
+      if (!cancelled) {
+        dispatch({ type: 'AUTH_RESTORE', payload: user });
+      }
+    };
+
+    restoreSession();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Sign out locally when the server rejects a request because the session
+  // expired; ProtectedRoute then sends the user to /auth with state.from.
+  // Failed sign-in attempts also answer 401, so only react while signed in
+  useEffect(() => {
+    return apiClient.onAuthFailure(() => {
+      if (isAuthenticatedRef.current) {
+        isAuthenticatedRef.current = false;
+        dispatch({ type: 'AUTH_LOGOUT' });
+      }
+    });
+  }, []);
+
+  // The todos kept for offline use belong to whoever is signed in
+  useEffect(() => {
+    const userId = state.user?.id ?? null;
+    offlineTodos.switchUser(userId);
+    if (userId !== null) {
+      storage.set<User>(SESSION_USER_KEY, { id: userId }).catch(error => console.error('Could not save offline data:', error));
+    }
+  }, [state.user?.id]);
+
+  // Never leave an autofill request pending once the provider is gone
+  useEffect(() => {
+    return () => {
+      conditionalLoginRef.current?.abort();
+    };
+  }, []);
 
   // Helper function to handle API errors
   const handleApiError = (error: any): string => {
@@ -120,8 +319,16 @@ export function AuthProvider({ children }: AuthProviderProps) {
     return !!(navigator.credentials && navigator.credentials.create);
   };
 
+  // Abort a pending conditional (autofill) sign-in request, if any
+  const cancelConditionalLogin = useCallback(() => {
+    conditionalLoginRef.current?.abort();
+    conditionalLoginRef.current = null;
+  }, []);
+
   // Register function
   const register = useCallback(async () => {
+    cancelConditionalLogin();
+
     if (!checkWebAuthnSupport()) {
       dispatch({ 
         type: 'AUTH_ERROR', 
@@ -136,42 +343,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
       // Get registration options from server
       const options = await api.post('/webauthn/registration/options');
 
-      // Convert challenge and user ID from base64url to ArrayBuffer
-      const publicKeyCredentialCreationOptions = {
-        ...options,
-        challenge: base64UrlToUint8Array(options.challenge),
-        user: {
-          ...options.user,
-          id: base64UrlToUint8Array(options.user.id),
-        },
-        excludeCredentials: options.excludeCredentials?.map((cred: any) => ({
-          ...cred,
-          id: base64UrlToUint8Array(cred.id),
-        })) || [],
-      };
-
-      // Create credential
-      const credential = await navigator.credentials.create({
-        publicKey: publicKeyCredentialCreationOptions,
-      }) as PublicKeyCredential;
-
-      if (!credential) {
-        throw new Error('Failed to create credential');
-      }
-
-      const rawId = bufferToBase64Url(credential.rawId);
-      const response = credential.response as AuthenticatorAttestationResponse;
-
-      // Prepare credential for server
-      const credentialJson = {
-        id: rawId,
-        rawId,
-        response: {
-          attestationObject: bufferToBase64Url(response.attestationObject),
-          clientDataJSON: bufferToBase64Url(response.clientDataJSON),
-        },
-        type: credential.type,
-      };
+      // Create credential on the authenticator
+      const credentialJson = await createPasskeyCredential(options);
 
       // Verify registration with server
       const result = await api.post('/webauthn/registration/verify', { credential: credentialJson });
@@ -191,10 +364,13 @@ export function AuthProvider({ children }: AuthProviderProps) {
         payload: handleApiError(error) 
       });
     }
-  }, []);
+  }, [cancelConditionalLogin]);
 
   // Login function
   const login = useCallback(async () => {
+    // Only one WebAuthn request can be pending, so the modal sign-in replaces autofill
+    cancelConditionalLogin();
+
     if (!checkWebAuthnSupport()) {
       dispatch({ 
         type: 'AUTH_ERROR', 
@@ -209,43 +385,19 @@ export function AuthProvider({ children }: AuthProviderProps) {
       // Get authentication options from server
       const options = await api.post('/webauthn/authentication/options');
 
-      // Convert challenge and credential IDs from base64url to ArrayBuffer
-      const publicKeyCredentialRequestOptions = {
-        ...options,
-        challenge: base64UrlToUint8Array(options.challenge),
-        allowCredentials: options.allowCredentials?.map((cred: any) => ({
-          ...cred,
-          id: base64UrlToUint8Array(cred.id),
-        })) || [],
-      };
-
       // Get credential
       const credential = await navigator.credentials.get({
-        publicKey: publicKeyCredentialRequestOptions,
+        publicKey: toCredentialRequestOptions(options),
       }) as PublicKeyCredential;
 
       if (!credential) {
         throw new Error('Authentication cancelled or failed');
       }
 
-      const rawId = bufferToBase64Url(credential.rawId);
-      const response = credential.response as AuthenticatorAssertionResponse;
-
-      // Prepare credential for server
-      const credentialJson = {
-        id: rawId,
-        rawId,
-        response: {
-          authenticatorData: bufferToBase64Url(response.authenticatorData),
-          clientDataJSON: bufferToBase64Url(response.clientDataJSON),
-          signature: bufferToBase64Url(response.signature),
-          userHandle: response.userHandle ? bufferToBase64Url(response.userHandle) : null,
-        },
-        type: credential.type,
-      };
-
       // Verify authentication with server
-      const result = await api.post('/webauthn/authentication/verify', { credential: credentialJson });
+      const result = await api.post('/webauthn/authentication/verify', {
+        credential: encodeAssertion(credential),
+      });
       
       if (result.success) {
         dispatch({ 
@@ -262,17 +414,94 @@ export function AuthProvider({ children }: AuthProviderProps) {
         payload: handleApiError(error) 
       });
     }
-  }, []);
+  }, [cancelConditionalLogin]);
+
+  // Start a conditional mediation request so saved passkeys appear in the
+  // browser's autofill. Runs in the background until a passkey is picked or
+  // cancelConditionalLogin() aborts it.
+  const startConditionalLogin = useCallback(async () => {
+    cancelConditionalLogin();
+
+    if (!checkWebAuthnSupport()) {
+      return;
+    }
+
+    // Register the controller before any await so a cancel always reaches it
+    const controller = new AbortController();
+    conditionalLoginRef.current = controller;
+
+    let credential: PublicKeyCredential | null;
+    try {
+      if (!(await isConditionalMediationAvailable()) || controller.signal.aborted) {
+        return;
+      }
+
+      const options = await api.post('/webauthn/authentication/options');
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      credential = await navigator.credentials.get({
+        mediation: 'conditional',
+        // Discoverable credentials only: the browser offers whatever it has saved for this site
+        publicKey: { ...toCredentialRequestOptions(options), allowCredentials: [] },
+        signal: controller.signal,
+      }) as PublicKeyCredential | null;
+    } catch (error: any) {
+      // Aborts are expected; other failures just mean no autofill
+      if (error?.name !== 'AbortError' && !controller.signal.aborted) {
+        console.error('Conditional authentication error:', error);
+      }
+      return;
+    } finally {
+      if (conditionalLoginRef.current === controller) {
+        conditionalLoginRef.current = null;
+      }
+    }
+
+    if (!credential || controller.signal.aborted) {
+      return;
+    }
+
+    dispatch({ type: 'AUTH_START' });
+
+    try {
+      const result = await api.post('/webauthn/authentication/verify', {
+        credential: encodeAssertion(credential),
+      });
+
+      if (result.success) {
+        dispatch({
+          type: 'AUTH_SUCCESS',
+          payload: { id: result.user_id }
+        });
+      } else {
+        throw new Error('Authentication failed');
+      }
+    } catch (error: any) {
+      console.error('Authentication error:', error);
+      dispatch({
+        type: 'AUTH_ERROR',
+        payload: handleApiError(error)
+      });
+    }
+  }, [cancelConditionalLogin]);
 
   // Logout function
   const logout = useCallback(async () => {
+    // Send changes made offline while the session still lasts
+    await syncOfflineChanges();
+
     try {
       await api.post('/logout');
     } catch (error) {
       console.error('Logout error:', error);
       // Continue with logout even if server request fails
     }
-    
+
+    // Leave nothing behind for the next person to sign in on this browser
+    clearApiCache();
+    await Promise.all([offlineTodos.clear(), clearCachedLists(), forgetSessionUser()]);
     dispatch({ type: 'AUTH_LOGOUT' });
   }, []);
 
@@ -281,12 +510,50 @@ export function AuthProvider({ children }: AuthProviderProps) {
     dispatch({ type: 'CLEAR_ERROR' });
   }, []);
 
+  // Passkey management functions leave error handling to the caller,
+  // so a failure here never signs the user out
+  const listPasskeys = useCallback(async (): Promise<Passkey[]> => {
+    const result = await api.get<PasskeyListResponse>('/credentials');
+    return result.credentials || [];
+  }, []);
+
+  const addPasskey = useCallback(async (nickname?: string): Promise<Passkey> => {
+    if (!checkWebAuthnSupport()) {
+      throw new Error('WebAuthn is not supported in this browser. Please use a modern browser with Passkey support.');
+    }
+
+    // Options exclude the passkeys this account already has
+    const options = await api.post('/credentials/options');
+    const credentialJson = await createPasskeyCredential(options);
+
+    const result = await api.post<PasskeyResponse>('/credentials', {
+      credential: credentialJson,
+      nickname,
+    });
+    return result.credential;
+  }, []);
+
+  const renamePasskey = useCallback(async (id: number, nickname: string): Promise<Passkey> => {
+    const result = await api.patch<PasskeyResponse>(`/credentials/${id}`, { nickname });
+    return result.credential;
+  }, []);
+
+  const removePasskey = useCallback(async (id: number): Promise<void> => {
+    await api.delete(`/credentials/${id}`);
+  }, []);
+
   const value: AuthContextType = {
     ...state,
     register,
     login,
+    startConditionalLogin,
+    cancelConditionalLogin,
     logout,
     clearError,
+    listPasskeys,
+    addPasskey,
+    renamePasskey,
+    removePasskey,
   };
 
   return (
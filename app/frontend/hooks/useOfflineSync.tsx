@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { offlineTodos, syncOfflineChanges } from '../utils/todosApi';
+import { OfflineQueueState, isOnline } from '../utils/offlineQueue';
+
+export interface OfflineStatus extends OfflineQueueState {
+  isOnline: boolean;
+}
+
+// Track the connection and the queued todo changes, and send them whenever the connection comes back
+export function useOfflineSync(): OfflineStatus {
+  const [online, setOnline] = useState(isOnline);
+  const [queueState, setQueueState] = useState(() => offlineTodos.state);
+
+  useEffect(() => offlineTodos.subscribe(setQueueState), []);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      syncOfflineChanges();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    // Changes queued before a reload go out as soon as the app is back
+    syncOfflineChanges();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return { isOnline: online, ...queueState };
+}
@@ -0,0 +1,137 @@
+import { createContext, useContext, useState, useCallback, useEffect, useRef, ReactNode } from 'react';
+import { ToastStack } from '../components/ToastStack';
+
+// How long a toast stays up before it expires on its own
+export const DEFAULT_TOAST_DURATION = 5000;
+
+export interface ToastOptions {
+  message: string;
+  actionLabel?: string;
+  // Runs when the action button is pressed; the toast closes without expiring
+  onAction?: () => void;
+  // Runs when the toast times out or is closed without pressing the action
+  onExpire?: () => void | Promise<void>;
+  duration?: number;
+  variant?: 'info' | 'error';
+}
+
+export interface Toast extends ToastOptions {
+  id: number;
+}
+
+interface ToastContextType {
+  toasts: Toast[];
+  showToast: (options: ToastOptions) => number;
+  dismissToast: (id: number) => void;
+  cancelToast: (id: number) => void;
+  runToastAction: (id: number) => void;
+  flushToasts: () => Promise<void>;
+}
+
+const ToastContext = createContext<ToastContextType | undefined>(undefined);
+
+interface ToastProviderProps {
+  children: ReactNode;
+}
+
+export function ToastProvider({ children }: ToastProviderProps) {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const toastsRef = useRef<Toast[]>([]);
+  const timersRef = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+  const nextIdRef = useRef(1);
+
+  const removeToast = useCallback((id: number): Toast | undefined => {
+    const toast = toastsRef.current.find(item => item.id === id);
+    toastsRef.current = toastsRef.current.filter(item => item.id !== id);
+    setToasts(toastsRef.current);
+
+    const timer = timersRef.current.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      timersRef.current.delete(id);
+    }
+
+    return toast;
+  }, []);
+
+  const dismissToast = useCallback((id: number) => {
+    removeToast(id)?.onExpire?.();
+  }, [removeToast]);
+
+  // Close a toast without running either callback, e.g. when its action already happened elsewhere
+  const cancelToast = useCallback((id: number) => {
+    removeToast(id);
+  }, [removeToast]);
+
+  const runToastAction = useCallback((id: number) => {
+    removeToast(id)?.onAction?.();
+  }, [removeToast]);
+
+  // Expire every toast at once and wait for the work that starts, e.g. before signing out
+  const flushToasts = useCallback(async () => {
+    const pending = toastsRef.current;
+    pending.forEach(toast => removeToast(toast.id));
+    await Promise.all(pending.map(toast => toast.onExpire?.()));
+  }, [removeToast]);
+
+  const showToast = useCallback((options: ToastOptions): number => {
+    const id = nextIdRef.current++;
+    toastsRef.current = [...toastsRef.current, { ...options, id }];
+    setToasts(toastsRef.current);
+
+    timersRef.current.set(
+      id,
+      setTimeout(() => dismissToast(id), options.duration ?? DEFAULT_TOAST_DURATION)
+    );
+
+    return id;
+  }, [dismissToast]);
+
+  // Leaving the page ends every undo window, so delayed work such as deletions is
+  // sent while the page can still send it; a reload would otherwise bring it back
+  useEffect(() => {
+    const handlePageHide = () => {
+      flushToasts();
+    };
+
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [flushToasts]);
+
+  // Whatever is still pending when the provider goes away counts as expired,
+  // so delayed work such as deletions still happens
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => {
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+      const pending = toastsRef.current;
+      toastsRef.current = [];
+      pending.forEach(toast => toast.onExpire?.());
+    };
+  }, []);
+
+  const value: ToastContextType = {
+    toasts,
+    showToast,
+    dismissToast,
+    cancelToast,
+    runToastAction,
+    flushToasts,
+  };
+
+  return (
+    <ToastContext.Provider value={value}>
+      {children}
+      <ToastStack toasts={toasts} onAction={runToastAction} onDismiss={dismissToast} />
+    </ToastContext.Provider>
+  );
+}
+
+export function useToasts(): ToastContextType {
+  const context = useContext(ToastContext);
+  if (context === undefined) {
+    throw new Error('useToasts must be used within a ToastProvider');
+  }
+  return context;
+}
@@ -0,0 +1,79 @@
+import { ReactNode } from 'react';
+import {
+  DndContext,
+  closestCenter,
+  pointerWithin,
+  CollisionDetection,
+  KeyboardSensor,
+  Over,
+  PointerSensor,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
+import { sortableKeyboardCoordinates } from '@dnd-kit/sortable';
+import { List } from '../types/list';
+
+type ListTarget = Pick<List, 'id' | 'name'>;
+
+// Sidebar lists are droppable under their own id, which must never collide with a todo id
+const listDroppableId = (list: ListTarget) => `list-${list.id}`;
+
+// A list in the sidebar takes a todo only while the pointer is over it; everything
+// else is a todo in the list being reordered, where the closest one wins
+const collisionDetection: CollisionDetection = (args) => {
+  const isList = (container: (typeof args.droppableContainers)[number]) =>
+    container.data.current?.list !== undefined;
+
+  const listCollisions = pointerWithin({
+    ...args,
+    droppableContainers: args.droppableContainers.filter(isList),
+  });
+  if (listCollisions.length > 0) {
+    return listCollisions;
+  }
+
+  return closestCenter({
+    ...args,
+    droppableContainers: args.droppableContainers.filter(container => !isList(container)),
+  });
+};
+
+/**
+ * The sidebar list a drag ended over, if any
+ */
+export function listForDrop(over: Over | null): ListTarget | null {
+  return (over?.data.current?.list as ListTarget | undefined) ?? null;
+}
+
+/**
+ * Makes a sidebar entry a place to drop a dragged todo on
+ */
+export function useListDropTarget(list: ListTarget) {
+  const { setNodeRef, isOver } = useDroppable({
+    id: listDroppableId(list),
+    data: { list: { id: list.id, name: list.name } },
+  });
+  return { setNodeRef, isOver };
+}
+
+interface TodoDragProviderProps {
+  children: ReactNode;
+}
+
+// Spans the sidebar and the page, so todos dragged in the list can be dropped on
+// another list. TodoList follows the drags with useDndMonitor
+export function TodoDragProvider({ children }: TodoDragProviderProps) {
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  return (
+    <DndContext sensors={sensors} collisionDetection={collisionDetection}>
+      {children}
+    </DndContext>
+  );
+}
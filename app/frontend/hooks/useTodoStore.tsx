@@ -0,0 +1,552 @@
+import { createContext, useContext, useReducer, useCallback, useEffect, useRef, ReactNode } from 'react';
+import { Todo, TodoBulkOperation, TodoMovePlacement, TodoReorderUpdate, TodoUpdateData } from '../types/todo';
+import { List } from '../types/list';
+import { offlineTodos, todosApi } from '../utils/todosApi';
+import { SyncedTodos } from '../utils/offlineQueue';
+import { applyMove, currentPlacement } from '../utils/todoMove';
+import { getUserFriendlyErrorMessage } from '../utils/networkError';
+import { useToasts } from './useToasts';
+
+// Only the most recent actions can be undone
+const MAX_HISTORY = 20;
+
+export interface UndoEntry {
+  id: number;
+  description: string;
+  toastId: number | null;
+  undo: () => Promise<void> | void;
+}
+
+interface TodoStoreState {
+  todos: Todo[];
+  history: UndoEntry[];
+}
+
+// Updates to one todo that have been shown but not yet confirmed by the server
+interface PendingUpdates {
+  // The todo as the server last sent it
+  confirmed: Todo;
+  updates: TodoUpdateData[];
+  // Requests for one todo go out one at a time, in the order they were made
+  queue: Promise<unknown>;
+}
+
+// Action types
+type TodoStoreAction =
+  | { type: 'TODOS_LOADED'; payload: Todo[] }
+  | { type: 'TODO_ADDED'; payload: Todo }
+  | { type: 'TODO_UPDATED'; payload: Todo }
+  | { type: 'TODO_REMOVED'; payload: number }
+  | { type: 'TODO_RESTORED'; payload: { todo: Todo; index: number } }
+  | { type: 'TODOS_REORDERED'; payload: Todo[] }
+  | { type: 'TODOS_SYNCED'; payload: SyncedTodos }
+  | { type: 'HISTORY_PUSHED'; payload: UndoEntry }
+  | { type: 'HISTORY_REMOVED'; payload: number };
+
+const initialState: TodoStoreState = {
+  todos: [],
+  history: [],
+};
+
+// Reducer
+function todoStoreReducer(state: TodoStoreState, action: TodoStoreAction): TodoStoreState {
+  switch (action.type) {
+    case 'TODOS_LOADED':
+    case 'TODOS_REORDERED':
+      return { ...state, todos: action.payload };
+    case 'TODO_ADDED':
+      return { ...state, todos: [...state.todos, action.payload] };
+    case 'TODO_UPDATED':
+      return {
+        ...state,
+        todos: state.todos.map(todo => (todo.id === action.payload.id ? action.payload : todo)),
+      };
+    case 'TODOS_SYNCED':
+      // Todos created offline take on their server ids, or go away if the server refused them
+      return {
+        ...state,
+        todos: state.todos.flatMap(todo => {
+          const synced = action.payload.get(todo.id);
+          return synced === undefined ? [todo] : synced ? [synced] : [];
+        }),
+      };
+    case 'TODO_REMOVED':
+      return { ...state, todos: state.todos.filter(todo => todo.id !== action.payload) };
+    case 'TODO_RESTORED': {
+      if (state.todos.some(todo => todo.id === action.payload.todo.id)) {
+        return state;
+      }
+      const todos = [...state.todos];
+      todos.splice(Math.min(action.payload.index, todos.length), 0, action.payload.todo);
+      return { ...state, todos };
+    }
+    case 'HISTORY_PUSHED':
+      return { ...state, history: [...state.history, action.payload].slice(-MAX_HISTORY) };
+    case 'HISTORY_REMOVED':
+      return { ...state, history: state.history.filter(entry => entry.id !== action.payload) };
+    default:
+      return state;
+  }
+}
+
+const toReorderUpdates = (todos: Todo[]): TodoReorderUpdate[] =>
+  todos.map((todo, index) => ({ id: todo.id, position: index + 1 }));
+
+// Labels are only known by id here, so they wait for the server
+function withUpdates(todo: Todo, updates: TodoUpdateData): Todo {
+  const { label_ids: _labelIds, ...fields } = updates;
+  return { ...todo, ...fields };
+}
+
+const countTodos = (count: number) => (count === 1 ? '1 todo' : `${count} todos`);
+
+// Put surviving todos back in their old order; anything added since goes last
+function restoreOrder(currentTodos: Todo[], previousTodos: Todo[]): Todo[] {
+  const currentById = new Map(currentTodos.map(todo => [todo.id, todo]));
+  const previousIds = new Set(previousTodos.map(todo => todo.id));
+
+  return [
+    ...previousTodos.filter(todo => currentById.has(todo.id)).map(todo => currentById.get(todo.id)!),
+    ...currentTodos.filter(todo => !previousIds.has(todo.id)),
+  ];
+}
+
+// Context type
+interface TodoStoreContextType {
+  todos: Todo[];
+  history: UndoEntry[];
+  setTodos: (todos: Todo[], listId?: number | null) => void;
+  addTodo: (todo: Todo) => void;
+  replaceTodo: (todo: Todo) => void;
+  updateTodo: (todo: Todo, updates: TodoUpdateData) => Promise<Todo>;
+  toggleTodoStatus: (todo: Todo) => Promise<Todo>;
+  deleteTodo: (todo: Todo) => void;
+  moveTodo: (todo: Todo, placement: TodoMovePlacement) => Promise<void>;
+  moveTodoToList: (todo: Todo, list: Pick<List, 'id' | 'name'>) => Promise<void>;
+  moveTodoToStatus: (todo: Todo, status: Todo['status'], placement?: TodoMovePlacement) => Promise<void>;
+  bulkUpdateTodos: (ids: number[], operation: TodoBulkOperation) => Promise<void>;
+  clearCompleted: () => Promise<void>;
+  restoreTodos: (ids: number[]) => Promise<void>;
+  undo: () => Promise<void>;
+}
+
+const TodoStoreContext = createContext<TodoStoreContextType | undefined>(undefined);
+
+// Provider component
+interface TodoStoreProviderProps {
+  children: ReactNode;
+}
+
+export function TodoStoreProvider({ children }: TodoStoreProviderProps) {
+  const [state, dispatch] = useReducer(todoStoreReducer, initialState);
+  const { showToast, cancelToast } = useToasts();
+  const stateRef = useRef(state);
+  const nextHistoryIdRef = useRef(1);
+  // Deleted todos stay on the server until their undo toast expires
+  const pendingDeletesRef = useRef(new Set<number>());
+  const pendingUpdatesRef = useRef(new Map<number, PendingUpdates>());
+  // The list the store holds the todos of; null for the default list
+  const listIdRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
+
+  useEffect(() => offlineTodos.onSynced(synced => {
+    dispatch({ type: 'TODOS_SYNCED', payload: synced });
+  }), []);
+
+  const showError = useCallback((message: string, error: unknown) => {
+    console.error(message, error);
+    showToast({ message: `${message} ${getUserFriendlyErrorMessage(error)}`, variant: 'error' });
+  }, [showToast]);
+
+  const runUndo = useCallback(async (entry: UndoEntry) => {
+    dispatch({ type: 'HISTORY_REMOVED', payload: entry.id });
+
+    try {
+      await entry.undo();
+    } catch (error) {
+      showError('Could not undo.', error);
+    }
+  }, [showError]);
+
+  // Record an undoable action and offer it in a toast
+  const pushHistory = useCallback((
+    description: string,
+    undo: () => Promise<void> | void,
+    onExpire?: () => void | Promise<void>
+  ): UndoEntry => {
+    const entry: UndoEntry = { id: nextHistoryIdRef.current++, description, toastId: null, undo };
+
+    entry.toastId = showToast({
+      message: description,
+      actionLabel: 'Undo',
+      onAction: () => runUndo(entry),
+      onExpire,
+    });
+    dispatch({ type: 'HISTORY_PUSHED', payload: entry });
+
+    return entry;
+  }, [showToast, runUndo]);
+
+  // Pass a listId when the todos come from a different list than the ones shown so far
+  const setTodos = useCallback((todos: Todo[], listId?: number | null) => {
+    if (listId !== undefined) {
+      listIdRef.current = listId;
+    }
+    dispatch({
+      type: 'TODOS_LOADED',
+      payload: todos.filter(todo => !pendingDeletesRef.current.has(todo.id)),
+    });
+  }, []);
+
+  const addTodo = useCallback((todo: Todo) => {
+    dispatch({ type: 'TODO_ADDED', payload: todo });
+  }, []);
+
+  // A todo from the server replaces the shown one, with any updates still on their way kept on top
+  const replaceTodo = useCallback((todo: Todo) => {
+    const pending = pendingUpdatesRef.current.get(todo.id);
+    if (pending) {
+      pending.confirmed = todo;
+    }
+    dispatch({ type: 'TODO_UPDATED', payload: pending ? pending.updates.reduce(withUpdates, todo) : todo });
+  }, []);
+
+  // The todo as currently shown, including updates the server has not answered yet
+  const shownTodo = useCallback((todo: Todo): Todo => {
+    const pending = pendingUpdatesRef.current.get(todo.id);
+    if (pending) {
+      return pending.updates.reduce(withUpdates, pending.confirmed);
+    }
+    return stateRef.current.todos.find(item => item.id === todo.id) ?? todo;
+  }, []);
+
+  // Show an update at once and roll it back if the server rejects it. A response only
+  // ever moves the confirmed todo forward, so it cannot undo a newer local change.
+  // The next occurrence of a completed repeating todo is added after it
+  const updateTodo = useCallback((todo: Todo, updates: TodoUpdateData): Promise<Todo> => {
+    const current = shownTodo(todo);
+    let pending = pendingUpdatesRef.current.get(todo.id);
+    if (!pending) {
+      pending = { confirmed: current, updates: [], queue: Promise.resolve() };
+      pendingUpdatesRef.current.set(todo.id, pending);
+    }
+    const entry = pending;
+
+    entry.updates.push(updates);
+    dispatch({ type: 'TODO_UPDATED', payload: withUpdates(current, updates) });
+
+    const settle = (confirmed: Todo) => {
+      entry.updates = entry.updates.filter(update => update !== updates);
+      if (entry.updates.length === 0 && pendingUpdatesRef.current.get(todo.id) === entry) {
+        pendingUpdatesRef.current.delete(todo.id);
+      }
+      replaceTodo(confirmed);
+    };
+
+    const request = entry.queue.then(() => todosApi.update(todo.id, updates));
+    entry.queue = request.catch(() => undefined);
+
+    return request.then(
+      updatedTodo => {
+        const { next_occurrence: nextOccurrence, ...confirmed } = updatedTodo;
+        settle(confirmed);
+        if (nextOccurrence) {
+          dispatch({ type: 'TODO_ADDED', payload: nextOccurrence });
+        }
+        return updatedTodo;
+      },
+      error => {
+        settle(entry.confirmed);
+        throw error;
+      }
+    );
+  }, [replaceTodo, shownTodo]);
+
+  // Completing a repeating todo hands its rule on to the next occurrence, so undoing
+  // it deletes that occurrence and takes the rule back
+  const revertStatus = useCallback(async (todo: Todo, status: Todo['status'], nextOccurrence?: Todo) => {
+    if (nextOccurrence) {
+      await todosApi.destroy(nextOccurrence.id);
+      dispatch({ type: 'TODO_REMOVED', payload: nextOccurrence.id });
+      await updateTodo(todo, { status, recurrence: nextOccurrence.recurrence ?? null });
+    } else {
+      await updateTodo(todo, { status });
+    }
+  }, [updateTodo]);
+
+  const toggleTodoStatus = useCallback(async (todo: Todo): Promise<Todo> => {
+    const previousStatus = shownTodo(todo).status;
+    const { next_occurrence: nextOccurrence, ...updatedTodo } = await updateTodo(todo, {
+      status: previousStatus === 'open' ? 'done' : 'open',
+    });
+
+    pushHistory(
+      updatedTodo.status === 'done' ? `Completed "${todo.title}"` : `Reopened "${todo.title}"`,
+      async () => {
+        await revertStatus(todo, previousStatus, nextOccurrence);
+      }
+    );
+
+    return updatedTodo;
+  }, [pushHistory, revertStatus, shownTodo, updateTodo]);
+
+  const deleteTodo = useCallback((todo: Todo) => {
+    const index = stateRef.current.todos.findIndex(item => item.id === todo.id);
+
+    pendingDeletesRef.current.add(todo.id);
+    dispatch({ type: 'TODO_REMOVED', payload: todo.id });
+
+    const restore = () => {
+      pendingDeletesRef.current.delete(todo.id);
+      dispatch({ type: 'TODO_RESTORED', payload: { todo, index: Math.max(index, 0) } });
+    };
+
+    // Once the toast is gone the delete can no longer be undone, so send it to the server
+    const commit = async () => {
+      dispatch({ type: 'HISTORY_REMOVED', payload: entry.id });
+
+      try {
+        await todosApi.destroy(todo.id);
+        pendingDeletesRef.current.delete(todo.id);
+      } catch (error) {
+        restore();
+        showError(`Could not delete "${todo.title}".`, error);
+      }
+    };
+
+    const entry = pushHistory(`Deleted "${todo.title}"`, restore, commit);
+  }, [pushHistory, showError]);
+
+  // Show a move at once and send it, putting the list back if the server rejects it
+  const placeTodo = useCallback(async (todo: Todo, placement: TodoMovePlacement) => {
+    const previousTodos = stateRef.current.todos;
+    dispatch({ type: 'TODOS_REORDERED', payload: applyMove(previousTodos, todo.id, placement) });
+
+    try {
+      // The server picks the new position, so keep the todo it sends back
+      replaceTodo(await todosApi.move(todo.id, placement));
+    } catch (error) {
+      dispatch({ type: 'TODOS_REORDERED', payload: previousTodos });
+      throw error;
+    }
+  }, [replaceTodo]);
+
+  // Move one todo next to another; the rest of the list, shown or not, keeps its order
+  const moveTodo = useCallback(async (todo: Todo, placement: TodoMovePlacement) => {
+    const previousPlacement = currentPlacement(stateRef.current.todos, todo.id);
+    await placeTodo(todo, placement);
+
+    if (!previousPlacement) return;
+
+    pushHistory(`Moved "${todo.title}"`, () => placeTodo(todo, previousPlacement));
+  }, [placeTodo, pushHistory]);
+
+  // Drop a todo into another status column of the board, next to a todo there when
+  // given. Undoing puts back both its status and its place
+  const moveTodoToStatus = useCallback(async (
+    todo: Todo,
+    status: Todo['status'],
+    placement?: TodoMovePlacement
+  ) => {
+    const previousStatus = shownTodo(todo).status;
+    const previousPlacement = currentPlacement(stateRef.current.todos, todo.id);
+
+    const { next_occurrence: nextOccurrence } = await updateTodo(todo, { status });
+    if (placement) {
+      await placeTodo(todo, placement);
+    }
+
+    pushHistory(
+      status === 'done' ? `Completed "${todo.title}"` : `Reopened "${todo.title}"`,
+      async () => {
+        await revertStatus(todo, previousStatus, nextOccurrence);
+        if (placement && previousPlacement) {
+          await placeTodo(todo, previousPlacement);
+        }
+      }
+    );
+  }, [placeTodo, pushHistory, revertStatus, shownTodo, updateTodo]);
+
+  // Send a todo to the end of another list. Undoing brings it back to where it was,
+  // and back into view if its old list is still the one shown
+  const moveTodoToList = useCallback(async (todo: Todo, list: Pick<List, 'id' | 'name'>) => {
+    const previousTodos = stateRef.current.todos;
+    const index = previousTodos.findIndex(item => item.id === todo.id);
+    const previousPlacement = currentPlacement(previousTodos, todo.id);
+    const previousListId = todo.list_id;
+    dispatch({ type: 'TODO_REMOVED', payload: todo.id });
+
+    try {
+      await todosApi.update(todo.id, { list_id: list.id });
+    } catch (error) {
+      dispatch({ type: 'TODO_RESTORED', payload: { todo, index: Math.max(index, 0) } });
+      throw error;
+    }
+
+    if (previousListId === undefined) return;
+
+    pushHistory(`Moved "${todo.title}" to ${list.name}`, async () => {
+      let restoredTodo = await todosApi.update(todo.id, { list_id: previousListId });
+      if (previousPlacement) {
+        // Its old neighbour may be gone by now, in which case the end of the list will do
+        restoredTodo = await todosApi.move(todo.id, previousPlacement).catch(() => restoredTodo);
+      }
+      if (listIdRef.current === previousListId) {
+        dispatch({ type: 'TODO_RESTORED', payload: { todo: restoredTodo, index: Math.max(index, 0) } });
+      }
+    });
+  }, [pushHistory]);
+
+  const bulkDelete = useCallback((todos: Todo[]) => {
+    const previousTodos = stateRef.current.todos;
+    const ids = todos.map(todo => todo.id);
+    const count = countTodos(todos.length);
+    const listId = listIdRef.current ?? undefined;
+
+    ids.forEach(id => pendingDeletesRef.current.add(id));
+    dispatch({ type: 'TODOS_LOADED', payload: previousTodos.filter(todo => !ids.includes(todo.id)) });
+
+    // Restoring in ascending index order puts every todo back where it was
+    const restore = () => {
+      ids.forEach(id => pendingDeletesRef.current.delete(id));
+      previousTodos.forEach((todo, index) => {
+        if (ids.includes(todo.id)) {
+          dispatch({ type: 'TODO_RESTORED', payload: { todo, index } });
+        }
+      });
+    };
+
+    const commit = async () => {
+      dispatch({ type: 'HISTORY_REMOVED', payload: entry.id });
+
+      try {
+        const remainingTodos = await todosApi.bulk(ids, 'delete', listId);
+        ids.forEach(id => pendingDeletesRef.current.delete(id));
+        setTodos(remainingTodos);
+      } catch (error) {
+        restore();
+        showError(`Could not delete ${count}.`, error);
+      }
+    };
+
+    const entry = pushHistory(`Deleted ${count}`, restore, commit);
+  }, [pushHistory, setTodos, showError]);
+
+  // Archived todos are not in the store, so restoring them goes through restoreTodos
+  const bulkUpdateTodos = useCallback(async (ids: number[], operation: TodoBulkOperation) => {
+    const selectedTodos = stateRef.current.todos.filter(todo => ids.includes(todo.id));
+    if (selectedTodos.length === 0) return;
+
+    if (operation === 'delete') {
+      bulkDelete(selectedTodos);
+      return;
+    }
+
+    const selectedIds = selectedTodos.map(todo => todo.id);
+    const count = countTodos(selectedTodos.length);
+    const listId = listIdRef.current ?? undefined;
+    const isMove = operation === 'move_to_top' || operation === 'move_to_bottom';
+    // The store may only hold search results, so a move remembers the full order to go back to
+    const previousOrder = isMove ? await todosApi.list({ listId }) : [];
+    setTodos(await todosApi.bulk(selectedIds, operation, listId));
+
+    if (operation === 'archive') {
+      pushHistory(`Archived ${count}`, async () => {
+        setTodos(await todosApi.bulk(selectedIds, 'restore', listId));
+      });
+      return;
+    }
+
+    if (operation === 'complete' || operation === 'reopen') {
+      const targetStatus = operation === 'complete' ? 'done' : 'open';
+      // Only the todos that actually changed go back
+      const changedIds = selectedTodos.filter(todo => todo.status !== targetStatus).map(todo => todo.id);
+      if (changedIds.length === 0) return;
+
+      pushHistory(
+        operation === 'complete' ? `Completed ${count}` : `Reopened ${count}`,
+        async () => {
+          setTodos(await todosApi.bulk(changedIds, operation === 'complete' ? 'reopen' : 'complete', listId));
+        }
+      );
+      return;
+    }
+
+    pushHistory(
+      operation === 'move_to_top' ? `Moved ${count} to the top` : `Moved ${count} to the bottom`,
+      async () => {
+        const restoredTodos = restoreOrder(await todosApi.list({ listId }), previousOrder);
+        await todosApi.reorder(toReorderUpdates(restoredTodos));
+        setTodos(restoredTodos);
+      }
+    );
+  }, [bulkDelete, pushHistory, setTodos]);
+
+  // Archive every done todo in the list; undoing brings back exactly the ones archived here
+  const clearCompleted = useCallback(async () => {
+    const listId = listIdRef.current ?? undefined;
+    const archivedIds = await todosApi.clearCompleted(listId);
+    if (archivedIds.length === 0) return;
+
+    dispatch({
+      type: 'TODOS_LOADED',
+      payload: stateRef.current.todos.filter(todo => !archivedIds.includes(todo.id)),
+    });
+
+    pushHistory(`Archived ${countTodos(archivedIds.length)}`, async () => {
+      setTodos(await todosApi.bulk(archivedIds, 'restore', listId));
+    });
+  }, [pushHistory, setTodos]);
+
+  // Bring archived todos back into the list
+  const restoreTodos = useCallback(async (ids: number[]) => {
+    setTodos(await todosApi.bulk(ids, 'restore', listIdRef.current ?? undefined));
+  }, [setTodos]);
+
+  // Undo the most recent action that can still be undone
+  const undo = useCallback(async () => {
+    const entry = stateRef.current.history[stateRef.current.history.length - 1];
+    if (!entry) return;
+
+    if (entry.toastId !== null) {
+      cancelToast(entry.toastId);
+    }
+    await runUndo(entry);
+  }, [cancelToast, runUndo]);
+
+  const value: TodoStoreContextType = {
+    todos: state.todos,
+    history: state.history,
+    setTodos,
+    addTodo,
+    replaceTodo,
+    updateTodo,
+    toggleTodoStatus,
+    deleteTodo,
+    moveTodo,
+    moveTodoToList,
+    moveTodoToStatus,
+    bulkUpdateTodos,
+    clearCompleted,
+    restoreTodos,
+    undo,
+  };
+
+  return (
+    <TodoStoreContext.Provider value={value}>
+      {children}
+    </TodoStoreContext.Provider>
+  );
+}
+
+// Hook to use the todo store
+export function useTodoStore(): TodoStoreContextType {
+  const context = useContext(TodoStoreContext);
+  if (context === undefined) {
+    throw new Error('useTodoStore must be used within a TodoStoreProvider');
+  }
+  return context;
+}
@@ -1,5 +1,9 @@
 import React from 'react';
 import { useAuth } from '../hooks/useAuth';
+import { PasskeyManagement } from '../components/PasskeyManagement';
+import { LabelManagement } from '../components/LabelManagement';
+import { ArchiveSettings } from '../components/ArchiveSettings';
+import { TodoImport } from '../components/TodoImport';
 
 export function AccountPage() {
   const { user } = useAuth();
@@ -27,6 +31,14 @@ export function AccountPage() {
             </div>
           </div>
 
+          <PasskeyManagement className="mb-8" />
+
+          <LabelManagement className="mb-8" />
+
+          <ArchiveSettings className="mb-8" />
+
+          <TodoImport className="mb-8" />
+
           <div>
             <h2 className="m-0 mb-4 text-gray-dark text-xl font-semibold">Security</h2>
             <div className="flex flex-col gap-6">
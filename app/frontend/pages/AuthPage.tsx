@@ -7,17 +7,33 @@ import { SnowEffect } from '../components/SnowEffect';
 
 export function AuthPage() {
   const [mode, setMode] = useState<'login' | 'register'>('login');
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, isLoading, startConditionalLogin, cancelConditionalLogin } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
 
   useEffect(() => {
     if (isAuthenticated) {
-      const from = (location.state as any)?.from?.pathname || '/';
-      navigate(from, { replace: true });
+      // Return to the page that sent the user here, query string included
+      const from = (location.state as any)?.from;
+      navigate(from ? `${from.pathname}${from.search || ''}${from.hash || ''}` : '/', { replace: true });
     }
   }, [isAuthenticated, navigate, location]);
 
+  // Offer saved passkeys through autofill while the Sign In tab is showing;
+  // switching to Create Account aborts the pending request. A sign-in in
+  // progress replaces autofill, so it starts again once that settles without
+  // signing the user in
+  useEffect(() => {
+    if (mode !== 'login' || isAuthenticated || isLoading) {
+      return;
+    }
+
+    startConditionalLogin();
+    return () => {
+      cancelConditionalLogin();
+    };
+  }, [mode, isAuthenticated, isLoading, startConditionalLogin, cancelConditionalLogin]);
+
   if (isAuthenticated) {
     return null;
   }
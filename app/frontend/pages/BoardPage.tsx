@@ -0,0 +1,13 @@
+import { useParams } from 'react-router-dom';
+import { TodoBoard } from '../components/TodoBoard';
+
+export function BoardPage() {
+  const params = useParams();
+  const listId = params.listId ? Number(params.listId) : undefined;
+
+  return (
+    <div>
+      <TodoBoard key={listId} listId={listId} />
+    </div>
+  );
+}
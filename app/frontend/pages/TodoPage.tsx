@@ -1,10 +1,30 @@
-import React from 'react';
+import React, { useCallback } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
 import { TodoList } from '../components/TodoList';
 
 export function TodoPage() {
+  const params = useParams();
+  const listId = params.listId ? Number(params.listId) : undefined;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchQuery = searchParams.get('q') || '';
+
+  // Keep the search in the URL so it can be bookmarked, without adding a history entry per keystroke
+  const handleSearchChange = useCallback((query: string) => {
+    setSearchParams(prevParams => {
+      const nextParams = new URLSearchParams(prevParams);
+      if (query) {
+        nextParams.set('q', query);
+      } else {
+        nextParams.delete('q');
+      }
+      return nextParams;
+    }, { replace: true });
+  }, [setSearchParams]);
+
   return (
     <div className="max-w-3xl mx-auto">
-      <TodoList />
+      {/* A fresh list per list, so filters and selections never carry over to another one */}
+      <TodoList key={listId} listId={listId} searchQuery={searchQuery} onSearchChange={handleSearchChange} />
     </div>
   );
 }
@@ -0,0 +1,84 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { ArchiveSettings } from '../../components/ArchiveSettings';
+import { NetworkError } from '../../utils/networkError';
+
+const mockGet = vi.fn();
+const mockUpdate = vi.fn();
+
+vi.mock('../../utils/preferencesApi', () => ({
+  preferencesApi: {
+    get: () => mockGet(),
+    update: (updates: unknown) => mockUpdate(updates),
+  },
+}));
+
+describe('ArchiveSettings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows the current auto-archive rule', async () => {
+    mockGet.mockResolvedValue({ auto_archive_after_days: 7 });
+
+    render(<ArchiveSettings />);
+
+    const select = screen.getByLabelText('Automatically archive completed todos');
+    await waitFor(() => {
+      expect(select).toHaveValue('7');
+    });
+    expect(select).toBeEnabled();
+  });
+
+  it('keeps a custom number of days as an option', async () => {
+    mockGet.mockResolvedValue({ auto_archive_after_days: 45 });
+
+    render(<ArchiveSettings />);
+
+    expect(await screen.findByRole('option', { name: 'After 45 days' })).toBeInTheDocument();
+  });
+
+  it('saves a new rule and turns it off again', async () => {
+    mockGet.mockResolvedValue({ auto_archive_after_days: null });
+    mockUpdate
+      .mockResolvedValueOnce({ auto_archive_after_days: 30 })
+      .mockResolvedValueOnce({ auto_archive_after_days: null });
+
+    render(<ArchiveSettings />);
+
+    const select = screen.getByLabelText('Automatically archive completed todos');
+    await waitFor(() => {
+      expect(select).toBeEnabled();
+    });
+
+    fireEvent.change(select, { target: { value: '30' } });
+    await waitFor(() => {
+      expect(mockUpdate).toHaveBeenCalledWith({ auto_archive_after_days: 30 });
+    });
+    await waitFor(() => {
+      expect(select).toBeEnabled();
+    });
+
+    fireEvent.change(select, { target: { value: '' } });
+    await waitFor(() => {
+      expect(mockUpdate).toHaveBeenLastCalledWith({ auto_archive_after_days: null });
+    });
+  });
+
+  it('goes back to the previous rule when saving fails', async () => {
+    mockGet.mockResolvedValue({ auto_archive_after_days: 7 });
+    mockUpdate.mockRejectedValue(new NetworkError('Auto archive after days must be less than or equal to 365', 'API_ERROR', false));
+
+    render(<ArchiveSettings />);
+
+    const select = screen.getByLabelText('Automatically archive completed todos');
+    await waitFor(() => {
+      expect(select).toHaveValue('7');
+    });
+
+    fireEvent.change(select, { target: { value: '90' } });
+
+    expect(await screen.findByText('Auto archive after days must be less than or equal to 365')).toBeInTheDocument();
+    expect(select).toHaveValue('7');
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest'
+import { render } from '@testing-library/react'
+import { HighlightedText } from '../../components/HighlightedText'
+
+describe('HighlightedText', () => {
+  it('marks every case-insensitive match', () => {
+    const { container } = render(<HighlightedText text="Milk, more milk" query="MILK" />)
+
+    const marks = container.querySelectorAll('mark')
+    expect(Array.from(marks).map(mark => mark.textContent)).toEqual(['Milk', 'milk'])
+    expect(container).toHaveTextContent('Milk, more milk')
+  })
+
+  it('treats regular expression characters in the query literally', () => {
+    const { container } = render(<HighlightedText text="Costs $5 (maybe)" query="(maybe)" />)
+
+    expect(container.querySelector('mark')).toHaveTextContent('(maybe)')
+  })
+
+  it('renders plain text without a query', () => {
+    const { container } = render(<HighlightedText text="Buy milk" query="  " />)
+
+    expect(container.querySelector('mark')).toBeNull()
+    expect(container).toHaveTextContent('Buy milk')
+  })
+})
@@ -0,0 +1,73 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { LabelManagement } from '../../components/LabelManagement';
+import { Label } from '../../types/label';
+
+const mockList = vi.fn();
+const mockUpdate = vi.fn();
+const mockDestroy = vi.fn();
+
+vi.mock('../../utils/labelsApi', () => ({
+  labelsApi: {
+    list: () => mockList(),
+    update: (id: number, updates: unknown) => mockUpdate(id, updates),
+    destroy: (id: number) => mockDestroy(id),
+  },
+}));
+
+const bug: Label = { id: 1, name: 'bug', color: '#c53030' };
+const ui: Label = { id: 2, name: 'ui', color: '#0969da' };
+
+describe('LabelManagement', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+  });
+
+  it('lists the users labels', async () => {
+    mockList.mockResolvedValue([bug, ui]);
+
+    render(<LabelManagement />);
+
+    expect(await screen.findByText('bug')).toBeInTheDocument();
+    expect(screen.getByText('ui')).toBeInTheDocument();
+  });
+
+  it('shows a hint when there are no labels', async () => {
+    mockList.mockResolvedValue([]);
+
+    render(<LabelManagement />);
+
+    expect(await screen.findByText(/You have no labels yet/)).toBeInTheDocument();
+  });
+
+  it('renames and recolours a label', async () => {
+    mockList.mockResolvedValue([bug]);
+    mockUpdate.mockResolvedValue({ ...bug, name: 'defect', color: '#8250df' });
+
+    render(<LabelManagement />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Edit bug' }));
+    fireEvent.change(screen.getByLabelText('Label name'), { target: { value: ' defect ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Colour #8250df' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(await screen.findByText('defect')).toBeInTheDocument();
+    expect(mockUpdate).toHaveBeenCalledWith(1, { name: 'defect', color: '#8250df' });
+  });
+
+  it('deletes a label after confirmation', async () => {
+    mockList.mockResolvedValue([bug, ui]);
+    mockDestroy.mockResolvedValue(undefined);
+
+    render(<LabelManagement />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Delete bug' }));
+
+    await waitFor(() => {
+      expect(screen.queryByText('bug')).not.toBeInTheDocument();
+    });
+    expect(mockDestroy).toHaveBeenCalledWith(1);
+    expect(screen.getByText('ui')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { LabelPicker } from '../../components/LabelPicker'
+
+// Type declaration for the global helper
+declare global {
+  function createMockResponse(options: {
+    ok: boolean
+    status?: number
+    statusText?: string
+    headers?: Record<string, string>
+    json?: () => Promise<any>
+    text?: () => Promise<string>
+  }): Response
+}
+
+// Mock fetch
+const mockFetch = vi.fn()
+globalThis.fetch = mockFetch
+
+const jsonResponse = (body: unknown) => createMockResponse({
+  ok: true,
+  headers: { 'content-type': 'application/json' },
+  json: () => Promise.resolve(body)
+})
+
+const labels = [
+  { id: 1, name: 'bug', color: '#c53030' },
+  { id: 2, name: 'ui', color: '#0969da' },
+]
+
+describe('LabelPicker', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockFetch.mockReset()
+  })
+
+  it('loads labels only when opened', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ labels }))
+
+    render(<LabelPicker selectedIds={[]} onChange={vi.fn()} />)
+    expect(mockFetch).not.toHaveBeenCalled()
+
+    fireEvent.click(screen.getByRole('button', { name: /Labels/ }))
+
+    expect(await screen.findByLabelText('bug')).toBeInTheDocument()
+    expect(screen.getByLabelText('ui')).toBeInTheDocument()
+    expect(mockFetch).toHaveBeenCalledWith('/api/labels', expect.objectContaining({ method: 'GET' }))
+  })
+
+  it('toggles labels in the selection', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ labels }))
+    const onChange = vi.fn()
+
+    render(<LabelPicker selectedIds={[1]} onChange={onChange} />)
+    fireEvent.click(screen.getByRole('button', { name: 'Labels (1)' }))
+
+    expect(await screen.findByLabelText('bug')).toBeChecked()
+
+    fireEvent.click(screen.getByLabelText('ui'))
+    expect(onChange).toHaveBeenLastCalledWith([1, 2])
+
+    fireEvent.click(screen.getByLabelText('bug'))
+    expect(onChange).toHaveBeenLastCalledWith([])
+  })
+
+  it('creates a label with the chosen colour and selects it', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ labels: [] }))
+      .mockResolvedValueOnce(jsonResponse({ success: true, label: { id: 3, name: 'docs', color: '#8250df' } }))
+    const onChange = vi.fn()
+
+    render(<LabelPicker selectedIds={[]} onChange={onChange} />)
+    fireEvent.click(screen.getByRole('button', { name: /Labels/ }))
+
+    expect(await screen.findByText('No labels yet. Create one below.')).toBeInTheDocument()
+
+    fireEvent.change(screen.getByLabelText('New label name'), { target: { value: 'docs' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Colour #8250df' }))
+    fireEvent.keyDown(screen.getByLabelText('New label name'), { key: 'Enter' })
+
+    await waitFor(() => {
+      expect(onChange).toHaveBeenCalledWith([3])
+    })
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/labels', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ name: 'docs', color: '#8250df' })
+    }))
+    expect(screen.getByLabelText('docs')).toBeInTheDocument()
+    expect(screen.getByLabelText('New label name')).toHaveValue('')
+  })
+
+  it('shows an error when a label cannot be created', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ labels }))
+      .mockResolvedValueOnce(jsonResponse({ success: false, errors: ['Name has already been taken'] }))
+
+    render(<LabelPicker selectedIds={[]} onChange={vi.fn()} />)
+    fireEvent.click(screen.getByRole('button', { name: /Labels/ }))
+    await screen.findByLabelText('bug')
+
+    fireEvent.change(screen.getByLabelText('New label name'), { target: { value: 'Bug' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Create' }))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Name has already been taken')
+  })
+})
@@ -4,6 +4,7 @@ import { BrowserRouter, MemoryRouter } from 'react-router-dom';
 import { vi, describe, it, expect, beforeEach } from 'vitest';
 import { Layout } from '../../components/Layout';
 import { AuthProvider } from '../../hooks/useAuth';
+import { ToastProvider, useToasts } from '../../hooks/useToasts';
 
 // Mock the useAuth hook
 const mockLogout = vi.fn();
@@ -40,7 +41,9 @@ describe('Layout', () => {
     return render(
       <MemoryRouter initialEntries={initialEntries}>
         <AuthProvider>
-          <Layout />
+          <ToastProvider>
+            <Layout />
+          </ToastProvider>
         </AuthProvider>
       </MemoryRouter>
     );
@@ -87,13 +90,44 @@ describe('Layout', () => {
     });
   });
 
+  it('sends work waiting on a toast before signing out', async () => {
+    const onExpire = vi.fn(() => {
+      expect(mockLogout).not.toHaveBeenCalled();
+    });
+    const ShowToast = () => {
+      const { showToast } = useToasts();
+      React.useEffect(() => {
+        showToast({ message: 'Deleted "Milk"', onExpire });
+      }, [showToast]);
+      return null;
+    };
+
+    render(
+      <MemoryRouter initialEntries={['/']}>
+        <ToastProvider>
+          <ShowToast />
+          <Layout />
+        </ToastProvider>
+      </MemoryRouter>
+    );
+
+    fireEvent.click(screen.getByText('Sign Out'));
+
+    await waitFor(() => {
+      expect(mockLogout).toHaveBeenCalledTimes(1);
+    });
+    expect(onExpire).toHaveBeenCalledTimes(1);
+  });
+
   it('renders outlet for child routes', () => {
     const TestChild = () => <div data-testid="test-child">Test Child Component</div>;
     
     render(
       <MemoryRouter initialEntries={['/']}>
         <AuthProvider>
-          <Layout />
+          <ToastProvider>
+            <Layout />
+          </ToastProvider>
         </AuthProvider>
       </MemoryRouter>
     );
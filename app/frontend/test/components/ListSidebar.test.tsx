@@ -0,0 +1,190 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter, Routes, Route, useLocation } from 'react-router-dom';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { ListSidebar } from '../../components/ListSidebar';
+import { TodoList } from '../../components/TodoList';
+import { List } from '../../types/list';
+import { Todo } from '../../types/todo';
+import { TodoListProviders } from '../todoProviders';
+import { ToastProvider } from '../../hooks/useToasts';
+
+const mockList = vi.fn();
+const mockCreate = vi.fn();
+const mockUpdate = vi.fn();
+const mockDestroy = vi.fn();
+
+vi.mock('../../utils/listsApi', () => ({
+  listsApi: {
+    list: () => mockList(),
+    create: (list: unknown) => mockCreate(list),
+    update: (id: number, updates: unknown) => mockUpdate(id, updates),
+    destroy: (id: number) => mockDestroy(id),
+  },
+}));
+
+const mockTodoList = vi.fn();
+const mockTodoUpdate = vi.fn();
+
+vi.mock('../../utils/todosApi', () => ({
+  todosApi: {
+    list: () => mockTodoList(),
+    update: (id: number, updates: unknown) => mockTodoUpdate(id, updates),
+  },
+  offlineTodos: { onSynced: () => () => {} },
+}));
+
+const inbox: List = { id: 1, name: 'Inbox', position: 1 };
+const work: List = { id: 2, name: 'Work', position: 2 };
+
+const CurrentPath = () => <div data-testid="location">{useLocation().pathname}</div>;
+
+const renderSidebar = (path = '/lists/1') =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <ToastProvider>
+        <Routes>
+          <Route path="*" element={<><ListSidebar /><CurrentPath /></>} />
+        </Routes>
+      </ToastProvider>
+    </MemoryRouter>
+  );
+
+describe('ListSidebar', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('links to every list', async () => {
+    mockList.mockResolvedValue([inbox, work]);
+
+    renderSidebar();
+
+    const workLink = await screen.findByRole('link', { name: 'Work' });
+    expect(workLink).toHaveAttribute('href', '/lists/2');
+    expect(screen.getByRole('link', { name: 'Inbox' })).toHaveAttribute('aria-current', 'page');
+  });
+
+  it('moves a todo dragged from the list onto another list', async () => {
+    const todo: Todo = { id: 7, title: 'File taxes', status: 'open', position: 1, list_id: 1, created_at: '2024-01-01T10:00:00Z' };
+    mockList.mockResolvedValue([inbox, work]);
+    mockTodoList.mockResolvedValue([todo]);
+    mockTodoUpdate.mockResolvedValue({ ...todo, list_id: 2 });
+
+    render(
+      <MemoryRouter initialEntries={['/lists/1']}>
+        <TodoListProviders>
+          <ListSidebar />
+          <TodoList listId={1} />
+        </TodoListProviders>
+      </MemoryRouter>
+    );
+
+    const workLink = await screen.findByRole('link', { name: 'Work' });
+    // jsdom has no layout, so give the entry a place on screen to drop onto
+    vi.spyOn(workLink, 'getBoundingClientRect').mockReturnValue(new DOMRect(0, 100, 200, 30));
+    await screen.findByText('File taxes');
+    const handle = document.querySelector('[aria-roledescription="sortable"]')!;
+
+    fireEvent.pointerDown(handle, { isPrimary: true, button: 0, clientX: 300, clientY: 10 });
+    fireEvent.pointerMove(document, { clientX: 50, clientY: 110 });
+    fireEvent.pointerUp(document, { clientX: 50, clientY: 110 });
+
+    await waitFor(() => {
+      expect(mockTodoUpdate).toHaveBeenCalledWith(7, { list_id: 2 });
+    });
+    expect(screen.queryByText('File taxes')).not.toBeInTheDocument();
+  });
+
+  it('creates a list and opens it', async () => {
+    mockList.mockResolvedValue([inbox]);
+    mockCreate.mockResolvedValue(work);
+
+    renderSidebar();
+
+    fireEvent.change(await screen.findByLabelText('New list name'), { target: { value: ' Work ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add' }));
+
+    expect(await screen.findByRole('link', { name: 'Work' })).toBeInTheDocument();
+    expect(mockCreate).toHaveBeenCalledWith({ name: 'Work' });
+    await waitFor(() => {
+      expect(screen.getByTestId('location')).toHaveTextContent('/lists/2');
+    });
+  });
+
+  it('renames a list', async () => {
+    mockList.mockResolvedValue([inbox, work]);
+    mockUpdate.mockResolvedValue({ ...work, name: 'Office' });
+
+    renderSidebar();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Rename Work' }));
+    fireEvent.change(screen.getByLabelText('List name'), { target: { value: 'Office' } });
+    fireEvent.keyDown(screen.getByLabelText('List name'), { key: 'Enter' });
+
+    expect(await screen.findByRole('link', { name: 'Office' })).toBeInTheDocument();
+    expect(mockUpdate).toHaveBeenCalledWith(2, { name: 'Office' });
+  });
+
+  it('opens the first remaining list after deleting the one on screen', async () => {
+    mockList.mockResolvedValue([inbox, work]);
+    mockDestroy.mockResolvedValue(undefined);
+
+    renderSidebar('/lists/2');
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Delete Work' }));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('location')).toHaveTextContent('/lists/1');
+    });
+    expect(screen.queryByRole('link', { name: 'Work' })).not.toBeInTheDocument();
+    expect(screen.getByRole('status')).toHaveTextContent('Deleted the "Work" list and its todos');
+    expect(mockDestroy).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Dismiss notification' }));
+
+    await waitFor(() => expect(mockDestroy).toHaveBeenCalledWith(2));
+  });
+
+  it('brings a deleted list back on undo without deleting it', async () => {
+    mockList.mockResolvedValue([inbox, work]);
+
+    renderSidebar('/lists/2');
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Delete Work' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+
+    expect(await screen.findByRole('link', { name: 'Work' })).toBeInTheDocument();
+    expect(screen.getByTestId('location')).toHaveTextContent('/lists/2');
+    expect(mockDestroy).not.toHaveBeenCalled();
+  });
+
+  it('brings a list back when the server refuses to delete it', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockList.mockResolvedValue([inbox, work]);
+    mockDestroy.mockRejectedValue(new Error('List could not be deleted'));
+
+    renderSidebar();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Delete Work' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Dismiss notification' }));
+
+    expect(await screen.findByRole('link', { name: 'Work' })).toBeInTheDocument();
+    expect(screen.getByText('List could not be deleted')).toBeInTheDocument();
+  });
+
+  it('keeps the board open when switching lists from it', async () => {
+    mockList.mockResolvedValue([inbox, work]);
+
+    renderSidebar('/lists/1/board');
+
+    expect(await screen.findByRole('link', { name: 'Work' })).toHaveAttribute('href', '/lists/2/board');
+  });
+
+  it('does not offer to delete the last list', async () => {
+    mockList.mockResolvedValue([inbox]);
+
+    renderSidebar();
+
+    expect(await screen.findByRole('button', { name: 'Delete Inbox' })).toBeDisabled();
+  });
+});
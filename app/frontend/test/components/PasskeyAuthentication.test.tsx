@@ -30,7 +30,7 @@ const TestWrapper = ({ children }: { children: React.ReactNode }) => (
 describe('PasskeyAuthentication', () => {
   beforeEach(() => {
     vi.clearAllMocks()
-    mockFetch.mockClear()
+    mockFetch.mockReset()
     mockGet.mockClear()
     
     // Reset WebAuthn support to enabled by default
@@ -38,9 +38,16 @@ describe('PasskeyAuthentication', () => {
       value: { create: vi.fn(), get: mockGet },
       writable: true,
     })
+
+    // Session check made by AuthProvider on mount
+    mockFetch.mockResolvedValueOnce(createMockResponse({
+      ok: true,
+      headers: { 'content-type': 'application/json' },
+      json: () => Promise.resolve({ authenticated: false })
+    }))
   })
 
-  it('renders authentication form correctly', () => {
+  it('renders authentication form correctly', async () => {
     render(
       <TestWrapper>
         <PasskeyAuthentication />
@@ -48,7 +55,7 @@ describe('PasskeyAuthentication', () => {
     )
 
     expect(screen.getByRole('heading', { name: 'Sign In with Passkey' })).toBeInTheDocument()
-    expect(screen.getByRole('button', { name: /Sign In with Passkey/ })).toBeInTheDocument()
+    expect(await screen.findByRole('button', { name: /Sign In with Passkey/ })).toBeInTheDocument()
     expect(screen.getByText('Having trouble signing in?')).toBeInTheDocument()
   })
 
@@ -65,7 +72,7 @@ describe('PasskeyAuthentication', () => {
       </TestWrapper>
     )
 
-    const loginButton = screen.getByRole('button', { name: /Sign In with Passkey/ })
+    const loginButton = await screen.findByRole('button', { name: /Sign In with Passkey/ })
     fireEvent.click(loginButton)
 
     await waitFor(() => {
@@ -111,7 +118,7 @@ describe('PasskeyAuthentication', () => {
       </TestWrapper>
     )
 
-    const loginButton = screen.getByRole('button', { name: /Sign In with Passkey/ })
+    const loginButton = await screen.findByRole('button', { name: /Sign In with Passkey/ })
     fireEvent.click(loginButton)
 
     // Wait for authentication to complete
@@ -120,7 +127,7 @@ describe('PasskeyAuthentication', () => {
     }, { timeout: 3000 })
 
     // Verify API calls were made
-    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(mockFetch).toHaveBeenCalledTimes(3)
     expect(mockGet).toHaveBeenCalled()
   })
 
@@ -142,7 +149,7 @@ describe('PasskeyAuthentication', () => {
       </TestWrapper>
     )
 
-    const loginButton = screen.getByRole('button', { name: /Sign In with Passkey/ })
+    const loginButton = await screen.findByRole('button', { name: /Sign In with Passkey/ })
     fireEvent.click(loginButton)
 
     await waitFor(() => {
@@ -170,7 +177,7 @@ describe('PasskeyAuthentication', () => {
       </TestWrapper>
     )
 
-    const loginButton = screen.getByRole('button', { name: /Sign In with Passkey/ })
+    const loginButton = await screen.findByRole('button', { name: /Sign In with Passkey/ })
     fireEvent.click(loginButton)
 
     await waitFor(() => {
@@ -220,7 +227,7 @@ describe('PasskeyAuthentication', () => {
       </TestWrapper>
     )
 
-    const loginButton = screen.getByRole('button', { name: /Sign In with Passkey/ })
+    const loginButton = await screen.findByRole('button', { name: /Sign In with Passkey/ })
     fireEvent.click(loginButton)
 
     // Wait for error to appear - it should show the HTTP error message
@@ -237,6 +244,23 @@ describe('PasskeyAuthentication', () => {
     })
   })
 
+  it('renders a passkey autofill field when conditional mediation is available', async () => {
+    vi.stubGlobal('PublicKeyCredential', {
+      isConditionalMediationAvailable: vi.fn().mockResolvedValue(true),
+    })
+
+    render(
+      <TestWrapper>
+        <PasskeyAuthentication />
+      </TestWrapper>
+    )
+
+    const autofillInput = await screen.findByLabelText('Saved passkeys')
+    expect(autofillInput).toHaveAttribute('autocomplete', 'username webauthn')
+
+    vi.unstubAllGlobals()
+  })
+
   it('expands help section when clicked', () => {
     render(
       <TestWrapper>
@@ -0,0 +1,114 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { PasskeyManagement } from '../../components/PasskeyManagement';
+import { Passkey } from '../../types/auth';
+
+const mockListPasskeys = vi.fn();
+const mockAddPasskey = vi.fn();
+const mockRenamePasskey = vi.fn();
+const mockRemovePasskey = vi.fn();
+
+vi.mock('../../hooks/useAuth', () => ({
+  useAuth: () => ({
+    listPasskeys: mockListPasskeys,
+    addPasskey: mockAddPasskey,
+    renamePasskey: mockRenamePasskey,
+    removePasskey: mockRemovePasskey,
+  }),
+}));
+
+const laptop: Passkey = {
+  id: 1,
+  nickname: 'Laptop',
+  sign_count: 3,
+  last_used_at: '2024-01-05T10:00:00Z',
+  created_at: '2024-01-01T10:00:00Z',
+};
+
+const phone: Passkey = {
+  id: 2,
+  nickname: null,
+  sign_count: 0,
+  last_used_at: null,
+  created_at: '2024-01-02T10:00:00Z',
+};
+
+describe('PasskeyManagement', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+  });
+
+  it('lists every registered passkey', async () => {
+    mockListPasskeys.mockResolvedValue([laptop, phone]);
+
+    render(<PasskeyManagement />);
+
+    expect(await screen.findByText('Laptop')).toBeInTheDocument();
+    expect(screen.getByText('Unnamed passkey')).toBeInTheDocument();
+    expect(screen.getByText(/Last used Jan 5, 2024/)).toBeInTheDocument();
+    expect(screen.getByText(/Never used/)).toBeInTheDocument();
+  });
+
+  it('adds a passkey with an optional nickname', async () => {
+    mockListPasskeys.mockResolvedValue([laptop]);
+    mockAddPasskey.mockResolvedValue({ ...phone, nickname: 'Phone' });
+
+    render(<PasskeyManagement />);
+
+    await screen.findByText('Laptop');
+    fireEvent.change(screen.getByLabelText('New passkey nickname'), { target: { value: ' Phone ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add a Passkey' }));
+
+    expect(await screen.findByText('Phone')).toBeInTheDocument();
+    expect(mockAddPasskey).toHaveBeenCalledWith('Phone');
+  });
+
+  it('renames a passkey inline', async () => {
+    mockListPasskeys.mockResolvedValue([laptop, phone]);
+    mockRenamePasskey.mockResolvedValue({ ...laptop, nickname: 'Work laptop' });
+
+    render(<PasskeyManagement />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Rename Laptop' }));
+    fireEvent.change(screen.getByLabelText('Passkey nickname'), { target: { value: 'Work laptop' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(await screen.findByText('Work laptop')).toBeInTheDocument();
+    expect(mockRenamePasskey).toHaveBeenCalledWith(1, 'Work laptop');
+  });
+
+  it('revokes a passkey when another one remains', async () => {
+    mockListPasskeys.mockResolvedValue([laptop, phone]);
+    mockRemovePasskey.mockResolvedValue(undefined);
+
+    render(<PasskeyManagement />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Remove Laptop' }));
+
+    await waitFor(() => {
+      expect(screen.queryByText('Laptop')).not.toBeInTheDocument();
+    });
+    expect(mockRemovePasskey).toHaveBeenCalledWith(1);
+  });
+
+  it('never allows revoking the last passkey', async () => {
+    mockListPasskeys.mockResolvedValue([laptop]);
+
+    render(<PasskeyManagement />);
+
+    const removeButton = await screen.findByRole('button', { name: 'Remove Laptop' });
+    expect(removeButton).toBeDisabled();
+
+    fireEvent.click(removeButton);
+    expect(mockRemovePasskey).not.toHaveBeenCalled();
+  });
+
+  it('shows an error when passkeys fail to load', async () => {
+    mockListPasskeys.mockRejectedValue(new Error('Failed to load'));
+
+    render(<PasskeyManagement />);
+
+    expect(await screen.findByText('Failed to load')).toBeInTheDocument();
+  });
+});
@@ -30,7 +30,7 @@ const TestWrapper = ({ children }: { children: React.ReactNode }) => (
 describe('PasskeyRegistration', () => {
   beforeEach(() => {
     vi.clearAllMocks()
-    mockFetch.mockClear()
+    mockFetch.mockReset()
     mockCreate.mockClear()
     
     // Reset WebAuthn support to enabled by default
@@ -38,9 +38,16 @@ describe('PasskeyRegistration', () => {
       value: { create: mockCreate },
       writable: true,
     })
+
+    // Session check made by AuthProvider on mount
+    mockFetch.mockResolvedValueOnce(createMockResponse({
+      ok: true,
+      headers: { 'content-type': 'application/json' },
+      json: () => Promise.resolve({ authenticated: false })
+    }))
   })
 
-  it('renders registration form correctly', () => {
+  it('renders registration form correctly', async () => {
     render(
       <TestWrapper>
         <PasskeyRegistration />
@@ -48,7 +55,7 @@ describe('PasskeyRegistration', () => {
     )
 
     expect(screen.getByText('Create Your Passkey')).toBeInTheDocument()
-    expect(screen.getByText('Create Passkey')).toBeInTheDocument()
+    expect(await screen.findByText('Create Passkey')).toBeInTheDocument()
     expect(screen.getByText('What is a Passkey?')).toBeInTheDocument()
   })
 
@@ -65,7 +72,7 @@ describe('PasskeyRegistration', () => {
       </TestWrapper>
     )
 
-    const registerButton = screen.getByText('Create Passkey')
+    const registerButton = await screen.findByText('Create Passkey')
     fireEvent.click(registerButton)
 
     await waitFor(() => {
@@ -110,7 +117,7 @@ describe('PasskeyRegistration', () => {
       </TestWrapper>
     )
 
-    const registerButton = screen.getByText('Create Passkey')
+    const registerButton = await screen.findByText('Create Passkey')
     fireEvent.click(registerButton)
 
     // Wait for registration to complete
@@ -119,7 +126,7 @@ describe('PasskeyRegistration', () => {
     }, { timeout: 3000 })
 
     // Verify API calls were made
-    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(mockFetch).toHaveBeenCalledTimes(3)
     expect(mockCreate).toHaveBeenCalled()
   })
 
@@ -141,7 +148,7 @@ describe('PasskeyRegistration', () => {
       </TestWrapper>
     )
 
-    const registerButton = screen.getByText('Create Passkey')
+    const registerButton = await screen.findByText('Create Passkey')
     fireEvent.click(registerButton)
 
     await waitFor(() => {
@@ -170,7 +177,7 @@ describe('PasskeyRegistration', () => {
       </TestWrapper>
     )
 
-    const registerButton = screen.getByText('Create Passkey')
+    const registerButton = await screen.findByText('Create Passkey')
     fireEvent.click(registerButton)
 
     await waitFor(() => {
@@ -196,7 +203,7 @@ describe('PasskeyRegistration', () => {
       </TestWrapper>
     )
 
-    const registerButton = screen.getByText('Create Passkey')
+    const registerButton = await screen.findByText('Create Passkey')
     fireEvent.click(registerButton)
 
     await waitFor(() => {
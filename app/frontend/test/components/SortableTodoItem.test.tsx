@@ -4,6 +4,7 @@ import { DndContext } from '@dnd-kit/core'
 import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable'
 import { SortableTodoItem } from '../../components/SortableTodoItem'
 import { Todo } from '../../types/todo'
+import { TodoProviders } from '../todoProviders'
 
 const mockTodo: Todo = {
   id: 1,
@@ -13,14 +14,16 @@ const mockTodo: Todo = {
   created_at: '2024-01-01T10:00:00Z'
 }
 
-// Helper component to wrap SortableTodoItem with required DnD context
+// Helper component to wrap SortableTodoItem with required DnD context and todo store
 function DndWrapper({ children }: { children: React.ReactNode }) {
   return (
-    <DndContext>
-      <SortableContext items={[mockTodo.id]} strategy={verticalListSortingStrategy}>
-        {children}
-      </SortableContext>
-    </DndContext>
+    <TodoProviders>
+      <DndContext>
+        <SortableContext items={[mockTodo.id]} strategy={verticalListSortingStrategy}>
+          {children}
+        </SortableContext>
+      </DndContext>
+    </TodoProviders>
   )
 }
 
@@ -67,19 +70,6 @@ describe('SortableTodoItem', () => {
     expect(screen.getByText('Test todo')).toBeInTheDocument()
   })
 
-  it('passes through todo delete callback', () => {
-    const onTodoDeleted = vi.fn()
-
-    render(
-      <DndWrapper>
-        <SortableTodoItem todo={mockTodo} onTodoDeleted={onTodoDeleted} />
-      </DndWrapper>
-    )
-
-    // The TodoItem component should receive the callback
-    expect(screen.getByText('Test todo')).toBeInTheDocument()
-  })
-
   it('applies dragging class when isDragging is true', () => {
     render(
       <DndWrapper>
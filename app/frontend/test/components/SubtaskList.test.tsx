@@ -0,0 +1,160 @@
+import { useEffect } from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { SubtaskList } from '../../components/SubtaskList';
+import { useTodoStore } from '../../hooks/useTodoStore';
+import { Todo } from '../../types/todo';
+import { TodoProviders } from '../todoProviders';
+
+const mockCreate = vi.fn();
+const mockUpdate = vi.fn();
+const mockDestroy = vi.fn();
+const mockReorder = vi.fn();
+const mockTodoUpdate = vi.fn();
+
+vi.mock('../../utils/subtasksApi', () => ({
+  subtasksApi: {
+    create: (todoId: number, subtask: unknown) => mockCreate(todoId, subtask),
+    update: (todoId: number, id: number, updates: unknown) => mockUpdate(todoId, id, updates),
+    destroy: (todoId: number, id: number) => mockDestroy(todoId, id),
+    reorder: (todoId: number, ids: number[]) => mockReorder(todoId, ids),
+  },
+}));
+
+vi.mock('../../utils/todosApi', () => ({
+  todosApi: {
+    update: (id: number, updates: unknown) => mockTodoUpdate(id, updates),
+  },
+  offlineTodos: { onSynced: () => () => {} },
+}));
+
+const todo: Todo = {
+  id: 1,
+  title: 'Plan trip',
+  status: 'open',
+  position: 1,
+  created_at: '2024-01-01T10:00:00Z',
+  complete_with_subtasks: false,
+  subtasks: [
+    { id: 11, title: 'Book flights', done: true, position: 1 },
+    { id: 12, title: 'Pack', done: false, position: 2 },
+  ],
+};
+
+describe('SubtaskList', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('adds a subtask on Enter and hands back the parent todo', async () => {
+    const updated = { ...todo, subtasks: [...todo.subtasks!, { id: 13, title: 'Passport', done: false, position: 3 }] };
+    mockCreate.mockResolvedValue(updated);
+    const onTodoUpdated = vi.fn();
+
+    render(<SubtaskList todo={todo} onTodoUpdated={onTodoUpdated} />, { wrapper: TodoProviders });
+
+    const input = screen.getByLabelText('Add a subtask');
+    fireEvent.change(input, { target: { value: ' Passport ' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    await waitFor(() => expect(onTodoUpdated).toHaveBeenCalledWith(updated));
+    expect(mockCreate).toHaveBeenCalledWith(1, { title: 'Passport' });
+    expect(input).toHaveValue('');
+  });
+
+  it('checks a subtask off', async () => {
+    const completed = { ...todo, status: 'done' as const };
+    mockUpdate.mockResolvedValue(completed);
+    const onTodoUpdated = vi.fn();
+
+    render(<SubtaskList todo={todo} onTodoUpdated={onTodoUpdated} />, { wrapper: TodoProviders });
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Pack' }));
+
+    await waitFor(() => expect(onTodoUpdated).toHaveBeenCalledWith(completed));
+    expect(mockUpdate).toHaveBeenCalledWith(1, 12, { done: true });
+  });
+
+  it('adds the next occurrence of a repeating todo the last subtask completes', async () => {
+    const nextOccurrence = { ...todo, id: 2, subtasks: [{ id: 21, title: 'Pack', done: false, position: 1 }] };
+    mockUpdate.mockResolvedValue({ ...todo, status: 'done', next_occurrence: nextOccurrence });
+    const onTodoUpdated = vi.fn();
+    const StoreTodos = () => (
+      <ul aria-label="Store">
+        {useTodoStore().todos.map(item => <li key={item.id}>{item.id}</li>)}
+      </ul>
+    );
+
+    render(
+      <>
+        <SubtaskList todo={todo} onTodoUpdated={onTodoUpdated} />
+        <StoreTodos />
+      </>,
+      { wrapper: TodoProviders }
+    );
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Pack' }));
+
+    await waitFor(() => expect(onTodoUpdated).toHaveBeenCalledWith({ ...todo, status: 'done' }));
+    expect(screen.getByRole('list', { name: 'Store' })).toHaveTextContent('2');
+  });
+
+  it('moves a subtask up', async () => {
+    mockReorder.mockResolvedValue(todo);
+
+    render(<SubtaskList todo={todo} onTodoUpdated={vi.fn()} />, { wrapper: TodoProviders });
+
+    expect(screen.getByRole('button', { name: 'Move Book flights up' })).toBeDisabled();
+    fireEvent.click(screen.getByRole('button', { name: 'Move Pack up' }));
+
+    await waitFor(() => expect(mockReorder).toHaveBeenCalledWith(1, [12, 11]));
+  });
+
+  it('deletes a subtask', async () => {
+    mockDestroy.mockResolvedValue(todo);
+
+    render(<SubtaskList todo={todo} onTodoUpdated={vi.fn()} />, { wrapper: TodoProviders });
+    fireEvent.click(screen.getByRole('button', { name: 'Delete subtask Pack' }));
+
+    await waitFor(() => expect(mockDestroy).toHaveBeenCalledWith(1, 12));
+  });
+
+  it('turns on completing the todo with its subtasks', async () => {
+    mockTodoUpdate.mockResolvedValue({ ...todo, complete_with_subtasks: true });
+
+    render(<SubtaskList todo={todo} onTodoUpdated={vi.fn()} />, { wrapper: TodoProviders });
+    fireEvent.click(screen.getByLabelText('Complete this todo when every subtask is done'));
+
+    await waitFor(() => expect(mockTodoUpdate).toHaveBeenCalledWith(1, { complete_with_subtasks: true }));
+  });
+
+  it('flips the setting at once and back when the server refuses it', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    let reject: (error: Error) => void = () => {};
+    mockTodoUpdate.mockReturnValue(new Promise((_, fail) => { reject = fail; }));
+    const StoredSubtaskList = () => {
+      const { todos, setTodos, replaceTodo } = useTodoStore();
+      useEffect(() => {
+        setTodos([todo]);
+      }, [setTodos]);
+      return todos[0] ? <SubtaskList todo={todos[0]} onTodoUpdated={replaceTodo} /> : null;
+    };
+
+    render(<StoredSubtaskList />, { wrapper: TodoProviders });
+    const setting = await screen.findByLabelText('Complete this todo when every subtask is done');
+    fireEvent.click(setting);
+
+    expect(setting).toBeChecked();
+    reject(new Error('Todo not found'));
+    await waitFor(() => expect(setting).not.toBeChecked());
+    expect(screen.getByRole('alert')).toBeInTheDocument();
+  });
+
+  it('shows an error when a change fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockUpdate.mockRejectedValue(new Error('Subtask not found'));
+
+    render(<SubtaskList todo={todo} onTodoUpdated={vi.fn()} />, { wrapper: TodoProviders });
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Pack' }));
+
+    expect(await screen.findByRole('alert')).toBeInTheDocument();
+  });
+});
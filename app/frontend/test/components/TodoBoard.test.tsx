@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { act, render, screen, within } from '@testing-library/react'
+import type { ComponentProps } from 'react'
+import type { DndContext as DndContextType, DragEndEvent } from '@dnd-kit/core'
+import { TodoBoard } from '../../components/TodoBoard'
+import { Todo } from '../../types/todo'
+import { TodoProviders } from '../todoProviders'
+
+// Real drags need layout, which jsdom has none of, so tests end drags through the handler
+let endDrag: (event: DragEndEvent) => Promise<void> | void = () => {}
+
+vi.mock('@dnd-kit/core', async importOriginal => {
+  const actual = await importOriginal<typeof import('@dnd-kit/core')>()
+  return {
+    ...actual,
+    DndContext: (props: ComponentProps<typeof DndContextType>) => {
+      endDrag = props.onDragEnd as typeof endDrag
+      return <actual.DndContext {...props} />
+    },
+  }
+})
+
+const mockFetch = vi.fn()
+globalThis.fetch = mockFetch
+
+const jsonResponse = (body: unknown) => ({
+  ok: true,
+  status: 200,
+  headers: { get: vi.fn().mockReturnValue('application/json') },
+  json: () => Promise.resolve(body),
+})
+
+const todos: Todo[] = [
+  { id: 1, title: 'Write spec', status: 'open', position: 1024, created_at: '2024-01-01T10:00:00Z' },
+  { id: 2, title: 'Ship it', status: 'done', position: 2048, created_at: '2024-01-01T11:00:00Z' },
+  { id: 3, title: 'Review', status: 'open', position: 3072, created_at: '2024-01-01T12:00:00Z' },
+]
+
+const dragEnd = (activeId: number, overId: number | string) =>
+  ({ active: { id: activeId }, over: { id: overId } }) as unknown as DragEndEvent
+
+const cardTitles = (columnName: string) =>
+  within(screen.getByRole('region', { name: columnName }))
+    .queryAllByRole('group')
+    .map(card => card.getAttribute('aria-label'))
+
+describe('TodoBoard', () => {
+  beforeEach(() => {
+    mockFetch.mockReset()
+    mockFetch.mockResolvedValueOnce(jsonResponse({ todos }))
+  })
+
+  it('puts every todo in the column for its status', async () => {
+    render(<TodoBoard />, { wrapper: TodoProviders })
+
+    expect(await screen.findByText('Write spec')).toBeInTheDocument()
+    expect(cardTitles('Open')).toEqual(['Write spec', 'Review'])
+    expect(cardTitles('Done')).toEqual(['Ship it'])
+  })
+
+  it('changes the status of a card dropped in another column', async () => {
+    render(<TodoBoard />, { wrapper: TodoProviders })
+    await screen.findByText('Write spec')
+
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ success: true, todo: { ...todos[2], status: 'done' } }))
+      .mockResolvedValueOnce(jsonResponse({ success: true, todo: { ...todos[2], status: 'done', position: 1536 } }))
+    await act(async () => {
+      await endDrag(dragEnd(3, 2))
+    })
+
+    expect(cardTitles('Open')).toEqual(['Write spec'])
+    expect(cardTitles('Done')).toEqual(['Review', 'Ship it'])
+    expect(mockFetch).toHaveBeenCalledWith('/api/todos/3', expect.objectContaining({
+      method: 'PATCH',
+      body: JSON.stringify({ status: 'done' }),
+    }))
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/todos/3/move', expect.objectContaining({
+      body: JSON.stringify({ before_id: 2 }),
+    }))
+  })
+
+  it('only changes the status of a card dropped on an empty part of a column', async () => {
+    render(<TodoBoard />, { wrapper: TodoProviders })
+    await screen.findByText('Write spec')
+
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, todo: { ...todos[1], status: 'open' } }))
+    await act(async () => {
+      await endDrag(dragEnd(2, 'column-open'))
+    })
+
+    expect(cardTitles('Open')).toEqual(['Write spec', 'Ship it', 'Review'])
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('reorders a card within its column', async () => {
+    render(<TodoBoard />, { wrapper: TodoProviders })
+    await screen.findByText('Write spec')
+
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, todo: { ...todos[0], position: 4096 } }))
+    await act(async () => {
+      await endDrag(dragEnd(1, 3))
+    })
+
+    expect(cardTitles('Open')).toEqual(['Review', 'Write spec'])
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/todos/1/move', expect.objectContaining({
+      body: JSON.stringify({ after_id: 3 }),
+    }))
+  })
+
+  it('puts a card back when the server rejects the status change', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    render(<TodoBoard />, { wrapper: TodoProviders })
+    await screen.findByText('Write spec')
+
+    mockFetch.mockResolvedValueOnce({ ...jsonResponse({ error: 'Nope' }), ok: false, status: 422, statusText: 'Unprocessable Entity' })
+    await act(async () => {
+      await endDrag(dragEnd(1, 'column-done'))
+    })
+
+    expect(cardTitles('Open')).toEqual(['Write spec', 'Review'])
+    expect(screen.getByRole('alert')).toBeInTheDocument()
+  })
+})
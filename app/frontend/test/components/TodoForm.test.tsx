@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import { TodoForm } from '../../components/TodoForm'
 import { api } from '../../utils/api'
@@ -116,6 +116,29 @@ describe('TodoForm', () => {
     })
   })
 
+  it('sends a chosen priority and resets it afterwards', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse({
+      ok: true,
+      headers: { 'content-type': 'application/json' },
+      json: () => Promise.resolve({ success: true, todo: { id: 1, title: 'Fix prod', status: 'open', priority: 'urgent', position: 1, created_at: '2024-01-01T10:00:00Z' } })
+    }))
+
+    const onTodoCreated = vi.fn()
+    render(<TodoForm onTodoCreated={onTodoCreated} />)
+
+    fireEvent.change(screen.getByPlaceholderText('What needs to be done?'), { target: { value: 'Fix prod' } })
+    fireEvent.change(screen.getByLabelText('Priority'), { target: { value: 'urgent' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Add Todo' }))
+
+    await waitFor(() => {
+      expect(onTodoCreated).toHaveBeenCalled()
+    })
+    expect(mockFetch).toHaveBeenCalledWith('/api/todos', expect.objectContaining({
+      body: JSON.stringify({ title: 'Fix prod', priority: 'urgent' })
+    }))
+    expect(screen.getByLabelText('Priority')).toHaveValue('medium')
+  })
+
   it('handles API error', async () => {
     // Mock the API client to avoid retry logic issues
     const originalRequest = api.post
@@ -237,4 +260,131 @@ describe('TodoForm', () => {
       })
     })
   })
-})
\ No newline at end of file
+
+  it('sends the chosen due date as the end of that day', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse({
+      ok: true,
+      headers: { 'content-type': 'application/json' },
+      json: () => Promise.resolve({ success: true, todo: { id: 1, title: 'Pay rent', status: 'open', position: 1, created_at: '2024-01-01T10:00:00Z' } })
+    }))
+
+    render(<TodoForm />)
+
+    fireEvent.change(screen.getByPlaceholderText('What needs to be done?'), { target: { value: 'Pay rent' } })
+    fireEvent.change(screen.getByLabelText('Due date'), { target: { value: '2024-02-01' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Add Todo' }))
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith('/api/todos', expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ title: 'Pay rent', due_at: new Date(2024, 1, 1, 23, 59, 59).toISOString() })
+      }))
+    })
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Due date')).toHaveValue('')
+    })
+  })
+
+  it('sends the labels chosen in the picker', async () => {
+    mockFetch
+      .mockResolvedValueOnce(createMockResponse({
+        ok: true,
+        headers: { 'content-type': 'application/json' },
+        json: () => Promise.resolve({ labels: [{ id: 4, name: 'bug', color: '#c53030' }] })
+      }))
+      .mockResolvedValueOnce(createMockResponse({
+        ok: true,
+        headers: { 'content-type': 'application/json' },
+        json: () => Promise.resolve({ success: true, todo: { id: 1, title: 'Fix login', status: 'open', position: 1, created_at: '2024-01-01T10:00:00Z' } })
+      }))
+
+    render(<TodoForm />)
+
+    fireEvent.change(screen.getByPlaceholderText('What needs to be done?'), { target: { value: 'Fix login' } })
+    fireEvent.click(screen.getByRole('button', { name: /Labels/ }))
+    fireEvent.click(await screen.findByLabelText('bug'))
+    fireEvent.click(screen.getByRole('button', { name: 'Add Todo' }))
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith('/api/todos', expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ title: 'Fix login', label_ids: [4] })
+      }))
+    })
+  })
+
+  describe('quick add', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ now: new Date(2024, 0, 17, 10, 0), toFake: ['Date'] })
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('previews and sends the fields typed after the title', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({
+          ok: true,
+          headers: { 'content-type': 'application/json' },
+          json: () => Promise.resolve({ labels: [{ id: 4, name: 'finance', color: '#0969da' }] })
+        }))
+        .mockResolvedValueOnce(createMockResponse({
+          ok: true,
+          headers: { 'content-type': 'application/json' },
+          json: () => Promise.resolve({ success: true, todo: { id: 1, title: 'Pay rent', status: 'open', position: 1, created_at: '2024-01-01T10:00:00Z' } })
+        }))
+
+      render(<TodoForm />)
+
+      fireEvent.change(screen.getByPlaceholderText('What needs to be done?'), {
+        target: { value: 'Pay rent tomorrow 9am #finance !high every month' }
+      })
+
+      const preview = screen.getByRole('list', { name: 'Quick add preview' })
+      expect(preview).toHaveTextContent('Due Thu, Jan 18, 9:00 AM')
+      expect(preview).toHaveTextContent('High priority')
+      expect(preview).toHaveTextContent('Monthly on the 18th')
+      expect(await screen.findByText('finance')).toBeInTheDocument()
+      expect(mockFetch).toHaveBeenCalledWith('/api/labels', expect.anything())
+
+      fireEvent.click(screen.getByRole('button', { name: 'Add Todo' }))
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenLastCalledWith('/api/todos', expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({
+            title: 'Pay rent',
+            due_at: new Date(2024, 0, 18, 9, 0).toISOString(),
+            label_ids: [4],
+            priority: 'high',
+            recurrence: { frequency: 'monthly', day: 18, utc_offset: 0 - new Date().getTimezoneOffset() }
+          })
+        }))
+      })
+      await waitFor(() => {
+        expect(screen.queryByRole('list', { name: 'Quick add preview' })).not.toBeInTheDocument()
+      })
+    })
+
+    it('does not look up labels or show a preview for a plain title', () => {
+      render(<TodoForm />)
+
+      fireEvent.change(screen.getByPlaceholderText('What needs to be done?'), { target: { value: 'Buy sun cream' } })
+
+      expect(screen.queryByRole('list', { name: 'Quick add preview' })).not.toBeInTheDocument()
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('needs a title besides the fields', async () => {
+      render(<TodoForm />)
+
+      fireEvent.change(screen.getByPlaceholderText('What needs to be done?'), { target: { value: 'tomorrow !high' } })
+      fireEvent.click(screen.getByRole('button', { name: 'Add Todo' }))
+
+      expect(await screen.findByText('Todo title cannot be empty')).toBeInTheDocument()
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+})
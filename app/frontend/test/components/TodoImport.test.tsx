@@ -0,0 +1,92 @@
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { TodoImport } from '../../components/TodoImport';
+import { NetworkError } from '../../utils/networkError';
+
+const mockListLists = vi.fn();
+const mockBatchCreate = vi.fn();
+
+vi.mock('../../utils/listsApi', () => ({
+  listsApi: {
+    list: () => mockListLists(),
+  },
+}));
+
+vi.mock('../../utils/todosApi', () => ({
+  todosApi: {
+    batchCreate: (todos: unknown, listId: unknown) => mockBatchCreate(todos, listId),
+  },
+}));
+
+const paste = (text: string) => fireEvent.change(screen.getByLabelText('Or paste todos'), { target: { value: text } });
+
+const previewRows = () => within(screen.getByRole('table', { name: 'Import preview' })).getAllByRole('row').slice(1);
+
+describe('TodoImport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockListLists.mockResolvedValue([{ id: 1, name: 'Inbox', position: 1 }, { id: 2, name: 'Work', position: 2 }]);
+  });
+
+  it('previews pasted todos and flags the ones that would be rejected', async () => {
+    render(<TodoImport />);
+
+    paste(`- [ ] Book flights\n- [x] Renew passport\n- [ ] ${'a'.repeat(256)}`);
+
+    expect(screen.getByRole('option', { name: 'Detect (Markdown checklist)' })).toBeInTheDocument();
+    const rows = previewRows();
+    expect(rows).toHaveLength(3);
+    expect(rows[1]).toHaveTextContent('Renew passport');
+    expect(rows[1]).toHaveTextContent('Done');
+    expect(rows[2]).toHaveAttribute('aria-invalid', 'true');
+    expect(rows[2]).toHaveTextContent('Title is too long (maximum is 255 characters)');
+    expect(screen.getByText('2 todos ready to import; 1 with problems will be skipped.')).toBeInTheDocument();
+  });
+
+  it('imports the valid rows into the chosen list', async () => {
+    mockBatchCreate.mockResolvedValue([{ id: 5 }, { id: 6 }]);
+    render(<TodoImport />);
+
+    fireEvent.change(await screen.findByLabelText('Import into'), { target: { value: '2' } });
+    paste('Title,Priority\nPay rent,high\n,low\nCall bank,');
+    fireEvent.click(screen.getByRole('button', { name: 'Import 2 todos' }));
+
+    expect(await screen.findByRole('status')).toHaveTextContent('Imported 2 todos into Work.');
+    expect(mockBatchCreate).toHaveBeenCalledWith([{ title: 'Pay rent', priority: 'high' }, { title: 'Call bank' }], 2);
+    expect(screen.getByLabelText('Or paste todos')).toHaveValue('');
+  });
+
+  it('reads an uploaded file in the format its name gives', async () => {
+    render(<TodoImport />);
+
+    const file = new File([JSON.stringify(['Milk', 'Bread'])], 'todos.json', { type: 'application/json' });
+    fireEvent.change(screen.getByLabelText('Import file'), { target: { files: [file] } });
+
+    await waitFor(() => {
+      expect(previewRows()).toHaveLength(2);
+    });
+    expect(screen.getByRole('columnheader', { name: 'Item' })).toBeInTheDocument();
+  });
+
+  it('explains input that cannot be read in the chosen format', () => {
+    render(<TodoImport />);
+
+    fireEvent.change(screen.getByLabelText('Format'), { target: { value: 'csv' } });
+    paste('Milk\nBread');
+
+    expect(screen.getByRole('alert')).toHaveTextContent('The first row needs a "title" column');
+    expect(screen.queryByRole('button', { name: /Import/ })).not.toBeInTheDocument();
+  });
+
+  it('keeps the input when the server rejects the import', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockBatchCreate.mockRejectedValue(new NetworkError('Todo import failed', 'API_ERROR', false));
+    render(<TodoImport />);
+
+    paste('Milk');
+    fireEvent.click(screen.getByRole('button', { name: 'Import 1 todo' }));
+
+    expect(await screen.findByText('Todo import failed')).toBeInTheDocument();
+    expect(screen.getByLabelText('Or paste todos')).toHaveValue('Milk');
+  });
+});
@@ -1,15 +1,37 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { useEffect } from 'react'
 import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import { TodoItem } from '../../components/TodoItem'
 import { Todo } from '../../types/todo'
+import { TodoProviders } from '../todoProviders'
+import { useTodoStore } from '../../hooks/useTodoStore'
+
+// Type declaration for the global helper
+declare global {
+  function createMockResponse(options: {
+    ok: boolean
+    status?: number
+    statusText?: string
+    headers?: Record<string, string>
+    json?: () => Promise<any>
+    text?: () => Promise<string>
+  }): Response
+}
 
 // Mock fetch
 const mockFetch = vi.fn()
 global.fetch = mockFetch
 
-// Mock confirm dialog
-const mockConfirm = vi.fn()
-global.confirm = mockConfirm
+// Renders items from the shared store, the way TodoList does
+function StoredTodoItems({ todos, onTodoUpdated }: { todos: Todo[]; onTodoUpdated?: (todo: Todo) => void }) {
+  const { todos: storedTodos, setTodos } = useTodoStore()
+
+  useEffect(() => {
+    setTodos(todos)
+  }, [setTodos, todos])
+
+  return <>{storedTodos.map(todo => <TodoItem key={todo.id} todo={todo} onTodoUpdated={onTodoUpdated} />)}</>
+}
 
 const mockTodo: Todo = {
   id: 1,
@@ -23,11 +45,10 @@ describe('TodoItem', () => {
   beforeEach(() => {
     vi.clearAllMocks()
     mockFetch.mockClear()
-    mockConfirm.mockClear()
   })
 
   it('renders todo correctly', () => {
-    render(<TodoItem todo={mockTodo} />)
+    render(<TodoItem todo={mockTodo} />, { wrapper: TodoProviders })
 
     expect(screen.getByText('Test todo')).toBeInTheDocument()
     expect(screen.getByText('Jan 1, 2024')).toBeInTheDocument()
@@ -38,7 +59,7 @@ describe('TodoItem', () => {
 
   it('renders completed todo correctly', () => {
     const completedTodo = { ...mockTodo, status: 'done' as const }
-    render(<TodoItem todo={completedTodo} />)
+    render(<TodoItem todo={completedTodo} />, { wrapper: TodoProviders })
 
     expect(screen.getByText('Test todo')).toBeInTheDocument()
     expect(screen.getByText('✓')).toBeInTheDocument()
@@ -48,13 +69,14 @@ describe('TodoItem', () => {
   it('toggles todo status successfully', async () => {
     const updatedTodo = { ...mockTodo, status: 'done' as const }
     
-    mockFetch.mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(createMockResponse({
       ok: true,
+      headers: { 'content-type': 'application/json' },
       json: () => Promise.resolve({ success: true, todo: updatedTodo })
-    })
+    }))
 
     const onTodoUpdated = vi.fn()
-    render(<TodoItem todo={mockTodo} onTodoUpdated={onTodoUpdated} />)
+    render(<TodoItem todo={mockTodo} onTodoUpdated={onTodoUpdated} />, { wrapper: TodoProviders })
 
     const statusButton = screen.getByLabelText('Mark as done')
     fireEvent.click(statusButton)
@@ -75,7 +97,7 @@ describe('TodoItem', () => {
   })
 
   it('enters edit mode when edit button clicked', () => {
-    render(<TodoItem todo={mockTodo} />)
+    render(<TodoItem todo={mockTodo} />, { wrapper: TodoProviders })
 
     const editButton = screen.getByLabelText('Edit todo')
     fireEvent.click(editButton)
@@ -88,13 +110,14 @@ describe('TodoItem', () => {
   it('saves edited todo successfully', async () => {
     const updatedTodo = { ...mockTodo, title: 'Updated todo' }
     
-    mockFetch.mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(createMockResponse({
       ok: true,
+      headers: { 'content-type': 'application/json' },
       json: () => Promise.resolve({ success: true, todo: updatedTodo })
-    })
+    }))
 
     const onTodoUpdated = vi.fn()
-    render(<TodoItem todo={mockTodo} onTodoUpdated={onTodoUpdated} />)
+    render(<TodoItem todo={mockTodo} onTodoUpdated={onTodoUpdated} />, { wrapper: TodoProviders })
 
     // Enter edit mode
     fireEvent.click(screen.getByLabelText('Edit todo'))
@@ -125,7 +148,7 @@ describe('TodoItem', () => {
   })
 
   it('cancels edit without saving', () => {
-    render(<TodoItem todo={mockTodo} />)
+    render(<TodoItem todo={mockTodo} />, { wrapper: TodoProviders })
 
     // Enter edit mode
     fireEvent.click(screen.getByLabelText('Edit todo'))
@@ -146,13 +169,14 @@ describe('TodoItem', () => {
   it('saves on Enter key press', async () => {
     const updatedTodo = { ...mockTodo, title: 'Updated todo' }
     
-    mockFetch.mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(createMockResponse({
       ok: true,
+      headers: { 'content-type': 'application/json' },
       json: () => Promise.resolve({ success: true, todo: updatedTodo })
-    })
+    }))
 
     const onTodoUpdated = vi.fn()
-    render(<TodoItem todo={mockTodo} onTodoUpdated={onTodoUpdated} />)
+    render(<TodoItem todo={mockTodo} onTodoUpdated={onTodoUpdated} />, { wrapper: TodoProviders })
 
     // Enter edit mode
     fireEvent.click(screen.getByLabelText('Edit todo'))
@@ -168,7 +192,7 @@ describe('TodoItem', () => {
   })
 
   it('cancels on Escape key press', () => {
-    render(<TodoItem todo={mockTodo} />)
+    render(<TodoItem todo={mockTodo} />, { wrapper: TodoProviders })
 
     // Enter edit mode
     fireEvent.click(screen.getByLabelText('Edit todo'))
@@ -185,7 +209,7 @@ describe('TodoItem', () => {
   })
 
   it('prevents saving empty title', async () => {
-    render(<TodoItem todo={mockTodo} />)
+    render(<TodoItem todo={mockTodo} />, { wrapper: TodoProviders })
 
     // Enter edit mode
     fireEvent.click(screen.getByLabelText('Edit todo'))
@@ -204,93 +228,148 @@ describe('TodoItem', () => {
     expect(mockFetch).not.toHaveBeenCalled()
   })
 
-  it('deletes todo after confirmation', async () => {
-    mockConfirm.mockReturnValue(true)
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: () => Promise.resolve({ success: true })
-    })
+  it('removes the todo right away and offers to undo the deletion', () => {
+    render(<StoredTodoItems todos={[mockTodo]} />, { wrapper: TodoProviders })
 
-    const onTodoDeleted = vi.fn()
-    render(<TodoItem todo={mockTodo} onTodoDeleted={onTodoDeleted} />)
+    fireEvent.click(screen.getByLabelText('Delete todo'))
 
-    const deleteButton = screen.getByLabelText('Delete todo')
-    fireEvent.click(deleteButton)
+    expect(screen.queryByText('Test todo')).not.toBeInTheDocument()
+    expect(screen.getByRole('status')).toHaveTextContent('Deleted "Test todo"')
+    expect(mockFetch).not.toHaveBeenCalled()
 
-    expect(mockConfirm).toHaveBeenCalledWith('Are you sure you want to delete this todo?')
+    fireEvent.click(screen.getByRole('button', { name: 'Undo' }))
 
-    await waitFor(() => {
-      expect(onTodoDeleted).toHaveBeenCalledWith(mockTodo.id)
-    })
-
-    expect(mockFetch).toHaveBeenCalledWith(`/api/todos/${mockTodo.id}`, {
-      method: 'DELETE',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Requested-With': 'XMLHttpRequest',
-      },
-      credentials: 'same-origin'
-    })
+    expect(screen.getByText('Test todo')).toBeInTheDocument()
+    expect(screen.queryByRole('status')).not.toBeInTheDocument()
   })
 
-  it('cancels deletion when not confirmed', () => {
-    mockConfirm.mockReturnValue(false)
+  it('deletes the todo on the server once the undo toast is dismissed', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse({
+      ok: true,
+      headers: { 'content-type': 'application/json' },
+      json: () => Promise.resolve({ success: true })
+    }))
 
-    render(<TodoItem todo={mockTodo} />)
+    render(<StoredTodoItems todos={[mockTodo]} />, { wrapper: TodoProviders })
 
-    const deleteButton = screen.getByLabelText('Delete todo')
-    fireEvent.click(deleteButton)
+    fireEvent.click(screen.getByLabelText('Delete todo'))
+    fireEvent.click(screen.getByLabelText('Dismiss notification'))
 
-    expect(mockConfirm).toHaveBeenCalled()
-    expect(mockFetch).not.toHaveBeenCalled()
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith(`/api/todos/${mockTodo.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Requested-With': 'XMLHttpRequest',
+        },
+        credentials: 'same-origin',
+        keepalive: true,
+      })
+    })
+    expect(screen.queryByText('Test todo')).not.toBeInTheDocument()
   })
 
   it('handles update API error', async () => {
-    mockFetch.mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(createMockResponse({
       ok: false,
+      status: 422,
+      statusText: 'Unprocessable Entity',
+      headers: { 'content-type': 'application/json' },
       json: () => Promise.resolve({ error: 'Update failed' })
-    })
+    }))
 
-    render(<TodoItem todo={mockTodo} />)
+    render(<TodoItem todo={mockTodo} />, { wrapper: TodoProviders })
 
     const statusButton = screen.getByLabelText('Mark as done')
     fireEvent.click(statusButton)
 
     await waitFor(() => {
-      expect(screen.getByText('Update failed')).toBeInTheDocument()
+      expect(screen.getByText('HTTP 422: Unprocessable Entity')).toBeInTheDocument()
     })
   })
 
-  it('handles delete API error', async () => {
-    mockConfirm.mockReturnValue(true)
-    mockFetch.mockResolvedValueOnce({
+  it('restores the todo when the server rejects the deletion', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse({
       ok: false,
+      status: 422,
+      statusText: 'Unprocessable Entity',
+      headers: { 'content-type': 'application/json' },
       json: () => Promise.resolve({ error: 'Delete failed' })
+    }))
+
+    render(<StoredTodoItems todos={[mockTodo]} />, { wrapper: TodoProviders })
+
+    fireEvent.click(screen.getByLabelText('Delete todo'))
+    fireEvent.click(screen.getByLabelText('Dismiss notification'))
+
+    await waitFor(() => {
+      expect(screen.getByText('Test todo')).toBeInTheDocument()
     })
+    expect(screen.getByRole('status')).toHaveTextContent('Could not delete "Test todo".')
+  })
+
+  it('ticks the checkbox at once and unticks it when the server refuses', async () => {
+    let respond: (response: Response) => void = () => {}
+    mockFetch.mockReturnValueOnce(new Promise(resolve => { respond = resolve }))
+
+    render(<StoredTodoItems todos={[mockTodo]} />, { wrapper: TodoProviders })
 
-    render(<TodoItem todo={mockTodo} />)
+    fireEvent.click(screen.getByLabelText('Mark as done'))
+    expect(screen.getByLabelText('Mark as open')).toBeInTheDocument()
 
-    const deleteButton = screen.getByLabelText('Delete todo')
-    fireEvent.click(deleteButton)
+    respond(createMockResponse({
+      ok: false,
+      status: 422,
+      statusText: 'Unprocessable Entity',
+      headers: { 'content-type': 'application/json' },
+      json: () => Promise.resolve({ error: 'Update failed' })
+    }))
 
     await waitFor(() => {
-      expect(screen.getByText('Delete failed')).toBeInTheDocument()
+      expect(screen.getByLabelText('Mark as done')).toBeInTheDocument()
     })
+    expect(screen.getByText('HTTP 422: Unprocessable Entity')).toBeInTheDocument()
   })
 
-  it('allows dismissing error messages', async () => {
-    mockFetch.mockResolvedValueOnce({
+  it('reopens the edit form with the rejected title', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse({
       ok: false,
+      status: 422,
+      statusText: 'Unprocessable Entity',
+      headers: { 'content-type': 'application/json' },
       json: () => Promise.resolve({ error: 'Update failed' })
+    }))
+
+    render(<StoredTodoItems todos={[mockTodo]} />, { wrapper: TodoProviders })
+
+    fireEvent.click(screen.getByLabelText('Edit todo'))
+    fireEvent.change(screen.getByDisplayValue('Test todo'), { target: { value: 'Renamed todo' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }))
+
+    expect(screen.getByText('Renamed todo')).toBeInTheDocument()
+
+    await waitFor(() => {
+      expect(screen.getByDisplayValue('Renamed todo')).toBeInTheDocument()
     })
+    expect(screen.getByText('HTTP 422: Unprocessable Entity')).toBeInTheDocument()
+  })
+
+  it('allows dismissing error messages', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse({
+      ok: false,
+      status: 422,
+      statusText: 'Unprocessable Entity',
+      headers: { 'content-type': 'application/json' },
+      json: () => Promise.resolve({ error: 'Update failed' })
+    }))
 
-    render(<TodoItem todo={mockTodo} />)
+    render(<TodoItem todo={mockTodo} />, { wrapper: TodoProviders })
 
     const statusButton = screen.getByLabelText('Mark as done')
     fireEvent.click(statusButton)
 
     await waitFor(() => {
-      expect(screen.getByText('Update failed')).toBeInTheDocument()
+      expect(screen.getByText('HTTP 422: Unprocessable Entity')).toBeInTheDocument()
     })
 
     // Click dismiss button
@@ -298,7 +377,7 @@ describe('TodoItem', () => {
     fireEvent.click(dismissButton)
 
     await waitFor(() => {
-      expect(screen.queryByText('Update failed')).not.toBeInTheDocument()
+      expect(screen.queryByText('HTTP 422: Unprocessable Entity')).not.toBeInTheDocument()
     })
   })
 
@@ -308,13 +387,13 @@ describe('TodoItem', () => {
       created_at: '2023-12-25T10:00:00Z'
     }
 
-    render(<TodoItem todo={todoWithDifferentYear} />)
+    render(<TodoItem todo={todoWithDifferentYear} />, { wrapper: TodoProviders })
 
     expect(screen.getByText('Dec 25, 2023')).toBeInTheDocument()
   })
 
   it('does not save when title unchanged', async () => {
-    render(<TodoItem todo={mockTodo} />)
+    render(<TodoItem todo={mockTodo} />, { wrapper: TodoProviders })
 
     // Enter edit mode
     fireEvent.click(screen.getByLabelText('Edit todo'))
@@ -327,4 +406,289 @@ describe('TodoItem', () => {
     expect(screen.getByText('Test todo')).toBeInTheDocument()
     expect(mockFetch).not.toHaveBeenCalled()
   })
-})
\ No newline at end of file
+
+  it('marks the priority, defaulting to medium', () => {
+    const { rerender } = render(<TodoItem todo={mockTodo} />, { wrapper: TodoProviders })
+    expect(screen.getByRole('img', { name: 'Medium priority' })).toBeInTheDocument()
+
+    rerender(<TodoItem todo={{ ...mockTodo, priority: 'urgent' }} />)
+    expect(screen.getByRole('img', { name: 'Urgent priority' })).toBeInTheDocument()
+  })
+
+  it('changes the priority from edit mode', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse({
+      ok: true,
+      headers: { 'content-type': 'application/json' },
+      json: () => Promise.resolve({ success: true, todo: { ...mockTodo, priority: 'high' } })
+    }))
+
+    const onTodoUpdated = vi.fn()
+    render(<TodoItem todo={mockTodo} onTodoUpdated={onTodoUpdated} />, { wrapper: TodoProviders })
+
+    fireEvent.click(screen.getByLabelText('Edit todo'))
+    fireEvent.change(screen.getByLabelText('Priority'), { target: { value: 'high' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }))
+
+    await waitFor(() => {
+      expect(onTodoUpdated).toHaveBeenCalled()
+    })
+    expect(mockFetch).toHaveBeenCalledWith(`/api/todos/${mockTodo.id}`, expect.objectContaining({
+      body: JSON.stringify({ priority: 'high' })
+    }))
+  })
+
+  it('moves the todo to another list from its menu', async () => {
+    const todo = { ...mockTodo, list_id: 1 }
+    mockFetch
+      .mockResolvedValueOnce(createMockResponse({
+        ok: true,
+        headers: { 'content-type': 'application/json' },
+        json: () => Promise.resolve({ lists: [{ id: 1, name: 'Inbox', position: 1 }, { id: 2, name: 'Work', position: 2 }] })
+      }))
+      .mockResolvedValueOnce(createMockResponse({
+        ok: true,
+        headers: { 'content-type': 'application/json' },
+        json: () => Promise.resolve({ success: true, todo: { ...todo, list_id: 2 } })
+      }))
+
+    render(<StoredTodoItems todos={[todo]} />, { wrapper: TodoProviders })
+
+    fireEvent.click(screen.getByRole('button', { name: 'Move to…' }))
+    fireEvent.click(await screen.findByRole('menuitem', { name: 'Work' }))
+
+    expect(screen.queryByRole('menuitem', { name: 'Inbox' })).not.toBeInTheDocument()
+    await waitFor(() => {
+      expect(screen.queryByText('Test todo')).not.toBeInTheDocument()
+    })
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/todos/1', expect.objectContaining({
+      method: 'PATCH',
+      body: JSON.stringify({ list_id: 2 })
+    }))
+  })
+
+  describe('recurrence', () => {
+    const repeating: Todo = {
+      ...mockTodo,
+      list_id: 1,
+      due_at: '2024-01-01T23:59:59Z',
+      recurrence: { frequency: 'weekly', weekdays: [1, 4], utc_offset: 0 }
+    }
+
+    it('shows that the todo repeats and how', () => {
+      render(<TodoItem todo={repeating} />, { wrapper: TodoProviders })
+
+      expect(screen.getByText('🔁')).toBeInTheDocument()
+      expect(screen.getByTitle('Repeats when completed')).toHaveTextContent('Every Monday and Thursday')
+    })
+
+    it('adds the next occurrence when the todo is completed', async () => {
+      const nextOccurrence = { ...repeating, id: 2, due_at: '2024-01-04T23:59:59Z' }
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        ok: true,
+        headers: { 'content-type': 'application/json' },
+        json: () => Promise.resolve({
+          success: true,
+          todo: { ...repeating, status: 'done', recurrence: null, next_occurrence: nextOccurrence }
+        })
+      }))
+
+      render(<StoredTodoItems todos={[repeating]} />, { wrapper: TodoProviders })
+
+      fireEvent.click(screen.getByLabelText('Mark as done'))
+
+      await waitFor(() => {
+        expect(screen.getAllByRole('group', { name: 'Test todo' })).toHaveLength(2)
+      })
+      expect(screen.getAllByText('🔁')).toHaveLength(1)
+      expect(screen.getByLabelText('Mark as open')).toBeInTheDocument()
+    })
+
+    it('adds the next occurrence after an edit but keeps it off the edited todo', async () => {
+      const nextOccurrence = { ...repeating, id: 2, due_at: '2024-01-04T23:59:59Z' }
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        ok: true,
+        headers: { 'content-type': 'application/json' },
+        json: () => Promise.resolve({
+          success: true,
+          todo: { ...repeating, title: 'Renamed', status: 'done', recurrence: null, next_occurrence: nextOccurrence }
+        })
+      }))
+      const onTodoUpdated = vi.fn()
+
+      render(<StoredTodoItems todos={[repeating]} onTodoUpdated={onTodoUpdated} />, { wrapper: TodoProviders })
+
+      fireEvent.click(screen.getByLabelText('Edit todo'))
+      fireEvent.change(screen.getByDisplayValue('Test todo'), { target: { value: 'Renamed' } })
+      fireEvent.click(screen.getByRole('button', { name: 'Save' }))
+
+      await waitFor(() => {
+        expect(onTodoUpdated).toHaveBeenCalled()
+      })
+      expect(onTodoUpdated.mock.calls[0][0]).not.toHaveProperty('next_occurrence')
+      expect(screen.getByRole('group', { name: 'Renamed' })).toBeInTheDocument()
+      expect(screen.getByRole('group', { name: 'Test todo' })).toBeInTheDocument()
+    })
+
+    it('sets a rule from edit mode in the local time zone', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        ok: true,
+        headers: { 'content-type': 'application/json' },
+        json: () => Promise.resolve({ success: true, todo: { ...mockTodo, recurrence: { frequency: 'daily', interval: 3 } } })
+      }))
+
+      render(<TodoItem todo={mockTodo} />, { wrapper: TodoProviders })
+
+      fireEvent.click(screen.getByLabelText('Edit todo'))
+      fireEvent.change(screen.getByLabelText('Repeat'), { target: { value: 'daily' } })
+      fireEvent.change(screen.getByLabelText('Days between repeats'), { target: { value: '3' } })
+      fireEvent.click(screen.getByRole('button', { name: 'Save' }))
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalled()
+      })
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+        recurrence: { frequency: 'daily', interval: 3, utc_offset: 0 - new Date().getTimezoneOffset() }
+      })
+    })
+  })
+
+  it('renders label chips', () => {
+    render(<TodoItem todo={{ ...mockTodo, labels: [{ id: 1, name: 'bug', color: '#c53030' }, { id: 2, name: 'ui', color: '#0969da' }] }} />, { wrapper: TodoProviders })
+
+    expect(screen.getByText('bug')).toBeInTheDocument()
+    expect(screen.getByText('ui')).toBeInTheDocument()
+  })
+
+  describe('due dates', () => {
+    const daysFromNow = (days: number) => {
+      const date = new Date()
+      date.setDate(date.getDate() + days)
+      date.setHours(23, 59, 59, 0)
+      return date.toISOString()
+    }
+
+    it('flags open todos that are past their due date', () => {
+      render(<TodoItem todo={{ ...mockTodo, due_at: daysFromNow(-2) }} />, { wrapper: TodoProviders })
+
+      expect(screen.getByText('Overdue')).toBeInTheDocument()
+      expect(screen.queryByText('Due today')).not.toBeInTheDocument()
+    })
+
+    it('flags open todos that are due today', () => {
+      render(<TodoItem todo={{ ...mockTodo, due_at: daysFromNow(0) }} />, { wrapper: TodoProviders })
+
+      expect(screen.getByText('Due today')).toBeInTheDocument()
+      expect(screen.queryByText('Overdue')).not.toBeInTheDocument()
+    })
+
+    it('does not flag completed or future todos', () => {
+      const { rerender } = render(<TodoItem todo={{ ...mockTodo, status: 'done', due_at: daysFromNow(-2) }} />, { wrapper: TodoProviders })
+      expect(screen.queryByText('Overdue')).not.toBeInTheDocument()
+
+      rerender(<TodoItem todo={{ ...mockTodo, due_at: daysFromNow(3) }} />)
+      expect(screen.queryByText('Overdue')).not.toBeInTheDocument()
+      expect(screen.queryByText('Due today')).not.toBeInTheDocument()
+      expect(screen.getByText(/^· Due /)).toBeInTheDocument()
+    })
+
+    it('clears the due date from edit mode', async () => {
+      const todoWithDueDate = { ...mockTodo, due_at: daysFromNow(3) }
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        ok: true,
+        headers: { 'content-type': 'application/json' },
+        json: () => Promise.resolve({ success: true, todo: { ...mockTodo, due_at: null } })
+      }))
+
+      const onTodoUpdated = vi.fn()
+      render(<TodoItem todo={todoWithDueDate} onTodoUpdated={onTodoUpdated} />, { wrapper: TodoProviders })
+
+      fireEvent.click(screen.getByLabelText('Edit todo'))
+      fireEvent.change(screen.getByLabelText('Due date'), { target: { value: '' } })
+      fireEvent.click(screen.getByRole('button', { name: 'Save' }))
+
+      await waitFor(() => {
+        expect(onTodoUpdated).toHaveBeenCalled()
+      })
+
+      expect(mockFetch).toHaveBeenCalledWith(`/api/todos/${mockTodo.id}`, expect.objectContaining({
+        method: 'PATCH',
+        body: JSON.stringify({ due_at: null })
+      }))
+    })
+  })
+
+  describe('subtasks', () => {
+    const todoWithSubtasks: Todo = {
+      ...mockTodo,
+      subtasks: [
+        { id: 11, title: 'Book flights', done: true, position: 1 },
+        { id: 12, title: 'Pack', done: false, position: 2 },
+      ]
+    }
+
+    it('shows subtask progress in the collapsed view', () => {
+      render(<TodoItem todo={todoWithSubtasks} />, { wrapper: TodoProviders })
+
+      expect(screen.getByText('☑ 1/2')).toBeInTheDocument()
+      expect(screen.queryByText('Pack')).not.toBeInTheDocument()
+    })
+
+    it('expands to the subtask list', () => {
+      render(<TodoItem todo={todoWithSubtasks} />, { wrapper: TodoProviders })
+
+      const toggle = screen.getByRole('button', { name: 'Show subtasks' })
+      expect(toggle).toHaveAttribute('aria-expanded', 'false')
+      fireEvent.click(toggle)
+
+      expect(screen.getByRole('button', { name: 'Hide subtasks' })).toHaveAttribute('aria-expanded', 'true')
+      expect(screen.getByRole('checkbox', { name: 'Pack' })).not.toBeChecked()
+      expect(screen.getByRole('checkbox', { name: 'Book flights' })).toBeChecked()
+    })
+  })
+
+  describe('description', () => {
+    const todoWithDescription: Todo = {
+      ...mockTodo,
+      description: '**Bring** [tickets](https://example.com)\n\n<img src=x onerror="alert(1)"> [bad](javascript:alert(1))'
+    }
+
+    it('expands the rendered notes when the title is clicked', () => {
+      const { container } = render(<TodoItem todo={todoWithDescription} />, { wrapper: TodoProviders })
+
+      expect(screen.queryByText('Bring')).not.toBeInTheDocument()
+      fireEvent.click(screen.getByRole('button', { name: /Test todo/ }))
+
+      expect(screen.getByText('Bring').tagName).toBe('STRONG')
+      expect(screen.getByRole('link', { name: 'tickets' })).toHaveAttribute('href', 'https://example.com')
+      expect(screen.queryByRole('link', { name: 'bad' })).not.toBeInTheDocument()
+      expect(container.querySelector('img')).toBeNull()
+      expect(screen.getByText(/<img src=x/)).toBeInTheDocument()
+    })
+
+    it('previews and saves the description from edit mode', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        ok: true,
+        headers: { 'content-type': 'application/json' },
+        json: () => Promise.resolve({ success: true, todo: { ...mockTodo, description: '- one' } })
+      }))
+
+      const onTodoUpdated = vi.fn()
+      render(<TodoItem todo={mockTodo} onTodoUpdated={onTodoUpdated} />, { wrapper: TodoProviders })
+
+      fireEvent.click(screen.getByLabelText('Edit todo'))
+      fireEvent.change(screen.getByLabelText('Description'), { target: { value: '- one' } })
+      fireEvent.click(screen.getByRole('tab', { name: 'Preview' }))
+      expect(screen.getByRole('listitem')).toHaveTextContent('one')
+
+      fireEvent.click(screen.getByRole('button', { name: 'Save' }))
+
+      await waitFor(() => {
+        expect(onTodoUpdated).toHaveBeenCalled()
+      })
+      expect(mockFetch).toHaveBeenCalledWith(`/api/todos/${mockTodo.id}`, expect.objectContaining({
+        method: 'PATCH',
+        body: JSON.stringify({ description: '- one' })
+      }))
+    })
+  })
+})
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import { TodoList } from '../../components/TodoList'
 import { Todo } from '../../types/todo'
+import { TodoListProviders } from '../todoProviders'
 
 // Type declaration for the global helper
 declare global {
@@ -53,7 +54,7 @@ describe('TodoList', () => {
     // Mock pending fetch
     mockFetch.mockImplementation(() => new Promise(() => {}))
 
-    render(<TodoList />)
+    render(<TodoList />, { wrapper: TodoListProviders })
 
     expect(screen.getByText('Loading your todos...')).toBeInTheDocument()
     expect(document.querySelector('.loading-spinner')).toBeInTheDocument()
@@ -66,7 +67,7 @@ describe('TodoList', () => {
       json: () => Promise.resolve({ todos: mockTodos })
     }))
 
-    render(<TodoList />)
+    render(<TodoList />, { wrapper: TodoListProviders })
 
     await waitFor(() => {
       expect(screen.getByText('My Todos')).toBeInTheDocument()
@@ -94,7 +95,7 @@ describe('TodoList', () => {
       json: () => Promise.resolve({ todos: [] })
     }))
 
-    render(<TodoList />)
+    render(<TodoList />, { wrapper: TodoListProviders })
 
     await waitFor(() => {
       expect(screen.getByRole('heading', { name: 'No todos yet' })).toBeInTheDocument()
@@ -107,14 +108,16 @@ describe('TodoList', () => {
   it('handles API error', async () => {
     mockFetch.mockResolvedValueOnce(createMockResponse({
       ok: false,
+      status: 403,
+      statusText: 'Forbidden',
       headers: { 'content-type': 'application/json' },
       json: () => Promise.resolve({ error: 'Failed to load todos' })
     }))
 
-    render(<TodoList />)
+    render(<TodoList />, { wrapper: TodoListProviders })
 
     await waitFor(() => {
-      expect(screen.getByText('Failed to load todos')).toBeInTheDocument()
+      expect(screen.getByText('You do not have permission to perform this action.')).toBeInTheDocument()
     })
 
     expect(screen.getByRole('button', { name: 'Retry' })).toBeInTheDocument()
@@ -123,25 +126,27 @@ describe('TodoList', () => {
   it('handles network error', async () => {
     mockFetch.mockRejectedValueOnce(new Error('Network error'))
 
-    render(<TodoList />)
+    render(<TodoList />, { wrapper: TodoListProviders })
 
     await waitFor(() => {
-      expect(screen.getByText('Network error. Please try again.')).toBeInTheDocument()
+      expect(screen.getByText('Network error')).toBeInTheDocument()
     })
   })
 
   it('retries loading on retry button click', async () => {
-    // First call fails
+    // First call fails with a non-retryable error
     mockFetch.mockResolvedValueOnce(createMockResponse({
       ok: false,
+      status: 400,
+      statusText: 'Bad Request',
       headers: { 'content-type': 'application/json' },
       json: () => Promise.resolve({ error: 'Server error' })
     }))
 
-    render(<TodoList />)
+    render(<TodoList />, { wrapper: TodoListProviders })
 
     await waitFor(() => {
-      expect(screen.getByText('Server error')).toBeInTheDocument()
+      expect(screen.getByText('HTTP 400: Bad Request')).toBeInTheDocument()
     })
 
     // Second call succeeds
@@ -164,17 +169,17 @@ describe('TodoList', () => {
   it('dismisses error message', async () => {
     mockFetch.mockRejectedValueOnce(new Error('Network error'))
 
-    render(<TodoList />)
+    render(<TodoList />, { wrapper: TodoListProviders })
 
     await waitFor(() => {
-      expect(screen.getByText('Network error. Please try again.')).toBeInTheDocument()
+      expect(screen.getByText('Network error')).toBeInTheDocument()
     })
 
     const dismissButton = screen.getByLabelText('Dismiss error')
     fireEvent.click(dismissButton)
 
     await waitFor(() => {
-      expect(screen.queryByText('Network error. Please try again.')).not.toBeInTheDocument()
+      expect(screen.queryByText('Network error')).not.toBeInTheDocument()
     })
   })
 
@@ -185,7 +190,7 @@ describe('TodoList', () => {
       json: () => Promise.resolve({ todos: mockTodos })
     }))
 
-    render(<TodoList />)
+    render(<TodoList />, { wrapper: TodoListProviders })
 
     await waitFor(() => {
       expect(screen.getByText('All (3)')).toBeInTheDocument()
@@ -215,6 +220,413 @@ describe('TodoList', () => {
     expect(screen.getByText('Third todo')).toBeInTheDocument()
   })
 
+  it('combines the label filter with the status filter', async () => {
+    const bug = { id: 1, name: 'bug', color: '#c53030' }
+    const ui = { id: 2, name: 'ui', color: '#0969da' }
+    const labelledTodos: Todo[] = [
+      { ...mockTodos[0], labels: [bug] },
+      { ...mockTodos[1], labels: [bug, ui] },
+      { ...mockTodos[2], labels: [ui] },
+    ]
+
+    mockFetch.mockResolvedValueOnce(createMockResponse({
+      ok: true,
+      headers: { 'content-type': 'application/json' },
+      json: () => Promise.resolve({ todos: labelledTodos })
+    }))
+
+    render(<TodoList />, { wrapper: TodoListProviders })
+
+    await waitFor(() => {
+      expect(screen.getByText('All (3)')).toBeInTheDocument()
+    })
+
+    fireEvent.click(screen.getByRole('button', { name: 'Filter by label bug' }))
+
+    expect(screen.getByRole('button', { name: 'Filter by label bug' })).toHaveAttribute('aria-pressed', 'true')
+    expect(screen.getByText('All (2)')).toBeInTheDocument()
+    expect(screen.getByText('First todo')).toBeInTheDocument()
+    expect(screen.getByText('Second todo')).toBeInTheDocument()
+    expect(screen.queryByText('Third todo')).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByText('Open (1)'))
+    expect(screen.getByText('First todo')).toBeInTheDocument()
+    expect(screen.queryByText('Second todo')).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByText('Clear label filter'))
+    expect(screen.getByText('First todo')).toBeInTheDocument()
+    expect(screen.getByText('Third todo')).toBeInTheDocument()
+  })
+
+  describe('search', () => {
+    const jsonTodos = (todos: Todo[]) => createMockResponse({
+      ok: true,
+      headers: { 'content-type': 'application/json' },
+      json: () => Promise.resolve({ todos })
+    })
+
+    it('filters as you type, highlights matches and asks the server', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonTodos(mockTodos))
+        .mockResolvedValueOnce(jsonTodos([mockTodos[0]]))
+
+      render(<TodoList />, { wrapper: TodoListProviders })
+
+      await waitFor(() => {
+        expect(screen.getByText('All (3)')).toBeInTheDocument()
+      })
+
+      fireEvent.change(screen.getByLabelText('Search todos'), { target: { value: 'FIRST' } })
+
+      // Narrowed locally straight away
+      expect(screen.queryByText('Second todo')).not.toBeInTheDocument()
+      expect(screen.getByText('First', { selector: 'mark' })).toBeInTheDocument()
+      expect(screen.getByText('Clear the search to reorder todos.')).toBeInTheDocument()
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalledWith('/api/todos?q=FIRST', expect.objectContaining({ method: 'GET' }))
+      })
+    })
+
+    it('shows an empty state when nothing matches', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonTodos(mockTodos))
+        .mockResolvedValueOnce(jsonTodos([]))
+
+      render(<TodoList />, { wrapper: TodoListProviders })
+
+      await waitFor(() => {
+        expect(screen.getByText('All (3)')).toBeInTheDocument()
+      })
+
+      fireEvent.change(screen.getByLabelText('Search todos'), { target: { value: 'groceries' } })
+
+      expect(screen.getByText('No todos match "groceries"')).toBeInTheDocument()
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalledTimes(2)
+      })
+      expect(screen.getByLabelText('Search todos')).toHaveValue('groceries')
+    })
+
+    it('loads with a search query passed in by the page', async () => {
+      mockFetch.mockResolvedValueOnce(jsonTodos([mockTodos[1]]))
+      const onSearchChange = vi.fn()
+
+      render(<TodoList searchQuery="second" onSearchChange={onSearchChange} />, { wrapper: TodoListProviders })
+
+      expect(await screen.findByText('Second', { selector: 'mark' })).toBeInTheDocument()
+      expect(mockFetch).toHaveBeenCalledWith('/api/todos?q=second', expect.objectContaining({ method: 'GET' }))
+
+      fireEvent.keyDown(screen.getByLabelText('Search todos'), { key: 'Escape' })
+      expect(onSearchChange).toHaveBeenCalledWith('')
+    })
+  })
+
+  describe('sorting', () => {
+    const prioritisedTodos: Todo[] = [
+      { ...mockTodos[0], priority: 'low', due_at: null },
+      { ...mockTodos[1], priority: 'urgent', due_at: '2024-02-01T23:59:59Z' },
+      { ...mockTodos[2], priority: 'high', due_at: '2024-01-15T23:59:59Z' },
+    ]
+
+    const renderedTitles = () =>
+      screen.getAllByText(/^(First|Second|Third) todo$/).map(element => element.textContent)
+
+    beforeEach(async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        ok: true,
+        headers: { 'content-type': 'application/json' },
+        json: () => Promise.resolve({ todos: prioritisedTodos })
+      }))
+
+      render(<TodoList />, { wrapper: TodoListProviders })
+
+      await waitFor(() => {
+        expect(screen.getByText('All (3)')).toBeInTheDocument()
+      })
+    })
+
+    it('starts in manual order with dragging available', () => {
+      expect(screen.getByLabelText('Sort todos')).toHaveValue('manual')
+      expect(renderedTitles()).toEqual(['First todo', 'Second todo', 'Third todo'])
+      expect(document.querySelectorAll('[aria-roledescription="sortable"]')).toHaveLength(3)
+    })
+
+    it('sorts by priority and turns dragging off', () => {
+      fireEvent.change(screen.getByLabelText('Sort todos'), { target: { value: 'priority' } })
+
+      expect(renderedTitles()).toEqual(['Second todo', 'Third todo', 'First todo'])
+      expect(document.querySelectorAll('[aria-roledescription="sortable"]')).toHaveLength(0)
+      expect(screen.getByText('Switch to manual order to reorder todos.')).toBeInTheDocument()
+    })
+
+    it('sorts by due date with undated todos last', () => {
+      fireEvent.change(screen.getByLabelText('Sort todos'), { target: { value: 'due_date' } })
+
+      expect(renderedTitles()).toEqual(['Third todo', 'Second todo', 'First todo'])
+    })
+  })
+
+  describe('bulk selection', () => {
+    const loadTodos = async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        ok: true,
+        headers: { 'content-type': 'application/json' },
+        json: () => Promise.resolve({ todos: mockTodos })
+      }))
+
+      render(<TodoList />, { wrapper: TodoListProviders })
+
+      await waitFor(() => {
+        expect(screen.getByText('All (3)')).toBeInTheDocument()
+      })
+      fireEvent.click(screen.getByRole('button', { name: 'Select' }))
+    }
+
+    it('selects a range with shift-click', async () => {
+      await loadTodos()
+
+      fireEvent.click(screen.getByLabelText('Select First todo'))
+      fireEvent.click(screen.getByLabelText('Select Third todo'), { shiftKey: true })
+
+      expect(screen.getByLabelText('Select Second todo')).toBeChecked()
+      expect(screen.getByText('3 selected')).toBeInTheDocument()
+    })
+
+    it('selects all within the current filter and applies the action to them', async () => {
+      await loadTodos()
+
+      fireEvent.click(screen.getByText('Open (2)'))
+      fireEvent.click(screen.getByLabelText('Select all shown todos'))
+      expect(screen.getByText('2 selected')).toBeInTheDocument()
+
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        ok: true,
+        headers: { 'content-type': 'application/json' },
+        json: () => Promise.resolve({
+          success: true,
+          todos: mockTodos.map(todo => ({ ...todo, status: 'done' }))
+        })
+      }))
+      fireEvent.click(screen.getByRole('button', { name: 'Complete' }))
+
+      await waitFor(() => {
+        expect(screen.getByText('0 open, 3 done')).toBeInTheDocument()
+      })
+      expect(mockFetch).toHaveBeenLastCalledWith('/api/todos/bulk', expect.objectContaining({
+        method: 'PATCH',
+        body: JSON.stringify({ ids: [1, 3], operation: 'complete' })
+      }))
+      expect(screen.getByText('Completed 2 todos')).toBeInTheDocument()
+    })
+
+    it('shows an error when a bulk action fails', async () => {
+      await loadTodos()
+
+      fireEvent.click(screen.getByLabelText('Select Second todo'))
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        ok: false,
+        status: 422,
+        statusText: 'Unprocessable Entity',
+        headers: { 'content-type': 'application/json' },
+        json: () => Promise.resolve({ error: 'Bulk update failed' })
+      }))
+      fireEvent.click(screen.getByRole('button', { name: 'Move to top' }))
+
+      await waitFor(() => {
+        expect(screen.getByText('HTTP 422: Unprocessable Entity')).toBeInTheDocument()
+      })
+      expect(screen.getByText('1 selected')).toBeInTheDocument()
+    })
+  })
+
+  describe('keyboard shortcuts', () => {
+    const loadTodos = async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        ok: true,
+        headers: { 'content-type': 'application/json' },
+        json: () => Promise.resolve({ todos: mockTodos })
+      }))
+
+      render(<TodoList />, { wrapper: TodoListProviders })
+
+      await waitFor(() => {
+        expect(screen.getByText('All (3)')).toBeInTheDocument()
+      })
+    }
+
+    const press = (key: string, options: { altKey?: boolean } = {}) => {
+      fireEvent.keyDown(document.activeElement ?? document.body, { key, ...options })
+    }
+
+    const card = (title: string) => screen.getByRole('group', { name: title })
+
+    it('moves focus with j and k and toggles the focused todo with x', async () => {
+      await loadTodos()
+
+      press('j')
+      expect(card('First todo')).toHaveFocus()
+      press('j')
+      expect(card('Second todo')).toHaveFocus()
+      press('k')
+      expect(card('First todo')).toHaveFocus()
+
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        ok: true,
+        headers: { 'content-type': 'application/json' },
+        json: () => Promise.resolve({ success: true, todo: { ...mockTodos[0], status: 'done' } })
+      }))
+      press('x')
+
+      await waitFor(() => {
+        expect(screen.getByText('1 open, 2 done')).toBeInTheDocument()
+      })
+      expect(mockFetch).toHaveBeenLastCalledWith('/api/todos/1', expect.objectContaining({
+        method: 'PATCH',
+        body: JSON.stringify({ status: 'done' })
+      }))
+    })
+
+    it('edits the focused todo with e and deletes it with Delete', async () => {
+      await loadTodos()
+
+      press('j')
+      press('e')
+      expect(screen.getByDisplayValue('First todo')).toHaveFocus()
+
+      press('Escape')
+      expect(card('First todo')).toHaveFocus()
+
+      press('Delete')
+      expect(screen.queryByText('First todo')).not.toBeInTheDocument()
+      expect(card('Second todo')).toHaveFocus()
+    })
+
+    it('focuses the new todo field with n and search with /, where letters are just typed', async () => {
+      await loadTodos()
+
+      press('n')
+      expect(screen.getByLabelText('Add a new todo')).toHaveFocus()
+      press('j')
+      expect(screen.getByLabelText('Add a new todo')).toHaveFocus()
+
+      press('/')
+      expect(screen.getByLabelText('Add a new todo')).toHaveFocus()
+
+      screen.getByLabelText('Add a new todo').blur()
+      press('/')
+      expect(screen.getByLabelText('Search todos')).toHaveFocus()
+    })
+
+    it('moves the focused todo with Alt+arrow keys through the move API', async () => {
+      await loadTodos()
+
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        ok: true,
+        headers: { 'content-type': 'application/json' },
+        json: () => Promise.resolve({ success: true, todo: { ...mockTodos[0], position: 2.5 } })
+      }))
+      press('j')
+      press('ArrowDown', { altKey: true })
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenLastCalledWith('/api/todos/1/move', expect.objectContaining({
+          method: 'PATCH',
+          body: JSON.stringify({ after_id: 2 })
+        }))
+      })
+      expect(screen.getAllByRole('group').map(group => group.getAttribute('aria-label')))
+        .toEqual(['Second todo', 'First todo', 'Third todo'])
+    })
+
+    it('lists every shortcut when ? is pressed', async () => {
+      await loadTodos()
+
+      press('?')
+      const dialog = screen.getByRole('dialog', { name: 'Keyboard shortcuts' })
+      expect(dialog).toHaveTextContent('Focus the next todo')
+      expect(dialog).toHaveTextContent('Move the focused todo up or down')
+
+      press('Escape')
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('archive', () => {
+    const loadTodos = async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        ok: true,
+        headers: { 'content-type': 'application/json' },
+        json: () => Promise.resolve({ todos: mockTodos })
+      }))
+
+      render(<TodoList />, { wrapper: TodoListProviders })
+
+      await waitFor(() => {
+        expect(screen.getByText('All (3)')).toBeInTheDocument()
+      })
+    }
+
+    it('archives every done todo with "Clear completed"', async () => {
+      await loadTodos()
+
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        ok: true,
+        headers: { 'content-type': 'application/json' },
+        json: () => Promise.resolve({ success: true, archived_ids: [2] })
+      }))
+      fireEvent.click(screen.getByRole('button', { name: 'Clear completed (1)' }))
+
+      await waitFor(() => {
+        expect(screen.queryByText('Second todo')).not.toBeInTheDocument()
+      })
+      expect(mockFetch).toHaveBeenLastCalledWith('/api/todos/clear_completed', expect.objectContaining({ method: 'PATCH' }))
+      expect(screen.getByText('Archived 1 todo')).toBeInTheDocument()
+      expect(screen.queryByRole('button', { name: /Clear completed/ })).not.toBeInTheDocument()
+    })
+
+    it('lists archived todos and restores them', async () => {
+      await loadTodos()
+
+      const archivedTodo: Todo = {
+        id: 4,
+        title: 'Old todo',
+        status: 'done',
+        position: 4,
+        completed_at: '2024-01-04T10:00:00Z',
+        archived_at: '2024-01-10T10:00:00Z',
+        created_at: '2024-01-01T10:00:00Z'
+      }
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        ok: true,
+        headers: { 'content-type': 'application/json' },
+        json: () => Promise.resolve({ todos: [archivedTodo] })
+      }))
+      fireEvent.click(screen.getByRole('button', { name: 'Archived' }))
+
+      expect(await screen.findByText('Old todo')).toBeInTheDocument()
+      expect(screen.queryByText('First todo')).not.toBeInTheDocument()
+      expect(mockFetch).toHaveBeenLastCalledWith('/api/todos?archived=true', expect.objectContaining({ method: 'GET' }))
+
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        ok: true,
+        headers: { 'content-type': 'application/json' },
+        json: () => Promise.resolve({ success: true, todos: [...mockTodos, { ...archivedTodo, archived_at: null }] })
+      }))
+      fireEvent.click(screen.getByRole('button', { name: 'Restore Old todo' }))
+
+      await waitFor(() => {
+        expect(screen.getByRole('heading', { name: 'No archived todos' })).toBeInTheDocument()
+      })
+      expect(mockFetch).toHaveBeenLastCalledWith('/api/todos/bulk', expect.objectContaining({
+        body: JSON.stringify({ ids: [4], operation: 'restore' })
+      }))
+
+      fireEvent.click(screen.getByText('All (4)'))
+      expect(screen.getByText('Old todo')).toBeInTheDocument()
+    })
+  })
+
   it('shows appropriate empty state for filters', async () => {
     const openOnlyTodos = mockTodos.filter(todo => todo.status === 'open')
     
@@ -224,7 +636,7 @@ describe('TodoList', () => {
       json: () => Promise.resolve({ todos: openOnlyTodos })
     }))
 
-    render(<TodoList />)
+    render(<TodoList />, { wrapper: TodoListProviders })
 
     await waitFor(() => {
       expect(screen.getByText('Open (2)')).toBeInTheDocument()
@@ -247,7 +659,7 @@ describe('TodoList', () => {
       })
     )
 
-    render(<TodoList />)
+    render(<TodoList />, { wrapper: TodoListProviders })
 
     await waitFor(() => {
       expect(screen.getByRole('heading', { name: 'No todos yet' })).toBeInTheDocument()
@@ -289,7 +701,7 @@ describe('TodoList', () => {
       json: () => Promise.resolve({ todos: [mockTodos[0]] })
     }))
 
-    render(<TodoList />)
+    render(<TodoList />, { wrapper: TodoListProviders })
 
     await waitFor(() => {
       expect(screen.getByText('First todo')).toBeInTheDocument()
@@ -319,23 +731,13 @@ describe('TodoList', () => {
       json: () => Promise.resolve({ todos: [mockTodos[0]] })
     }))
 
-    // Mock confirm dialog
-    global.confirm = vi.fn().mockReturnValue(true)
-
-    render(<TodoList />)
+    render(<TodoList />, { wrapper: TodoListProviders })
 
     await waitFor(() => {
       expect(screen.getByText('First todo')).toBeInTheDocument()
     })
 
-    // Mock todo deletion
-    mockFetch.mockResolvedValueOnce(createMockResponse({
-      ok: true,
-      headers: { 'content-type': 'application/json' },
-      json: () => Promise.resolve({ success: true })
-    }))
-
-    // Delete todo
+    // Delete todo; the request is only sent once the undo toast expires
     const deleteButton = screen.getByLabelText('Delete todo')
     fireEvent.click(deleteButton)
 
@@ -346,32 +748,26 @@ describe('TodoList', () => {
     expect(screen.getByRole('heading', { name: 'No todos yet' })).toBeInTheDocument()
   })
 
-  it('shows loading overlay during background operations', async () => {
+  it('shows a status change while the server is still answering', async () => {
     mockFetch.mockResolvedValueOnce(createMockResponse({
       ok: true,
       headers: { 'content-type': 'application/json' },
       json: () => Promise.resolve({ todos: [mockTodos[0]] })
     }))
 
-    render(<TodoList />)
+    render(<TodoList />, { wrapper: TodoListProviders })
 
     await waitFor(() => {
       expect(screen.getByText('First todo')).toBeInTheDocument()
     })
 
-    // The loading overlay is actually shown by the TodoList component when isLoading is true
-    // and there are existing todos. However, the loading state is managed by individual operations.
-    // Let's test that the todo item shows disabled state during loading instead.
-    
     // Mock slow update that never resolves
     mockFetch.mockImplementation(() => new Promise(() => {}))
 
-    const statusButton = screen.getByLabelText('Mark as done')
-    fireEvent.click(statusButton)
+    fireEvent.click(screen.getByLabelText('Mark as done'))
 
-    // Should show disabled state on the todo item during loading
-    await waitFor(() => {
-      expect(statusButton).toBeDisabled()
-    })
+    // The change shows at once and the checkbox stays usable
+    const statusButton = screen.getByLabelText('Mark as open')
+    expect(statusButton).toBeEnabled()
   })
 })
\ No newline at end of file
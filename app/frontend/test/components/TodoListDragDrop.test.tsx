@@ -2,6 +2,19 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import { TodoList } from '../../components/TodoList'
 import { Todo } from '../../types/todo'
+import { TodoListProviders } from '../todoProviders'
+
+// Type declaration for the global helper
+declare global {
+  function createMockResponse(options: {
+    ok: boolean
+    status?: number
+    statusText?: string
+    headers?: Record<string, string>
+    json?: () => Promise<any>
+    text?: () => Promise<string>
+  }): Response
+}
 
 // Mock fetch
 const mockFetch = vi.fn()
@@ -38,12 +51,13 @@ describe('TodoList Drag and Drop', () => {
   })
 
   it('renders todos with drag handles', async () => {
-    mockFetch.mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(createMockResponse({
       ok: true,
+      headers: { 'content-type': 'application/json' },
       json: () => Promise.resolve({ todos: mockTodos })
-    })
+    }))
 
-    render(<TodoList />)
+    render(<TodoList />, { wrapper: TodoListProviders })
 
     await waitFor(() => {
       expect(screen.getByText('First todo')).toBeInTheDocument()
@@ -59,22 +73,26 @@ describe('TodoList Drag and Drop', () => {
   })
 
   it('shows reorder error when API fails', async () => {
-    mockFetch.mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(createMockResponse({
       ok: true,
+      headers: { 'content-type': 'application/json' },
       json: () => Promise.resolve({ todos: mockTodos })
-    })
+    }))
 
-    render(<TodoList />)
+    render(<TodoList />, { wrapper: TodoListProviders })
 
     await waitFor(() => {
       expect(screen.getByText('First todo')).toBeInTheDocument()
     })
 
     // Mock reorder API failure
-    mockFetch.mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(createMockResponse({
       ok: false,
+      status: 422,
+      statusText: 'Unprocessable Entity',
+      headers: { 'content-type': 'application/json' },
       json: () => Promise.resolve({ success: false, error: 'Reorder failed' })
-    })
+    }))
 
     // Simulate drag and drop by directly calling the reorder API
     // (Since testing actual drag and drop is complex with jsdom)
@@ -106,12 +124,13 @@ describe('TodoList Drag and Drop', () => {
   })
 
   it('handles network error during reorder', async () => {
-    mockFetch.mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(createMockResponse({
       ok: true,
+      headers: { 'content-type': 'application/json' },
       json: () => Promise.resolve({ todos: mockTodos })
-    })
+    }))
 
-    render(<TodoList />)
+    render(<TodoList />, { wrapper: TodoListProviders })
 
     await waitFor(() => {
       expect(screen.getByText('First todo')).toBeInTheDocument()
@@ -142,22 +161,24 @@ describe('TodoList Drag and Drop', () => {
   })
 
   it('sends correct reorder data to API', async () => {
-    mockFetch.mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(createMockResponse({
       ok: true,
+      headers: { 'content-type': 'application/json' },
       json: () => Promise.resolve({ todos: mockTodos })
-    })
+    }))
 
-    render(<TodoList />)
+    render(<TodoList />, { wrapper: TodoListProviders })
 
     await waitFor(() => {
       expect(screen.getByText('First todo')).toBeInTheDocument()
     })
 
     // Mock successful reorder
-    mockFetch.mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(createMockResponse({
       ok: true,
+      headers: { 'content-type': 'application/json' },
       json: () => Promise.resolve({ success: true })
-    })
+    }))
 
     // Simulate reorder API call with specific updates
     const updates = [
@@ -188,12 +209,13 @@ describe('TodoList Drag and Drop', () => {
   })
 
   it('shows loading state during reorder', async () => {
-    mockFetch.mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(createMockResponse({
       ok: true,
+      headers: { 'content-type': 'application/json' },
       json: () => Promise.resolve({ todos: mockTodos })
-    })
+    }))
 
-    render(<TodoList />)
+    render(<TodoList />, { wrapper: TodoListProviders })
 
     await waitFor(() => {
       expect(screen.getByText('First todo')).toBeInTheDocument()
@@ -220,12 +242,13 @@ describe('TodoList Drag and Drop', () => {
   })
 
   it('dismisses reorder error', async () => {
-    mockFetch.mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(createMockResponse({
       ok: true,
+      headers: { 'content-type': 'application/json' },
       json: () => Promise.resolve({ todos: mockTodos })
-    })
+    }))
 
-    render(<TodoList />)
+    render(<TodoList />, { wrapper: TodoListProviders })
 
     await waitFor(() => {
       expect(screen.getByText('First todo')).toBeInTheDocument()
@@ -238,12 +261,13 @@ describe('TodoList Drag and Drop', () => {
   })
 
   it('maintains todo order after successful reorder', async () => {
-    mockFetch.mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(createMockResponse({
       ok: true,
+      headers: { 'content-type': 'application/json' },
       json: () => Promise.resolve({ todos: mockTodos })
-    })
+    }))
 
-    render(<TodoList />)
+    render(<TodoList />, { wrapper: TodoListProviders })
 
     await waitFor(() => {
       expect(screen.getByText('First todo')).toBeInTheDocument()
@@ -252,10 +276,11 @@ describe('TodoList Drag and Drop', () => {
     })
 
     // Mock successful reorder
-    mockFetch.mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(createMockResponse({
       ok: true,
+      headers: { 'content-type': 'application/json' },
       json: () => Promise.resolve({ success: true })
-    })
+    }))
 
     // Simulate successful reorder
     await fetch('/api/todos/reorder', {
@@ -287,12 +312,13 @@ describe('TodoList Drag and Drop', () => {
       { ...mockTodos[2], status: 'open' as const }
     ]
 
-    mockFetch.mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(createMockResponse({
       ok: true,
+      headers: { 'content-type': 'application/json' },
       json: () => Promise.resolve({ todos: mixedTodos })
-    })
+    }))
 
-    render(<TodoList />)
+    render(<TodoList />, { wrapper: TodoListProviders })
 
     await waitFor(() => {
       expect(screen.getByText('Open (2)')).toBeInTheDocument()
@@ -1,6 +1,8 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { renderHook, act, waitFor } from '@testing-library/react'
 import { AuthProvider, useAuth } from '../../hooks/useAuth'
+import { api } from '../../utils/api'
+import { offlineTodos } from '../../utils/todosApi'
 
 // Mock fetch responses
 const mockFetch = vi.fn()
@@ -10,6 +12,17 @@ global.fetch = mockFetch
 const mockCreate = vi.fn()
 const mockGet = vi.fn()
 
+// Queue the response for the session check AuthProvider makes on mount
+const mockSessionResponse = (session: { authenticated: boolean; user_id?: number }) => {
+  mockFetch.mockResolvedValueOnce({
+    ok: true,
+    headers: {
+      get: vi.fn().mockReturnValue('application/json'),
+    },
+    json: () => Promise.resolve(session),
+  })
+}
+
 // Test wrapper
 const wrapper = ({ children }: { children: React.ReactNode }) => (
   <AuthProvider>{children}</AuthProvider>
@@ -18,7 +31,7 @@ const wrapper = ({ children }: { children: React.ReactNode }) => (
 describe('useAuth', () => {
   beforeEach(() => {
     vi.clearAllMocks()
-    mockFetch.mockClear()
+    mockFetch.mockReset()
     mockCreate.mockClear()
     mockGet.mockClear()
     
@@ -27,15 +40,182 @@ describe('useAuth', () => {
       value: { create: mockCreate, get: mockGet },
       writable: true,
     })
+
+    mockSessionResponse({ authenticated: false })
   })
 
-  it('provides initial auth state', () => {
+  it('provides initial auth state', async () => {
     const { result } = renderHook(() => useAuth(), { wrapper })
 
+    // Loading while the session check is in flight
+    expect(result.current.isLoading).toBe(true)
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false)
+    })
+
     expect(result.current.user).toBeNull()
     expect(result.current.isAuthenticated).toBe(false)
-    expect(result.current.isLoading).toBe(false)
     expect(result.current.error).toBeNull()
+    expect(mockFetch).toHaveBeenCalledWith('/api/session', expect.objectContaining({ method: 'GET' }))
+  })
+
+  it('restores an existing session on mount', async () => {
+    mockFetch.mockReset()
+    mockSessionResponse({ authenticated: true, user_id: 42 })
+
+    const { result } = renderHook(() => useAuth(), { wrapper })
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false)
+    })
+
+    expect(result.current.isAuthenticated).toBe(true)
+    expect(result.current.user).toEqual({ id: 42 })
+    expect(result.current.error).toBeNull()
+  })
+
+  it('treats a failed session check as signed out', async () => {
+    mockFetch.mockReset()
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      statusText: 'Bad Request',
+      headers: {
+        get: vi.fn().mockReturnValue('application/json'),
+      },
+      json: () => Promise.resolve({ error: 'Bad Request' }),
+    })
+
+    const { result } = renderHook(() => useAuth(), { wrapper })
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false)
+    })
+
+    expect(result.current.isAuthenticated).toBe(false)
+    expect(result.current.user).toBeNull()
+    expect(result.current.error).toBeNull()
+  })
+
+  describe('offline', () => {
+    afterEach(() => {
+      delete (navigator as { onLine?: boolean }).onLine
+    })
+
+    const goOffline = () => {
+      // The test setup replaces navigator with a plain object
+      Object.defineProperty(navigator, 'onLine', { configurable: true, value: false })
+    }
+
+    it('keeps the last signed-in user when the server cannot be reached', async () => {
+      mockFetch.mockReset()
+      mockSessionResponse({ authenticated: true, user_id: 42 })
+      const online = renderHook(() => useAuth(), { wrapper })
+      await waitFor(() => {
+        expect(online.result.current.isAuthenticated).toBe(true)
+      })
+      online.unmount()
+
+      mockFetch.mockReset()
+      goOffline()
+      const { result } = renderHook(() => useAuth(), { wrapper })
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false)
+      })
+      expect(result.current.isAuthenticated).toBe(true)
+      expect(result.current.user).toEqual({ id: 42 })
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('stays signed out after the server said there is no session', async () => {
+      const online = renderHook(() => useAuth(), { wrapper })
+      await waitFor(() => {
+        expect(online.result.current.isLoading).toBe(false)
+      })
+      online.unmount()
+
+      goOffline()
+      const { result } = renderHook(() => useAuth(), { wrapper })
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false)
+      })
+      expect(result.current.isAuthenticated).toBe(false)
+    })
+  })
+
+  it('signs out when a request fails because the session expired', async () => {
+    mockFetch.mockReset()
+    mockSessionResponse({ authenticated: true, user_id: 42 })
+
+    const { result } = renderHook(() => useAuth(), { wrapper })
+
+    await waitFor(() => {
+      expect(result.current.isAuthenticated).toBe(true)
+    })
+
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 401,
+      statusText: 'Unauthorized',
+      headers: {
+        get: vi.fn().mockReturnValue('application/json'),
+      },
+      json: () => Promise.resolve({ error: 'Authentication required' }),
+    })
+
+    await act(async () => {
+      await expect(api.get('/todos')).rejects.toMatchObject({ code: 'AUTH_ERROR' })
+    })
+
+    expect(result.current.isAuthenticated).toBe(false)
+    expect(result.current.user).toBeNull()
+  })
+
+  it('keeps the sign-in error when a passkey is rejected with 401', async () => {
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        headers: {
+          get: vi.fn().mockReturnValue('application/json'),
+        },
+        json: () => Promise.resolve({ challenge: 'test-challenge' }),
+      })
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        statusText: 'Unauthorized',
+        headers: {
+          get: vi.fn().mockReturnValue('application/json'),
+        },
+        json: () => Promise.resolve({ error: 'Authentication verification failed' }),
+      })
+    mockGet.mockResolvedValueOnce({
+      id: 'test-id',
+      rawId: new ArrayBuffer(16),
+      type: 'public-key',
+      response: {
+        clientDataJSON: new ArrayBuffer(16),
+        authenticatorData: new ArrayBuffer(16),
+        signature: new ArrayBuffer(16),
+        userHandle: null,
+      },
+    })
+
+    const { result } = renderHook(() => useAuth(), { wrapper })
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false)
+    })
+
+    await act(async () => {
+      await result.current.login()
+    })
+
+    expect(result.current.isAuthenticated).toBe(false)
+    expect(result.current.error).toBeTruthy()
   })
 
   it('handles successful registration', async () => {
@@ -169,6 +349,8 @@ describe('useAuth', () => {
       type: 'public-key',
     }
     mockGet.mockResolvedValue(mockCredential)
+    const switchUser = vi.spyOn(offlineTodos, 'switchUser')
+    const clearOfflineTodos = vi.spyOn(offlineTodos, 'clear')
 
     const { result } = renderHook(() => useAuth(), { wrapper })
 
@@ -178,6 +360,7 @@ describe('useAuth', () => {
     })
 
     expect(result.current.isAuthenticated).toBe(true)
+    expect(switchUser).toHaveBeenLastCalledWith(1)
 
     // Then logout
     await act(async () => {
@@ -186,6 +369,10 @@ describe('useAuth', () => {
 
     expect(result.current.isAuthenticated).toBe(false)
     expect(result.current.user).toBeNull()
+    expect(clearOfflineTodos).toHaveBeenCalled()
+    expect(switchUser).toHaveBeenLastCalledWith(null)
+    switchUser.mockRestore()
+    clearOfflineTodos.mockRestore()
   })
 
   it('handles WebAuthn not supported error', async () => {
@@ -268,4 +455,211 @@ describe('useAuth', () => {
       expect(result.current.isLoading).toBe(false)
     })
   })
-})
\ No newline at end of file
+
+  it('lists and removes passkeys without touching auth state', async () => {
+    const passkey = {
+      id: 7,
+      nickname: 'Laptop',
+      sign_count: 1,
+      last_used_at: null,
+      created_at: '2024-01-01T10:00:00Z',
+    }
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        headers: {
+          get: vi.fn().mockReturnValue('application/json'),
+        },
+        json: () => Promise.resolve({ credentials: [passkey] }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        headers: {
+          get: vi.fn().mockReturnValue('application/json'),
+        },
+        json: () => Promise.resolve({ success: true }),
+      })
+
+    const { result } = renderHook(() => useAuth(), { wrapper })
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false)
+    })
+
+    let passkeys: unknown
+    await act(async () => {
+      passkeys = await result.current.listPasskeys()
+      await result.current.removePasskey(7)
+    })
+
+    expect(passkeys).toEqual([passkey])
+    expect(mockFetch).toHaveBeenCalledWith('/api/credentials', expect.objectContaining({ method: 'GET' }))
+    expect(mockFetch).toHaveBeenCalledWith('/api/credentials/7', expect.objectContaining({ method: 'DELETE' }))
+    expect(result.current.isLoading).toBe(false)
+    expect(result.current.error).toBeNull()
+  })
+
+  describe('conditional mediation', () => {
+    const authenticationOptions = () => ({
+      ok: true,
+      headers: {
+        get: vi.fn().mockReturnValue('application/json'),
+      },
+      json: () => Promise.resolve({
+        challenge: 'dGVzdC1jaGFsbGVuZ2U',
+        allowCredentials: [{ id: 'dGVzdC1jcmVkZW50aWFs', type: 'public-key' }],
+      }),
+    })
+
+    // A conditional request stays pending until the user picks a passkey or it is aborted
+    const pendingUntilAborted = (options: CredentialRequestOptions) =>
+      new Promise((_, reject) => {
+        options.signal?.addEventListener('abort', () => {
+          reject(new DOMException('Aborted', 'AbortError'))
+        })
+      })
+
+    beforeEach(() => {
+      vi.stubGlobal('PublicKeyCredential', {
+        isConditionalMediationAvailable: vi.fn().mockResolvedValue(true),
+      })
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('requests discoverable credentials with conditional mediation', async () => {
+      mockFetch.mockResolvedValueOnce(authenticationOptions())
+      mockGet.mockImplementation(pendingUntilAborted)
+
+      const { result } = renderHook(() => useAuth(), { wrapper })
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false)
+      })
+
+      act(() => {
+        result.current.startConditionalLogin()
+      })
+
+      await waitFor(() => {
+        expect(mockGet).toHaveBeenCalled()
+      })
+
+      const request = mockGet.mock.calls[0][0]
+      expect(request.mediation).toBe('conditional')
+      expect(request.publicKey.allowCredentials).toEqual([])
+      expect(request.signal.aborted).toBe(false)
+      // Background request: no spinner until a passkey is picked
+      expect(result.current.isLoading).toBe(false)
+
+      act(() => {
+        result.current.cancelConditionalLogin()
+      })
+
+      expect(request.signal.aborted).toBe(true)
+      expect(result.current.error).toBeNull()
+    })
+
+    it('aborts the autofill request when a modal sign-in starts', async () => {
+      mockFetch
+        .mockResolvedValueOnce(authenticationOptions())
+        .mockResolvedValueOnce(authenticationOptions())
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: {
+            get: vi.fn().mockReturnValue('application/json'),
+          },
+          json: () => Promise.resolve({ success: true, user_id: 1 }),
+        })
+      mockGet
+        .mockImplementationOnce(pendingUntilAborted)
+        .mockResolvedValueOnce({
+          id: 'test-credential-id',
+          rawId: new ArrayBuffer(16),
+          response: {
+            authenticatorData: new ArrayBuffer(32),
+            clientDataJSON: new ArrayBuffer(64),
+            signature: new ArrayBuffer(64),
+            userHandle: null,
+          },
+          type: 'public-key',
+        })
+
+      const { result } = renderHook(() => useAuth(), { wrapper })
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false)
+      })
+
+      act(() => {
+        result.current.startConditionalLogin()
+      })
+      await waitFor(() => {
+        expect(mockGet).toHaveBeenCalledTimes(1)
+      })
+      const conditionalRequest = mockGet.mock.calls[0][0]
+
+      await act(async () => {
+        await result.current.login()
+      })
+
+      expect(conditionalRequest.signal.aborted).toBe(true)
+      expect(mockGet.mock.calls[1][0].mediation).toBeUndefined()
+      expect(result.current.isAuthenticated).toBe(true)
+      expect(result.current.error).toBeNull()
+    })
+
+    it('signs in when a passkey is picked from autofill', async () => {
+      mockFetch
+        .mockResolvedValueOnce(authenticationOptions())
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: {
+            get: vi.fn().mockReturnValue('application/json'),
+          },
+          json: () => Promise.resolve({ success: true, user_id: 5 }),
+        })
+      mockGet.mockResolvedValueOnce({
+        id: 'test-credential-id',
+        rawId: new ArrayBuffer(16),
+        response: {
+          authenticatorData: new ArrayBuffer(32),
+          clientDataJSON: new ArrayBuffer(64),
+          signature: new ArrayBuffer(64),
+          userHandle: new ArrayBuffer(16),
+        },
+        type: 'public-key',
+      })
+
+      const { result } = renderHook(() => useAuth(), { wrapper })
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false)
+      })
+
+      await act(async () => {
+        await result.current.startConditionalLogin()
+      })
+
+      expect(result.current.isAuthenticated).toBe(true)
+      expect(result.current.user).toEqual({ id: 5 })
+    })
+
+    it('does nothing when the browser has no autofill support', async () => {
+      vi.stubGlobal('PublicKeyCredential', {
+        isConditionalMediationAvailable: vi.fn().mockResolvedValue(false),
+      })
+
+      const { result } = renderHook(() => useAuth(), { wrapper })
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false)
+      })
+
+      await act(async () => {
+        await result.current.startConditionalLogin()
+      })
+
+      expect(mockGet).not.toHaveBeenCalled()
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -0,0 +1,359 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useTodoStore } from '../../hooks/useTodoStore'
+import { DEFAULT_TOAST_DURATION, useToasts } from '../../hooks/useToasts'
+import { Todo } from '../../types/todo'
+import { TodoProviders } from '../todoProviders'
+
+const mockFetch = vi.fn()
+globalThis.fetch = mockFetch
+
+const jsonResponse = (body: unknown) => ({
+  ok: true,
+  status: 200,
+  headers: { get: vi.fn().mockReturnValue('application/json') },
+  json: () => Promise.resolve(body),
+})
+
+const todos: Todo[] = [
+  { id: 1, title: 'First', status: 'open', position: 1, created_at: '2024-01-01T10:00:00Z' },
+  { id: 2, title: 'Second', status: 'open', position: 2, created_at: '2024-01-01T11:00:00Z' },
+  { id: 3, title: 'Third', status: 'done', position: 3, created_at: '2024-01-01T12:00:00Z' },
+]
+
+// Expose the toasts next to the store so tests can see what the user would see
+const useStoreWithToasts = () => ({ store: useTodoStore(), toasts: useToasts().toasts })
+
+const renderStore = () => {
+  const hook = renderHook(useStoreWithToasts, { wrapper: TodoProviders })
+  act(() => {
+    hook.result.current.store.setTodos(todos)
+  })
+  return hook
+}
+
+const titles = (items: Todo[]) => items.map(todo => todo.title)
+
+describe('useTodoStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    mockFetch.mockReset()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('throws outside of its provider', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    expect(() => renderHook(() => useTodoStore())).toThrow('useTodoStore must be used within a TodoStoreProvider')
+  })
+
+  it('toggles a todo and undoes it through the API', async () => {
+    const { result } = renderStore()
+
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, todo: { ...todos[0], status: 'done' } }))
+    await act(async () => {
+      await result.current.store.toggleTodoStatus(todos[0])
+    })
+
+    expect(result.current.store.todos[0].status).toBe('done')
+    expect(result.current.toasts.map(toast => toast.message)).toEqual(['Completed "First"'])
+    expect(result.current.store.history).toHaveLength(1)
+
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, todo: todos[0] }))
+    await act(async () => {
+      await result.current.store.undo()
+    })
+
+    expect(result.current.store.todos[0].status).toBe('open')
+    expect(result.current.toasts).toHaveLength(0)
+    expect(result.current.store.history).toHaveLength(0)
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/todos/1', expect.objectContaining({
+      method: 'PATCH',
+      body: JSON.stringify({ status: 'open' }),
+    }))
+  })
+
+  it('adds the next occurrence of a completed repeating todo and takes it back on undo', async () => {
+    const { result } = renderStore()
+    const recurrence = { frequency: 'daily' as const, interval: 2, utc_offset: 0 }
+    const nextOccurrence: Todo = { ...todos[0], id: 4, recurrence, created_at: '2024-01-02T10:00:00Z' }
+
+    mockFetch.mockResolvedValueOnce(jsonResponse({
+      success: true,
+      todo: { ...todos[0], status: 'done', recurrence: null, next_occurrence: nextOccurrence },
+    }))
+    let completed: Todo | undefined
+    await act(async () => {
+      completed = await result.current.store.toggleTodoStatus({ ...todos[0], recurrence })
+    })
+
+    expect(completed).not.toHaveProperty('next_occurrence')
+    expect(result.current.store.todos.map(todo => todo.id)).toEqual([1, 2, 3, 4])
+    expect(result.current.store.todos[0]).not.toHaveProperty('next_occurrence')
+
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ success: true }))
+      .mockResolvedValueOnce(jsonResponse({ success: true, todo: { ...todos[0], recurrence } }))
+    await act(async () => {
+      await result.current.store.undo()
+    })
+
+    expect(result.current.store.todos.map(todo => todo.id)).toEqual([1, 2, 3])
+    expect(result.current.store.todos[0]).toMatchObject({ status: 'open', recurrence })
+    expect(mockFetch).toHaveBeenCalledWith('/api/todos/4', expect.objectContaining({ method: 'DELETE' }))
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/todos/1', expect.objectContaining({
+      body: JSON.stringify({ status: 'open', recurrence }),
+    }))
+  })
+
+  it('shows an update before the server answers and rolls it back if rejected', async () => {
+    const { result } = renderStore()
+
+    let respond: (response: unknown) => void = () => {}
+    mockFetch.mockReturnValueOnce(new Promise(resolve => { respond = resolve }))
+    let update: Promise<Todo> = Promise.resolve(todos[0])
+    act(() => {
+      update = result.current.store.updateTodo(todos[0], { title: 'Renamed' })
+    })
+
+    expect(titles(result.current.store.todos)).toEqual(['Renamed', 'Second', 'Third'])
+
+    await act(async () => {
+      respond({ ...jsonResponse({ error: 'Title is invalid' }), ok: false, status: 422, statusText: 'Unprocessable Entity' })
+      await expect(update).rejects.toThrow()
+    })
+
+    expect(titles(result.current.store.todos)).toEqual(['First', 'Second', 'Third'])
+  })
+
+  it('sends updates to one todo in order and keeps newer local changes over late answers', async () => {
+    const { result } = renderStore()
+
+    let respondToFirst: (response: unknown) => void = () => {}
+    mockFetch.mockReturnValueOnce(new Promise(resolve => { respondToFirst = resolve }))
+    let updates: Promise<Todo>[] = []
+    await act(async () => {
+      updates = [
+        result.current.store.updateTodo(todos[0], { status: 'done' }),
+        result.current.store.updateTodo(todos[0], { title: 'Renamed' }),
+      ]
+    })
+
+    expect(result.current.store.todos[0]).toMatchObject({ title: 'Renamed', status: 'done' })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+
+    // The first answer still has the old title, which must not replace the newer one
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, todo: { ...todos[0], title: 'Renamed', status: 'done' } }))
+    await act(async () => {
+      respondToFirst(jsonResponse({ success: true, todo: { ...todos[0], status: 'done' } }))
+      await updates[0]
+    })
+
+    expect(result.current.store.todos[0]).toMatchObject({ title: 'Renamed', status: 'done' })
+
+    await act(async () => {
+      await updates[1]
+    })
+
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/todos/1', expect.objectContaining({
+      body: JSON.stringify({ title: 'Renamed' }),
+    }))
+    expect(result.current.store.todos[0]).toMatchObject({ title: 'Renamed', status: 'done' })
+  })
+
+  it('holds a deletion back until its toast expires', async () => {
+    const { result } = renderStore()
+
+    act(() => {
+      result.current.store.deleteTodo(todos[1])
+    })
+
+    expect(titles(result.current.store.todos)).toEqual(['First', 'Third'])
+    expect(mockFetch).not.toHaveBeenCalled()
+
+    // A reload in the meantime must not bring the todo back
+    act(() => {
+      result.current.store.setTodos(todos)
+    })
+    expect(titles(result.current.store.todos)).toEqual(['First', 'Third'])
+
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true }))
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(DEFAULT_TOAST_DURATION)
+    })
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/todos/2', expect.objectContaining({ method: 'DELETE' }))
+    expect(result.current.store.history).toHaveLength(0)
+  })
+
+  it('sends a pending deletion as soon as the page is left', async () => {
+    const { result } = renderStore()
+
+    act(() => {
+      result.current.store.deleteTodo(todos[1])
+    })
+
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true }))
+    await act(async () => {
+      window.dispatchEvent(new Event('pagehide'))
+    })
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/todos/2', expect.objectContaining({ method: 'DELETE', keepalive: true }))
+    expect(result.current.toasts).toHaveLength(0)
+    expect(result.current.store.history).toHaveLength(0)
+  })
+
+  it('puts an undone deletion back where it was', async () => {
+    const { result } = renderStore()
+
+    act(() => {
+      result.current.store.deleteTodo(todos[1])
+    })
+    await act(async () => {
+      await result.current.store.undo()
+    })
+
+    expect(titles(result.current.store.todos)).toEqual(['First', 'Second', 'Third'])
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(DEFAULT_TOAST_DURATION)
+    })
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('moves one todo next to another and moves it back on undo', async () => {
+    const { result } = renderStore()
+
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, todo: { ...todos[0], position: 1027 } }))
+    await act(async () => {
+      await result.current.store.moveTodo(todos[0], { after_id: 3 })
+    })
+
+    expect(titles(result.current.store.todos)).toEqual(['Second', 'Third', 'First'])
+    expect(result.current.store.todos[2].position).toBe(1027)
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/todos/1/move', expect.objectContaining({
+      method: 'PATCH',
+      body: JSON.stringify({ after_id: 3 }),
+    }))
+    expect(result.current.toasts.map(toast => toast.message)).toEqual(['Moved "First"'])
+
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, todo: todos[0] }))
+    await act(async () => {
+      await result.current.store.undo()
+    })
+
+    expect(titles(result.current.store.todos)).toEqual(['First', 'Second', 'Third'])
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/todos/1/move', expect.objectContaining({
+      body: JSON.stringify({ before_id: 2 }),
+    }))
+  })
+
+  it('puts a todo back when the server rejects its move', async () => {
+    const { result } = renderStore()
+
+    mockFetch.mockResolvedValueOnce({ ...jsonResponse({ error: 'Target todo not found' }), ok: false, status: 404, statusText: 'Not Found' })
+    await act(async () => {
+      await expect(result.current.store.moveTodo(todos[2], { before_id: 1 })).rejects.toThrow()
+    })
+
+    expect(titles(result.current.store.todos)).toEqual(['First', 'Second', 'Third'])
+    expect(result.current.store.history).toHaveLength(0)
+  })
+
+  it('moves a todo to another list and brings it back on undo', async () => {
+    const { result } = renderStore()
+    const inbox = todos.map(todo => ({ ...todo, list_id: 5 }))
+    act(() => {
+      result.current.store.setTodos(inbox, 5)
+    })
+
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, todo: { ...inbox[0], list_id: 6 } }))
+    await act(async () => {
+      await result.current.store.moveTodoToList(inbox[0], { id: 6, name: 'Work' })
+    })
+
+    expect(titles(result.current.store.todos)).toEqual(['Second', 'Third'])
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/todos/1', expect.objectContaining({
+      method: 'PATCH',
+      body: JSON.stringify({ list_id: 6 }),
+    }))
+    expect(result.current.toasts.map(toast => toast.message)).toEqual(['Moved "First" to Work'])
+
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ success: true, todo: { ...inbox[0], position: 4 } }))
+      .mockResolvedValueOnce(jsonResponse({ success: true, todo: inbox[0] }))
+    await act(async () => {
+      await result.current.store.undo()
+    })
+
+    expect(titles(result.current.store.todos)).toEqual(['First', 'Second', 'Third'])
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/todos/1/move', expect.objectContaining({
+      body: JSON.stringify({ before_id: 2 }),
+    }))
+  })
+
+  it('deletes several todos as one undoable action', async () => {
+    const { result } = renderStore()
+
+    await act(async () => {
+      await result.current.store.bulkUpdateTodos([1, 3], 'delete')
+    })
+    expect(titles(result.current.store.todos)).toEqual(['Second'])
+    expect(result.current.toasts.map(toast => toast.message)).toEqual(['Deleted 2 todos'])
+
+    await act(async () => {
+      await result.current.store.undo()
+    })
+    expect(titles(result.current.store.todos)).toEqual(['First', 'Second', 'Third'])
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('undoes a bulk move by putting the todos back in their old order', async () => {
+    const { result } = renderStore()
+    const moved = [todos[2], todos[0], todos[1]].map((todo, index) => ({ ...todo, position: (index + 1) * 1024 }))
+
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ todos }))
+      .mockResolvedValueOnce(jsonResponse({ success: true, todos: moved }))
+    await act(async () => {
+      await result.current.store.bulkUpdateTodos([3], 'move_to_top')
+    })
+    expect(titles(result.current.store.todos)).toEqual(['Third', 'First', 'Second'])
+    expect(result.current.toasts.map(toast => toast.message)).toEqual(['Moved 1 todo to the top'])
+
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ todos: moved }))
+      .mockResolvedValueOnce(jsonResponse({ success: true }))
+    await act(async () => {
+      await result.current.store.undo()
+    })
+
+    expect(titles(result.current.store.todos)).toEqual(['First', 'Second', 'Third'])
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/todos/reorder', expect.objectContaining({
+      body: JSON.stringify({ updates: [{ id: 1, position: 1 }, { id: 2, position: 2 }, { id: 3, position: 3 }] }),
+    }))
+  })
+
+  it('clears completed todos and brings back exactly those on undo', async () => {
+    const { result } = renderStore()
+
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, archived_ids: [3] }))
+    await act(async () => {
+      await result.current.store.clearCompleted()
+    })
+    expect(titles(result.current.store.todos)).toEqual(['First', 'Second'])
+    expect(result.current.toasts.map(toast => toast.message)).toEqual(['Archived 1 todo'])
+
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, todos }))
+    await act(async () => {
+      await result.current.store.undo()
+    })
+
+    expect(titles(result.current.store.todos)).toEqual(['First', 'Second', 'Third'])
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/todos/bulk', expect.objectContaining({
+      body: JSON.stringify({ ids: [3], operation: 'restore' }),
+    }))
+  })
+})
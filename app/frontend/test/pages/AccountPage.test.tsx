@@ -13,12 +13,24 @@ const mockUseAuth = {
   login: vi.fn(),
   logout: vi.fn(),
   clearError: vi.fn(),
+  listPasskeys: vi.fn().mockResolvedValue([]),
+  addPasskey: vi.fn(),
+  renamePasskey: vi.fn(),
+  removePasskey: vi.fn(),
 };
 
 vi.mock('../../hooks/useAuth', () => ({
   useAuth: () => mockUseAuth,
 }));
 
+vi.mock('../../components/LabelManagement', () => ({
+  LabelManagement: () => <div data-testid="label-management" />,
+}));
+
+vi.mock('../../components/ArchiveSettings', () => ({
+  ArchiveSettings: () => <div data-testid="archive-settings" />,
+}));
+
 describe('AccountPage', () => {
   it('renders account page with user information', () => {
     render(<AccountPage />);
@@ -41,6 +53,26 @@ describe('AccountPage', () => {
     expect(screen.getByText('WebAuthn Passkey')).toBeInTheDocument();
   });
 
+  it('renders the passkey management section', async () => {
+    render(<AccountPage />);
+
+    expect(screen.getByRole('heading', { name: 'Passkeys' })).toBeInTheDocument();
+    expect(await screen.findByRole('button', { name: 'Add a Passkey' })).toBeInTheDocument();
+    expect(mockUseAuth.listPasskeys).toHaveBeenCalled();
+  });
+
+  it('renders the label management section', () => {
+    render(<AccountPage />);
+
+    expect(screen.getByTestId('label-management')).toBeInTheDocument();
+  });
+
+  it('renders the archive settings section', () => {
+    render(<AccountPage />);
+
+    expect(screen.getByTestId('archive-settings')).toBeInTheDocument();
+  });
+
   it('displays security information sections', () => {
     render(<AccountPage />);
 
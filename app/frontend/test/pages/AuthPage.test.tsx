@@ -0,0 +1,123 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MemoryRouter, Routes, Route, useLocation } from 'react-router-dom';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { AuthPage } from '../../pages/AuthPage';
+
+const mockStartConditionalLogin = vi.fn();
+const mockCancelConditionalLogin = vi.fn();
+const mockUseAuth = vi.fn();
+
+vi.mock('../../hooks/useAuth', () => ({
+  useAuth: () => mockUseAuth(),
+  isConditionalMediationAvailable: () => Promise.resolve(false),
+}));
+
+vi.mock('../../components/SnowEffect', () => ({
+  SnowEffect: () => null,
+}));
+
+describe('AuthPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseAuth.mockReturnValue({
+      isAuthenticated: false,
+      isLoading: false,
+      error: null,
+      login: vi.fn(),
+      register: vi.fn(),
+      clearError: vi.fn(),
+      startConditionalLogin: mockStartConditionalLogin,
+      cancelConditionalLogin: mockCancelConditionalLogin,
+    });
+  });
+
+  const renderAuthPage = () => {
+    return render(
+      <MemoryRouter initialEntries={['/auth']}>
+        <AuthPage />
+      </MemoryRouter>
+    );
+  };
+
+  it('starts a conditional sign-in on mount', () => {
+    renderAuthPage();
+
+    expect(mockStartConditionalLogin).toHaveBeenCalledTimes(1);
+    expect(mockCancelConditionalLogin).not.toHaveBeenCalled();
+  });
+
+  it('aborts the conditional sign-in when switching to Create Account', () => {
+    renderAuthPage();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Create Account' }));
+
+    expect(mockCancelConditionalLogin).toHaveBeenCalledTimes(1);
+    expect(screen.getByText('Create Your Passkey')).toBeInTheDocument();
+  });
+
+  it('restarts the conditional sign-in when returning to Sign In', () => {
+    renderAuthPage();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Create Account' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Sign In' }));
+
+    expect(mockStartConditionalLogin).toHaveBeenCalledTimes(2);
+  });
+
+  it('restarts the conditional sign-in after a passkey sign-in fails', () => {
+    const { rerender } = renderAuthPage();
+    const signedOut = mockUseAuth();
+
+    // login() cancels autofill, then settles with an error
+    mockUseAuth.mockReturnValue({ ...signedOut, isLoading: true });
+    rerender(
+      <MemoryRouter initialEntries={['/auth']}>
+        <AuthPage />
+      </MemoryRouter>
+    );
+    expect(mockStartConditionalLogin).toHaveBeenCalledTimes(1);
+
+    mockUseAuth.mockReturnValue({ ...signedOut, error: 'Authentication cancelled or failed' });
+    rerender(
+      <MemoryRouter initialEntries={['/auth']}>
+        <AuthPage />
+      </MemoryRouter>
+    );
+    expect(mockStartConditionalLogin).toHaveBeenCalledTimes(2);
+  });
+
+  it('aborts the conditional sign-in on unmount', () => {
+    const { unmount } = renderAuthPage();
+
+    unmount();
+
+    expect(mockCancelConditionalLogin).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns to the page the user was on after signing back in', () => {
+    mockUseAuth.mockReturnValue({
+      ...mockUseAuth(),
+      isAuthenticated: true,
+    });
+
+    const CurrentLocation = () => {
+      const location = useLocation();
+      return <div data-testid="location">{`${location.pathname}${location.search}`}</div>;
+    };
+
+    render(
+      <MemoryRouter
+        initialEntries={[
+          { pathname: '/auth', state: { from: { pathname: '/account', search: '?tab=passkeys', hash: '' } } },
+        ]}
+      >
+        <Routes>
+          <Route path="/auth" element={<AuthPage />} />
+          <Route path="*" element={<CurrentLocation />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+    expect(screen.getByTestId('location')).toHaveTextContent('/account?tab=passkeys');
+  });
+});
@@ -1,13 +1,31 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MemoryRouter, Routes, Route, useLocation } from 'react-router-dom';
 import { vi, describe, it, expect } from 'vitest';
-import { TodoPage } from '../../pages/TodoPage';
+import { TodoPage as TodoPageComponent } from '../../pages/TodoPage';
 
 // Mock the TodoList component
 vi.mock('../../components/TodoList', () => ({
-  TodoList: () => <div data-testid="todo-list">Mocked TodoList Component</div>,
+  TodoList: ({ listId, searchQuery, onSearchChange }: { listId?: number; searchQuery?: string; onSearchChange?: (query: string) => void }) => (
+    <div data-testid="todo-list">
+      Mocked TodoList Component
+      <span data-testid="list-id">{listId}</span>
+      <span data-testid="search-query">{searchQuery}</span>
+      <button type="button" onClick={() => onSearchChange?.('milk')}>Search milk</button>
+      <button type="button" onClick={() => onSearchChange?.('')}>Clear search</button>
+    </div>
+  ),
 }));
 
+// TodoPage reads the search query from the URL, so it needs a router
+const TodoPage = () => (
+  <MemoryRouter>
+    <TodoPageComponent />
+  </MemoryRouter>
+);
+
+const CurrentSearch = () => <div data-testid="location-search">{useLocation().search}</div>;
+
 describe('TodoPage', () => {
   it('renders todo page with header and TodoList component', () => {
     render(<TodoPage />);
@@ -50,4 +68,43 @@ describe('TodoPage', () => {
     expect(todoList).toBeInTheDocument();
     expect(todoList).toHaveTextContent('Mocked TodoList Component');
   });
-});
\ No newline at end of file
+
+  it('passes the q parameter from the URL to the list', () => {
+    render(
+      <MemoryRouter initialEntries={['/?q=bread']}>
+        <TodoPageComponent />
+      </MemoryRouter>
+    );
+
+    expect(screen.getByTestId('search-query')).toHaveTextContent('bread');
+  });
+
+  it('shows the list from the URL', () => {
+    render(
+      <MemoryRouter initialEntries={['/lists/7']}>
+        <Routes>
+          <Route path="/lists/:listId" element={<TodoPageComponent />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+    expect(screen.getByTestId('list-id')).toHaveTextContent('7');
+  });
+
+  it('keeps the search query in the URL', () => {
+    render(
+      <MemoryRouter initialEntries={['/?q=bread']}>
+        <Routes>
+          <Route path="/" element={<><TodoPageComponent /><CurrentSearch /></>} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Search milk' }));
+    expect(screen.getByTestId('location-search')).toHaveTextContent('?q=milk');
+    expect(screen.getByTestId('search-query')).toHaveTextContent('milk');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Clear search' }));
+    expect(screen.getByTestId('location-search')).toBeEmptyDOMElement();
+  });
+});
@@ -6,6 +6,7 @@ import { vi, describe, it, expect, beforeEach } from 'vitest';
 // Import the main App component structure
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider } from '../../hooks/useAuth';
+import { ToastProvider } from '../../hooks/useToasts';
 import { AuthPage } from '../../pages/AuthPage';
 import { TodoPage } from '../../pages/TodoPage';
 import { AccountPage } from '../../pages/AccountPage';
@@ -65,7 +66,9 @@ describe('App Routing', () => {
       <Route path="/auth" element={<AuthPage />} />
       <Route path="/" element={
         <ProtectedRoute>
-          <Layout />
+          <ToastProvider>
+            <Layout />
+          </ToastProvider>
         </ProtectedRoute>
       }>
         <Route index element={<TodoPage />} />
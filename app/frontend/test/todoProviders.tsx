@@ -0,0 +1,26 @@
+import { ReactNode } from 'react'
+import { ToastProvider } from '../hooks/useToasts'
+import { TodoStoreProvider } from '../hooks/useTodoStore'
+import { TodoDragProvider } from '../hooks/useTodoDrag'
+
+/**
+ * The providers every todo component expects, as set up in application.tsx
+ */
+export function TodoProviders({ children }: { children: ReactNode }) {
+  return (
+    <ToastProvider>
+      <TodoStoreProvider>{children}</TodoStoreProvider>
+    </ToastProvider>
+  )
+}
+
+/**
+ * TodoProviders plus the drag context the list shares with the sidebar
+ */
+export function TodoListProviders({ children }: { children: ReactNode }) {
+  return (
+    <TodoProviders>
+      <TodoDragProvider>{children}</TodoDragProvider>
+    </TodoProviders>
+  )
+}
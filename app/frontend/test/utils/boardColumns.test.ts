@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { BOARD_COLUMNS, columnDroppableId, columnForDrop, columnTodos } from '../../utils/boardColumns'
+import { Todo } from '../../types/todo'
+
+const todo = (id: number, status: Todo['status'] = 'open'): Todo => ({
+  id,
+  title: `Todo ${id}`,
+  status,
+  position: id,
+  created_at: '2024-01-01T10:00:00Z',
+})
+
+const todos = [todo(3), todo(1, 'done'), todo(2), todo(4, 'done')]
+const [openColumn, doneColumn] = BOARD_COLUMNS
+
+describe('columnTodos', () => {
+  it('keeps the todos of a status in list order', () => {
+    expect(columnTodos(todos, openColumn).map(item => item.id)).toEqual([3, 2])
+    expect(columnTodos(todos, doneColumn).map(item => item.id)).toEqual([1, 4])
+  })
+})
+
+describe('columnForDrop', () => {
+  it('finds the column of the card dropped on', () => {
+    expect(columnForDrop(BOARD_COLUMNS, todos, 4)).toBe(doneColumn)
+    expect(columnForDrop(BOARD_COLUMNS, todos, 2)).toBe(openColumn)
+  })
+
+  it('finds a column dropped on directly', () => {
+    expect(columnForDrop(BOARD_COLUMNS, todos, columnDroppableId(doneColumn))).toBe(doneColumn)
+  })
+
+  it('gives up on anything else', () => {
+    expect(columnForDrop(BOARD_COLUMNS, todos, 99)).toBeNull()
+    expect(columnForDrop(BOARD_COLUMNS, todos, 'column-blocked')).toBeNull()
+  })
+})
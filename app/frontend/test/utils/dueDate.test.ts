@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { toDueAt, toDateInputValue, getDueStatus } from '../../utils/dueDate'
+
+describe('dueDate utilities', () => {
+  describe('toDueAt', () => {
+    it('sets the due time to the end of the chosen local day', () => {
+      expect(toDueAt('2024-03-15')).toBe(new Date(2024, 2, 15, 23, 59, 59).toISOString())
+    })
+
+    it('returns null for an empty or invalid value', () => {
+      expect(toDueAt('')).toBeNull()
+      expect(toDueAt('15/03/2024')).toBeNull()
+    })
+  })
+
+  describe('toDateInputValue', () => {
+    it('round-trips a due date back into the date input', () => {
+      expect(toDateInputValue(toDueAt('2024-03-15'))).toBe('2024-03-15')
+    })
+
+    it('returns an empty string when there is no due date', () => {
+      expect(toDateInputValue(null)).toBe('')
+      expect(toDateInputValue(undefined)).toBe('')
+    })
+  })
+
+  describe('getDueStatus', () => {
+    const now = new Date(2024, 2, 15, 9, 30)
+
+    it('treats earlier days as overdue', () => {
+      expect(getDueStatus(new Date(2024, 2, 14, 23, 59, 59).toISOString(), now)).toBe('overdue')
+    })
+
+    it('treats any time today as due today', () => {
+      expect(getDueStatus(new Date(2024, 2, 15, 0, 0, 0).toISOString(), now)).toBe('today')
+      expect(getDueStatus(new Date(2024, 2, 15, 23, 59, 59).toISOString(), now)).toBe('today')
+    })
+
+    it('treats later days as upcoming', () => {
+      expect(getDueStatus(new Date(2024, 2, 16, 0, 0, 0).toISOString(), now)).toBe('upcoming')
+    })
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import { parseMarkdown, parseInline, safeHref } from '../../utils/markdown'
+
+describe('parseInline', () => {
+  it('parses emphasis, code and links', () => {
+    expect(parseInline('**bold** and *soft* with `x < y` at [docs](https://example.com)')).toEqual([
+      { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+      { type: 'text', text: ' and ' },
+      { type: 'em', children: [{ type: 'text', text: 'soft' }] },
+      { type: 'text', text: ' with ' },
+      { type: 'code', text: 'x < y' },
+      { type: 'text', text: ' at ' },
+      { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'docs' }] },
+    ])
+  })
+
+  it('turns bare URLs into links without the trailing punctuation', () => {
+    expect(parseInline('See https://example.com/a.')).toEqual([
+      { type: 'text', text: 'See ' },
+      { type: 'link', href: 'https://example.com/a', children: [{ type: 'text', text: 'https://example.com/a' }] },
+      { type: 'text', text: '.' },
+    ])
+  })
+
+  it('leaves underscores inside words alone', () => {
+    expect(parseInline('rename snake_case_name')).toEqual([{ type: 'text', text: 'rename snake_case_name' }])
+  })
+
+  it('keeps HTML as plain text', () => {
+    expect(parseInline('<img src=x onerror=alert(1)>')).toEqual([{ type: 'text', text: '<img src=x onerror=alert(1)>' }])
+  })
+
+  it('drops links with unsafe schemes but keeps their text', () => {
+    expect(parseInline('[click](javascript:alert(1))')).toEqual([
+      { type: 'text', text: 'click' },
+      { type: 'text', text: ')' },
+    ])
+    expect(parseInline('[data](data:text/html,hi)')).toEqual([{ type: 'text', text: 'data' }])
+  })
+
+  it('does not link URLs inside link text', () => {
+    expect(parseInline('[https://x.com](https://x.com)')).toEqual([
+      { type: 'link', href: 'https://x.com', children: [{ type: 'text', text: 'https://x.com' }] },
+    ])
+    expect(parseInline('[see **https://x.com**](https://y.com)')).toEqual([
+      {
+        type: 'link',
+        href: 'https://y.com',
+        children: [
+          { type: 'text', text: 'see ' },
+          { type: 'strong', children: [{ type: 'text', text: 'https://x.com' }] },
+        ],
+      },
+    ])
+  })
+})
+
+describe('safeHref', () => {
+  it('allows only http, https and mailto', () => {
+    expect(safeHref(' https://example.com ')).toBe('https://example.com')
+    expect(safeHref('mailto:me@example.com')).toBe('mailto:me@example.com')
+    expect(safeHref('JavaScript:alert(1)')).toBeNull()
+    expect(safeHref('/relative')).toBeNull()
+  })
+})
+
+describe('parseMarkdown', () => {
+  it('splits paragraphs on blank lines and keeps single newlines as breaks', () => {
+    expect(parseMarkdown('one\ntwo\n\nthree')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: 'one' }, { type: 'break' }, { type: 'text', text: 'two' }] },
+      { type: 'paragraph', children: [{ type: 'text', text: 'three' }] },
+    ])
+  })
+
+  it('parses headings, rules and fenced code', () => {
+    expect(parseMarkdown('## Plan\n---\n```\n<b>raw</b>\n```')).toEqual([
+      { type: 'heading', level: 2, children: [{ type: 'text', text: 'Plan' }] },
+      { type: 'rule' },
+      { type: 'code', text: '<b>raw</b>' },
+    ])
+  })
+
+  it('parses bullet and numbered lists with continuation lines', () => {
+    expect(parseMarkdown('- milk\n- eggs\n  free range\n\n3. three\n4. four')).toEqual([
+      {
+        type: 'list',
+        ordered: false,
+        start: 1,
+        items: [
+          [{ type: 'text', text: 'milk' }],
+          [{ type: 'text', text: 'eggs' }, { type: 'break' }, { type: 'text', text: 'free range' }],
+        ],
+      },
+      { type: 'list', ordered: true, start: 3, items: [[{ type: 'text', text: 'three' }], [{ type: 'text', text: 'four' }]] },
+    ])
+  })
+
+  it('parses block quotes recursively', () => {
+    expect(parseMarkdown('> - quoted item')).toEqual([
+      { type: 'quote', children: [{ type: 'list', ordered: false, start: 1, items: [[{ type: 'text', text: 'quoted item' }]] }] },
+    ])
+  })
+})
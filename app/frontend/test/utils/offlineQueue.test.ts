@@ -0,0 +1,268 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { OfflineTodoQueue, TodoMutation, remapMutation } from '../../utils/offlineQueue'
+import { createMemoryStorage, OfflineStorage } from '../../utils/offlineStorage'
+import { NetworkError } from '../../utils/networkError'
+import { Todo } from '../../types/todo'
+
+const todo = (id: number, title = `Todo ${id}`): Todo => ({
+  id,
+  title,
+  status: 'open',
+  position: id * 1024,
+  created_at: '2024-01-01T10:00:00Z',
+})
+
+const connectionError = () => new NetworkError('Network connection failed', 'NETWORK_ERROR', true)
+const titles = (items: Todo[] | null) => (items || []).map(item => item.title)
+
+describe('remapMutation', () => {
+  it('points every reference to a temporary id at the server id', () => {
+    expect(remapMutation({ type: 'update', id: -1, updates: { status: 'done' } }, -1, 7))
+      .toEqual({ type: 'update', id: 7, updates: { status: 'done' } })
+    expect(remapMutation({ type: 'move', id: 2, placement: { after_id: -1 } }, -1, 7))
+      .toEqual({ type: 'move', id: 2, placement: { after_id: 7 } })
+    expect(remapMutation({ type: 'reorder', updates: [{ id: -1, position: 1 }, { id: 2, position: 2 }] }, -1, 7))
+      .toEqual({ type: 'reorder', updates: [{ id: 7, position: 1 }, { id: 2, position: 2 }] })
+  })
+})
+
+describe('OfflineTodoQueue', () => {
+  let storage: OfflineStorage
+  let queue: OfflineTodoQueue
+  let online: boolean
+
+  beforeEach(async () => {
+    online = true
+    // The test setup replaces navigator with a plain object
+    Object.defineProperty(navigator, 'onLine', { configurable: true, get: () => online })
+    storage = createMemoryStorage()
+    queue = new OfflineTodoQueue(storage)
+    await queue.switchUser(1)
+    await queue.cacheTodos([todo(1, 'Milk'), todo(2, 'Bread')])
+  })
+
+  afterEach(() => {
+    delete (navigator as { onLine?: boolean }).onLine
+    vi.restoreAllMocks()
+  })
+
+  it('sends changes straight away while online', async () => {
+    const send = vi.fn().mockResolvedValue({ ...todo(1, 'Milk'), status: 'done' })
+
+    const result = await queue.perform({ type: 'update', id: 1, updates: { status: 'done' } }, send)
+
+    expect(send).toHaveBeenCalledTimes(1)
+    expect(result.status).toBe('done')
+    expect(queue.state.pendingCount).toBe(0)
+  })
+
+  it('queues changes while offline and applies them to the cached list', async () => {
+    online = false
+    const send = vi.fn()
+
+    const created = await queue.perform({ type: 'create', data: { title: 'Eggs' } }, send)
+    const updated = await queue.perform({ type: 'update', id: 1, updates: { title: 'Oat milk' } }, send)
+    await queue.perform({ type: 'destroy', id: 2 }, send)
+
+    expect(send).not.toHaveBeenCalled()
+    expect(created.id).toBeLessThan(0)
+    expect(updated.title).toBe('Oat milk')
+    expect(queue.state.pendingCount).toBe(3)
+    expect(titles(await queue.cachedTodos())).toEqual(['Oat milk', 'Eggs'])
+  })
+
+  it('queues a change whose request cannot reach the server', async () => {
+    const send = vi.fn().mockRejectedValue(connectionError())
+
+    const moved = await queue.perform({ type: 'move', id: 1, placement: { after_id: 2 } }, send)
+
+    expect(moved.id).toBe(1)
+    expect(queue.state.pendingCount).toBe(1)
+    expect(titles(await queue.cachedTodos())).toEqual(['Bread', 'Milk'])
+  })
+
+  it('passes on errors the server answers with', async () => {
+    const send = vi.fn().mockRejectedValue(new NetworkError('Title is too long', 'API_ERROR', false))
+
+    await expect(queue.perform({ type: 'update', id: 1, updates: { title: 'x' } }, send)).rejects.toThrow('Title is too long')
+    expect(queue.state.pendingCount).toBe(0)
+  })
+
+  it('keeps later changes behind queued ones even once back online', async () => {
+    online = false
+    await queue.perform({ type: 'destroy', id: 2 }, vi.fn())
+
+    online = true
+    const send = vi.fn()
+    await queue.perform({ type: 'update', id: 1, updates: { status: 'done' } }, send)
+
+    expect(send).not.toHaveBeenCalled()
+    expect(queue.state.pendingCount).toBe(2)
+  })
+
+  it('replays in order and swaps temporary ids for server ids', async () => {
+    online = false
+    const created = await queue.perform({ type: 'create', data: { title: 'Eggs' } }, vi.fn())
+    await queue.perform({ type: 'update', id: created.id, updates: { status: 'done' } }, vi.fn())
+    await queue.perform({ type: 'move', id: created.id, placement: { before_id: 1 } }, vi.fn())
+
+    const synced = vi.fn()
+    queue.onSynced(synced)
+    online = true
+
+    const sent: TodoMutation[] = []
+    await queue.replay(async mutation => {
+      sent.push(mutation)
+      return mutation.type === 'create' ? todo(3, 'Eggs') : undefined
+    })
+
+    expect(sent.map(mutation => mutation.type)).toEqual(['create', 'update', 'move'])
+    expect(sent[1]).toMatchObject({ id: 3 })
+    expect(sent[2]).toMatchObject({ id: 3, placement: { before_id: 1 } })
+    expect(synced).toHaveBeenCalledWith(new Map([[created.id, todo(3, 'Eggs')]]))
+    expect(queue.state).toEqual({ pendingCount: 0, isSyncing: false })
+    expect((await queue.cachedTodos())!.map(item => item.id)).toEqual([3, 1, 2])
+  })
+
+  it('stops at a connection error and drops changes the server rejects', async () => {
+    online = false
+    const created = await queue.perform({ type: 'create', data: { title: 'Eggs' } }, vi.fn())
+    await queue.perform({ type: 'update', id: 1, updates: { status: 'done' } }, vi.fn())
+    online = true
+
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const send = vi.fn()
+      .mockRejectedValueOnce(new NetworkError('Title is invalid', 'API_ERROR', false))
+      .mockRejectedValueOnce(connectionError())
+    const synced = vi.fn()
+    queue.onSynced(synced)
+
+    await queue.replay(send)
+
+    expect(send).toHaveBeenCalledTimes(2)
+    expect(queue.state.pendingCount).toBe(1)
+    expect(synced).toHaveBeenCalledWith(new Map([[created.id, null]]))
+    expect(titles(await queue.cachedTodos())).toEqual(['Milk', 'Bread'])
+  })
+
+  it.each([
+    ['the session has expired', new NetworkError('HTTP 401: Unauthorized', 'AUTH_ERROR', false)],
+    ['the server fails', new NetworkError('HTTP 503: Service Unavailable', 'SERVER_ERROR', true)],
+  ])('keeps the queue when %s', async (_reason, error) => {
+    online = false
+    await queue.perform({ type: 'create', data: { title: 'Eggs' } }, vi.fn())
+    await queue.perform({ type: 'update', id: 1, updates: { status: 'done' } }, vi.fn())
+    online = true
+
+    const send = vi.fn().mockRejectedValueOnce(error)
+    const synced = vi.fn()
+    queue.onSynced(synced)
+
+    await queue.replay(send)
+
+    expect(send).toHaveBeenCalledTimes(1)
+    expect(queue.state).toEqual({ pendingCount: 2, isSyncing: false })
+    expect(synced).not.toHaveBeenCalled()
+    expect(titles(await queue.cachedTodos())).toEqual(['Milk', 'Bread', 'Eggs'])
+
+    // The next replay, e.g. after signing in again, picks up where this one stopped
+    send.mockResolvedValueOnce(todo(3, 'Eggs')).mockResolvedValueOnce({ ...todo(1, 'Milk'), status: 'done' })
+    await queue.replay(send)
+
+    expect(send).toHaveBeenCalledTimes(3)
+    expect(queue.state.pendingCount).toBe(0)
+    expect(synced).toHaveBeenCalledWith(new Map([[-1, todo(3, 'Eggs')]]))
+  })
+
+  it('drops a change the server rejects as invalid and sends the rest', async () => {
+    online = false
+    await queue.perform({ type: 'update', id: 1, updates: { title: ' ' } }, vi.fn())
+    await queue.perform({ type: 'update', id: 2, updates: { status: 'done' } }, vi.fn())
+    online = true
+
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const send = vi.fn()
+      .mockRejectedValueOnce(new NetworkError('HTTP 422: Unprocessable Entity', 'HTTP_ERROR', false))
+      .mockResolvedValueOnce({ ...todo(2, 'Bread'), status: 'done' })
+
+    await queue.replay(send)
+
+    expect(send).toHaveBeenCalledTimes(2)
+    expect(send).toHaveBeenLastCalledWith({ type: 'update', id: 2, updates: { status: 'done' } })
+    expect(queue.state.pendingCount).toBe(0)
+  })
+
+  it('only answers from the cache for the list that was loaded last', async () => {
+    await queue.cacheTodos([{ ...todo(1, 'Milk'), list_id: 4 }, { ...todo(2, 'Bread'), list_id: 4 }], 4)
+
+    expect(await queue.cachedTodos()).toBeNull()
+    expect(await queue.cachedTodos(5)).toBeNull()
+    expect(titles(await queue.cachedTodos(4))).toEqual(['Milk', 'Bread'])
+  })
+
+  it('drops a todo moved to another list from the cached list', async () => {
+    await queue.cacheTodos([{ ...todo(1, 'Milk'), list_id: 4 }, { ...todo(2, 'Bread'), list_id: 4 }], 4)
+    online = false
+
+    await queue.perform({ type: 'update', id: 1, updates: { list_id: 5 } }, vi.fn())
+
+    expect(titles(await queue.cachedTodos(4))).toEqual(['Bread'])
+    expect(queue.state.pendingCount).toBe(1)
+  })
+
+  it('caches the next occurrence of a completed repeating todo next to it', async () => {
+    const nextOccurrence = { ...todo(3, 'Milk'), recurrence: { frequency: 'daily' as const, interval: 1 } }
+    const send = vi.fn().mockResolvedValue({ ...todo(1, 'Milk'), status: 'done', next_occurrence: nextOccurrence })
+
+    await queue.perform({ type: 'update', id: 1, updates: { status: 'done' } }, send)
+
+    const cached = await queue.cachedTodos()
+    expect(titles(cached)).toEqual(['Milk', 'Bread', 'Milk'])
+    expect(cached?.[0]).not.toHaveProperty('next_occurrence')
+    expect(cached?.[2]).toEqual(nextOccurrence)
+  })
+
+  it('restores the cached list and the queue after a reload', async () => {
+    online = false
+    await queue.perform({ type: 'create', data: { title: 'Eggs' } }, vi.fn())
+
+    const reloaded = new OfflineTodoQueue(storage)
+    const cached = reloaded.cachedTodos()
+    reloaded.switchUser(1)
+
+    // A list loaded while the user is being switched waits for their stored copy
+    expect(titles(await cached)).toEqual(['Milk', 'Bread', 'Eggs'])
+    expect(reloaded.state.pendingCount).toBe(1)
+  })
+
+  it('keeps each user\'s todos and queued changes apart', async () => {
+    online = false
+    await queue.perform({ type: 'create', data: { title: 'Eggs' } }, vi.fn())
+
+    await queue.switchUser(null)
+    expect(queue.state.pendingCount).toBe(0)
+
+    await queue.switchUser(2)
+    expect(await queue.cachedTodos()).toBeNull()
+    expect(queue.state.pendingCount).toBe(0)
+
+    await queue.switchUser(1)
+    expect(titles(await queue.cachedTodos())).toEqual(['Milk', 'Bread', 'Eggs'])
+    expect(queue.state.pendingCount).toBe(1)
+  })
+
+  it('forgets the cached list and the queue when cleared', async () => {
+    online = false
+    await queue.perform({ type: 'create', data: { title: 'Eggs' } }, vi.fn())
+
+    await queue.clear()
+
+    expect(await queue.cachedTodos()).toBeNull()
+    expect(queue.state.pendingCount).toBe(0)
+
+    const reloaded = new OfflineTodoQueue(storage)
+    await reloaded.switchUser(1)
+    expect(await reloaded.cachedTodos()).toBeNull()
+    expect(reloaded.state.pendingCount).toBe(0)
+  })
+})
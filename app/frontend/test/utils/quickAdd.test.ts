@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { parseQuickAdd } from '../../utils/quickAdd'
+import { Label } from '../../types/label'
+
+// A Wednesday morning, local time
+const now = new Date(2024, 0, 17, 10, 0)
+const labels: Label[] = [
+  { id: 1, name: 'Finance', color: '#0969da' },
+  { id: 2, name: 'home', color: '#1a7f37' },
+]
+
+const parse = (text: string) => parseQuickAdd(text, { labels, now })
+const local = (month: number, day: number, hours = 23, minutes = 59, seconds = 59) =>
+  new Date(2024, month - 1, day, hours, minutes, seconds).toISOString()
+
+describe('parseQuickAdd', () => {
+  it('pulls every kind of field out of one line', () => {
+    expect(parse('Pay rent tomorrow 9am #finance !high every month')).toEqual({
+      title: 'Pay rent',
+      dueAt: local(1, 18, 9, 0, 0),
+      labels: [labels[0]],
+      priority: 'high',
+      recurrence: { frequency: 'monthly', day: 18 },
+    })
+  })
+
+  it('leaves plain text alone', () => {
+    expect(parse('  Buy sun cream  ')).toEqual({
+      title: 'Buy sun cream',
+      dueAt: null,
+      labels: [],
+      priority: null,
+      recurrence: null,
+    })
+  })
+
+  it('reads due dates', () => {
+    expect(parse('a today').dueAt).toBe(local(1, 17))
+    expect(parse('a friday').dueAt).toBe(local(1, 19))
+    expect(parse('a on wed').dueAt).toBe(local(1, 24))
+    expect(parse('a next mon').dueAt).toBe(local(1, 22))
+    expect(parse('a in 3 days').dueAt).toBe(local(1, 20))
+    expect(parse('a in 2 weeks').dueAt).toBe(local(1, 31))
+    expect(parse('a by 2024-02-29').dueAt).toBe(local(2, 29))
+    expect(parse('a Mar 5th').dueAt).toBe(local(3, 5))
+    expect(parse('a 5 march').dueAt).toBe(local(3, 5))
+    expect(parse('a jan 2').dueAt).toBe(new Date(2025, 0, 2, 23, 59, 59).toISOString())
+  })
+
+  it('reads times, alone or with a day', () => {
+    expect(parse('a at 5:30pm').dueAt).toBe(local(1, 17, 17, 30, 0))
+    expect(parse('a 8am').dueAt).toBe(local(1, 18, 8, 0, 0))
+    expect(parse('a friday noon').dueAt).toBe(local(1, 19, 12, 0, 0))
+    expect(parse('a 17:00 tomorrow').dueAt).toBe(local(1, 18, 17, 0, 0))
+    expect(parse('Read 13:61 and 13pm').title).toBe('Read 13:61 and 13pm')
+  })
+
+  it('reads repeat rules', () => {
+    expect(parse('a daily').recurrence).toEqual({ frequency: 'daily', interval: 1 })
+    expect(parse('a every 3 days').recurrence).toEqual({ frequency: 'daily', interval: 3 })
+    expect(parse('a every other day').recurrence).toEqual({ frequency: 'daily', interval: 2 })
+    expect(parse('a weekly').recurrence).toEqual({ frequency: 'weekly', weekdays: [3] })
+    expect(parse('a every weekday').recurrence).toEqual({ frequency: 'weekly', weekdays: [1, 2, 3, 4, 5] })
+    expect(parse('a every mon and thu').recurrence).toEqual({ frequency: 'weekly', weekdays: [1, 4] })
+    expect(parse('a every fri, mon,wed').recurrence).toEqual({ frequency: 'weekly', weekdays: [1, 3, 5] })
+    expect(parse('a every 15th').recurrence).toEqual({ frequency: 'monthly', day: 15 })
+    expect(parse('a every month on the 1st').recurrence).toEqual({ frequency: 'monthly', day: 1 })
+    expect(parse('a every week friday').recurrence).toEqual({ frequency: 'weekly', weekdays: [5] })
+  })
+
+  it('only takes known labels and the first of each other field', () => {
+    const result = parse('Budget #HOME #finance #travel !low !urgent')
+
+    expect(result.title).toBe('Budget #travel !urgent')
+    expect(result.labels).toEqual([labels[1], labels[0]])
+    expect(result.priority).toBe('low')
+  })
+
+  it('keeps words that only look like part of a phrase', () => {
+    expect(parse('Call mom on the way every so often').title).toBe('Call mom on the way every so often')
+    expect(parse('Order may flowers').dueAt).toBeNull()
+  })
+
+  it('leaves unmarked dates, times and repeat words inside a title alone', () => {
+    for (const text of [
+      'Buy weekly groceries',
+      'Read the daily news',
+      'Send monthly report to Sam',
+      'Call today about the lease',
+      'Review friday standup notes',
+      'Catch the 5pm train home',
+    ]) {
+      expect(parse(text)).toMatchObject({ title: text, dueAt: null, recurrence: null })
+    }
+  })
+
+  it('reads marked phrases anywhere and unmarked ones at the end', () => {
+    expect(parse('Water plants every 3 days in the garden')).toMatchObject({
+      title: 'Water plants in the garden',
+      recurrence: { frequency: 'daily', interval: 3 },
+    })
+    expect(parse('Submit report by friday to Sam')).toMatchObject({ title: 'Submit report to Sam', dueAt: local(1, 19) })
+    expect(parse('Buy groceries weekly #home')).toMatchObject({
+      title: 'Buy groceries',
+      labels: [labels[1]],
+      recurrence: { frequency: 'weekly', weekdays: [3] },
+    })
+    expect(parse('Buy weekly groceries friday')).toMatchObject({ title: 'Buy weekly groceries', dueAt: local(1, 19) })
+    expect(parse('Pay rent tomorrow #bills')).toMatchObject({ title: 'Pay rent #bills', dueAt: local(1, 18) })
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { defaultRecurrence, describeRecurrence, ordinal, sameRecurrence } from '../../utils/recurrence'
+
+describe('recurrence', () => {
+  it('describes each kind of rule', () => {
+    expect(describeRecurrence({ frequency: 'daily', interval: 1 })).toBe('Every day')
+    expect(describeRecurrence({ frequency: 'daily', interval: 2 })).toBe('Every 2 days')
+    expect(describeRecurrence({ frequency: 'weekly', weekdays: [4, 1] })).toBe('Every Monday and Thursday')
+    expect(describeRecurrence({ frequency: 'weekly', weekdays: [1, 3, 5] })).toBe('Every Monday, Wednesday and Friday')
+    expect(describeRecurrence({ frequency: 'weekly', weekdays: [1, 2, 3, 4, 5] })).toBe('Every weekday')
+    expect(describeRecurrence({ frequency: 'monthly', day: 15 })).toBe('Monthly on the 15th')
+    expect(describeRecurrence({ frequency: 'monthly', day: 31 })).toBe('Monthly on the 31st or the last day')
+  })
+
+  it('writes ordinals', () => {
+    expect([1, 2, 3, 4, 11, 12, 13, 21, 22, 23].map(ordinal)).toEqual([
+      '1st', '2nd', '3rd', '4th', '11th', '12th', '13th', '21st', '22nd', '23rd',
+    ])
+  })
+
+  it('starts new rules from the given date', () => {
+    const wednesday = new Date(2024, 0, 17)
+
+    expect(defaultRecurrence('daily', wednesday)).toEqual({ frequency: 'daily', interval: 1 })
+    expect(defaultRecurrence('weekly', wednesday)).toEqual({ frequency: 'weekly', weekdays: [3] })
+    expect(defaultRecurrence('monthly', wednesday)).toEqual({ frequency: 'monthly', day: 17 })
+  })
+
+  it('compares rules regardless of their time zone', () => {
+    expect(sameRecurrence({ frequency: 'daily', interval: 2, utc_offset: 60 }, { frequency: 'daily', interval: 2 })).toBe(true)
+    expect(sameRecurrence({ frequency: 'daily', interval: 2 }, { frequency: 'daily', interval: 3 })).toBe(false)
+    expect(sameRecurrence(null, undefined)).toBe(true)
+    expect(sameRecurrence(null, { frequency: 'monthly', day: 1 })).toBe(false)
+  })
+})
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+type ServiceWorkerModule = typeof import('../../utils/serviceWorker')
+
+class FakeWorker extends EventTarget {
+  state = 'installing'
+  postMessage = vi.fn()
+
+  install() {
+    this.state = 'installed'
+    this.dispatchEvent(new Event('statechange'))
+  }
+}
+
+class FakeRegistration extends EventTarget {
+  installing: FakeWorker | null = null
+  waiting: FakeWorker | null = null
+
+  startUpdate(worker: FakeWorker) {
+    this.installing = worker
+    this.dispatchEvent(new Event('updatefound'))
+  }
+}
+
+class FakeContainer extends EventTarget {
+  controller: object | null = null
+  register = vi.fn()
+}
+
+describe('serviceWorker', () => {
+  let container: FakeContainer
+  let registration: FakeRegistration
+  let serviceWorker: ServiceWorkerModule
+
+  beforeEach(async () => {
+    container = new FakeContainer()
+    registration = new FakeRegistration()
+    container.register.mockResolvedValue(registration)
+    // The test setup replaces navigator with a plain object
+    Object.defineProperty(navigator, 'serviceWorker', { configurable: true, value: container })
+
+    // Waiting workers are tracked per page, so every test starts from a fresh module
+    vi.resetModules()
+    serviceWorker = await import('../../utils/serviceWorker')
+  })
+
+  afterEach(() => {
+    delete (navigator as { serviceWorker?: unknown }).serviceWorker
+    vi.restoreAllMocks()
+  })
+
+  it('registers the worker served by Rails', async () => {
+    await serviceWorker.registerServiceWorker()
+
+    expect(container.register).toHaveBeenCalledWith('/service-worker.js')
+    expect(serviceWorker.isUpdateAvailable()).toBe(false)
+  })
+
+  it('does nothing without service worker support', async () => {
+    delete (navigator as { serviceWorker?: unknown }).serviceWorker
+
+    await expect(serviceWorker.registerServiceWorker()).resolves.toBeUndefined()
+  })
+
+  it('reports a new build once it has installed behind the current one', async () => {
+    container.controller = {}
+    const listener = vi.fn()
+    serviceWorker.onUpdateAvailable(listener)
+    await serviceWorker.registerServiceWorker()
+
+    const worker = new FakeWorker()
+    registration.startUpdate(worker)
+    expect(listener).not.toHaveBeenCalled()
+
+    worker.install()
+    expect(listener).toHaveBeenCalledWith(true)
+    expect(serviceWorker.isUpdateAvailable()).toBe(true)
+  })
+
+  it('does not report the first install as an update', async () => {
+    const listener = vi.fn()
+    serviceWorker.onUpdateAvailable(listener)
+    await serviceWorker.registerServiceWorker()
+
+    const worker = new FakeWorker()
+    registration.startUpdate(worker)
+    worker.install()
+
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('picks up a build that was already waiting', async () => {
+    container.controller = {}
+    registration.waiting = new FakeWorker()
+
+    await serviceWorker.registerServiceWorker()
+
+    expect(serviceWorker.isUpdateAvailable()).toBe(true)
+  })
+
+  it('tells the waiting build to take over', async () => {
+    container.controller = {}
+    const waiting = new FakeWorker()
+    registration.waiting = waiting
+    await serviceWorker.registerServiceWorker()
+
+    serviceWorker.applyUpdate()
+
+    expect(waiting.postMessage).toHaveBeenCalledWith({ type: 'SKIP_WAITING' })
+    expect(serviceWorker.isUpdateAvailable()).toBe(false)
+  })
+
+  it('asks the controlling worker to drop the cached API answers', () => {
+    const controller = { postMessage: vi.fn() }
+    container.controller = controller
+
+    serviceWorker.clearApiCache()
+
+    expect(controller.postMessage).toHaveBeenCalledWith({ type: 'CLEAR_API_CACHE' })
+  })
+
+  it('logs a failed registration instead of throwing', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    container.register.mockRejectedValue(new Error('Blocked'))
+
+    await serviceWorker.registerServiceWorker()
+
+    expect(consoleSpy).toHaveBeenCalledWith('Service worker registration failed:', expect.any(Error))
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import { ImportFormatError, detectImportFormat, parseImport } from '../../utils/todoImport'
+
+const endOfDay = (year: number, month: number, day: number) =>
+  new Date(year, month - 1, day, 23, 59, 59).toISOString()
+
+describe('parseImport', () => {
+  it('reads one todo per line of plain text, dropping list markers', () => {
+    const rows = parseImport('Milk\n\n- Bread\n  2. Eggs  \r\n', 'text')
+
+    expect(rows.map(row => [row.source, row.todo.title])).toEqual([[1, 'Milk'], [3, 'Bread'], [4, 'Eggs']])
+    expect(rows.every(row => row.errors.length === 0)).toBe(true)
+  })
+
+  it('reads the items of a Markdown checklist and skips everything else', () => {
+    const rows = parseImport('# Trip\n\nSome notes\n- [ ] Book flights\n- [x] Renew passport\n* Pack', 'markdown')
+
+    expect(rows.map(row => row.todo)).toEqual([
+      { title: 'Book flights' },
+      { title: 'Renew passport', status: 'done' },
+      { title: 'Pack' },
+    ])
+    expect(rows.map(row => row.source)).toEqual([4, 5, 6])
+  })
+
+  it('reads CSV columns by name, with quoted fields', () => {
+    const csv = 'Title,Notes,Done,Priority,Due Date\n"Pay rent, March","Line one\nline two",yes,High,2024-03-01\nCall bank,,,,\n'
+
+    const rows = parseImport(csv, 'csv')
+
+    expect(rows[0]).toEqual({
+      source: 2,
+      todo: {
+        title: 'Pay rent, March',
+        description: 'Line one\nline two',
+        status: 'done',
+        priority: 'high',
+        due_at: endOfDay(2024, 3, 1),
+      },
+      errors: [],
+    })
+    expect(rows[1]).toEqual({ source: 4, todo: { title: 'Call bank' }, errors: [] })
+  })
+
+  it('needs a title column and closed quotes in CSV', () => {
+    expect(() => parseImport('name;notes\nMilk;x', 'csv')).toThrow(ImportFormatError)
+    expect(() => parseImport('title\n"Milk', 'csv')).toThrow('A quoted field starting on line 2 is never closed')
+  })
+
+  it('reads a JSON list of titles or todo objects', () => {
+    const json = JSON.stringify({
+      todos: ['Milk', { title: 'Bread', status: 'done', due_at: '2024-03-01T09:00:00Z' }, 42],
+    })
+
+    const rows = parseImport(json, 'json')
+
+    expect(rows.map(row => row.todo)).toEqual([
+      { title: 'Milk' },
+      { title: 'Bread', status: 'done', due_at: '2024-03-01T09:00:00.000Z' },
+      { title: '' },
+    ])
+    expect(rows[2].errors).toEqual(["Title can't be blank"])
+    expect(() => parseImport('{"todo": 1}', 'json')).toThrow(ImportFormatError)
+    expect(() => parseImport('[1,', 'json')).toThrow('The file is not valid JSON')
+  })
+
+  it('flags rows the server would reject', () => {
+    const rows = parseImport(JSON.stringify([
+      { title: 'a'.repeat(256) },
+      { title: 'a'.repeat(255), status: 'later', priority: 'critical', due: 'someday' },
+    ]), 'json')
+
+    expect(rows[0].errors).toEqual(['Title is too long (maximum is 255 characters)'])
+    expect(rows[1].errors).toEqual([
+      "'later' is not a valid status",
+      'Priority is not included in the list',
+      "Due date 'someday' is not a date",
+    ])
+  })
+
+  it('counts characters the way the server does', () => {
+    const rows = parseImport(JSON.stringify([
+      { title: '🎉'.repeat(255) },
+      { title: '🎉'.repeat(256) },
+    ]), 'json')
+
+    expect(rows[0].errors).toEqual([])
+    expect(rows[1].errors).toEqual(['Title is too long (maximum is 255 characters)'])
+  })
+
+  it('flags descriptions over the server limit', () => {
+    const rows = parseImport(JSON.stringify([
+      { title: 'Short', description: 'a'.repeat(10000) },
+      { title: 'Long', description: 'a'.repeat(10001) },
+    ]), 'json')
+
+    expect(rows[0].errors).toEqual([])
+    expect(rows[1].errors).toEqual(['Description is too long (maximum is 10000 characters)'])
+  })
+})
+
+describe('detectImportFormat', () => {
+  it('goes by the file extension first', () => {
+    expect(detectImportFormat('title\nMilk', 'todos.TXT')).toBe('text')
+    expect(detectImportFormat('', 'todos.md')).toBe('markdown')
+    expect(detectImportFormat('', 'todos.csv')).toBe('csv')
+    expect(detectImportFormat('', 'todos.json')).toBe('json')
+  })
+
+  it('recognises pasted content', () => {
+    expect(detectImportFormat(' [{"title": "Milk"}]')).toBe('json')
+    expect(detectImportFormat('Shopping\n- [ ] Milk')).toBe('markdown')
+    expect(detectImportFormat('"Title",Due\nMilk,')).toBe('csv')
+    expect(detectImportFormat('Milk, eggs and bread\nCall bank')).toBe('text')
+  })
+})
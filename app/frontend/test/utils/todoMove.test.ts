@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { applyMove, currentPlacement, placementForDrop } from '../../utils/todoMove'
+import { Todo } from '../../types/todo'
+
+const todo = (id: number, status: Todo['status'] = 'open'): Todo => ({
+  id,
+  title: `Todo ${id}`,
+  status,
+  position: id,
+  created_at: '2024-01-01T10:00:00Z',
+})
+
+const todos = [todo(1), todo(2, 'done'), todo(3), todo(4, 'done'), todo(5)]
+const ids = (items: Todo[]) => items.map(item => item.id)
+
+describe('placementForDrop', () => {
+  const openTodos = todos.filter(item => item.status === 'open')
+
+  it('places a todo dragged down after the one it was dropped on', () => {
+    expect(placementForDrop(openTodos, 1, 5)).toEqual({ after_id: 5 })
+  })
+
+  it('places a todo dragged up before the one it was dropped on', () => {
+    expect(placementForDrop(openTodos, 5, 3)).toEqual({ before_id: 3 })
+  })
+
+  it('ignores drops on the todo itself or outside the visible list', () => {
+    expect(placementForDrop(openTodos, 3, 3)).toBeNull()
+    expect(placementForDrop(openTodos, 3, 2)).toBeNull()
+  })
+})
+
+describe('applyMove', () => {
+  it('moves only the dragged todo, keeping hidden todos in their relative order', () => {
+    // Dragging 5 above 3 in the "Open" view
+    expect(ids(applyMove(todos, 5, { before_id: 3 }))).toEqual([1, 2, 5, 3, 4])
+    expect(ids(applyMove(todos, 1, { after_id: 3 }))).toEqual([2, 3, 1, 4, 5])
+  })
+
+  it('leaves the list alone when the target is unknown', () => {
+    expect(applyMove(todos, 1, { after_id: 99 })).toBe(todos)
+  })
+})
+
+describe('currentPlacement', () => {
+  it('describes where a todo is so a move can be undone', () => {
+    expect(currentPlacement(todos, 3)).toEqual({ before_id: 4 })
+    expect(currentPlacement(todos, 5)).toEqual({ after_id: 4 })
+    expect(currentPlacement([todo(1)], 1)).toBeNull()
+  })
+
+  it('round-trips with applyMove', () => {
+    const placement = currentPlacement(todos, 2)!
+    const moved = applyMove(todos, 2, { after_id: 5 })
+
+    expect(ids(applyMove(moved, 2, placement))).toEqual(ids(todos))
+  })
+})
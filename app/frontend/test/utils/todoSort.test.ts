@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { sortTodos } from '../../utils/todoSort'
+import { Todo } from '../../types/todo'
+
+const todos: Todo[] = [
+  { id: 1, title: 'Low', status: 'open', priority: 'low', position: 1, due_at: null, created_at: '2024-01-03T10:00:00Z' },
+  { id: 2, title: 'Urgent', status: 'open', priority: 'urgent', position: 2, due_at: '2024-02-01T23:59:59Z', created_at: '2024-01-01T10:00:00Z' },
+  { id: 3, title: 'Default', status: 'open', position: 3, due_at: '2024-01-10T23:59:59Z', created_at: '2024-01-02T10:00:00Z' },
+  { id: 4, title: 'Also low', status: 'done', priority: 'low', position: 4, created_at: '2024-01-04T10:00:00Z' },
+]
+
+const titles = (items: Todo[]) => items.map(todo => todo.title)
+
+describe('sortTodos', () => {
+  it('keeps manual order as it is', () => {
+    expect(sortTodos(todos, 'manual')).toBe(todos)
+  })
+
+  it('puts the most pressing priority first, treating a missing one as medium', () => {
+    expect(titles(sortTodos(todos, 'priority'))).toEqual(['Urgent', 'Default', 'Low', 'Also low'])
+  })
+
+  it('orders by due date with undated todos last, in manual order', () => {
+    expect(titles(sortTodos(todos, 'due_date'))).toEqual(['Default', 'Urgent', 'Low', 'Also low'])
+  })
+
+  it('puts the newest todos first', () => {
+    expect(titles(sortTodos(todos, 'created'))).toEqual(['Also low', 'Low', 'Default', 'Urgent'])
+  })
+
+  it('does not change the array it was given', () => {
+    sortTodos(todos, 'priority')
+    expect(titles(todos)).toEqual(['Low', 'Urgent', 'Default', 'Also low'])
+  })
+})
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { todosApi } from '../../utils/todosApi'
+import { NetworkError } from '../../utils/networkError'
+import { Todo } from '../../types/todo'
+
+declare global {
+  function createMockResponse(options: {
+    ok: boolean
+    status?: number
+    statusText?: string
+    headers?: Record<string, string>
+    json?: () => Promise<any>
+    text?: () => Promise<string>
+  }): Response
+}
+
+const mockFetch = vi.fn()
+globalThis.fetch = mockFetch
+
+const jsonResponse = (body: unknown, options: { ok?: boolean, status?: number, statusText?: string } = {}) =>
+  createMockResponse({
+    ok: options.ok ?? true,
+    status: options.status,
+    statusText: options.statusText,
+    headers: { 'content-type': 'application/json' },
+    json: () => Promise.resolve(body),
+  })
+
+const todo: Todo = {
+  id: 1,
+  title: 'Test Todo',
+  status: 'open',
+  position: 1,
+  created_at: '2023-01-01T00:00:00Z',
+}
+
+describe('todosApi', () => {
+  beforeEach(() => {
+    mockFetch.mockReset()
+  })
+
+  it('lists todos', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ todos: [todo] }))
+
+    await expect(todosApi.list()).resolves.toEqual([todo])
+    expect(mockFetch).toHaveBeenCalledWith('/api/todos', expect.objectContaining({ method: 'GET' }))
+  })
+
+  it('passes a search query to the server', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ todos: [todo] }))
+
+    await todosApi.list({ q: ' milk & eggs ' })
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/todos?q=milk+%26+eggs', expect.objectContaining({ method: 'GET' }))
+  })
+
+  it('asks for archived todos', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ todos: [todo] }))
+
+    await todosApi.list({ archived: true })
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/todos?archived=true', expect.objectContaining({ method: 'GET' }))
+  })
+
+  it('asks for the todos of one list', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ todos: [todo] }))
+
+    await todosApi.list({ listId: 4, q: 'milk' })
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/todos?list_id=4&q=milk', expect.objectContaining({ method: 'GET' }))
+  })
+
+  it('returns the ids archived by clearing completed todos', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, archived_ids: [2, 3] }))
+
+    await expect(todosApi.clearCompleted()).resolves.toEqual([2, 3])
+    expect(mockFetch).toHaveBeenCalledWith('/api/todos/clear_completed', expect.objectContaining({ method: 'PATCH' }))
+  })
+
+  it('creates a todo and returns it', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, todo }))
+
+    await expect(todosApi.create({ title: 'Test Todo' })).resolves.toEqual(todo)
+    expect(mockFetch).toHaveBeenCalledWith('/api/todos', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ title: 'Test Todo' }),
+    }))
+  })
+
+  it('imports a batch of todos into a list', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, todos: [todo] }, { status: 201 }))
+
+    await expect(todosApi.batchCreate([{ title: 'Test Todo' }], 3)).resolves.toEqual([todo])
+    expect(mockFetch).toHaveBeenCalledWith('/api/todos/batch', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ list_id: 3, todos: [{ title: 'Test Todo' }] }),
+    }))
+  })
+
+  it('sends updates as a PATCH to the todo', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, todo: { ...todo, status: 'done' } }))
+
+    const updated = await todosApi.update(1, { status: 'done' })
+
+    expect(updated.status).toBe('done')
+    expect(mockFetch).toHaveBeenCalledWith('/api/todos/1', expect.objectContaining({ method: 'PATCH' }))
+  })
+
+  it('wraps the reorder updates in the request body', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true }))
+
+    await todosApi.reorder([{ id: 1, position: 2 }])
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/todos/reorder', expect.objectContaining({
+      method: 'PATCH',
+      body: JSON.stringify({ updates: [{ id: 1, position: 2 }] }),
+    }))
+  })
+
+  it('sends bulk operations and returns the updated list', async () => {
+    const todos = [{ id: 1, title: 'Done', status: 'done', position: 1, created_at: '2024-01-01T10:00:00Z' }]
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, todos }))
+
+    await expect(todosApi.bulk([1], 'complete')).resolves.toEqual(todos)
+    expect(mockFetch).toHaveBeenCalledWith('/api/todos/bulk', expect.objectContaining({
+      method: 'PATCH',
+      body: JSON.stringify({ ids: [1], operation: 'complete' }),
+    }))
+  })
+
+  it('throws a non-retryable error when a mutation reports failure', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: false, errors: ["Title can't be blank"] }))
+
+    const error = await todosApi.create({ title: '' }).catch(err => err)
+
+    expect(error).toBeInstanceOf(NetworkError)
+    expect(error.message).toBe("Title can't be blank")
+    expect(error.isRetryable).toBe(false)
+  })
+
+  it('classifies HTTP errors through the shared client', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'Todo not found' }, { ok: false, status: 404, statusText: 'Not Found' }))
+
+    await expect(todosApi.destroy(99)).rejects.toMatchObject({ code: 'NOT_FOUND' })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+})
@@ -11,6 +11,28 @@ export interface AuthState {
   error: string | null;
 }
 
+export interface SessionResponse {
+  authenticated: boolean;
+  user_id?: number;
+}
+
+export interface Passkey {
+  id: number;
+  nickname: string | null;
+  sign_count: number;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+export interface PasskeyListResponse {
+  credentials: Passkey[];
+}
+
+export interface PasskeyResponse {
+  success: boolean;
+  credential: Passkey;
+}
+
 export interface WebAuthnCredential {
   id: string;
   rawId: ArrayBuffer;
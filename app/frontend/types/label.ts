@@ -0,0 +1,23 @@
+// Label types for the application
+
+export interface Label {
+  id: number;
+  name: string;
+  color: string;
+}
+
+export interface LabelFormData {
+  name: string;
+  color: string;
+}
+
+export interface LabelApiResponse {
+  success: boolean;
+  label?: Label;
+  error?: string;
+  errors?: string[];
+}
+
+export interface LabelListResponse {
+  labels: Label[];
+}
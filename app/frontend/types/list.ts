@@ -0,0 +1,22 @@
+// List types for the application
+
+export interface List {
+  id: number;
+  name: string;
+  position: number;
+}
+
+export interface ListFormData {
+  name: string;
+}
+
+export interface ListApiResponse {
+  success: boolean;
+  list?: List;
+  error?: string;
+  errors?: string[];
+}
+
+export interface ListListResponse {
+  lists: List[];
+}
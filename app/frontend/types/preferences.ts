@@ -0,0 +1,17 @@
+// Preference types for the application
+
+export interface Preferences {
+  // Done todos completed more than this many days ago are archived; null turns it off
+  auto_archive_after_days: number | null;
+}
+
+export interface PreferencesApiResponse {
+  success: boolean;
+  preferences?: Preferences;
+  error?: string;
+  errors?: string[];
+}
+
+export interface PreferencesResponse {
+  preferences: Preferences;
+}
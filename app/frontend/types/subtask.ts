@@ -0,0 +1,32 @@
+// Subtask types for the application
+
+import { Todo } from './todo';
+
+export interface Subtask {
+  id: number;
+  title: string;
+  done: boolean;
+  position: number;
+}
+
+export interface SubtaskFormData {
+  title: string;
+}
+
+export interface SubtaskUpdateData {
+  title?: string;
+  done?: boolean;
+}
+
+// Every mutation returns the parent todo so its progress and status stay current
+export interface SubtaskApiResponse {
+  success: boolean;
+  subtask?: Subtask;
+  todo?: Todo;
+  error?: string;
+  errors?: string[];
+}
+
+export interface SubtaskListResponse {
+  subtasks: Subtask[];
+}
@@ -1,20 +1,70 @@
 // Todo types for the application
 
+import { Label } from './label';
+import { Subtask } from './subtask';
+
+export type TodoPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+// How a todo repeats. Weekdays count from 0 for Sunday; utc_offset is the time zone
+// the rule was set in, in minutes east of UTC, since due dates fall at the end of a local day
+export type TodoRecurrence = (
+  | { frequency: 'daily'; interval: number }
+  | { frequency: 'weekly'; weekdays: number[] }
+  | { frequency: 'monthly'; day: number }
+) & { utc_offset?: number };
+
 export interface Todo {
   id: number;
+  // The list the todo is in; every todo belongs to exactly one
+  list_id?: number;
   title: string;
+  description?: string | null;
   status: 'open' | 'done';
+  priority?: TodoPriority;
   position: number;
+  due_at?: string | null;
+  labels?: Label[];
+  subtasks?: Subtask[];
+  complete_with_subtasks?: boolean;
+  recurrence?: TodoRecurrence | null;
+  // Only in the answer to completing a repeating todo: the occurrence that takes over the rule
+  next_occurrence?: Todo;
+  completed_at?: string | null;
+  archived_at?: string | null;
   created_at: string;
 }
 
 export interface TodoFormData {
   title: string;
+  // Leave out to add the todo to the default list
+  list_id?: number;
+  priority?: TodoPriority;
+  due_at?: string | null;
+  label_ids?: number[];
+  recurrence?: TodoRecurrence | null;
 }
 
 export interface TodoUpdateData {
   title?: string;
+  description?: string | null;
+  status?: 'open' | 'done';
+  priority?: TodoPriority;
+  due_at?: string | null;
+  label_ids?: number[];
+  complete_with_subtasks?: boolean;
+  // null stops the todo repeating
+  recurrence?: TodoRecurrence | null;
+  // Moves the todo to the end of that list
+  list_id?: number;
+}
+
+// One todo of a batch import
+export interface TodoImportData {
+  title: string;
+  description?: string;
   status?: 'open' | 'done';
+  priority?: TodoPriority;
+  due_at?: string;
 }
 
 export interface TodoReorderUpdate {
@@ -22,6 +72,18 @@ export interface TodoReorderUpdate {
   position: number;
 }
 
+// Where to put a moved todo: directly in front of or behind another todo
+export type TodoMovePlacement = { before_id: number } | { after_id: number };
+
+export type TodoBulkOperation =
+  | 'complete'
+  | 'reopen'
+  | 'delete'
+  | 'move_to_top'
+  | 'move_to_bottom'
+  | 'archive'
+  | 'restore';
+
 export interface TodoApiResponse {
   success: boolean;
   todo?: Todo;
@@ -29,6 +91,10 @@ export interface TodoApiResponse {
   errors?: string[];
 }
 
+export interface TodoResponse {
+  todo: Todo;
+}
+
 export interface TodoListResponse {
   todos: Todo[];
 }
@@ -37,4 +103,23 @@ export interface TodoReorderResponse {
   success: boolean;
   message?: string;
   error?: string;
-}
\ No newline at end of file
+}
+
+export interface TodoBulkResponse {
+  success: boolean;
+  todos?: Todo[];
+  error?: string;
+}
+
+export interface TodoBatchResponse {
+  success: boolean;
+  todos?: Todo[];
+  error?: string;
+  errors?: string[];
+}
+
+export interface TodoClearCompletedResponse {
+  success: boolean;
+  archived_ids?: number[];
+  error?: string;
+}
@@ -1,11 +1,17 @@
 import { fetchWithRetry, NetworkError, RetryOptions } from './networkError'
 
+export type AuthFailureListener = (error: NetworkError) => void
+
+// keepalive lets a request finish after the page that sent it is gone
+export type RequestExtras = Pick<RequestInit, 'keepalive'>
+
 /**
  * Enhanced API client with automatic retry and error handling
  */
 export class ApiClient {
   private baseUrl: string
   private defaultRetryOptions: RetryOptions
+  private authFailureListeners = new Set<AuthFailureListener>()
 
   constructor(baseUrl: string = '/api', retryOptions: RetryOptions = {}) {
     this.baseUrl = baseUrl
@@ -17,6 +23,17 @@ export class ApiClient {
     }
   }
 
+  /**
+   * Subscribe to 401 responses from any request, e.g. when the server session expires.
+   * Returns a function that removes the listener
+   */
+  onAuthFailure(listener: AuthFailureListener): () => void {
+    this.authFailureListeners.add(listener)
+    return () => {
+      this.authFailureListeners.delete(listener)
+    }
+  }
+
   /**
    * Make an API request with automatic retry
    */
@@ -36,10 +53,18 @@ export class ApiClient {
       ...options,
     }
 
-    const response = await fetchWithRetry(url, finalOptions, {
-      ...this.defaultRetryOptions,
-      ...retryOptions
-    })
+    let response: Response
+    try {
+      response = await fetchWithRetry(url, finalOptions, {
+        ...this.defaultRetryOptions,
+        ...retryOptions
+      })
+    } catch (error) {
+      if (error instanceof NetworkError && error.code === 'AUTH_ERROR') {
+        this.authFailureListeners.forEach(listener => listener(error))
+      }
+      throw error
+    }
 
     // Handle different content types
     const contentType = response.headers.get('content-type')
@@ -88,13 +113,15 @@ export class ApiClient {
   async patch<T = any>(
     endpoint: string, 
     data?: any, 
-    retryOptions?: RetryOptions
+    retryOptions?: RetryOptions,
+    extras?: RequestExtras
   ): Promise<T> {
     return this.request<T>(
       endpoint,
       {
         method: 'PATCH',
         body: data ? JSON.stringify(data) : undefined,
+        ...extras,
       },
       retryOptions
     )
@@ -103,8 +130,8 @@ export class ApiClient {
   /**
    * DELETE request
    */
-  async delete<T = any>(endpoint: string, retryOptions?: RetryOptions): Promise<T> {
-    return this.request<T>(endpoint, { method: 'DELETE' }, retryOptions)
+  async delete<T = any>(endpoint: string, retryOptions?: RetryOptions, extras?: RequestExtras): Promise<T> {
+    return this.request<T>(endpoint, { method: 'DELETE', ...extras }, retryOptions)
   }
 }
 
@@ -121,9 +148,9 @@ export const api = {
   post: <T = any>(endpoint: string, data?: any, retryOptions?: RetryOptions) => 
     apiClient.post<T>(endpoint, data, retryOptions),
     
-  patch: <T = any>(endpoint: string, data?: any, retryOptions?: RetryOptions) => 
-    apiClient.patch<T>(endpoint, data, retryOptions),
+  patch: <T = any>(endpoint: string, data?: any, retryOptions?: RetryOptions, extras?: RequestExtras) => 
+    apiClient.patch<T>(endpoint, data, retryOptions, extras),
     
-  delete: <T = any>(endpoint: string, retryOptions?: RetryOptions) => 
-    apiClient.delete<T>(endpoint, retryOptions),
+  delete: <T = any>(endpoint: string, retryOptions?: RetryOptions, extras?: RequestExtras) => 
+    apiClient.delete<T>(endpoint, retryOptions, extras),
 }
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { Todo } from '../types/todo'
+
+/**
+ * A column on the board. Every todo sits in the column for its status, in
+ * manual order, so moving a card between columns is a status change
+ */
+export interface BoardColumn {
+  id: string
+  title: string
+  status: Todo['status']
+}
+
+export const BOARD_COLUMNS: BoardColumn[] = [
+  { id: 'open', title: 'Open', status: 'open' },
+  { id: 'done', title: 'Done', status: 'done' },
+]
+
+// Columns are droppable under their own id, which must never collide with a todo id
+const COLUMN_PREFIX = 'column-'
+
+export const columnDroppableId = (column: BoardColumn) => `${COLUMN_PREFIX}${column.id}`
+
+/**
+ * The todos of one column, keeping the order of the list they come from
+ */
+export function columnTodos(todos: Todo[], column: BoardColumn): Todo[] {
+  return todos.filter(todo => todo.status === column.status)
+}
+
+/**
+ * The column a drag ended over, whether it was dropped on a card or on the column itself
+ */
+export function columnForDrop(
+  columns: BoardColumn[],
+  todos: Todo[],
+  overId: string | number
+): BoardColumn | null {
+  if (typeof overId === 'string' && overId.startsWith(COLUMN_PREFIX)) {
+    return columns.find(column => columnDroppableId(column) === overId) ?? null
+  }
+
+  const todo = todos.find(item => item.id === overId)
+  return todo ? columns.find(column => column.status === todo.status) ?? null : null
+}
@@ -0,0 +1,54 @@
+/**
+ * Where a due date falls relative to today, in the user's local time zone
+ */
+export type DueStatus = 'overdue' | 'today' | 'upcoming'
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+/**
+ * Convert a date input value (YYYY-MM-DD) into the due_at timestamp sent to the API.
+ * A todo is due by the end of the chosen day, so the time is set to 23:59:59 local time
+ */
+export function toDueAt(dateValue: string): string | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateValue)
+  if (!match) {
+    return null
+  }
+
+  const [, year, month, day] = match
+  return new Date(Number(year), Number(month) - 1, Number(day), 23, 59, 59).toISOString()
+}
+
+/**
+ * Convert a due_at timestamp back into a date input value (YYYY-MM-DD)
+ */
+export function toDateInputValue(dueAt: string | null | undefined): string {
+  if (!dueAt) {
+    return ''
+  }
+
+  const date = new Date(dueAt)
+  if (isNaN(date.getTime())) {
+    return ''
+  }
+
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+/**
+ * Compare calendar days rather than timestamps, so anything due today
+ * counts as "today" until midnight
+ */
+export function getDueStatus(dueAt: string, now: Date = new Date()): DueStatus {
+  const due = new Date(dueAt)
+  const dueDay = new Date(due.getFullYear(), due.getMonth(), due.getDate()).getTime()
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()
+
+  if (dueDay < today) {
+    return 'overdue'
+  }
+  if (dueDay === today) {
+    return 'today'
+  }
+  return 'upcoming'
+}
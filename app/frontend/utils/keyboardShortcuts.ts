@@ -0,0 +1,33 @@
+/**
+ * Keyboard shortcuts for the todo list. The list handles the ones that move around
+ * or focus a field; the focused todo handles the ones that act on it
+ */
+
+export interface KeyboardShortcut {
+  keys: string[]
+  description: string
+}
+
+export const KEYBOARD_SHORTCUTS: KeyboardShortcut[] = [
+  { keys: ['j'], description: 'Focus the next todo' },
+  { keys: ['k'], description: 'Focus the previous todo' },
+  { keys: ['x'], description: 'Complete or reopen the focused todo' },
+  { keys: ['e', 'Enter'], description: 'Edit the focused todo' },
+  { keys: ['#', 'Delete'], description: 'Delete the focused todo' },
+  { keys: ['Alt+↑', 'Alt+↓'], description: 'Move the focused todo up or down' },
+  { keys: ['n'], description: 'Add a new todo' },
+  { keys: ['/'], description: 'Search todos' },
+  { keys: ['?'], description: 'Show or hide this list' },
+]
+
+/**
+ * Whether a key press went to something the user types into, where a
+ * single-letter shortcut must not fire
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) {
+    return false
+  }
+
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
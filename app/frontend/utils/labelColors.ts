@@ -0,0 +1,27 @@
+/**
+ * Preset colours offered when creating a label, in the spirit of GitHub's defaults
+ */
+export const LABEL_COLORS = [
+  '#c53030',
+  '#d97706',
+  '#1f883d',
+  '#0969da',
+  '#8250df',
+  '#bf3989',
+  '#656d76',
+]
+
+/**
+ * Pick black or white text for a label chip so it stays readable on any background
+ */
+export function getLabelTextColor(hexColor: string): string {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hexColor)
+  if (!match) {
+    return '#ffffff'
+  }
+
+  const [red, green, blue] = match.slice(1).map(value => parseInt(value, 16))
+  // Perceived brightness (ITU-R BT.601)
+  const brightness = (red * 299 + green * 587 + blue * 114) / 1000
+  return brightness > 150 ? '#24292f' : '#ffffff'
+}
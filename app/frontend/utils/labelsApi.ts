@@ -0,0 +1,49 @@
+import { api } from './api'
+import { NetworkError } from './networkError'
+import { Label, LabelFormData, LabelApiResponse, LabelListResponse } from '../types/label'
+
+/**
+ * Unwrap the label from a mutation response, treating a missing label as an API error
+ */
+function requireLabel(data: LabelApiResponse, fallbackMessage: string): Label {
+  if (!data.success || !data.label) {
+    throw new NetworkError(data.errors?.join(', ') || data.error || fallbackMessage, 'API_ERROR', false)
+  }
+  return data.label
+}
+
+/**
+ * Typed label endpoints built on the shared ApiClient
+ */
+export const labelsApi = {
+  /**
+   * GET /labels - all labels for the current user, sorted by name
+   */
+  async list(): Promise<Label[]> {
+    const data = await api.get<LabelListResponse>('/labels')
+    return data.labels || []
+  },
+
+  /**
+   * POST /labels
+   */
+  async create(label: LabelFormData): Promise<Label> {
+    const data = await api.post<LabelApiResponse>('/labels', label)
+    return requireLabel(data, 'Failed to create label')
+  },
+
+  /**
+   * PATCH /labels/:id
+   */
+  async update(id: number, updates: Partial<LabelFormData>): Promise<Label> {
+    const data = await api.patch<LabelApiResponse>(`/labels/${id}`, updates)
+    return requireLabel(data, 'Failed to update label')
+  },
+
+  /**
+   * DELETE /labels/:id - also detaches the label from every todo
+   */
+  async destroy(id: number): Promise<void> {
+    await api.delete<LabelApiResponse>(`/labels/${id}`)
+  },
+}
@@ -0,0 +1,74 @@
+import { api } from './api'
+import { NetworkError } from './networkError'
+import { isConnectionError } from './offlineQueue'
+import { createOfflineStorage } from './offlineStorage'
+import { List, ListFormData, ListApiResponse, ListListResponse } from '../types/list'
+
+const LISTS_KEY = 'lists'
+
+// The last loaded lists, so the sidebar and the default list still work offline
+const storage = createOfflineStorage()
+
+/**
+ * Unwrap the list from a mutation response, treating a missing list as an API error
+ */
+function requireList(data: ListApiResponse, fallbackMessage: string): List {
+  if (!data.success || !data.list) {
+    throw new NetworkError(data.errors?.join(', ') || data.error || fallbackMessage, 'API_ERROR', false)
+  }
+  return data.list
+}
+
+/**
+ * Forget the cached lists, so the next user of this browser never sees them
+ */
+export async function clearCachedLists(): Promise<void> {
+  await storage.delete(LISTS_KEY).catch(error => console.error('Could not clear offline data:', error))
+}
+
+/**
+ * Typed list endpoints built on the shared ApiClient
+ */
+export const listsApi = {
+  /**
+   * GET /lists - the current user's lists in sidebar order; the server makes
+   * sure there is always at least one
+   */
+  async list(): Promise<List[]> {
+    try {
+      const data = await api.get<ListListResponse>('/lists')
+      const lists = data.lists || []
+      await storage.set(LISTS_KEY, lists).catch(error => console.error('Could not save offline data:', error))
+      return lists
+    } catch (error) {
+      const cached = isConnectionError(error) ? await storage.get<List[]>(LISTS_KEY) : undefined
+      if (cached) {
+        return cached
+      }
+      throw error
+    }
+  },
+
+  /**
+   * POST /lists - the new list goes to the bottom
+   */
+  async create(list: ListFormData): Promise<List> {
+    const data = await api.post<ListApiResponse>('/lists', list)
+    return requireList(data, 'Failed to create list')
+  },
+
+  /**
+   * PATCH /lists/:id
+   */
+  async update(id: number, updates: Partial<ListFormData>): Promise<List> {
+    const data = await api.patch<ListApiResponse>(`/lists/${id}`, updates)
+    return requireList(data, 'Failed to update list')
+  },
+
+  /**
+   * DELETE /lists/:id - also deletes every todo in the list
+   */
+  async destroy(id: number): Promise<void> {
+    await api.delete<ListApiResponse>(`/lists/${id}`)
+  },
+}
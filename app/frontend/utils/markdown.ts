@@ -0,0 +1,208 @@
+/**
+ * A small Markdown parser for todo descriptions.
+ *
+ * It produces a tree of plain data rather than an HTML string, and the tree is
+ * rendered with React elements, so user-supplied HTML only ever shows up as text.
+ * Links are kept only when they point at http(s) or mailto addresses.
+ *
+ * Supported: headings, paragraphs, bullet and numbered lists, block quotes,
+ * fenced code blocks, horizontal rules, **bold**, *italic*, `code`, [links](url)
+ * and bare http(s) URLs. A single newline inside a paragraph is a line break
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' }
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownInline[][] }
+  | { type: 'code'; text: string }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'rule' }
+
+const SAFE_HREF = /^(https?:\/\/|mailto:)/i
+
+// One alternative per inline construct; the first match in the text wins
+const INLINE_PATTERN = new RegExp(
+  [
+    '`([^`]+)`',
+    '\\[([^\\]]+)\\]\\(([^)\\s]+)\\)',
+    '\\*\\*(.+?)\\*\\*',
+    '(?<!\\w)__(.+?)__(?!\\w)',
+    '\\*([^*\\s](?:.*?[^*\\s])?)\\*',
+    '(?<!\\w)_([^_\\s](?:.*?[^_\\s])?)_(?!\\w)',
+    '(https?:\\/\\/[^\\s<]*[^\\s<.,:;!?"\')\\]])',
+  ].join('|')
+)
+
+const FENCE = /^\s*```/
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/
+const QUOTE = /^\s*>\s?(.*)$/
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/
+const NUMBERED_ITEM = /^\s*(\d{1,9})[.)]\s+(.*)$/
+
+/**
+ * The href to render for a link target, or null when the scheme is not allowed
+ */
+export function safeHref(url: string): string | null {
+  const trimmed = url.trim()
+  return SAFE_HREF.test(trimmed) ? trimmed : null
+}
+
+/**
+ * Parse the inline constructs of a single line
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  return parseInlineNodes(text, false)
+}
+
+// Inside a link's text neither links nor bare URLs apply, since links do not nest
+function parseInlineNodes(text: string, inLink: boolean): MarkdownInline[] {
+  const nodes: MarkdownInline[] = []
+  let rest = text
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest)
+    if (!match) {
+      nodes.push({ type: 'text', text: rest })
+      break
+    }
+
+    if (match.index > 0) {
+      nodes.push({ type: 'text', text: rest.slice(0, match.index) })
+    }
+
+    const [whole, code, linkText, linkUrl, strong, strongUnderscore, em, emUnderscore, url] = match
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code })
+    } else if (linkText !== undefined) {
+      const href = inLink ? null : safeHref(linkUrl)
+      if (href) {
+        nodes.push({ type: 'link', href, children: parseInlineNodes(linkText, true) })
+      } else {
+        // Disallowed schemes such as javascript: keep their text but lose the link
+        nodes.push(...parseInlineNodes(linkText, inLink))
+      }
+    } else if (strong !== undefined || strongUnderscore !== undefined) {
+      nodes.push({ type: 'strong', children: parseInlineNodes(strong ?? strongUnderscore, inLink) })
+    } else if (em !== undefined || emUnderscore !== undefined) {
+      nodes.push({ type: 'em', children: parseInlineNodes(em ?? emUnderscore, inLink) })
+    } else if (inLink) {
+      nodes.push({ type: 'text', text: url })
+    } else {
+      nodes.push({ type: 'link', href: url, children: [{ type: 'text', text: url }] })
+    }
+
+    rest = rest.slice(match.index + whole.length)
+  }
+
+  return nodes
+}
+
+// Lines of one paragraph or list item, with the newlines kept as breaks
+function parseLines(lines: string[]): MarkdownInline[] {
+  return lines.flatMap((line, index) => {
+    const inline = parseInline(line.trim())
+    return index === 0 ? inline : [{ type: 'break' as const }, ...inline]
+  })
+}
+
+/**
+ * Parse a Markdown document into blocks
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n')
+  const blocks: MarkdownBlock[] = []
+  let index = 0
+
+  const startsBlock = (line: string) =>
+    FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) ||
+    BULLET_ITEM.test(line) || NUMBERED_ITEM.test(line)
+
+  while (index < lines.length) {
+    const line = lines[index]
+
+    if (!line.trim()) {
+      index++
+      continue
+    }
+
+    if (FENCE.test(line)) {
+      const code: string[] = []
+      index++
+      while (index < lines.length && !FENCE.test(lines[index])) {
+        code.push(lines[index])
+        index++
+      }
+      index++ // the closing fence, if there is one
+      blocks.push({ type: 'code', text: code.join('\n') })
+      continue
+    }
+
+    const heading = HEADING.exec(line)
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) })
+      index++
+      continue
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' })
+      index++
+      continue
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = []
+      while (index < lines.length && QUOTE.test(lines[index])) {
+        quoted.push(QUOTE.exec(lines[index])![1])
+        index++
+      }
+      blocks.push({ type: 'quote', children: parseMarkdown(quoted.join('\n')) })
+      continue
+    }
+
+    const numbered = NUMBERED_ITEM.exec(line)
+    if (numbered || BULLET_ITEM.test(line)) {
+      const itemPattern = numbered ? NUMBERED_ITEM : BULLET_ITEM
+      const items: string[][] = []
+
+      while (index < lines.length && lines[index].trim()) {
+        const item = itemPattern.exec(lines[index])
+        if (item) {
+          items.push([item[item.length - 1]])
+        } else if (startsBlock(lines[index])) {
+          break
+        } else {
+          // A plain line continues the item above it
+          items[items.length - 1].push(lines[index])
+        }
+        index++
+      }
+
+      blocks.push({
+        type: 'list',
+        ordered: !!numbered,
+        start: numbered ? Number(numbered[1]) : 1,
+        items: items.map(parseLines),
+      })
+      continue
+    }
+
+    const paragraph: string[] = []
+    while (index < lines.length && lines[index].trim() && (paragraph.length === 0 || !startsBlock(lines[index]))) {
+      paragraph.push(lines[index])
+      index++
+    }
+    blocks.push({ type: 'paragraph', children: parseLines(paragraph) })
+  }
+
+  return blocks
+}
@@ -0,0 +1,405 @@
+import {
+  Todo,
+  TodoFormData,
+  TodoMovePlacement,
+  TodoReorderUpdate,
+  TodoUpdateData,
+} from '../types/todo'
+import { NetworkError } from './networkError'
+import { OfflineStorage } from './offlineStorage'
+import { DEFAULT_PRIORITY } from './priorities'
+import { applyMove } from './todoMove'
+
+/**
+ * A change to the todo list that can wait for the connection to come back.
+ * Todos created offline get a negative temporary id until the server assigns one
+ */
+export type TodoMutation =
+  | { type: 'create'; tempId: number; data: TodoFormData; createdAt: string }
+  | { type: 'update'; id: number; updates: TodoUpdateData }
+  | { type: 'destroy'; id: number }
+  | { type: 'reorder'; updates: TodoReorderUpdate[] }
+  | { type: 'move'; id: number; placement: TodoMovePlacement }
+
+// A create only gets its temporary id and timestamp if it has to be queued
+export type NewTodoMutation =
+  | Exclude<TodoMutation, { type: 'create' }>
+  | { type: 'create'; data: TodoFormData }
+
+export interface OfflineQueueState {
+  pendingCount: number
+  isSyncing: boolean
+}
+
+// Server todos for the temporary ids they replace; null when the server turned the create down
+export type SyncedTodos = Map<number, Todo | null>
+
+const TODOS_KEY = 'todos'
+const TODOS_LIST_KEY = 'todosList'
+const MUTATIONS_KEY = 'mutations'
+
+// Each user's copy is stored apart, so nothing carries over to whoever signs in next
+const userKey = (userId: number, key: string) => `user:${userId}:${key}`
+
+export const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false
+
+/**
+ * Whether a request failed because the server could not be reached at all,
+ * as opposed to the server answering with an error
+ */
+export function isConnectionError(error: unknown): boolean {
+  return error instanceof NetworkError && error.code === 'NETWORK_ERROR'
+}
+
+/**
+ * Whether a queued change may still go through if it is sent again later: the server
+ * could not be reached, the session has to be renewed first, or the server failed
+ */
+export function isTemporaryFailure(error: unknown): boolean {
+  return error instanceof NetworkError && (error.isRetryable || error.code === 'AUTH_ERROR')
+}
+
+const offlineError = () => new NetworkError('You are offline', 'NETWORK_ERROR', true)
+
+const mapId = (id: number, fromId: number, toId: number) => (id === fromId ? toId : id)
+
+/**
+ * Point a queued mutation at the server id of a todo that was created offline
+ */
+export function remapMutation(mutation: TodoMutation, fromId: number, toId: number): TodoMutation {
+  switch (mutation.type) {
+    case 'create':
+      return mutation
+    case 'update':
+    case 'destroy':
+      return { ...mutation, id: mapId(mutation.id, fromId, toId) }
+    case 'reorder':
+      return {
+        ...mutation,
+        updates: mutation.updates.map(update => ({ ...update, id: mapId(update.id, fromId, toId) })),
+      }
+    case 'move': {
+      const placement = 'before_id' in mutation.placement
+        ? { before_id: mapId(mutation.placement.before_id, fromId, toId) }
+        : { after_id: mapId(mutation.placement.after_id, fromId, toId) }
+      return { ...mutation, id: mapId(mutation.id, fromId, toId), placement }
+    }
+  }
+}
+
+/**
+ * The todo list as it will look once a mutation reaches the server. Pass the
+ * server's answer as result when there is one, so its fields win
+ */
+export function applyMutation(todos: Todo[], mutation: TodoMutation, result?: Todo): Todo[] {
+  switch (mutation.type) {
+    case 'create':
+      return [...todos, result ?? {
+        id: mutation.tempId,
+        list_id: mutation.data.list_id,
+        title: mutation.data.title,
+        status: 'open',
+        priority: mutation.data.priority ?? DEFAULT_PRIORITY,
+        position: (todos[todos.length - 1]?.position ?? 0) + 1,
+        due_at: mutation.data.due_at ?? null,
+        labels: [],
+        created_at: mutation.createdAt,
+      }]
+    case 'update': {
+      // Completing a repeating todo answers with its next occurrence, which joins the list
+      if (result?.next_occurrence) {
+        const { next_occurrence: nextOccurrence, ...updated } = result
+        return [...applyMutation(todos, mutation, updated), nextOccurrence]
+      }
+
+      // The list holds a single list's todos, so one moved to another list leaves it
+      const moved = todos.find(todo => todo.id === mutation.id)
+      if (moved && mutation.updates.list_id !== undefined && mutation.updates.list_id !== moved.list_id) {
+        return todos.filter(todo => todo.id !== mutation.id)
+      }
+
+      // Labels are only known by id here, so they wait for the server
+      const { label_ids: _labelIds, ...fields } = mutation.updates
+      return todos.map(todo => (todo.id === mutation.id ? result ?? { ...todo, ...fields } : todo))
+    }
+    case 'destroy':
+      return todos.filter(todo => todo.id !== mutation.id)
+    case 'reorder': {
+      const positions = new Map(mutation.updates.map(update => [update.id, update.position]))
+      return todos
+        .map((todo, index) => ({ todo, rank: positions.get(todo.id) ?? positions.size + index + 1 }))
+        .sort((a, b) => a.rank - b.rank)
+        .map(({ todo }) => todo)
+    }
+    case 'move': {
+      const moved = applyMove(todos, mutation.id, mutation.placement)
+      return result ? moved.map(todo => (todo.id === result.id ? result : todo)) : moved
+    }
+  }
+}
+
+/**
+ * Keeps the last loaded list of todos and the changes made while offline, both
+ * persisted per user, and sends the changes to the server in order once it can be
+ * reached. Lists are identified by id, or null for the default list.
+ * Until switchUser() says whose todos these are, nothing is read or stored
+ */
+export class OfflineTodoQueue {
+  private storage: OfflineStorage
+  private userId: number | null = null
+  private todos: Todo[] | null = null
+  private listId: number | null = null
+  private mutations: TodoMutation[] = []
+  private syncing = false
+  private ready: Promise<void> = Promise.resolve()
+  private listeners = new Set<(state: OfflineQueueState) => void>()
+  private syncListeners = new Set<(synced: SyncedTodos) => void>()
+
+  constructor(storage: OfflineStorage) {
+    this.storage = storage
+  }
+
+  get state(): OfflineQueueState {
+    return { pendingCount: this.mutations.length, isSyncing: this.syncing }
+  }
+
+  /**
+   * Subscribe to changes in the number of pending changes. Returns a function that unsubscribes
+   */
+  subscribe(listener: (state: OfflineQueueState) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Subscribe to the server todos that replace temporary ones after a sync
+   */
+  onSynced(listener: (synced: SyncedTodos) => void): () => void {
+    this.syncListeners.add(listener)
+    return () => {
+      this.syncListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Load the cached todos and queued changes of the user who signed in, or put
+   * them away when no one is signed in. They stay stored either way, so an
+   * expired session picks up where it stopped once the same user is back
+   */
+  async switchUser(userId: number | null): Promise<void> {
+    if (userId === this.userId) return
+
+    this.userId = userId
+    this.todos = null
+    this.listId = null
+    this.mutations = []
+    this.notify()
+
+    this.ready = userId === null ? Promise.resolve() : this.restore(userId)
+    await this.settled()
+  }
+
+  /**
+   * Forget the current user's cached todos and queued changes, on this page and in storage
+   */
+  async clear(): Promise<void> {
+    const userId = this.userId
+    if (userId === null) return
+
+    await this.settled()
+    this.todos = null
+    this.listId = null
+    this.mutations = []
+    this.notify()
+
+    try {
+      await Promise.all([TODOS_KEY, TODOS_LIST_KEY, MUTATIONS_KEY].map(key => this.storage.delete(userKey(userId, key))))
+    } catch (error) {
+      console.error('Could not clear offline data:', error)
+    }
+  }
+
+  /**
+   * Remember a freshly loaded list in place of the last one. Returns it with the
+   * changes still waiting to be sent applied
+   */
+  async cacheTodos(todos: Todo[], listId: number | null = null): Promise<Todo[]> {
+    await this.settled()
+    this.listId = listId
+    this.todos = this.mutations.reduce((list, mutation) => applyMutation(list, mutation), todos)
+    await this.persist()
+    return this.todos
+  }
+
+  /**
+   * The last known todos of a list including pending changes, or null when that
+   * list was not the last one loaded
+   */
+  async cachedTodos(listId: number | null = null): Promise<Todo[] | null> {
+    await this.settled()
+    return this.listId === listId ? this.todos : null
+  }
+
+  /**
+   * Send a mutation, or queue it when the server cannot be reached. Queued creates,
+   * updates and moves resolve to the todo as it will look once the change is sent
+   */
+  async perform(mutation: NewTodoMutation, send: () => Promise<Todo>): Promise<Todo>
+  async perform(mutation: NewTodoMutation, send: () => Promise<void>): Promise<void>
+  async perform(mutation: NewTodoMutation, send: () => Promise<Todo | void>): Promise<Todo | void> {
+    await this.settled()
+
+    // Changes have to reach the server in order, so nothing skips the queue
+    if (this.mutations.length === 0 && isOnline()) {
+      try {
+        const result = await send()
+        if (this.todos) {
+          this.todos = applyMutation(this.todos, toQueued(mutation, 0), result || undefined)
+          await this.persist()
+        }
+        return result
+      } catch (error) {
+        if (!isConnectionError(error)) {
+          throw error
+        }
+      }
+    }
+
+    return this.enqueue(mutation)
+  }
+
+  /**
+   * Send the queued mutations in order. Stops at the first one that fails for a reason
+   * that may pass, keeping it and the rest for the next replay; one the server turns
+   * down as invalid or missing is dropped, since sending it again would not help
+   */
+  async replay(send: (mutation: TodoMutation) => Promise<Todo | void>): Promise<void> {
+    await this.settled()
+    if (this.syncing || this.mutations.length === 0 || !isOnline()) return
+
+    this.syncing = true
+    this.notify()
+    const synced: SyncedTodos = new Map()
+
+    try {
+      while (this.mutations.length > 0) {
+        const mutation = this.mutations[0]
+
+        try {
+          const result = await send(mutation)
+          this.mutations.shift()
+          this.recordSent(mutation, result || undefined, synced)
+        } catch (error) {
+          if (isTemporaryFailure(error)) break
+
+          console.error('Offline change rejected by the server:', mutation, error)
+          this.mutations.shift()
+          if (mutation.type === 'create') {
+            synced.set(mutation.tempId, null)
+            this.todos = this.todos?.filter(todo => todo.id !== mutation.tempId) ?? null
+          }
+        }
+
+        await this.persist()
+      }
+    } finally {
+      this.syncing = false
+      this.notify()
+    }
+
+    if (synced.size > 0) {
+      this.syncListeners.forEach(listener => listener(synced))
+    }
+  }
+
+  // Swap in what the server sent back, and the server id for a todo created offline
+  private recordSent(mutation: TodoMutation, result: Todo | undefined, synced: SyncedTodos): void {
+    if (!result) return
+
+    const replacedId = mutation.type === 'create' ? mutation.tempId : result.id
+    if (mutation.type === 'create') {
+      synced.set(mutation.tempId, result)
+      this.mutations = this.mutations.map(queued => remapMutation(queued, mutation.tempId, result.id))
+    }
+    this.todos = this.todos?.map(todo => (todo.id === replacedId ? result : todo)) ?? null
+  }
+
+  private async enqueue(mutation: NewTodoMutation): Promise<Todo | void> {
+    const queued = toQueued(mutation, this.nextTemporaryId())
+
+    // Without a cached copy there is nothing to show for the change, so it fails as before
+    if (queued.type !== 'create' && 'id' in queued && !this.todos?.some(todo => todo.id === queued.id)) {
+      throw offlineError()
+    }
+
+    this.mutations.push(queued)
+    this.todos = applyMutation(this.todos ?? [], queued)
+    await this.persist()
+    this.notify()
+
+    if (queued.type === 'destroy' || queued.type === 'reorder') return
+    return this.todos.find(todo => todo.id === (queued.type === 'create' ? queued.tempId : queued.id))
+  }
+
+  // Temporary ids count down from -1 and are never reused while one is still queued
+  private nextTemporaryId(): number {
+    const ids = [
+      ...(this.todos ?? []).map(todo => todo.id),
+      ...this.mutations.flatMap(mutation => (mutation.type === 'create' ? [mutation.tempId] : [])),
+    ]
+    return Math.min(0, ...ids) - 1
+  }
+
+  // Waits for the stored data, including that of a user who signs in while waiting
+  private async settled(): Promise<void> {
+    let ready: Promise<void>
+    do {
+      ready = this.ready
+      await ready
+    } while (ready !== this.ready)
+  }
+
+  private async restore(userId: number): Promise<void> {
+    try {
+      const todos = (await this.storage.get<Todo[]>(userKey(userId, TODOS_KEY))) ?? null
+      const listId = (await this.storage.get<number | null>(userKey(userId, TODOS_LIST_KEY))) ?? null
+      const mutations = (await this.storage.get<TodoMutation[]>(userKey(userId, MUTATIONS_KEY))) ?? []
+
+      // Another user may have signed in while this one was being read
+      if (this.userId !== userId) return
+      this.todos = todos
+      this.listId = listId
+      this.mutations = mutations
+    } catch (error) {
+      console.error('Could not read offline data:', error)
+    }
+    this.notify()
+  }
+
+  private async persist(): Promise<void> {
+    const userId = this.userId
+    if (userId === null) return
+
+    try {
+      await this.storage.set(userKey(userId, TODOS_KEY), this.todos)
+      await this.storage.set(userKey(userId, TODOS_LIST_KEY), this.listId)
+      await this.storage.set(userKey(userId, MUTATIONS_KEY), this.mutations)
+    } catch (error) {
+      // The queue still works for this page; it just will not survive a reload
+      console.error('Could not save offline data:', error)
+    }
+  }
+
+  private notify(): void {
+    const state = this.state
+    this.listeners.forEach(listener => listener(state))
+  }
+}
+
+function toQueued(mutation: NewTodoMutation, tempId: number): TodoMutation {
+  return mutation.type === 'create'
+    ? { ...mutation, tempId, createdAt: new Date().toISOString() }
+    : mutation
+}
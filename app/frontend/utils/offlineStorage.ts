@@ -0,0 +1,94 @@
+/**
+ * A small key-value store for data that has to survive a reload while offline.
+ * It keeps the data in IndexedDB where the browser has it, and in memory
+ * otherwise, e.g. in private windows that block IndexedDB or in tests
+ */
+export interface OfflineStorage {
+  get<T>(key: string): Promise<T | undefined>
+  set<T>(key: string, value: T): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+const DB_NAME = 'passkey-todo-board'
+const STORE_NAME = 'offline'
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionComplete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+/**
+ * Storage backed by a single IndexedDB object store, opened on first use
+ */
+export function createIndexedDbStorage(dbName: string = DB_NAME): OfflineStorage {
+  let database: Promise<IDBDatabase> | null = null
+
+  const open = () => {
+    if (!database) {
+      const request = indexedDB.open(dbName, 1)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME)
+      }
+      database = requestResult(request)
+    }
+    return database
+  }
+
+  return {
+    async get<T>(key: string): Promise<T | undefined> {
+      const db = await open()
+      return requestResult<T | undefined>(db.transaction(STORE_NAME).objectStore(STORE_NAME).get(key))
+    },
+
+    async set<T>(key: string, value: T): Promise<void> {
+      const db = await open()
+      const transaction = db.transaction(STORE_NAME, 'readwrite')
+      transaction.objectStore(STORE_NAME).put(value, key)
+      await transactionComplete(transaction)
+    },
+
+    async delete(key: string): Promise<void> {
+      const db = await open()
+      const transaction = db.transaction(STORE_NAME, 'readwrite')
+      transaction.objectStore(STORE_NAME).delete(key)
+      await transactionComplete(transaction)
+    },
+  }
+}
+
+/**
+ * Storage that only lasts as long as the page
+ */
+export function createMemoryStorage(): OfflineStorage {
+  const values = new Map<string, unknown>()
+
+  return {
+    async get<T>(key: string): Promise<T | undefined> {
+      return values.get(key) as T | undefined
+    },
+
+    async set<T>(key: string, value: T): Promise<void> {
+      values.set(key, value)
+    },
+
+    async delete(key: string): Promise<void> {
+      values.delete(key)
+    },
+  }
+}
+
+/**
+ * The best storage this browser offers
+ */
+export function createOfflineStorage(): OfflineStorage {
+  return typeof indexedDB === 'undefined' ? createMemoryStorage() : createIndexedDbStorage()
+}
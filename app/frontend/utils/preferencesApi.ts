@@ -0,0 +1,27 @@
+import { api } from './api'
+import { NetworkError } from './networkError'
+import { Preferences, PreferencesApiResponse, PreferencesResponse } from '../types/preferences'
+
+/**
+ * Typed endpoints for the signed-in user's preferences
+ */
+export const preferencesApi = {
+  /**
+   * GET /preferences
+   */
+  async get(): Promise<Preferences> {
+    const data = await api.get<PreferencesResponse>('/preferences')
+    return data.preferences
+  },
+
+  /**
+   * PATCH /preferences
+   */
+  async update(updates: Partial<Preferences>): Promise<Preferences> {
+    const data = await api.patch<PreferencesApiResponse>('/preferences', updates)
+    if (!data.success || !data.preferences) {
+      throw new NetworkError(data.errors?.join(', ') || data.error || 'Failed to update preferences', 'API_ERROR', false)
+    }
+    return data.preferences
+  },
+}
@@ -0,0 +1,30 @@
+import { TodoPriority } from '../types/todo'
+
+/**
+ * The priority a todo gets when none is chosen, matching the database default
+ */
+export const DEFAULT_PRIORITY: TodoPriority = 'medium'
+
+/**
+ * Priorities from least to most pressing, with how each one is shown
+ */
+export const PRIORITIES: { value: TodoPriority; label: string; color: string }[] = [
+  { value: 'low', label: 'Low', color: '#656d76' },
+  { value: 'medium', label: 'Medium', color: '#0969da' },
+  { value: 'high', label: 'High', color: '#d97706' },
+  { value: 'urgent', label: 'Urgent', color: '#c53030' },
+]
+
+/**
+ * Rank a priority for sorting; higher is more pressing
+ */
+export function priorityRank(priority: TodoPriority | undefined): number {
+  return PRIORITIES.findIndex(item => item.value === (priority ?? DEFAULT_PRIORITY))
+}
+
+/**
+ * How a todo's priority is shown, falling back to the default for todos without one
+ */
+export function getPriority(priority: TodoPriority | undefined) {
+  return PRIORITIES[priorityRank(priority)]
+}
@@ -0,0 +1,338 @@
+import { Label } from '../types/label'
+import { TodoPriority, TodoRecurrence } from '../types/todo'
+import { PRIORITIES } from './priorities'
+
+/**
+ * The fields pulled out of a quick-add line, with the words that are left as the title
+ */
+export interface QuickAdd {
+  title: string
+  // ISO timestamp; the end of the day unless a time was given
+  dueAt: string | null
+  labels: Label[]
+  priority: TodoPriority | null
+  recurrence: TodoRecurrence | null
+}
+
+interface QuickAddOptions {
+  // Labels a #tag can name; tags that name none of them stay in the title
+  labels?: Label[]
+  now?: Date
+}
+
+// A rule that still needs the due date to know its weekday or day of the month
+type RecurrenceDraft = TodoRecurrence | { frequency: 'weekly' | 'monthly' }
+
+interface ParseState {
+  now: Date
+  knownLabels: Label[]
+  day: Date | null
+  time: { hours: number; minutes: number } | null
+  labels: Label[]
+  priority: TodoPriority | null
+  recurrence: RecurrenceDraft | null
+  // Dates, times and repeat rules without a leading "on", "by", "due", "at" or "every"
+  // are ordinary words in the middle of a title, so they only count where the line ends
+  unmarked: boolean
+}
+
+// Reads a phrase at the start of the words and returns how many words it used, or 0
+type Matcher = (words: string[], state: ParseState) => number
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+]
+
+// Full names and their first three letters, plus the usual longer abbreviations
+function nameIndex(names: string[], word: string, extra: Record<string, number> = {}): number {
+  const index = names.findIndex(name => word === name || word === name.slice(0, 3))
+  return index >= 0 ? index : extra[word] ?? -1
+}
+
+const weekdayIndex = (word: string) => nameIndex(WEEKDAY_NAMES, word, { tues: 2, wednes: 3, thur: 4, thurs: 4 })
+const monthIndex = (word: string) => nameIndex(MONTH_NAMES, word, { sept: 8 })
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate())
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+
+// "15", "15th", "1st"
+function dayOfMonth(word: string | undefined): number | null {
+  const match = /^(\d{1,2})(st|nd|rd|th)?$/.exec(word ?? '')
+  const day = match ? Number(match[1]) : 0
+  return day >= 1 && day <= 31 ? day : null
+}
+
+function count(word: string | undefined): number | null {
+  return word && /^\d{1,3}$/.test(word) && Number(word) > 0 ? Number(word) : null
+}
+
+// The next date with that month and day, this year or next
+function nextDate(now: Date, month: number, day: number): Date | null {
+  const today = startOfDay(now)
+  for (const year of [today.getFullYear(), today.getFullYear() + 1]) {
+    const date = new Date(year, month, day)
+    if (date.getMonth() === month && date >= today) return date
+  }
+  return null
+}
+
+// "monday", "mon and thu", "mon, wed, fri", "mon,thu"; returns the weekdays and words used
+function weekdayList(words: string[]): { weekdays: number[]; used: number } | null {
+  const weekdays: number[] = []
+  let used = 0
+
+  for (let index = 0; index < words.length; index++) {
+    const word = words[index]
+    if (word === 'and' && weekdays.length > 0) continue
+
+    const days = word.split(',').filter(Boolean).map(weekdayIndex)
+    if (days.length === 0 || days.some(day => day < 0)) break
+
+    weekdays.push(...days)
+    used = index + 1
+    if (!word.endsWith(',') && words[index + 1] !== 'and') break
+  }
+
+  return weekdays.length > 0 ? { weekdays: [...new Set(weekdays)].sort((a, b) => a - b), used } : null
+}
+
+const matchPriority: Matcher = (words, state) => {
+  const name = /^!(\w+)$/.exec(words[0])?.[1]
+  const priority = PRIORITIES.find(item => item.value === name)
+  if (!priority || state.priority) return 0
+
+  state.priority = priority.value
+  return 1
+}
+
+const matchLabel: Matcher = (words, state) => {
+  const name = /^#(\S+)$/.exec(words[0])?.[1]
+  const label = name && state.knownLabels.find(item => item.name.toLowerCase() === name)
+  if (!label) return 0
+
+  if (!state.labels.includes(label)) {
+    state.labels.push(label)
+  }
+  return 1
+}
+
+// "daily", "weekly", "monthly", "every day", "every 3 days", "every other day", "every week",
+// "every weekday", "every mon and thu", "every month", "every 15th", "every month on the 15th"
+const matchRecurrence: Matcher = (words, state) => {
+  if (state.recurrence) return 0
+
+  const [first, second, third] = words
+  const set = (rule: RecurrenceDraft, used: number) => {
+    state.recurrence = rule
+    return used
+  }
+
+  if (state.unmarked) {
+    if (first === 'daily') return set({ frequency: 'daily', interval: 1 }, 1)
+    if (first === 'weekly') return set({ frequency: 'weekly' }, 1)
+    if (first === 'monthly') return set({ frequency: 'monthly' }, 1)
+  }
+  if (first !== 'every') return 0
+
+  if (second === 'day') return set({ frequency: 'daily', interval: 1 }, 2)
+  if (second === 'other' && third === 'day') return set({ frequency: 'daily', interval: 2 }, 3)
+  const interval = count(second)
+  if (interval && (third === 'days' || third === 'day')) return set({ frequency: 'daily', interval }, 3)
+  if (second === 'week') return set({ frequency: 'weekly' }, 2)
+  if (second === 'weekday') return set({ frequency: 'weekly', weekdays: [1, 2, 3, 4, 5] }, 2)
+  if (second === 'month') {
+    const day = words[2] === 'on' && words[3] === 'the' ? dayOfMonth(words[4]) : null
+    return day ? set({ frequency: 'monthly', day }, 5) : set({ frequency: 'monthly' }, 2)
+  }
+
+  const weekdays = weekdayList(words.slice(1))
+  if (weekdays) return set({ frequency: 'weekly', weekdays: weekdays.weekdays }, weekdays.used + 1)
+
+  const day = /^\d{1,2}(st|nd|rd|th)$/.test(second ?? '') ? dayOfMonth(second) : null
+  return day ? set({ frequency: 'monthly', day }, 2) : 0
+}
+
+// The day alone, without a leading "on" or "by". Short weekday names are words in their
+// own right ("sun", "wed"), so they only count after one of those or "next"
+function dayPhrase(words: string[], now: Date, introduced: boolean): { day: Date; used: number } | null {
+  const [first, second, third] = words
+  const today = startOfDay(now)
+
+  if (first === 'today' || first === 'tonight') return { day: today, used: 1 }
+  if (first === 'tomorrow') return { day: addDays(today, 1), used: 1 }
+
+  // "friday" or "next friday": the next one after today
+  const weekdayWord = first === 'next' ? second : first
+  const weekday = weekdayWord && (introduced || first === 'next' || WEEKDAY_NAMES.includes(weekdayWord))
+    ? weekdayIndex(weekdayWord)
+    : -1
+  if (weekday >= 0) {
+    const ahead = (weekday - today.getDay() + 7) % 7 || 7
+    return { day: addDays(today, ahead), used: first === 'next' ? 2 : 1 }
+  }
+  if (first === 'next' && second === 'week') return { day: addDays(today, 7), used: 2 }
+
+  const amount = first === 'in' ? count(second) : null
+  if (amount && /^(days?|weeks?)$/.test(third ?? '')) {
+    return { day: addDays(today, third.startsWith('week') ? amount * 7 : amount), used: 3 }
+  }
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(first ?? '')
+  if (iso) {
+    const date = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]))
+    return date.getMonth() === Number(iso[2]) - 1 ? { day: date, used: 1 } : null
+  }
+
+  // "jan 5", "january 5th" or "5 jan"
+  const monthFirst = monthIndex(first ?? '')
+  const dayAfter = monthFirst >= 0 ? dayOfMonth(second) : null
+  if (dayAfter) {
+    const date = nextDate(now, monthFirst, dayAfter)
+    return date ? { day: date, used: 2 } : null
+  }
+  const dayFirst = dayOfMonth(first)
+  const monthAfter = dayFirst && second ? monthIndex(second) : -1
+  if (dayFirst && monthAfter >= 0) {
+    const date = nextDate(now, monthAfter, dayFirst)
+    return date ? { day: date, used: 2 } : null
+  }
+
+  return null
+}
+
+const matchDay: Matcher = (words, state) => {
+  if (state.day) return 0
+
+  const lead = ['on', 'by', 'due'].includes(words[0]) ? 1 : 0
+  if (!lead && !state.unmarked) return 0
+
+  const phrase = dayPhrase(words.slice(lead), state.now, lead > 0)
+  if (!phrase) return 0
+
+  state.day = phrase.day
+  return phrase.used + lead
+}
+
+// "9am", "9:30pm", "17:00", "noon", each optionally after "at"
+const matchTime: Matcher = (words, state) => {
+  if (state.time) return 0
+
+  const lead = words[0] === 'at' ? 1 : 0
+  if (!lead && !state.unmarked) return 0
+
+  const word = words[lead] ?? ''
+
+  if (word === 'noon') {
+    state.time = { hours: 12, minutes: 0 }
+    return lead + 1
+  }
+
+  const match = /^(\d{1,2})(?::(\d{2}))?(am|pm)?$/.exec(word)
+  if (!match || (!match[2] && !match[3])) return 0
+
+  let hours = Number(match[1])
+  const minutes = Number(match[2] ?? 0)
+  if (match[3]) {
+    if (hours < 1 || hours > 12) return 0
+    hours = (hours % 12) + (match[3] === 'pm' ? 12 : 0)
+  }
+  if (hours > 23 || minutes > 59) return 0
+
+  state.time = { hours, minutes }
+  return lead + 1
+}
+
+const MATCHERS: Matcher[] = [matchPriority, matchLabel, matchRecurrence, matchDay, matchTime]
+
+function initialState(knownLabels: Label[], now: Date): ParseState {
+  return {
+    now,
+    knownLabels,
+    day: null,
+    time: null,
+    labels: [],
+    priority: null,
+    recurrence: null,
+    unmarked: false,
+  }
+}
+
+// Runs the matchers over the words in order, taking unmarked phrases from `unmarkedFrom`
+// on, and returns the words none of them used
+function matchWords(words: string[], state: ParseState, unmarkedFrom: number): string[] {
+  const lowerWords = words.map(word => word.toLowerCase())
+  const titleWords: string[] = []
+
+  for (let index = 0; index < words.length;) {
+    state.unmarked = index >= unmarkedFrom
+    const rest = lowerWords.slice(index)
+    const used = MATCHERS.reduce((found, matcher) => found || matcher(rest, state), 0)
+
+    if (used > 0) {
+      index += used
+    } else {
+      titleWords.push(words[index])
+      index += 1
+    }
+  }
+
+  return titleWords
+}
+
+// Where the run of phrases that ends the line starts: the first word from which every
+// word up to the end is part of a phrase. A #tag or !priority that names nothing known
+// still reads as one, so it does not cut the run short
+function trailingStart(words: string[], knownLabels: Label[], now: Date): number {
+  const start = words.findIndex((_, index) =>
+    matchWords(words.slice(index), initialState(knownLabels, now), 0).every(word => /^[#!]\S/.test(word))
+  )
+  return start >= 0 ? start : words.length
+}
+
+function dueDate(state: ParseState): Date | null {
+  const { now, day, time } = state
+  if (!day && !time) return null
+
+  if (!time) {
+    return new Date(day!.getFullYear(), day!.getMonth(), day!.getDate(), 23, 59, 59)
+  }
+
+  // A time on its own is the next time the clock shows it
+  const at = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), time.hours, time.minutes)
+  if (day) return at(day)
+
+  const today = at(now)
+  return today > now ? today : at(addDays(now, 1))
+}
+
+// Weekly and monthly rules without a day repeat on the due date's, or today's
+function completeRecurrence(rule: RecurrenceDraft | null, due: Date): TodoRecurrence | null {
+  if (!rule) return null
+  if (rule.frequency === 'weekly' && !('weekdays' in rule)) return { frequency: 'weekly', weekdays: [due.getDay()] }
+  if (rule.frequency === 'monthly' && !('day' in rule)) return { frequency: 'monthly', day: due.getDate() }
+  return rule as TodoRecurrence
+}
+
+/**
+ * Pull a due date, labels, a priority and a repeat rule out of a line typed into the
+ * quick-add field, e.g. "Pay rent tomorrow 9am #finance !high every month". Each field
+ * is taken from its first mention; anything that is not understood stays in the title.
+ * Mid-title, a date, time or repeat rule needs its marker ("on friday", "every week"),
+ * so "Buy weekly groceries" keeps its title
+ */
+export function parseQuickAdd(text: string, { labels = [], now = new Date() }: QuickAddOptions = {}): QuickAdd {
+  const state = initialState(labels, now)
+  const words = text.trim().split(/\s+/).filter(Boolean)
+  const titleWords = matchWords(words, state, trailingStart(words, labels, now))
+
+  const due = dueDate(state)
+  return {
+    title: titleWords.join(' '),
+    dueAt: due ? due.toISOString() : null,
+    labels: state.labels,
+    priority: state.priority,
+    recurrence: completeRecurrence(state.recurrence, due ?? now),
+  }
+}
@@ -0,0 +1,82 @@
+import { TodoRecurrence } from '../types/todo'
+
+export type RecurrenceFrequency = TodoRecurrence['frequency']
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const WORKING_WEEK = [1, 2, 3, 4, 5]
+
+export function ordinal(n: number): string {
+  const lastTwo = n % 100
+  if (lastTwo >= 11 && lastTwo <= 13) return `${n}th`
+
+  switch (n % 10) {
+    case 1:
+      return `${n}st`
+    case 2:
+      return `${n}nd`
+    case 3:
+      return `${n}rd`
+    default:
+      return `${n}th`
+  }
+}
+
+function joinNames(names: string[]): string {
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0] ?? ''
+}
+
+/**
+ * A rule as a short phrase, e.g. "Every 2 days" or "Every Monday and Thursday"
+ */
+export function describeRecurrence(rule: TodoRecurrence): string {
+  switch (rule.frequency) {
+    case 'daily':
+      return rule.interval === 1 ? 'Every day' : `Every ${rule.interval} days`
+    case 'weekly': {
+      const weekdays = [...new Set(rule.weekdays)].sort((a, b) => a - b)
+      if (weekdays.length === 7) return 'Every day'
+      if (weekdays.join() === WORKING_WEEK.join()) return 'Every weekday'
+      return `Every ${joinNames(weekdays.map(weekday => WEEKDAYS[weekday]))}`
+    }
+    case 'monthly':
+      // The server falls back to the last day of months too short for the rule
+      return rule.day > 28
+        ? `Monthly on the ${ordinal(rule.day)} or the last day`
+        : `Monthly on the ${ordinal(rule.day)}`
+  }
+}
+
+/**
+ * A new rule of the given frequency, starting from the date given: on its weekday
+ * or day of the month
+ */
+export function defaultRecurrence(frequency: RecurrenceFrequency, from: Date = new Date()): TodoRecurrence {
+  switch (frequency) {
+    case 'daily':
+      return { frequency, interval: 1 }
+    case 'weekly':
+      return { frequency, weekdays: [from.getDay()] }
+    case 'monthly':
+      return { frequency, day: from.getDate() }
+  }
+}
+
+/**
+ * The rule as sent to the server, in the browser's time zone
+ */
+export function withLocalTimeZone(rule: TodoRecurrence): TodoRecurrence {
+  // getTimezoneOffset counts minutes west of UTC; subtracting keeps UTC itself at 0 rather than -0
+  return { ...rule, utc_offset: 0 - new Date().getTimezoneOffset() }
+}
+
+/**
+ * Whether two rules repeat the same way, whatever time zone they were set in
+ */
+export function sameRecurrence(a: TodoRecurrence | null | undefined, b: TodoRecurrence | null | undefined): boolean {
+  if (!a || !b) return !a && !b
+
+  const { utc_offset: _a, ...ruleA } = a
+  const { utc_offset: _b, ...ruleB } = b
+  return JSON.stringify(ruleA) === JSON.stringify(ruleB)
+}
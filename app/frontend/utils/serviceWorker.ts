@@ -0,0 +1,86 @@
+/**
+ * Registers the service worker and tracks when a newly deployed build is
+ * installed and waiting, so the page can offer to switch to it
+ */
+
+type UpdateListener = (updateAvailable: boolean) => void
+
+const SERVICE_WORKER_URL = '/service-worker.js'
+
+let waitingWorker: ServiceWorker | null = null
+const listeners = new Set<UpdateListener>()
+
+function setWaitingWorker(worker: ServiceWorker | null): void {
+  waitingWorker = worker
+  listeners.forEach(listener => listener(worker !== null))
+}
+
+// A worker that installs while another one controls the page is a new build
+function trackInstalling(registration: ServiceWorkerRegistration): void {
+  const installing = registration.installing
+  if (!installing) return
+
+  installing.addEventListener('statechange', () => {
+    if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+      setWaitingWorker(installing)
+    }
+  })
+}
+
+/**
+ * Register the service worker. Does nothing in browsers without service workers
+ */
+export async function registerServiceWorker(url: string = SERVICE_WORKER_URL): Promise<void> {
+  if (!('serviceWorker' in navigator)) {
+    return
+  }
+
+  try {
+    const registration = await navigator.serviceWorker.register(url)
+
+    // A build deployed while an earlier visit was open may already be waiting
+    if (registration.waiting && navigator.serviceWorker.controller) {
+      setWaitingWorker(registration.waiting)
+    }
+    trackInstalling(registration)
+    registration.addEventListener('updatefound', () => trackInstalling(registration))
+  } catch (error) {
+    // The app works without it, just not offline
+    console.error('Service worker registration failed:', error)
+  }
+}
+
+export function isUpdateAvailable(): boolean {
+  return waitingWorker !== null
+}
+
+/**
+ * Subscribe to whether a new build is waiting. Returns a function that unsubscribes
+ */
+export function onUpdateAvailable(listener: UpdateListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Let the waiting build take over and reload the page once it has
+ */
+export function applyUpdate(): void {
+  if (!waitingWorker) return
+
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true })
+  waitingWorker.postMessage({ type: 'SKIP_WAITING' })
+  setWaitingWorker(null)
+}
+
+/**
+ * Have the service worker forget the todos and lists it keeps for offline use,
+ * e.g. on sign-out. Does nothing when no worker controls the page
+ */
+export function clearApiCache(): void {
+  if (!('serviceWorker' in navigator)) return
+
+  navigator.serviceWorker.controller?.postMessage({ type: 'CLEAR_API_CACHE' })
+}
@@ -0,0 +1,66 @@
+import { api } from './api'
+import { NetworkError } from './networkError'
+import { Todo } from '../types/todo'
+import {
+  Subtask,
+  SubtaskFormData,
+  SubtaskUpdateData,
+  SubtaskApiResponse,
+  SubtaskListResponse,
+} from '../types/subtask'
+
+/**
+ * Unwrap the parent todo from a mutation response, treating a missing todo as an API error
+ */
+function requireTodo(data: SubtaskApiResponse, fallbackMessage: string): Todo {
+  if (!data.success || !data.todo) {
+    throw new NetworkError(data.errors?.join(', ') || data.error || fallbackMessage, 'API_ERROR', false)
+  }
+  return data.todo
+}
+
+/**
+ * Typed subtask endpoints, nested under their todo. Mutations resolve to the
+ * parent todo with its subtasks, since one change can also complete the todo
+ */
+export const subtasksApi = {
+  /**
+   * GET /todos/:todoId/subtasks - in position order
+   */
+  async list(todoId: number): Promise<Subtask[]> {
+    const data = await api.get<SubtaskListResponse>(`/todos/${todoId}/subtasks`)
+    return data.subtasks || []
+  },
+
+  /**
+   * POST /todos/:todoId/subtasks - the server appends the subtask at the end
+   */
+  async create(todoId: number, subtask: SubtaskFormData): Promise<Todo> {
+    const data = await api.post<SubtaskApiResponse>(`/todos/${todoId}/subtasks`, subtask)
+    return requireTodo(data, 'Failed to add subtask')
+  },
+
+  /**
+   * PATCH /todos/:todoId/subtasks/:id
+   */
+  async update(todoId: number, id: number, updates: SubtaskUpdateData): Promise<Todo> {
+    const data = await api.patch<SubtaskApiResponse>(`/todos/${todoId}/subtasks/${id}`, updates)
+    return requireTodo(data, 'Failed to update subtask')
+  },
+
+  /**
+   * DELETE /todos/:todoId/subtasks/:id
+   */
+  async destroy(todoId: number, id: number): Promise<Todo> {
+    const data = await api.delete<SubtaskApiResponse>(`/todos/${todoId}/subtasks/${id}`)
+    return requireTodo(data, 'Failed to delete subtask')
+  },
+
+  /**
+   * PATCH /todos/:todoId/subtasks/reorder - takes every subtask id in the new order
+   */
+  async reorder(todoId: number, ids: number[]): Promise<Todo> {
+    const data = await api.patch<SubtaskApiResponse>(`/todos/${todoId}/subtasks/reorder`, { ids })
+    return requireTodo(data, 'Failed to reorder subtasks')
+  },
+}
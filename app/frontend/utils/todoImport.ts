@@ -0,0 +1,296 @@
+import { TodoImportData } from '../types/todo'
+import { PRIORITIES } from './priorities'
+import { toDueAt } from './dueDate'
+
+export type ImportFormat = 'text' | 'markdown' | 'csv' | 'json'
+
+export const IMPORT_FORMATS: { value: ImportFormat; label: string }[] = [
+  { value: 'text', label: 'Plain text' },
+  { value: 'markdown', label: 'Markdown checklist' },
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+]
+
+// The same limits the Todo model enforces
+export const MAX_TITLE_LENGTH = 255
+export const MAX_DESCRIPTION_LENGTH = 10000
+
+// The most todos the batch endpoint takes at once
+export const MAX_IMPORT_SIZE = 500
+
+/**
+ * One todo read from an import, with what would stop the server from accepting it
+ */
+export interface ImportRow {
+  // Where the todo came from: its line in text, Markdown and CSV, its place in a JSON list
+  source: number
+  todo: TodoImportData
+  errors: string[]
+}
+
+/**
+ * The file as a whole could not be read in the chosen format
+ */
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImportFormatError'
+  }
+}
+
+// Columns and keys that mean the same field, lower-cased
+const FIELD_ALIASES: Record<string, keyof RawTodo> = {
+  title: 'title',
+  name: 'title',
+  task: 'title',
+  todo: 'title',
+  description: 'description',
+  notes: 'description',
+  note: 'description',
+  status: 'status',
+  done: 'done',
+  completed: 'done',
+  priority: 'priority',
+  due: 'due',
+  due_at: 'due',
+  due_date: 'due',
+  'due date': 'due',
+}
+
+interface RawTodo {
+  title?: unknown
+  description?: unknown
+  status?: unknown
+  done?: unknown
+  priority?: unknown
+  due?: unknown
+}
+
+const text = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim())
+
+const isTruthy = (value: unknown) => value === true || ['true', 'yes', 'y', 'x', '1'].includes(text(value).toLowerCase())
+
+// A bare date is due by the end of that day, like one picked in the form
+function toDueTimestamp(value: string): string | null {
+  const endOfDay = toDueAt(value)
+  if (endOfDay) return endOfDay
+
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+/**
+ * Check a todo against the rules of the Todo model, with the server's messages
+ */
+export function validateImportTodo(todo: TodoImportData): string[] {
+  const errors: string[] = []
+
+  if (!todo.title.trim()) {
+    errors.push("Title can't be blank")
+  } else if ([...todo.title].length > MAX_TITLE_LENGTH) {
+    // Rails counts characters, not the UTF-16 units behind String#length
+    errors.push(`Title is too long (maximum is ${MAX_TITLE_LENGTH} characters)`)
+  }
+
+  if (todo.description && [...todo.description].length > MAX_DESCRIPTION_LENGTH) {
+    errors.push(`Description is too long (maximum is ${MAX_DESCRIPTION_LENGTH} characters)`)
+  }
+
+  return errors
+}
+
+function toRow(source: number, raw: RawTodo): ImportRow {
+  const todo: TodoImportData = { title: text(raw.title) }
+
+  const description = text(raw.description)
+  if (description) {
+    todo.description = description
+  }
+
+  const errors = validateImportTodo(todo)
+
+  const status = text(raw.status).toLowerCase()
+  if (status === 'open' || status === 'done') {
+    todo.status = status
+  } else if (status) {
+    errors.push(`'${status}' is not a valid status`)
+  } else if (isTruthy(raw.done)) {
+    todo.status = 'done'
+  }
+
+  const priority = PRIORITIES.find(item => item.value === text(raw.priority).toLowerCase())
+  if (priority) {
+    todo.priority = priority.value
+  } else if (text(raw.priority)) {
+    errors.push('Priority is not included in the list')
+  }
+
+  const due = text(raw.due)
+  const dueAt = due ? toDueTimestamp(due) : null
+  if (dueAt) {
+    todo.due_at = dueAt
+  } else if (due) {
+    errors.push(`Due date '${due}' is not a date`)
+  }
+
+  return { source, todo, errors }
+}
+
+// Fields of an object keyed by name, under whichever alias was used
+function toRawTodo(fields: Record<string, unknown>): RawTodo {
+  const raw: RawTodo = {}
+  for (const [key, value] of Object.entries(fields)) {
+    const field = FIELD_ALIASES[key.trim().toLowerCase()]
+    if (field && raw[field] === undefined) {
+      raw[field] = value
+    }
+  }
+  return raw
+}
+
+const LIST_MARKER = /^\s*(?:[-*+]|\d+[.)])\s+/
+const CHECKLIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+\[([ xX])\]\s+/
+
+function parseText(input: string): ImportRow[] {
+  return input.split(/\r?\n/).flatMap((line, index) =>
+    line.trim() ? [toRow(index + 1, { title: line.replace(LIST_MARKER, '') })] : []
+  )
+}
+
+// Every list item is a todo and a ticked box marks it done; headings and prose are skipped
+function parseMarkdown(input: string): ImportRow[] {
+  return input.split(/\r?\n/).flatMap((line, index) => {
+    const checklist = CHECKLIST_ITEM.exec(line)
+    if (checklist) {
+      return [toRow(index + 1, { title: line.slice(checklist[0].length), done: checklist[1] !== ' ' })]
+    }
+    return LIST_MARKER.test(line) ? [toRow(index + 1, { title: line.replace(LIST_MARKER, '') })] : []
+  })
+}
+
+// RFC 4180 records, each with the line it starts on; quoted fields may hold commas and newlines
+function csvRecords(input: string): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = []
+  let fields: string[] = []
+  let field = ''
+  let quoted = false
+  let line = 1
+  let recordLine = 1
+
+  const endField = () => {
+    fields.push(field)
+    field = ''
+  }
+  const endRecord = () => {
+    endField()
+    if (fields.some(value => value.trim())) {
+      records.push({ line: recordLine, fields })
+    }
+    fields = []
+    recordLine = line
+  }
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index]
+
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"'
+        index++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === '\n') line++
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      endField()
+    } else if (char === '\n') {
+      line++
+      endRecord()
+    } else if (char !== '\r') {
+      field += char
+    }
+  }
+
+  if (quoted) {
+    throw new ImportFormatError(`A quoted field starting on line ${recordLine} is never closed`)
+  }
+  endRecord()
+
+  return records
+}
+
+function parseCsv(input: string): ImportRow[] {
+  const [header, ...records] = csvRecords(input)
+  const columns = (header?.fields ?? []).map(name => name.trim().toLowerCase())
+  if (!columns.some(name => FIELD_ALIASES[name] === 'title')) {
+    throw new ImportFormatError('The first row needs a "title" column')
+  }
+
+  return records.map(({ line, fields }) =>
+    toRow(line, toRawTodo(Object.fromEntries(columns.map((name, index) => [name, fields[index]]))))
+  )
+}
+
+// A list of titles or todo objects, on its own or under a "todos" key
+function parseJson(input: string): ImportRow[] {
+  let data: unknown
+  try {
+    data = JSON.parse(input)
+  } catch {
+    throw new ImportFormatError('The file is not valid JSON')
+  }
+
+  const items = Array.isArray(data) ? data : (data as { todos?: unknown })?.todos
+  if (!Array.isArray(items)) {
+    throw new ImportFormatError('Expected a list of todos, or an object with a "todos" list')
+  }
+
+  return items.map((item, index) => {
+    if (item && typeof item === 'object' && !Array.isArray(item)) {
+      return toRow(index + 1, toRawTodo(item as Record<string, unknown>))
+    }
+    return toRow(index + 1, { title: typeof item === 'string' ? item : '' })
+  })
+}
+
+/**
+ * Read the todos out of an import. Throws an ImportFormatError when the input as a whole
+ * cannot be read that way; problems with single todos are listed on their rows instead
+ */
+export function parseImport(input: string, format: ImportFormat): ImportRow[] {
+  switch (format) {
+    case 'text':
+      return parseText(input)
+    case 'markdown':
+      return parseMarkdown(input)
+    case 'csv':
+      return parseCsv(input)
+    case 'json':
+      return parseJson(input)
+  }
+}
+
+/**
+ * Guess the format from the file extension, or from the content when there is none
+ */
+export function detectImportFormat(input: string, fileName = ''): ImportFormat {
+  const extension = /\.([^.]+)$/.exec(fileName.toLowerCase())?.[1]
+  if (extension === 'json') return 'json'
+  if (extension === 'csv') return 'csv'
+  if (extension === 'md' || extension === 'markdown') return 'markdown'
+  if (extension === 'txt') return 'text'
+
+  const trimmed = input.trim()
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) return 'json'
+  if (trimmed.split(/\r?\n/).some(line => CHECKLIST_ITEM.test(line))) return 'markdown'
+
+  const firstLine = trimmed.split(/\r?\n/, 1)[0].toLowerCase()
+  if (firstLine.includes(',') && firstLine.split(',').some(name => FIELD_ALIASES[name.trim().replace(/"/g, '')] === 'title')) {
+    return 'csv'
+  }
+  return 'text'
+}
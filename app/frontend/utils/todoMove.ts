@@ -0,0 +1,51 @@
+import { Todo, TodoMovePlacement } from '../types/todo'
+
+/**
+ * Where a drop lands when a todo is dragged onto another one in the visible list.
+ * Dragging down puts it after the todo it was dropped on, dragging up puts it before,
+ * which matches what the sortable list shows while dragging
+ */
+export function placementForDrop(visibleTodos: Todo[], activeId: number, overId: number): TodoMovePlacement | null {
+  const activeIndex = visibleTodos.findIndex(todo => todo.id === activeId)
+  const overIndex = visibleTodos.findIndex(todo => todo.id === overId)
+
+  if (activeIndex === -1 || overIndex === -1 || activeIndex === overIndex) {
+    return null
+  }
+
+  return overIndex > activeIndex ? { after_id: overId } : { before_id: overId }
+}
+
+/**
+ * The placement that would put a todo back where it is now in the list,
+ * or null when it has no neighbours to be placed against
+ */
+export function currentPlacement(todos: Todo[], id: number): TodoMovePlacement | null {
+  const index = todos.findIndex(todo => todo.id === id)
+  if (index === -1) {
+    return null
+  }
+
+  if (index < todos.length - 1) {
+    return { before_id: todos[index + 1].id }
+  }
+  return index > 0 ? { after_id: todos[index - 1].id } : null
+}
+
+/**
+ * Apply a move to a list, the way the server does: only the moved todo changes
+ * place and every other todo keeps its relative order
+ */
+export function applyMove(todos: Todo[], id: number, placement: TodoMovePlacement): Todo[] {
+  const moved = todos.find(todo => todo.id === id)
+  const rest = todos.filter(todo => todo.id !== id)
+  const targetId = 'before_id' in placement ? placement.before_id : placement.after_id
+  const targetIndex = rest.findIndex(todo => todo.id === targetId)
+
+  if (!moved || targetIndex === -1) {
+    return todos
+  }
+
+  rest.splice('before_id' in placement ? targetIndex : targetIndex + 1, 0, moved)
+  return rest
+}
@@ -0,0 +1,44 @@
+import { Todo } from '../types/todo'
+import { priorityRank } from './priorities'
+
+/**
+ * How the todo list is ordered. Only manual order follows position, which is
+ * what drag-and-drop writes; the others are derived and must never be saved
+ */
+export type TodoSortOrder = 'manual' | 'priority' | 'due_date' | 'created'
+
+export const TODO_SORT_OPTIONS: { value: TodoSortOrder; label: string }[] = [
+  { value: 'manual', label: 'Manual' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'due_date', label: 'Due date' },
+  { value: 'created', label: 'Newest first' },
+]
+
+const byPosition = (a: Todo, b: Todo) => a.position - b.position
+
+const timestamp = (value: string | null | undefined) =>
+  value ? new Date(value).getTime() : Number.POSITIVE_INFINITY
+
+const COMPARATORS: Record<Exclude<TodoSortOrder, 'manual'>, (a: Todo, b: Todo) => number> = {
+  // Most pressing first
+  priority: (a, b) => priorityRank(b.priority) - priorityRank(a.priority),
+  // Soonest first, todos without a due date last
+  due_date: (a, b) => {
+    const difference = timestamp(a.due_at) - timestamp(b.due_at)
+    return Number.isNaN(difference) ? 0 : difference
+  },
+  created: (a, b) => timestamp(b.created_at) - timestamp(a.created_at),
+}
+
+/**
+ * Return the todos in the given order without changing the array passed in.
+ * Ties keep their manual order
+ */
+export function sortTodos(todos: Todo[], order: TodoSortOrder): Todo[] {
+  if (order === 'manual') {
+    return todos
+  }
+
+  const compare = COMPARATORS[order]
+  return [...todos].sort((a, b) => compare(a, b) || byPosition(a, b))
+}
@@ -0,0 +1,211 @@
+import { api } from './api'
+import { NetworkError } from './networkError'
+import { OfflineTodoQueue, TodoMutation, isConnectionError, isOnline } from './offlineQueue'
+import { createOfflineStorage } from './offlineStorage'
+import {
+  Todo,
+  TodoFormData,
+  TodoUpdateData,
+  TodoReorderUpdate,
+  TodoMovePlacement,
+  TodoBulkOperation,
+  TodoBulkResponse,
+  TodoBatchResponse,
+  TodoImportData,
+  TodoClearCompletedResponse,
+  TodoApiResponse,
+  TodoListResponse,
+  TodoReorderResponse,
+  TodoResponse,
+} from '../types/todo'
+
+/**
+ * Unwrap the todo from a mutation response, treating a missing todo as an API error
+ */
+function requireTodo(data: TodoApiResponse, fallbackMessage: string): Todo {
+  if (!data.success || !data.todo) {
+    throw new NetworkError(data.errors?.join(', ') || data.error || fallbackMessage, 'API_ERROR', false)
+  }
+  return data.todo
+}
+
+/**
+ * The requests behind the mutations that can be queued while offline
+ */
+const remote = {
+  async create(todo: TodoFormData): Promise<Todo> {
+    const data = await api.post<TodoApiResponse>('/todos', todo)
+    return requireTodo(data, 'Failed to create todo')
+  },
+
+  async update(id: number, updates: TodoUpdateData): Promise<Todo> {
+    const data = await api.patch<TodoApiResponse>(`/todos/${id}`, updates)
+    return requireTodo(data, 'Failed to update todo')
+  },
+
+  // Deletes wait for their undo toast, which may only expire as the page goes away
+  async destroy(id: number): Promise<void> {
+    await api.delete<TodoApiResponse>(`/todos/${id}`, undefined, { keepalive: true })
+  },
+
+  async reorder(updates: TodoReorderUpdate[]): Promise<void> {
+    const data = await api.patch<TodoReorderResponse>('/todos/reorder', { updates })
+    if (!data.success) {
+      throw new NetworkError(data.error || 'Failed to reorder todos', 'API_ERROR', false)
+    }
+  },
+
+  async move(id: number, placement: TodoMovePlacement): Promise<Todo> {
+    const data = await api.patch<TodoApiResponse>(`/todos/${id}/move`, placement)
+    return requireTodo(data, 'Failed to move todo')
+  },
+}
+
+function sendMutation(mutation: TodoMutation): Promise<Todo | void> {
+  switch (mutation.type) {
+    case 'create':
+      return remote.create(mutation.data)
+    case 'update':
+      return remote.update(mutation.id, mutation.updates)
+    case 'destroy':
+      return remote.destroy(mutation.id)
+    case 'reorder':
+      return remote.reorder(mutation.updates)
+    case 'move':
+      return remote.move(mutation.id, mutation.placement)
+  }
+}
+
+/**
+ * The cached todo list and the changes waiting for the connection to come back
+ */
+export const offlineTodos = new OfflineTodoQueue(createOfflineStorage())
+
+/**
+ * Send the changes made while offline, in the order they were made
+ */
+export function syncOfflineChanges(): Promise<void> {
+  return offlineTodos.replay(sendMutation)
+}
+
+/**
+ * Typed todo endpoints built on the shared ApiClient, so retries,
+ * error classification and auth handling are the same for every caller.
+ * Creates, updates, deletes and reorders are queued when the server cannot be reached
+ */
+export const todosApi = {
+  /**
+   * GET /todos - all active todos in a list, in position order; the default list without a listId.
+   * With a query, only todos whose title contains it are returned.
+   * With archived, the archived todos instead, most recently archived first
+   */
+  async list(options: { q?: string; archived?: boolean; listId?: number } = {}): Promise<Todo[]> {
+    const params = new URLSearchParams()
+    const query = options.q?.trim()
+    const listId = options.listId ?? null
+    if (listId !== null) params.set('list_id', String(listId))
+    if (query) params.set('q', query)
+    if (options.archived) params.set('archived', 'true')
+
+    // Only the whole list is cached; searches and the archive need the server
+    const isWholeList = !query && !options.archived
+    const cached = isWholeList ? await offlineTodos.cachedTodos(listId) : null
+    if (cached && !isOnline()) {
+      return cached
+    }
+
+    const search = params.toString()
+    try {
+      const data = await api.get<TodoListResponse>(search ? `/todos?${search}` : '/todos')
+      return isWholeList ? offlineTodos.cacheTodos(data.todos || [], listId) : data.todos || []
+    } catch (error) {
+      if (cached && isConnectionError(error)) {
+        return cached
+      }
+      throw error
+    }
+  },
+
+  /**
+   * GET /todos/:id
+   */
+  async get(id: number): Promise<Todo> {
+    const data = await api.get<TodoResponse>(`/todos/${id}`)
+    return data.todo
+  },
+
+  /**
+   * POST /todos - the server appends the new todo at the end of the list.
+   * Offline, the todo gets a negative temporary id until it is sent
+   */
+  create(todo: TodoFormData): Promise<Todo> {
+    return offlineTodos.perform({ type: 'create', data: todo }, () => remote.create(todo))
+  },
+
+  /**
+   * POST /todos/batch - add todos to the end of a list, the default list without a
+   * listId, in one transaction. Imports need the server, so they are never queued
+   */
+  async batchCreate(todos: TodoImportData[], listId?: number): Promise<Todo[]> {
+    const data = await api.post<TodoBatchResponse>('/todos/batch', listId === undefined ? { todos } : { list_id: listId, todos })
+    if (!data.success || !data.todos) {
+      throw new NetworkError(data.errors?.join(', ') || data.error || 'Failed to import todos', 'API_ERROR', false)
+    }
+    return data.todos
+  },
+
+  /**
+   * PATCH /todos/:id - a list_id moves the todo to the end of that list
+   */
+  update(id: number, updates: TodoUpdateData): Promise<Todo> {
+    return offlineTodos.perform({ type: 'update', id, updates }, () => remote.update(id, updates))
+  },
+
+  /**
+   * DELETE /todos/:id
+   */
+  destroy(id: number): Promise<void> {
+    return offlineTodos.perform({ type: 'destroy', id }, () => remote.destroy(id))
+  },
+
+  /**
+   * PATCH /todos/reorder
+   */
+  reorder(updates: TodoReorderUpdate[]): Promise<void> {
+    return offlineTodos.perform({ type: 'reorder', updates }, () => remote.reorder(updates))
+  },
+
+  /**
+   * PATCH /todos/:id/move - put one todo directly before or after another.
+   * Todos that are not mentioned keep their relative order
+   */
+  move(id: number, placement: TodoMovePlacement): Promise<Todo> {
+    return offlineTodos.perform({ type: 'move', id, placement }, () => remote.move(id, placement))
+  },
+
+  /**
+   * PATCH /todos/bulk - apply one operation to several todos in a single transaction.
+   * The todos have to share a list, identified by listId as for list().
+   * Returns that whole list afterwards, in position order
+   */
+  async bulk(ids: number[], operation: TodoBulkOperation, listId?: number): Promise<Todo[]> {
+    // A delete may be sent as the page goes away, like a single one
+    const data = await api.patch<TodoBulkResponse>('/todos/bulk', { ids, operation }, undefined, { keepalive: operation === 'delete' })
+    if (!data.success || !data.todos) {
+      throw new NetworkError(data.error || 'Failed to update todos', 'API_ERROR', false)
+    }
+    return offlineTodos.cacheTodos(data.todos, listId ?? null)
+  },
+
+  /**
+   * PATCH /todos/clear_completed - archive every done todo in a list, the default
+   * list without a listId. Returns the ids that were archived
+   */
+  async clearCompleted(listId?: number): Promise<number[]> {
+    const data = await api.patch<TodoClearCompletedResponse>('/todos/clear_completed', listId === undefined ? undefined : { list_id: listId })
+    if (!data.success) {
+      throw new NetworkError(data.error || 'Failed to clear completed todos', 'API_ERROR', false)
+    }
+    return data.archived_ids || []
+  },
+}
@@ -4,6 +4,9 @@ class Credential < ApplicationRecord
   validates :credential_id, presence: true, uniqueness: true
   validates :public_key, presence: true
   validates :sign_count, presence: true, numericality: { greater_than_or_equal_to: 0 }
+  validates :nickname, length: { maximum: 64 }, allow_nil: true
+
+  before_validation :normalize_nickname
 
   # Store public key as base64 encoded string to avoid encoding issues
   def public_key=(value)
@@ -22,4 +25,10 @@ class Credential < ApplicationRecord
     # If it's not base64 encoded, return as is (for backwards compatibility)
     super
   end
+
+  private
+
+  def normalize_nickname
+    self.nickname = nickname.strip.presence if nickname.is_a?(String)
+  end
 end
@@ -0,0 +1,20 @@
+class Label < ApplicationRecord
+  belongs_to :user
+  has_many :todo_labels, dependent: :destroy
+  has_many :todos, through: :todo_labels
+
+  validates :name, presence: true, length: { maximum: 50 },
+                   uniqueness: { scope: :user_id, case_sensitive: false }
+  validates :color, presence: true, format: { with: /\A#\h{6}\z/, message: "must be a hex colour like #1f883d" }
+
+  before_validation :normalize_attributes
+
+  scope :alphabetical, -> { order(Arel.sql("LOWER(name)")) }
+
+  private
+
+  def normalize_attributes
+    self.name = name.strip if name.is_a?(String)
+    self.color = color.strip.downcase if color.is_a?(String)
+  end
+end
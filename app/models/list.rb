@@ -0,0 +1,29 @@
+class List < ApplicationRecord
+  # The list a user's todos go to until they make their own
+  DEFAULT_NAME = "Inbox"
+
+  belongs_to :user
+  has_many :todos, dependent: :destroy
+
+  validates :name, presence: true, length: { maximum: 50 },
+                   uniqueness: { scope: :user_id, case_sensitive: false }
+  validates :position, presence: true, uniqueness: { scope: :user_id }
+
+  before_validation :normalize_name
+  before_validation :append_to_user_lists, on: :create
+
+  scope :ordered, -> { order(:position) }
+
+  private
+
+  def normalize_name
+    self.name = name.strip if name.is_a?(String)
+  end
+
+  # New lists go to the bottom of the sidebar
+  def append_to_user_lists
+    return if position.present? || user.nil?
+
+    self.position = (user.lists.maximum(:position) || 0) + 1
+  end
+end
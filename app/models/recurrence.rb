@@ -0,0 +1,84 @@
+# How a todo repeats, stored on the todo as a JSON rule. One of
+#
+#   { "frequency" => "daily",   "interval" => 2 }         every 2 days
+#   { "frequency" => "weekly",  "weekdays" => [ 1, 4 ] }   Mondays and Thursdays (0 is Sunday)
+#   { "frequency" => "monthly", "day" => 15 }             the 15th, or the last day of shorter months
+#
+# Due dates are the end of a day in the user's time zone, so weekdays and days of the
+# month are counted in the offset the rule was set in: utc_offset, in minutes east of UTC
+class Recurrence
+  FREQUENCIES = %w[daily weekly monthly].freeze
+  MAX_INTERVAL = 365
+
+  attr_reader :frequency, :interval, :weekdays, :day, :utc_offset
+
+  def initialize(rule)
+    rule = rule.is_a?(Hash) ? rule.stringify_keys : {}
+
+    @frequency = rule["frequency"]
+    @interval = integer(rule.fetch("interval", 1))
+    @weekdays = Array(rule["weekdays"]).map { |weekday| integer(weekday) }.uniq.sort
+    @day = integer(rule["day"])
+    @utc_offset = integer(rule.fetch("utc_offset", 0))
+  end
+
+  # What is wrong with the rule, as messages for the todo's recurrence attribute
+  def errors
+    return [ "must be daily, weekly or monthly" ] unless FREQUENCIES.include?(frequency)
+
+    errors = []
+    errors << "has an invalid time zone offset" unless utc_offset&.between?(-14 * 60, 14 * 60)
+
+    case frequency
+    when "daily"
+      errors << "must repeat every 1 to #{MAX_INTERVAL} days" unless interval&.between?(1, MAX_INTERVAL)
+    when "weekly"
+      if weekdays.empty? || !weekdays.all? { |weekday| weekday&.between?(0, 6) }
+        errors << "must name at least one weekday"
+      end
+    when "monthly"
+      errors << "must fall on a day of the month from 1 to 31" unless day&.between?(1, 31)
+    end
+
+    errors
+  end
+
+  def valid?
+    errors.empty?
+  end
+
+  # The first due date of the rule after the given one that is also still ahead of now.
+  # Without a previous due date the next occurrence is due by the end of its day
+  def next_due_at(previous_due_at, now: Time.current)
+    offset = utc_offset.minutes
+    local_due = previous_due_at ? previous_due_at.utc + offset : (now.utc + offset).change(hour: 23, min: 59, sec: 59)
+    local_now = now.utc + offset
+
+    local_due = step(local_due)
+    local_due = step(local_due) while local_due <= local_now
+    local_due - offset
+  end
+
+  private
+
+  # The occurrence after a local time, keeping its time of day
+  def step(time)
+    case frequency
+    when "daily"
+      time + interval.days
+    when "weekly"
+      (1..7).map { |days| time + days.days }.find { |candidate| weekdays.include?(candidate.wday) }
+    when "monthly"
+      this_month = on_day(time)
+      this_month > time ? this_month : on_day(time.next_month)
+    end
+  end
+
+  def on_day(time)
+    time.change(day: [ day, time.end_of_month.day ].min)
+  end
+
+  def integer(value)
+    Integer(value, exception: false)
+  end
+end
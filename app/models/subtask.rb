@@ -0,0 +1,16 @@
+class Subtask < ApplicationRecord
+  belongs_to :todo
+
+  validates :title, presence: true, length: { maximum: 255 }
+  validates :position, presence: true, uniqueness: { scope: :todo_id }
+
+  before_validation :normalize_title
+
+  scope :ordered, -> { order(:position) }
+
+  private
+
+  def normalize_title
+    self.title = title.strip if title.is_a?(String)
+  end
+end
@@ -1,16 +1,192 @@
 class Todo < ApplicationRecord
   belongs_to :user
+  belongs_to :list
+  has_many :todo_labels, dependent: :destroy
+  has_many :labels, through: :todo_labels
+  has_many :subtasks, -> { ordered }, dependent: :destroy
+
+  # Space left between neighbouring positions, so most moves only rewrite the moved todo
+  POSITION_GAP = 1024
 
   enum :status, { open: 0, done: 1 }
+  enum :priority, { low: 0, medium: 1, high: 2, urgent: 3 }, prefix: true, validate: true
 
-  validates :title, presence: true
-  validates :position, presence: true, uniqueness: { scope: :user_id }
+  validates :title, presence: true, length: { maximum: 255 }
+  validates :description, length: { maximum: 10_000 }
+  validates :position, presence: true, uniqueness: { scope: :list_id }
   validate :title_not_blank
+  validate :list_belongs_to_user
+  validate :recurrence_is_valid
+
+  before_validation :normalize_description
+  before_validation :normalize_recurrence
+  before_validation :assign_default_list, on: :create
+  before_save :track_completion, if: :status_changed?
+  after_update :schedule_next_occurrence!, if: -> { saved_change_to_status? && done? && recurring? }
+
+  # The todo created when this one was completed, if it repeats; only set on that request
+  attr_reader :next_occurrence
 
   scope :ordered, -> { order(:position) }
+  scope :active, -> { where(archived_at: nil) }
+  scope :archived, -> { where.not(archived_at: nil) }
+  scope :search, ->(query) {
+    where("todos.title ILIKE ?", "%#{sanitize_sql_like(query.strip)}%") if query.present?
+  }
+
+  def archived?
+    archived_at.present?
+  end
+
+  def recurring?
+    recurrence.present?
+  end
+
+  # Add the next occurrence of a repeating todo at the end of its list, due on the rule's
+  # next date. The rule moves over to it, so completing this todo again, e.g. after
+  # reopening it, does not repeat it twice
+  def schedule_next_occurrence!
+    rule = Recurrence.new(recurrence)
+
+    transaction do
+      @next_occurrence = user.todos.create!(
+        list: list,
+        title: title,
+        description: description,
+        priority: priority,
+        complete_with_subtasks: complete_with_subtasks,
+        recurrence: recurrence,
+        due_at: rule.next_due_at(due_at),
+        position: Todo.next_position_for(list),
+        labels: labels
+      )
+      subtasks.each do |subtask|
+        @next_occurrence.subtasks.create!(title: subtask.title, position: subtask.position)
+      end
+      update_column(:recurrence, nil)
+    end
+
+    @next_occurrence
+  end
+
+  # Move this todo directly before or after another todo in the same list.
+  # It takes the midpoint between its new neighbours, so usually only its own row
+  # changes; when they sit too close together the list is spread out first.
+  # Every other todo, including archived ones, keeps its relative order
+  def move_next_to!(target, side)
+    raise ArgumentError, "side must be :before or :after" unless %i[before after].include?(side)
+    raise ArgumentError, "cannot move a todo next to itself" if target.id == id
+    raise ArgumentError, "cannot move a todo next to one in another list" if target.list_id != list_id
+
+    transaction do
+      # Moves by the same user run one at a time
+      user.lock!
+
+      lower, upper = neighbours_at(target.reload, side)
+      unless room_between?(lower, upper)
+        Todo.spread_positions!(list.todos.ordered)
+        lower, upper = neighbours_at(target.reload, side)
+      end
+
+      update_column(:position, position_between(lower, upper))
+    end
+
+    self
+  end
+
+  # Renumber the given todos, in order, POSITION_GAP apart
+  def self.spread_positions!(todos)
+    todos = todos.to_a
+
+    # Park on negative positions first so the unique index never sees a clash
+    todos.each_with_index { |todo, index| todo.update_column(:position, -(index + 1)) }
+    todos.each_with_index { |todo, index| todo.update_column(:position, (index + 1) * POSITION_GAP) }
+  end
+
+  # Put this todo at the end of another list of the same user
+  def move_to_list!(new_list)
+    return self if new_list.id == list_id
+
+    transaction do
+      # Moves by the same user run one at a time
+      user.lock!
+
+      update!(list: new_list, position: Todo.next_position_for(new_list))
+    end
+
+    self
+  end
+
+  # Todos that opt in are completed once every one of their subtasks is checked off
+  def complete_if_subtasks_done!
+    return unless complete_with_subtasks? && open?
+    return if subtasks.empty? || subtasks.any? { |subtask| !subtask.done? }
+
+    update!(status: :done)
+  end
+
+  # The next position at the end of a list
+  def self.next_position_for(list)
+    (list.todos.maximum(:position) || 0) + POSITION_GAP
+  end
 
   private
 
+  # The todos this one will sit between, ignoring itself; nil at either end of the list
+  def neighbours_at(target, side)
+    others = list.todos.where.not(id: id)
+
+    if side == :before
+      [ others.where("position < ?", target.position).order(position: :desc).first, target ]
+    else
+      [ target, others.where("position > ?", target.position).ordered.first ]
+    end
+  end
+
+  # Positions stay positive, so the top of the list is bounded by zero
+  def room_between?(lower, upper)
+    return true if upper.nil?
+
+    upper.position - (lower&.position || 0) > 1
+  end
+
+  def position_between(lower, upper)
+    return lower.position + POSITION_GAP if upper.nil?
+
+    ((lower&.position || 0) + upper.position) / 2
+  end
+
+  # Remember when a todo was finished so old completed todos can be archived automatically
+  def track_completion
+    self.completed_at = done? ? Time.current : nil
+  end
+
+  # An emptied description is stored as no description
+  def normalize_description
+    self.description = description.rstrip.presence if description.is_a?(String)
+  end
+
+  # An empty rule means the todo does not repeat
+  def normalize_recurrence
+    self.recurrence = nil if recurrence.blank?
+  end
+
+  def assign_default_list
+    self.list ||= user&.default_list
+  end
+
+  def list_belongs_to_user
+    if list && user && list.user_id != user_id
+      errors.add(:list, "must be one of your lists")
+    end
+  end
+
+  def recurrence_is_valid
+    return if recurrence.nil?
+
+    Recurrence.new(recurrence).errors.each { |message| errors.add(:recurrence, message) }
+  end
+
   def title_not_blank
     if title.present? && title.strip.empty?
       errors.add(:title, "can't be blank")
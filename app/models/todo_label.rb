@@ -0,0 +1,17 @@
+class TodoLabel < ApplicationRecord
+  belongs_to :todo
+  belongs_to :label
+
+  validates :label_id, uniqueness: { scope: :todo_id }
+  validate :label_belongs_to_todo_owner
+
+  private
+
+  def label_belongs_to_todo_owner
+    return unless todo && label
+
+    unless label.user_id == todo.user_id
+      errors.add(:label, "must belong to the todo's owner")
+    end
+  end
+end
@@ -1,4 +1,25 @@
 class User < ApplicationRecord
   has_many :credentials, dependent: :destroy
   has_many :todos, dependent: :destroy
+  has_many :lists, dependent: :destroy
+  has_many :labels, dependent: :destroy
+
+  # nil turns auto-archiving off
+  validates :auto_archive_after_days,
+            numericality: { only_integer: true, greater_than: 0, less_than_or_equal_to: 365 },
+            allow_nil: true
+
+  # The list todos go to when no other list is given; made on first use, so every user has one
+  def default_list
+    lists.ordered.first || lists.create!(name: List::DEFAULT_NAME)
+  end
+
+  # Archive done todos that were completed longer ago than the user's auto-archive rule allows
+  def archive_stale_completed_todos!
+    return 0 if auto_archive_after_days.nil?
+
+    todos.active.done
+         .where(completed_at: ...auto_archive_after_days.days.ago)
+         .update_all(archived_at: Time.current)
+  end
 end
@@ -5,9 +5,9 @@ Rails.application.routes.draw do
   # Can be used by load balancers and uptime monitors to verify that the app is live.
   get "up" => "rails/health#show", as: :rails_health_check
 
-  # Render dynamic PWA files from app/views/pwa/* (remember to link manifest in application.html.erb)
-  # get "manifest" => "rails/pwa#manifest", as: :pwa_manifest
-  # get "service-worker" => "rails/pwa#service_worker", as: :pwa_service_worker
+  # Render dynamic PWA files from app/views/pwa/* (the manifest is linked in home/index.html.erb)
+  get "manifest" => "rails/pwa#manifest", as: :pwa_manifest
+  get "service-worker" => "rails/pwa#service_worker", as: :pwa_service_worker
 
   # Root route serves the React application
   root "home#index"
@@ -20,7 +20,15 @@ Rails.application.routes.draw do
     post "webauthn/authentication/options", to: "webauthn#authentication_options"
     post "webauthn/authentication/verify", to: "webauthn#authentication_verify"
 
+    # Passkey management for the signed-in user
+    resources :credentials, only: [ :index, :create, :update, :destroy ] do
+      collection do
+        post :options
+      end
+    end
+
     # Session management
+    get :session, to: "sessions#show"
     post :logout, to: "sessions#destroy"
 
     # Test-only route for setting up authenticated sessions in tests
@@ -31,9 +39,32 @@ Rails.application.routes.draw do
     # Todo routes
     resources :todos, except: [ :new, :edit ] do
       collection do
+        post :batch
         patch :reorder
+        patch :bulk
+        patch :clear_completed
+      end
+
+      member do
+        patch :move
+      end
+
+      # Checklist items inside a todo
+      resources :subtasks, only: [ :index, :create, :update, :destroy ] do
+        collection do
+          patch :reorder
+        end
       end
     end
+
+    # Named lists that each keep their own todos in their own order
+    resources :lists, only: [ :index, :create, :update, :destroy ]
+
+    # Labels the signed-in user can attach to their todos
+    resources :labels, only: [ :index, :create, :update, :destroy ]
+
+    # Per-user settings such as the auto-archive rule
+    resource :preferences, only: [ :show, :update ]
   end
 
     # /api 以外のすべてのパスを home#index に飛ばす（SPA用）
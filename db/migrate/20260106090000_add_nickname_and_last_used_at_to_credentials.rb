@@ -0,0 +1,6 @@
+class AddNicknameAndLastUsedAtToCredentials < ActiveRecord::Migration[8.1]
+  def change
+    add_column :credentials, :nickname, :string
+    add_column :credentials, :last_used_at, :datetime
+  end
+end
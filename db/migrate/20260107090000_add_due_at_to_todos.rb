@@ -0,0 +1,5 @@
+class AddDueAtToTodos < ActiveRecord::Migration[8.1]
+  def change
+    add_column :todos, :due_at, :datetime
+  end
+end
@@ -0,0 +1,12 @@
+class CreateTodoLabels < ActiveRecord::Migration[8.1]
+  def change
+    create_table :todo_labels do |t|
+      t.references :todo, null: false, foreign_key: true
+      t.references :label, null: false, foreign_key: true
+
+      t.timestamps
+    end
+
+    add_index :todo_labels, [ :todo_id, :label_id ], unique: true
+  end
+end
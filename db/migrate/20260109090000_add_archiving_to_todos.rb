@@ -0,0 +1,16 @@
+class AddArchivingToTodos < ActiveRecord::Migration[8.1]
+  def up
+    add_column :todos, :completed_at, :datetime
+    add_column :todos, :archived_at, :datetime
+    add_index :todos, [ :user_id, :archived_at ]
+
+    # Todos finished before completion times were recorded count as completed when last touched
+    execute "UPDATE todos SET completed_at = updated_at WHERE status = 1"
+  end
+
+  def down
+    remove_index :todos, [ :user_id, :archived_at ]
+    remove_column :todos, :archived_at
+    remove_column :todos, :completed_at
+  end
+end
@@ -0,0 +1,5 @@
+class AddAutoArchiveAfterDaysToUsers < ActiveRecord::Migration[8.1]
+  def change
+    add_column :users, :auto_archive_after_days, :integer
+  end
+end
@@ -0,0 +1,14 @@
+class CreateSubtasks < ActiveRecord::Migration[8.1]
+  def change
+    create_table :subtasks do |t|
+      t.references :todo, null: false, foreign_key: true
+      t.string :title, null: false
+      t.boolean :done, null: false, default: false
+      t.integer :position, null: false
+
+      t.timestamps
+    end
+
+    add_index :subtasks, [ :todo_id, :position ], unique: true
+  end
+end
@@ -0,0 +1,5 @@
+class AddCompleteWithSubtasksToTodos < ActiveRecord::Migration[8.1]
+  def change
+    add_column :todos, :complete_with_subtasks, :boolean, null: false, default: false
+  end
+end
@@ -0,0 +1,5 @@
+class AddPriorityToTodos < ActiveRecord::Migration[8.1]
+  def change
+    add_column :todos, :priority, :integer, null: false, default: 1
+  end
+end
@@ -0,0 +1,14 @@
+class SpreadTodoPositions < ActiveRecord::Migration[8.1]
+  # Matches Todo::POSITION_GAP at the time of writing
+  POSITION_GAP = 1024
+
+  def up
+    # Park on negative positions first so the unique index never sees a clash
+    execute "UPDATE todos SET position = -position"
+    execute "UPDATE todos SET position = -position * #{POSITION_GAP}"
+  end
+
+  def down
+    # Spread positions keep their order, so there is nothing to undo
+  end
+end
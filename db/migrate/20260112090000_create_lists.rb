@@ -0,0 +1,14 @@
+class CreateLists < ActiveRecord::Migration[8.1]
+  def change
+    create_table :lists do |t|
+      t.references :user, null: false, foreign_key: true
+      t.string :name, null: false
+      t.integer :position, null: false
+
+      t.timestamps
+    end
+
+    add_index :lists, [ :user_id, :name ], unique: true
+    add_index :lists, [ :user_id, :position ], unique: true
+  end
+end
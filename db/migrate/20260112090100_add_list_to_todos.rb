@@ -0,0 +1,38 @@
+class AddListToTodos < ActiveRecord::Migration[8.1]
+  # Matches List::DEFAULT_NAME at the time of writing
+  DEFAULT_LIST_NAME = "Inbox"
+
+  def up
+    add_reference :todos, :list, foreign_key: true
+
+    # Every user starts with one list holding all of their todos
+    execute <<~SQL
+      INSERT INTO lists (user_id, name, position, created_at, updated_at)
+      SELECT id, #{connection.quote(DEFAULT_LIST_NAME)}, 1, NOW(), NOW() FROM users
+    SQL
+    execute "UPDATE todos SET list_id = lists.id FROM lists WHERE lists.user_id = todos.user_id"
+
+    change_column_null :todos, :list_id, false
+
+    # Positions now order a single list rather than everything a user has
+    remove_index :todos, [ :user_id, :position ]
+    add_index :todos, [ :list_id, :position ], unique: true
+  end
+
+  def down
+    remove_index :todos, [ :list_id, :position ]
+
+    # Put each user's lists one after another so positions are unique per user again
+    execute <<~SQL
+      UPDATE todos SET position = numbered.row_number * 1024
+      FROM (
+        SELECT todos.id, ROW_NUMBER() OVER (PARTITION BY todos.user_id ORDER BY lists.position, todos.position) AS row_number
+        FROM todos INNER JOIN lists ON lists.id = todos.list_id
+      ) AS numbered
+      WHERE numbered.id = todos.id
+    SQL
+    add_index :todos, [ :user_id, :position ], unique: true
+
+    remove_reference :todos, :list, foreign_key: true
+  end
+end
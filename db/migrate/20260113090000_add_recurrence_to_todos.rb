@@ -0,0 +1,5 @@
+class AddRecurrenceToTodos < ActiveRecord::Migration[8.1]
+  def change
+    add_column :todos, :recurrence, :jsonb
+  end
+end
@@ -10,13 +10,15 @@
 #
 # It's strongly recommended that you check this file into your version control system.
 
-ActiveRecord::Schema[8.1].define(version: 2025_12_24_073045) do
+ActiveRecord::Schema[8.1].define(version: 2026_01_13_090000) do
   # These are extensions that must be enabled in order to support this database
   enable_extension "pg_catalog.plpgsql"
 
   create_table "credentials", force: :cascade do |t|
     t.datetime "created_at", null: false
     t.string "credential_id", null: false
+    t.datetime "last_used_at"
+    t.string "nickname"
     t.text "public_key", null: false
     t.integer "sign_count", default: 0
     t.datetime "updated_at", null: false
@@ -25,22 +27,81 @@ ActiveRecord::Schema[8.1].define(version: 2025_12_24_073045) do
     t.index ["user_id"], name: "index_credentials_on_user_id"
   end
 
+  create_table "labels", force: :cascade do |t|
+    t.string "color", null: false
+    t.datetime "created_at", null: false
+    t.string "name", null: false
+    t.datetime "updated_at", null: false
+    t.bigint "user_id", null: false
+    t.index ["user_id", "name"], name: "index_labels_on_user_id_and_name", unique: true
+    t.index ["user_id"], name: "index_labels_on_user_id"
+  end
+
+  create_table "lists", force: :cascade do |t|
+    t.datetime "created_at", null: false
+    t.string "name", null: false
+    t.integer "position", null: false
+    t.datetime "updated_at", null: false
+    t.bigint "user_id", null: false
+    t.index ["user_id", "name"], name: "index_lists_on_user_id_and_name", unique: true
+    t.index ["user_id", "position"], name: "index_lists_on_user_id_and_position", unique: true
+    t.index ["user_id"], name: "index_lists_on_user_id"
+  end
+
+  create_table "subtasks", force: :cascade do |t|
+    t.datetime "created_at", null: false
+    t.boolean "done", default: false, null: false
+    t.integer "position", null: false
+    t.string "title", null: false
+    t.bigint "todo_id", null: false
+    t.datetime "updated_at", null: false
+    t.index ["todo_id", "position"], name: "index_subtasks_on_todo_id_and_position", unique: true
+    t.index ["todo_id"], name: "index_subtasks_on_todo_id"
+  end
+
+  create_table "todo_labels", force: :cascade do |t|
+    t.datetime "created_at", null: false
+    t.bigint "label_id", null: false
+    t.bigint "todo_id", null: false
+    t.datetime "updated_at", null: false
+    t.index ["label_id"], name: "index_todo_labels_on_label_id"
+    t.index ["todo_id", "label_id"], name: "index_todo_labels_on_todo_id_and_label_id", unique: true
+    t.index ["todo_id"], name: "index_todo_labels_on_todo_id"
+  end
+
   create_table "todos", force: :cascade do |t|
+    t.datetime "archived_at"
+    t.boolean "complete_with_subtasks", default: false, null: false
+    t.datetime "completed_at"
     t.datetime "created_at", null: false
+    t.text "description"
+    t.datetime "due_at"
+    t.bigint "list_id", null: false
     t.integer "position", null: false
+    t.integer "priority", default: 1, null: false
+    t.jsonb "recurrence"
     t.integer "status", default: 0
     t.string "title", null: false
     t.datetime "updated_at", null: false
     t.bigint "user_id", null: false
-    t.index ["user_id", "position"], name: "index_todos_on_user_id_and_position", unique: true
+    t.index ["list_id", "position"], name: "index_todos_on_list_id_and_position", unique: true
+    t.index ["list_id"], name: "index_todos_on_list_id"
+    t.index ["user_id", "archived_at"], name: "index_todos_on_user_id_and_archived_at"
     t.index ["user_id"], name: "index_todos_on_user_id"
   end
 
   create_table "users", force: :cascade do |t|
+    t.integer "auto_archive_after_days"
     t.datetime "created_at", null: false
     t.datetime "updated_at", null: false
   end
 
   add_foreign_key "credentials", "users"
+  add_foreign_key "labels", "users"
+  add_foreign_key "lists", "users"
+  add_foreign_key "subtasks", "todos"
+  add_foreign_key "todo_labels", "labels"
+  add_foreign_key "todo_labels", "todos"
+  add_foreign_key "todos", "lists"
   add_foreign_key "todos", "users"
 end
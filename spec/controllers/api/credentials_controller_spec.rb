@@ -0,0 +1,155 @@
+require 'rails_helper'
+
+RSpec.describe Api::CredentialsController, type: :request do
+  let(:user) { User.create! }
+  let(:other_user) { User.create! }
+
+  def create_credential_for(owner, **attributes)
+    owner.credentials.create!(
+      credential_id: SecureRandom.hex(16),
+      public_key: "test_public_key",
+      sign_count: 0,
+      **attributes
+    )
+  end
+
+  describe 'Authentication' do
+    it 'rejects unauthenticated requests' do
+      get '/api/credentials'
+      expect(response).to have_http_status(:unauthorized)
+    end
+  end
+
+  describe 'GET /api/credentials' do
+    before { sign_in_as(user) }
+
+    it 'lists the current users passkeys' do
+      create_credential_for(user, nickname: 'Laptop')
+      create_credential_for(user)
+      create_credential_for(other_user, nickname: 'Other')
+
+      get '/api/credentials'
+
+      expect(response).to have_http_status(:success)
+      result = JSON.parse(response.body)
+      expect(result['credentials'].length).to eq(2)
+      expect(result['credentials'].first['nickname']).to eq('Laptop')
+      expect(result['credentials'].first.keys).to contain_exactly('id', 'nickname', 'sign_count', 'last_used_at', 'created_at')
+    end
+  end
+
+  describe 'POST /api/credentials/options' do
+    before { sign_in_as(user) }
+
+    it 'excludes passkeys the user already has' do
+      existing = create_credential_for(user)
+
+      post '/api/credentials/options'
+
+      expect(response).to have_http_status(:success)
+      result = JSON.parse(response.body)
+      expect(result).to have_key('challenge')
+      expect(result['excludeCredentials'].map { |cred| cred['id'] }).to eq([ existing.credential_id ])
+    end
+  end
+
+  describe 'POST /api/credentials' do
+    before { sign_in_as(user) }
+
+    let(:mock_credential) do
+      {
+        'id' => Base64.urlsafe_encode64(SecureRandom.random_bytes(32)),
+        'rawId' => Base64.urlsafe_encode64(SecureRandom.random_bytes(32)),
+        'type' => 'public-key',
+        'response' => {
+          'clientDataJSON' => Base64.urlsafe_encode64('{"type":"webauthn.create"}'),
+          'attestationObject' => Base64.urlsafe_encode64(SecureRandom.random_bytes(64))
+        }
+      }
+    end
+
+    it 'adds a passkey to the signed-in user' do
+      post '/api/credentials/options'
+
+      mock_webauthn_credential = double(
+        id: mock_credential['id'],
+        public_key: SecureRandom.random_bytes(65),
+        sign_count: 0
+      )
+      allow(WebAuthn::Credential).to receive(:from_create).and_return(mock_webauthn_credential)
+      allow(mock_webauthn_credential).to receive(:verify).and_return(true)
+
+      expect {
+        post '/api/credentials',
+          params: { credential: mock_credential, nickname: 'Phone' }.to_json,
+          headers: { 'Content-Type' => 'application/json' }
+      }.to change(user.credentials, :count).by(1).and change(User, :count).by(0)
+
+      expect(response).to have_http_status(:created)
+      result = JSON.parse(response.body)
+      expect(result['success']).to be true
+      expect(result['credential']['nickname']).to eq('Phone')
+    end
+
+    it 'rejects a request without a challenge' do
+      post '/api/credentials',
+        params: { credential: mock_credential }.to_json,
+        headers: { 'Content-Type' => 'application/json' }
+
+      expect(response).to have_http_status(:bad_request)
+    end
+  end
+
+  describe 'PATCH /api/credentials/:id' do
+    before { sign_in_as(user) }
+
+    it 'renames a passkey' do
+      credential = create_credential_for(user)
+
+      patch "/api/credentials/#{credential.id}", params: { nickname: '  Work laptop ' }
+
+      expect(response).to have_http_status(:success)
+      expect(credential.reload.nickname).to eq('Work laptop')
+    end
+
+    it 'rejects nicknames that are too long' do
+      credential = create_credential_for(user)
+
+      patch "/api/credentials/#{credential.id}", params: { nickname: 'a' * 65 }
+
+      expect(response).to have_http_status(:unprocessable_content)
+    end
+
+    it 'does not expose other users passkeys' do
+      credential = create_credential_for(other_user)
+
+      patch "/api/credentials/#{credential.id}", params: { nickname: 'Hacked' }
+
+      expect(response).to have_http_status(:not_found)
+      expect(credential.reload.nickname).to be_nil
+    end
+  end
+
+  describe 'DELETE /api/credentials/:id' do
+    before { sign_in_as(user) }
+
+    it 'revokes a passkey when another one remains' do
+      credential = create_credential_for(user)
+      create_credential_for(user)
+
+      delete "/api/credentials/#{credential.id}"
+
+      expect(response).to have_http_status(:success)
+      expect(Credential.exists?(credential.id)).to be false
+    end
+
+    it 'refuses to revoke the last passkey' do
+      credential = create_credential_for(user)
+
+      delete "/api/credentials/#{credential.id}"
+
+      expect(response).to have_http_status(:unprocessable_content)
+      expect(Credential.exists?(credential.id)).to be true
+    end
+  end
+end
@@ -0,0 +1,92 @@
+require 'rails_helper'
+
+RSpec.describe Api::LabelsController, type: :request do
+  let(:user) { User.create! }
+  let(:other_user) { User.create! }
+
+  describe 'Authentication' do
+    it 'rejects unauthenticated requests' do
+      get '/api/labels'
+      expect(response).to have_http_status(:unauthorized)
+    end
+  end
+
+  describe 'GET /api/labels' do
+    before { sign_in_as(user) }
+
+    it 'lists the current users labels alphabetically' do
+      user.labels.create!(name: 'ui', color: '#0969da')
+      user.labels.create!(name: 'Bug', color: '#c53030')
+      other_user.labels.create!(name: 'other', color: '#1f883d')
+
+      get '/api/labels'
+
+      expect(response).to have_http_status(:success)
+      result = JSON.parse(response.body)
+      expect(result['labels'].map { |label| label['name'] }).to eq([ 'Bug', 'ui' ])
+      expect(result['labels'].first.keys).to contain_exactly('id', 'name', 'color')
+    end
+  end
+
+  describe 'POST /api/labels' do
+    before { sign_in_as(user) }
+
+    it 'creates a label' do
+      expect {
+        post '/api/labels', params: { name: 'bug', color: '#c53030' }
+      }.to change(user.labels, :count).by(1)
+
+      expect(response).to have_http_status(:created)
+      result = JSON.parse(response.body)
+      expect(result['success']).to be true
+      expect(result['label']['name']).to eq('bug')
+    end
+
+    it 'rejects a duplicate name' do
+      user.labels.create!(name: 'bug', color: '#c53030')
+
+      post '/api/labels', params: { name: 'Bug', color: '#1f883d' }
+
+      expect(response).to have_http_status(:unprocessable_content)
+      expect(JSON.parse(response.body)['errors']).to include('Name has already been taken')
+    end
+  end
+
+  describe 'PATCH /api/labels/:id' do
+    before { sign_in_as(user) }
+
+    it 'renames and recolours a label' do
+      label = user.labels.create!(name: 'bug', color: '#c53030')
+
+      patch "/api/labels/#{label.id}", params: { name: 'defect', color: '#92400e' }
+
+      expect(response).to have_http_status(:success)
+      expect(label.reload.name).to eq('defect')
+      expect(label.color).to eq('#92400e')
+    end
+
+    it 'does not expose other users labels' do
+      label = other_user.labels.create!(name: 'bug', color: '#c53030')
+
+      patch "/api/labels/#{label.id}", params: { name: 'mine' }
+
+      expect(response).to have_http_status(:not_found)
+      expect(label.reload.name).to eq('bug')
+    end
+  end
+
+  describe 'DELETE /api/labels/:id' do
+    before { sign_in_as(user) }
+
+    it 'deletes a label and detaches it from todos' do
+      label = user.labels.create!(name: 'bug', color: '#c53030')
+      todo = user.todos.create!(title: 'Fix login', position: 1, labels: [ label ])
+
+      delete "/api/labels/#{label.id}"
+
+      expect(response).to have_http_status(:success)
+      expect(Label.exists?(label.id)).to be false
+      expect(todo.reload.labels).to be_empty
+    end
+  end
+end
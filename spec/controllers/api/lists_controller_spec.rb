@@ -0,0 +1,109 @@
+require 'rails_helper'
+
+RSpec.describe Api::ListsController, type: :request do
+  let(:user) { User.create! }
+  let(:other_user) { User.create! }
+
+  describe 'Authentication' do
+    it 'rejects unauthenticated requests' do
+      get '/api/lists'
+      expect(response).to have_http_status(:unauthorized)
+    end
+  end
+
+  describe 'GET /api/lists' do
+    before { sign_in_as(user) }
+
+    it 'gives a new user an Inbox' do
+      get '/api/lists'
+
+      expect(response).to have_http_status(:success)
+      result = JSON.parse(response.body)
+      expect(result['lists'].map { |list| list['name'] }).to eq([ 'Inbox' ])
+      expect(result['lists'].first.keys).to contain_exactly('id', 'name', 'position')
+    end
+
+    it 'lists the current users lists in sidebar order' do
+      user.lists.create!(name: 'Work')
+      user.lists.create!(name: 'Groceries')
+      other_user.lists.create!(name: 'Other')
+
+      get '/api/lists'
+
+      result = JSON.parse(response.body)
+      expect(result['lists'].map { |list| list['name'] }).to eq([ 'Work', 'Groceries' ])
+    end
+  end
+
+  describe 'POST /api/lists' do
+    before { sign_in_as(user) }
+
+    it 'creates a list at the bottom' do
+      user.lists.create!(name: 'Work')
+
+      post '/api/lists', params: { name: 'Home' }
+
+      expect(response).to have_http_status(:created)
+      result = JSON.parse(response.body)
+      expect(result['success']).to be true
+      expect(result['list']['name']).to eq('Home')
+      expect(result['list']['position']).to eq(2)
+    end
+
+    it 'rejects a duplicate name' do
+      user.lists.create!(name: 'Work')
+
+      post '/api/lists', params: { name: 'work' }
+
+      expect(response).to have_http_status(:unprocessable_content)
+      expect(JSON.parse(response.body)['errors']).to include('Name has already been taken')
+    end
+  end
+
+  describe 'PATCH /api/lists/:id' do
+    before { sign_in_as(user) }
+
+    it 'renames a list' do
+      list = user.lists.create!(name: 'Work')
+
+      patch "/api/lists/#{list.id}", params: { name: 'Office' }
+
+      expect(response).to have_http_status(:success)
+      expect(list.reload.name).to eq('Office')
+    end
+
+    it 'does not expose other users lists' do
+      list = other_user.lists.create!(name: 'Work')
+
+      patch "/api/lists/#{list.id}", params: { name: 'Mine' }
+
+      expect(response).to have_http_status(:not_found)
+      expect(list.reload.name).to eq('Work')
+    end
+  end
+
+  describe 'DELETE /api/lists/:id' do
+    before { sign_in_as(user) }
+
+    it 'deletes a list together with its todos' do
+      user.default_list
+      list = user.lists.create!(name: 'Groceries')
+      user.todos.create!(title: 'Milk', position: 1, list: list)
+
+      delete "/api/lists/#{list.id}"
+
+      expect(response).to have_http_status(:success)
+      expect(List.exists?(list.id)).to be false
+      expect(user.todos.count).to eq(0)
+    end
+
+    it 'keeps the last list' do
+      list = user.default_list
+
+      delete "/api/lists/#{list.id}"
+
+      expect(response).to have_http_status(:unprocessable_content)
+      expect(List.exists?(list.id)).to be true
+    end
+  end
+end
@@ -0,0 +1,53 @@
+require 'rails_helper'
+
+RSpec.describe Api::PreferencesController, type: :request do
+  let(:user) { User.create! }
+
+  describe 'Authentication' do
+    it 'rejects unauthenticated requests' do
+      get '/api/preferences'
+      expect(response).to have_http_status(:unauthorized)
+    end
+  end
+
+  describe 'GET /api/preferences' do
+    before { sign_in_as(user) }
+
+    it 'returns the current users preferences' do
+      user.update!(auto_archive_after_days: 14)
+
+      get '/api/preferences'
+
+      expect(response).to have_http_status(:success)
+      expect(JSON.parse(response.body)['preferences']).to eq('auto_archive_after_days' => 14)
+    end
+  end
+
+  describe 'PATCH /api/preferences' do
+    before { sign_in_as(user) }
+
+    it 'turns auto-archiving on and off' do
+      patch '/api/preferences',
+        params: { auto_archive_after_days: 30 }.to_json,
+        headers: { 'Content-Type' => 'application/json' }
+
+      expect(response).to have_http_status(:success)
+      expect(user.reload.auto_archive_after_days).to eq(30)
+
+      patch '/api/preferences',
+        params: { auto_archive_after_days: nil }.to_json,
+        headers: { 'Content-Type' => 'application/json' }
+
+      expect(user.reload.auto_archive_after_days).to be_nil
+    end
+
+    it 'rejects an invalid number of days' do
+      patch '/api/preferences',
+        params: { auto_archive_after_days: 0 }.to_json,
+        headers: { 'Content-Type' => 'application/json' }
+
+      expect(response).to have_http_status(:unprocessable_entity)
+      expect(JSON.parse(response.body)['errors']).to be_present
+    end
+  end
+end
@@ -3,6 +3,40 @@ require 'rails_helper'
 RSpec.describe Api::SessionsController, type: :request do
   let(:user) { User.create! }
 
+  describe 'GET /api/session' do
+    it 'returns the signed-in user when the session is active' do
+      sign_in_as(user)
+
+      get '/api/session'
+
+      expect(response).to have_http_status(:success)
+      result = JSON.parse(response.body)
+
+      expect(result['authenticated']).to be true
+      expect(result['user_id']).to eq(user.id)
+    end
+
+    it 'reports an anonymous session without failing the request' do
+      get '/api/session'
+
+      expect(response).to have_http_status(:success)
+      result = JSON.parse(response.body)
+
+      expect(result['authenticated']).to be false
+      expect(result).not_to have_key('user_id')
+    end
+
+    it 'reports an anonymous session after logout' do
+      sign_in_as(user)
+      post '/api/logout'
+
+      get '/api/session'
+
+      result = JSON.parse(response.body)
+      expect(result['authenticated']).to be false
+    end
+  end
+
   describe 'POST /api/logout' do
     context 'with active session' do
       before { sign_in_as(user) }
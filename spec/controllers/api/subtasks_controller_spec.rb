@@ -0,0 +1,123 @@
+require 'rails_helper'
+
+RSpec.describe Api::SubtasksController, type: :request do
+  let(:user) { User.create! }
+  let(:other_user) { User.create! }
+  let(:todo) { user.todos.create!(title: 'Plan trip', position: 1) }
+
+  def json_request(method, path, params = {})
+    send(method, path, params: params.to_json, headers: { 'Content-Type' => 'application/json' })
+    JSON.parse(response.body)
+  end
+
+  describe 'Authentication' do
+    it 'rejects unauthenticated requests' do
+      get "/api/todos/#{todo.id}/subtasks"
+      expect(response).to have_http_status(:unauthorized)
+    end
+  end
+
+  describe 'with a signed-in user' do
+    before { sign_in_as(user) }
+
+    it 'lists subtasks in order' do
+      todo.subtasks.create!(title: 'Pack', position: 2)
+      todo.subtasks.create!(title: 'Book flights', position: 1)
+
+      get "/api/todos/#{todo.id}/subtasks"
+
+      expect(response).to have_http_status(:success)
+      result = JSON.parse(response.body)
+      expect(result['subtasks'].map { |subtask| subtask['title'] }).to eq([ 'Book flights', 'Pack' ])
+    end
+
+    it 'adds subtasks at the end and returns the parent with them' do
+      json_request(:post, "/api/todos/#{todo.id}/subtasks", { title: 'Book flights' })
+      result = json_request(:post, "/api/todos/#{todo.id}/subtasks", { title: 'Pack' })
+
+      expect(response).to have_http_status(:created)
+      expect(result['subtask']).to include('title' => 'Pack', 'done' => false, 'position' => 2)
+      expect(result['todo']['subtasks'].map { |subtask| subtask['title'] }).to eq([ 'Book flights', 'Pack' ])
+    end
+
+    it 'rejects a blank title' do
+      result = json_request(:post, "/api/todos/#{todo.id}/subtasks", { title: ' ' })
+
+      expect(response).to have_http_status(:unprocessable_entity)
+      expect(result['errors']).to include("Title can't be blank")
+    end
+
+    it 'checks a subtask off and completes a todo that opted in' do
+      todo.update!(complete_with_subtasks: true)
+      subtask = todo.subtasks.create!(title: 'Pack', position: 1)
+
+      result = json_request(:patch, "/api/todos/#{todo.id}/subtasks/#{subtask.id}", { done: true })
+
+      expect(response).to have_http_status(:success)
+      expect(result['subtask']['done']).to be true
+      expect(result['todo']['status']).to eq('done')
+    end
+
+    it 'returns the next occurrence of a repeating todo the last subtask completes' do
+      todo.update!(complete_with_subtasks: true, recurrence: { 'frequency' => 'daily', 'interval' => 1 })
+      subtask = todo.subtasks.create!(title: 'Pack', position: 1)
+
+      result = json_request(:patch, "/api/todos/#{todo.id}/subtasks/#{subtask.id}", { done: true })
+
+      expect(result['todo']['status']).to eq('done')
+      expect(result['todo']['recurrence']).to be_nil
+      expect(result['todo']['next_occurrence']).to include('title' => 'Plan trip', 'status' => 'open',
+        'recurrence' => { 'frequency' => 'daily', 'interval' => 1 })
+      expect(result['todo']['next_occurrence']['subtasks'].map { |item| item['done'] }).to eq([ false ])
+    end
+
+    it 'returns the next occurrence when deleting the last unchecked subtask completes a repeating todo' do
+      todo.update!(complete_with_subtasks: true, recurrence: { 'frequency' => 'daily', 'interval' => 1 })
+      todo.subtasks.create!(title: 'Book flights', done: true, position: 1)
+      unchecked = todo.subtasks.create!(title: 'Pack', position: 2)
+
+      result = json_request(:delete, "/api/todos/#{todo.id}/subtasks/#{unchecked.id}")
+
+      expect(result['todo']['status']).to eq('done')
+      expect(result['todo']['next_occurrence']).to include('title' => 'Plan trip', 'status' => 'open')
+    end
+
+    it 'deletes a subtask' do
+      subtask = todo.subtasks.create!(title: 'Pack', position: 1)
+
+      result = json_request(:delete, "/api/todos/#{todo.id}/subtasks/#{subtask.id}")
+
+      expect(response).to have_http_status(:success)
+      expect(result['todo']['subtasks']).to be_empty
+    end
+
+    it 'reorders subtasks' do
+      first = todo.subtasks.create!(title: 'Book flights', position: 1)
+      second = todo.subtasks.create!(title: 'Pack', position: 2)
+
+      result = json_request(:patch, "/api/todos/#{todo.id}/subtasks/reorder", { ids: [ second.id, first.id ] })
+
+      expect(response).to have_http_status(:success)
+      expect(result['todo']['subtasks'].map { |subtask| subtask['id'] }).to eq([ second.id, first.id ])
+    end
+
+    it 'rejects a reorder that does not list every subtask' do
+      first = todo.subtasks.create!(title: 'Book flights', position: 1)
+      todo.subtasks.create!(title: 'Pack', position: 2)
+
+      json_request(:patch, "/api/todos/#{todo.id}/subtasks/reorder", { ids: [ first.id ] })
+
+      expect(response).to have_http_status(:bad_request)
+    end
+
+    it 'does not reach into other users todos' do
+      other_todo = other_user.todos.create!(title: 'Other', position: 1)
+      subtask = other_todo.subtasks.create!(title: 'Secret', position: 1)
+
+      json_request(:patch, "/api/todos/#{other_todo.id}/subtasks/#{subtask.id}", { done: true })
+
+      expect(response).to have_http_status(:not_found)
+      expect(subtask.reload.done).to be false
+    end
+  end
+end
@@ -26,6 +26,27 @@ RSpec.describe Api::TodosController, type: :request do
         expect(result['todos'].length).to eq(2)
       end
 
+      it 'filters todos by a case-insensitive title search' do
+        user.todos.create!(title: 'Buy milk', status: 'open', position: 1)
+        user.todos.create!(title: 'Walk the dog', status: 'open', position: 2)
+        user.todos.create!(title: 'Oat MILK for coffee', status: 'done', position: 3)
+
+        get '/api/todos', params: { q: 'milk' }
+
+        result = JSON.parse(response.body)
+        expect(result['todos'].map { |todo| todo['title'] }).to eq([ 'Buy milk', 'Oat MILK for coffee' ])
+      end
+
+      it 'treats LIKE wildcards in the query literally' do
+        user.todos.create!(title: '100% done', status: 'open', position: 1)
+        user.todos.create!(title: '100 done', status: 'open', position: 2)
+
+        get '/api/todos', params: { q: '100%' }
+
+        result = JSON.parse(response.body)
+        expect(result['todos'].map { |todo| todo['title'] }).to eq([ '100% done' ])
+      end
+
       it 'returns empty array when no todos' do
         get '/api/todos'
 
@@ -61,6 +82,15 @@ RSpec.describe Api::TodosController, type: :request do
         expect(result['success']).to be true
         expect(result['todo']['title']).to eq('New Todo')
         expect(result['todo']['status']).to eq('open')
+        expect(result['todo']['due_at']).to be_nil
+      end
+
+      it 'creates a todo with a due date' do
+        post '/api/todos', params: { title: 'Pay rent', due_at: '2026-02-01T23:59:59Z' }
+
+        expect(response).to have_http_status(:created)
+        result = JSON.parse(response.body)
+        expect(Time.zone.parse(result['todo']['due_at'])).to eq(Time.zone.parse('2026-02-01T23:59:59Z'))
       end
 
       it 'returns error for empty title' do
@@ -69,6 +99,64 @@ RSpec.describe Api::TodosController, type: :request do
       end
     end
 
+    describe 'POST /api/todos/batch' do
+      def batch_create(params)
+        post '/api/todos/batch', params: params.to_json, headers: { 'Content-Type' => 'application/json' }
+        JSON.parse(response.body)
+      end
+
+      it 'adds the todos to the end of the list in the order sent' do
+        user.todos.create!(title: 'Existing', position: 1024)
+
+        result = batch_create(todos: [
+          { title: 'Milk' },
+          { title: 'Bread', status: 'done', priority: 'high', due_at: '2026-02-01T23:59:59Z', description: 'Rye' }
+        ])
+
+        expect(response).to have_http_status(:created)
+        expect(result['todos'].map { |todo| todo['title'] }).to eq(%w[Milk Bread])
+        expect(user.todos.ordered.pluck(:title, :position)).to eq([ [ 'Existing', 1024 ], [ 'Milk', 2048 ], [ 'Bread', 3072 ] ])
+        expect(result['todos'].last).to include('status' => 'done', 'priority' => 'high', 'description' => 'Rye')
+        expect(user.todos.find_by(title: 'Bread').completed_at).to be_present
+      end
+
+      it 'adds the todos to the given list' do
+        list = user.lists.create!(name: 'Work')
+
+        batch_create(list_id: list.id, todos: [ { title: 'Report' } ])
+
+        expect(response).to have_http_status(:created)
+        expect(list.todos.pluck(:title)).to eq([ 'Report' ])
+      end
+
+      it 'adds nothing and names the invalid todos when any of them is invalid' do
+        result = batch_create(todos: [ { title: 'Fine' }, { title: '' }, { title: 'a' * 256 }, { title: 'Odd', status: 'later' } ])
+
+        expect(response).to have_http_status(:unprocessable_entity)
+        expect(result['errors']).to eq([
+          "Todo 2: Title can't be blank",
+          'Todo 3: Title is too long (maximum is 255 characters)',
+          "Todo 4: 'later' is not a valid status"
+        ])
+        expect(user.todos.count).to eq(0)
+      end
+
+      it 'rejects an empty or oversized batch' do
+        batch_create(todos: [])
+        expect(response).to have_http_status(:bad_request)
+
+        batch_create(todos: Array.new(Api::TodosController::MAX_BATCH_SIZE + 1) { { title: 'Todo' } })
+        expect(response).to have_http_status(:bad_request)
+      end
+
+      it "does not add todos to another user's list" do
+        batch_create(list_id: other_user.default_list.id, todos: [ { title: 'Sneaky' } ])
+
+        expect(response).to have_http_status(:not_found)
+        expect(other_user.todos.count).to eq(0)
+      end
+    end
+
     describe 'PATCH /api/todos/:id' do
       let(:todo) { user.todos.create!(title: 'Original', status: 'open', position: 1) }
 
@@ -80,6 +168,78 @@ RSpec.describe Api::TodosController, type: :request do
         expect(result['todo']['title']).to eq('Updated')
         expect(result['todo']['status']).to eq('done')
       end
+
+      it 'clears the due date' do
+        todo.update!(due_at: 1.day.from_now)
+
+        patch "/api/todos/#{todo.id}", params: { due_at: nil }.to_json,
+          headers: { 'Content-Type' => 'application/json' }
+
+        expect(response).to have_http_status(:success)
+        expect(todo.reload.due_at).to be_nil
+      end
+
+      it 'changes the priority' do
+        patch "/api/todos/#{todo.id}", params: { priority: 'urgent' }.to_json,
+          headers: { 'Content-Type' => 'application/json' }
+
+        expect(response).to have_http_status(:success)
+        expect(JSON.parse(response.body)['todo']['priority']).to eq('urgent')
+      end
+
+      it 'rejects an unknown priority' do
+        patch "/api/todos/#{todo.id}", params: { priority: 'critical' }.to_json,
+          headers: { 'Content-Type' => 'application/json' }
+
+        expect(response).to have_http_status(:unprocessable_entity)
+        expect(todo.reload.priority).to eq('medium')
+      end
+
+      it 'stores the Markdown description as written' do
+        description = "Steps:\n\n- **pack**\n- <script>alert(1)</script>"
+
+        patch "/api/todos/#{todo.id}", params: { description: description }.to_json,
+          headers: { 'Content-Type' => 'application/json' }
+
+        expect(response).to have_http_status(:success)
+        expect(JSON.parse(response.body)['todo']['description']).to eq(description)
+      end
+
+      it 'sets and clears a recurrence rule' do
+        rule = { 'frequency' => 'weekly', 'weekdays' => [ 1, 4 ], 'utc_offset' => 60 }
+
+        patch "/api/todos/#{todo.id}", params: { todo: { recurrence: rule } }.to_json,
+          headers: { 'Content-Type' => 'application/json' }
+
+        expect(response).to have_http_status(:success)
+        expect(JSON.parse(response.body)['todo']['recurrence']).to eq(rule)
+
+        patch "/api/todos/#{todo.id}", params: { recurrence: nil }.to_json,
+          headers: { 'Content-Type' => 'application/json' }
+
+        expect(todo.reload.recurrence).to be_nil
+      end
+
+      it 'rejects an invalid recurrence rule' do
+        patch "/api/todos/#{todo.id}", params: { recurrence: { frequency: 'daily', interval: 0 } }.to_json,
+          headers: { 'Content-Type' => 'application/json' }
+
+        expect(response).to have_http_status(:unprocessable_entity)
+        expect(todo.reload.recurrence).to be_nil
+      end
+
+      it 'answers completing a repeating todo with its next occurrence' do
+        todo.update!(status: 'open', recurrence: { 'frequency' => 'daily', 'interval' => 2 }, due_at: 1.hour.from_now)
+
+        patch "/api/todos/#{todo.id}", params: { status: 'done' }.to_json,
+          headers: { 'Content-Type' => 'application/json' }
+
+        result = JSON.parse(response.body)['todo']
+        expect(result['recurrence']).to be_nil
+        expect(result['next_occurrence']).to include('title' => 'Original', 'status' => 'open',
+          'recurrence' => { 'frequency' => 'daily', 'interval' => 2 })
+        expect(Time.zone.parse(result['next_occurrence']['due_at'])).to be_within(1.second).of(todo.due_at + 2.days)
+      end
     end
 
     describe 'DELETE /api/todos/:id' do
@@ -94,6 +254,65 @@ RSpec.describe Api::TodosController, type: :request do
     end
   end
 
+  describe 'Labels' do
+    before { sign_in_as(user) }
+
+    let!(:bug) { user.labels.create!(name: 'bug', color: '#c53030') }
+    let!(:ui) { user.labels.create!(name: 'ui', color: '#0969da') }
+
+    it 'creates a todo with labels' do
+      post '/api/todos',
+        params: { title: 'Fix button', label_ids: [ bug.id, ui.id ] }.to_json,
+        headers: { 'Content-Type' => 'application/json' }
+
+      expect(response).to have_http_status(:created)
+      result = JSON.parse(response.body)
+      expect(result['todo']['labels'].map { |label| label['name'] }).to contain_exactly('bug', 'ui')
+    end
+
+    it 'replaces the labels on update' do
+      todo = user.todos.create!(title: 'Fix button', position: 1, labels: [ bug ])
+
+      patch "/api/todos/#{todo.id}",
+        params: { label_ids: [ ui.id ] }.to_json,
+        headers: { 'Content-Type' => 'application/json' }
+
+      expect(response).to have_http_status(:success)
+      expect(todo.reload.labels).to eq([ ui ])
+    end
+
+    it 'keeps the labels when an update is invalid' do
+      todo = user.todos.create!(title: 'Fix button', position: 1, labels: [ bug ])
+
+      patch "/api/todos/#{todo.id}",
+        params: { title: '', label_ids: [] }.to_json,
+        headers: { 'Content-Type' => 'application/json' }
+
+      expect(response).to have_http_status(:unprocessable_content)
+      expect(todo.reload.labels).to eq([ bug ])
+    end
+
+    it 'ignores labels that belong to another user' do
+      foreign = other_user.labels.create!(name: 'other', color: '#1f883d')
+
+      post '/api/todos',
+        params: { title: 'Fix button', label_ids: [ foreign.id ] }.to_json,
+        headers: { 'Content-Type' => 'application/json' }
+
+      expect(response).to have_http_status(:created)
+      expect(JSON.parse(response.body)['todo']['labels']).to be_empty
+    end
+
+    it 'includes labels in the index' do
+      user.todos.create!(title: 'Fix button', position: 1, labels: [ bug ])
+
+      get '/api/todos'
+
+      result = JSON.parse(response.body)
+      expect(result['todos'].first['labels']).to eq([ { 'id' => bug.id, 'name' => 'bug', 'color' => '#c53030' } ])
+    end
+  end
+
   describe 'Authorization' do
     before { sign_in_as(user) }
 
@@ -139,6 +358,23 @@ RSpec.describe Api::TodosController, type: :request do
       expect(result['success']).to be true
     end
 
+    it 'puts the todos in their new places, spaced POSITION_GAP apart' do
+      gap = Todo::POSITION_GAP
+      todo1 = user.todos.create!(title: 'Todo 1', status: 'open', position: gap)
+      todo2 = user.todos.create!(title: 'Todo 2', status: 'open', position: 2 * gap)
+      archived = user.todos.create!(title: 'Archived', status: 'done', position: 3 * gap, archived_at: 1.day.ago)
+      todo3 = user.todos.create!(title: 'Todo 3', status: 'open', position: 4 * gap)
+      todo4 = user.todos.create!(title: 'Todo 4', status: 'open', position: 5 * gap)
+
+      patch '/api/todos/reorder',
+        params: { updates: [{ id: todo4.id, position: 1 }, { id: todo1.id, position: 3 }] }.to_json,
+        headers: { 'Content-Type' => 'application/json' }
+
+      expect(response).to have_http_status(:success)
+      expect(user.todos.ordered.pluck(:id)).to eq([ todo4.id, todo2.id, archived.id, todo1.id, todo3.id ])
+      expect(user.todos.ordered.pluck(:position)).to eq([ 1, 2, 3, 4, 5 ].map { |index| index * gap })
+    end
+
     it 'returns error for empty updates' do
       patch '/api/todos/reorder',
         params: { updates: [] }.to_json,
@@ -157,4 +393,303 @@ RSpec.describe Api::TodosController, type: :request do
       expect(response).to have_http_status(:forbidden)
     end
   end
+
+  describe 'Move' do
+    before { sign_in_as(user) }
+
+    let(:gap) { Todo::POSITION_GAP }
+    let!(:todo1) { user.todos.create!(title: 'Todo 1', status: 'open', position: gap) }
+    let!(:todo2) { user.todos.create!(title: 'Todo 2', status: 'done', position: 2 * gap) }
+    let!(:todo3) { user.todos.create!(title: 'Todo 3', status: 'open', position: 3 * gap) }
+    let!(:todo4) { user.todos.create!(title: 'Todo 4', status: 'done', position: 4 * gap) }
+
+    def move(todo, placement)
+      patch "/api/todos/#{todo.id}/move",
+        params: placement.to_json,
+        headers: { 'Content-Type' => 'application/json' }
+      JSON.parse(response.body)
+    end
+
+    def order
+      user.todos.ordered.pluck(:id)
+    end
+
+    it 'moves a todo after another one' do
+      result = move(todo1, { after_id: todo3.id })
+
+      expect(response).to have_http_status(:success)
+      expect(result['todo']['id']).to eq(todo1.id)
+      expect(order).to eq([ todo2.id, todo3.id, todo1.id, todo4.id ])
+    end
+
+    it 'moves a todo before another one' do
+      move(todo4, { before_id: todo2.id })
+
+      expect(response).to have_http_status(:success)
+      expect(order).to eq([ todo1.id, todo4.id, todo2.id, todo3.id ])
+    end
+
+    it 'keeps todos hidden by a filter in their relative order' do
+      # Dragging the second open todo above the first one in the "Open" view
+      move(todo3, { before_id: todo1.id })
+
+      expect(order).to eq([ todo3.id, todo1.id, todo2.id, todo4.id ])
+      expect(user.todos.done.ordered.pluck(:id)).to eq([ todo2.id, todo4.id ])
+    end
+
+    it 'only rewrites the position of the moved todo' do
+      others = [ todo1, todo3, todo4 ]
+
+      expect { move(todo2, { after_id: todo3.id }) }.not_to change { others.map { |todo| todo.reload.position } }
+      expect(order).to eq([ todo1.id, todo3.id, todo2.id, todo4.id ])
+      expect(todo2.reload.position).to be_between(todo3.position, todo4.position).exclusive
+    end
+
+    it 'spreads the list out when the neighbours leave no room' do
+      todo1.update_column(:position, 1)
+      todo2.update_column(:position, 2)
+
+      move(todo4, { before_id: todo2.id })
+
+      expect(response).to have_http_status(:success)
+      expect(order).to eq([ todo1.id, todo4.id, todo2.id, todo3.id ])
+    end
+
+    it 'moves a todo to the very top and bottom' do
+      move(todo3, { before_id: todo1.id })
+      move(todo1, { after_id: todo4.id })
+
+      expect(order).to eq([ todo3.id, todo2.id, todo4.id, todo1.id ])
+      expect(user.todos.minimum(:position)).to be > 0
+    end
+
+    it 'requires exactly one of before_id and after_id' do
+      move(todo1, {})
+      expect(response).to have_http_status(:bad_request)
+
+      move(todo1, { before_id: todo2.id, after_id: todo3.id })
+      expect(response).to have_http_status(:bad_request)
+
+      move(todo1, { before_id: todo1.id })
+      expect(response).to have_http_status(:bad_request)
+    end
+
+    it 'does not move next to another users todo' do
+      other_todo = other_user.todos.create!(title: 'Other', status: 'open', position: 1)
+
+      move(todo1, { after_id: other_todo.id })
+
+      expect(response).to have_http_status(:not_found)
+      expect(order).to eq([ todo1.id, todo2.id, todo3.id, todo4.id ])
+    end
+
+    it 'does not move another users todo' do
+      other_todo = other_user.todos.create!(title: 'Other', status: 'open', position: 1)
+
+      move(other_todo, { after_id: todo1.id })
+
+      expect(response).to have_http_status(:forbidden)
+    end
+  end
+
+  describe 'Bulk' do
+    before { sign_in_as(user) }
+
+    let!(:todo1) { user.todos.create!(title: 'Todo 1', status: 'open', position: 1) }
+    let!(:todo2) { user.todos.create!(title: 'Todo 2', status: 'open', position: 2) }
+    let!(:todo3) { user.todos.create!(title: 'Todo 3', status: 'done', position: 3) }
+
+    def bulk_update(ids, operation)
+      patch '/api/todos/bulk',
+        params: { ids: ids, operation: operation }.to_json,
+        headers: { 'Content-Type' => 'application/json' }
+      JSON.parse(response.body)
+    end
+
+    it 'completes and reopens the selected todos' do
+      bulk_update([ todo1.id, todo2.id ], 'complete')
+      expect(response).to have_http_status(:success)
+      expect(user.todos.pluck(:status).uniq).to eq([ 'done' ])
+
+      result = bulk_update([ todo1.id, todo3.id ], 'reopen')
+      expect(result['todos'].map { |todo| todo['status'] }).to eq(%w[open done open])
+    end
+
+    it 'schedules the next occurrence of repeating todos it completes' do
+      todo1.update!(recurrence: { 'frequency' => 'monthly', 'day' => 1 })
+
+      result = bulk_update([ todo1.id, todo2.id ], 'complete')
+
+      expect(result['todos'].map { |todo| [ todo['title'], todo['status'] ] })
+        .to eq([ [ 'Todo 1', 'done' ], [ 'Todo 2', 'done' ], [ 'Todo 3', 'done' ], [ 'Todo 1', 'open' ] ])
+      expect(todo1.reload.recurrence).to be_nil
+    end
+
+    it 'deletes the selected todos without renumbering the rest' do
+      result = bulk_update([ todo1.id, todo2.id ], 'delete')
+
+      expect(response).to have_http_status(:success)
+      expect(result['todos'].map { |todo| todo['id'] }).to eq([ todo3.id ])
+      expect(todo3.reload.position).to eq(3)
+    end
+
+    it 'moves the selected todos to the top or bottom in their current order' do
+      result = bulk_update([ todo3.id, todo2.id ], 'move_to_top')
+      expect(result['todos'].map { |todo| todo['id'] }).to eq([ todo2.id, todo3.id, todo1.id ])
+
+      result = bulk_update([ todo2.id ], 'move_to_bottom')
+      expect(result['todos'].map { |todo| todo['position'] }).to eq([ 1, 2, 3 ].map { |n| n * Todo::POSITION_GAP })
+      expect(result['todos'].map { |todo| todo['id'] }).to eq([ todo3.id, todo1.id, todo2.id ])
+    end
+
+    it 'rejects an empty selection or an unknown operation' do
+      bulk_update([], 'complete')
+      expect(response).to have_http_status(:bad_request)
+
+      bulk_update([ todo1.id ], 'shuffle')
+      expect(response).to have_http_status(:bad_request)
+    end
+
+    it 'changes nothing when any selected todo belongs to someone else' do
+      other_todo = other_user.todos.create!(title: 'Other', status: 'open', position: 1)
+
+      bulk_update([ todo1.id, other_todo.id ], 'delete')
+
+      expect(response).to have_http_status(:forbidden)
+      expect(Todo.exists?(todo1.id)).to be true
+      expect(Todo.exists?(other_todo.id)).to be true
+    end
+  end
+
+  describe 'Archive' do
+    before { sign_in_as(user) }
+
+    let!(:open_todo) { user.todos.create!(title: 'Open', status: 'open', position: 1) }
+    let!(:done_todo) { user.todos.create!(title: 'Done', status: 'done', position: 2) }
+
+    it 'archives every done todo when clearing completed' do
+      patch '/api/todos/clear_completed'
+
+      expect(response).to have_http_status(:success)
+      result = JSON.parse(response.body)
+      expect(result['archived_ids']).to eq([ done_todo.id ])
+      expect(done_todo.reload).to be_archived
+      expect(open_todo.reload).not_to be_archived
+    end
+
+    it 'lists active and archived todos separately' do
+      done_todo.update!(archived_at: Time.current)
+
+      get '/api/todos'
+      expect(JSON.parse(response.body)['todos'].map { |todo| todo['id'] }).to eq([ open_todo.id ])
+
+      get '/api/todos', params: { archived: 'true' }
+      expect(JSON.parse(response.body)['todos'].map { |todo| todo['id'] }).to eq([ done_todo.id ])
+    end
+
+    it 'restores archived todos through the bulk endpoint' do
+      done_todo.update!(archived_at: Time.current)
+
+      patch '/api/todos/bulk',
+        params: { ids: [ done_todo.id ], operation: 'restore' }.to_json,
+        headers: { 'Content-Type' => 'application/json' }
+
+      expect(response).to have_http_status(:success)
+      expect(done_todo.reload).not_to be_archived
+    end
+
+    it 'applies the auto-archive rule before listing' do
+      user.update!(auto_archive_after_days: 3)
+      done_todo.update_column(:completed_at, 4.days.ago)
+
+      get '/api/todos'
+
+      expect(JSON.parse(response.body)['todos'].map { |todo| todo['id'] }).to eq([ open_todo.id ])
+      expect(done_todo.reload).to be_archived
+    end
+  end
+
+  describe 'Lists' do
+    before { sign_in_as(user) }
+
+    let(:inbox) { user.default_list }
+    let(:work) { user.lists.create!(name: 'Work') }
+    let!(:home_todo) { user.todos.create!(title: 'Water plants', list: inbox, position: 1024) }
+    let!(:work_todo) { user.todos.create!(title: 'Write report', list: work, position: 1024) }
+
+    it 'lists the default list without a list_id' do
+      get '/api/todos'
+
+      result = JSON.parse(response.body)
+      expect(result['todos'].map { |todo| todo['title'] }).to eq([ 'Water plants' ])
+      expect(result['todos'].first['list_id']).to eq(inbox.id)
+    end
+
+    it 'lists another list by list_id' do
+      get '/api/todos', params: { list_id: work.id }
+
+      expect(JSON.parse(response.body)['todos'].map { |todo| todo['title'] }).to eq([ 'Write report' ])
+    end
+
+    it "does not list another user's list" do
+      get '/api/todos', params: { list_id: other_user.default_list.id }
+
+      expect(response).to have_http_status(:not_found)
+    end
+
+    it 'creates a todo at the end of the given list' do
+      post '/api/todos', params: { title: 'Book flights', list_id: work.id }
+
+      expect(response).to have_http_status(:created)
+      result = JSON.parse(response.body)
+      expect(result['todo']['list_id']).to eq(work.id)
+      expect(result['todo']['position']).to eq(2 * Todo::POSITION_GAP)
+    end
+
+    it 'moves a todo to the end of another list' do
+      patch "/api/todos/#{home_todo.id}",
+        params: { list_id: work.id }.to_json,
+        headers: { 'Content-Type' => 'application/json' }
+
+      expect(response).to have_http_status(:success)
+      expect(home_todo.reload.list).to eq(work)
+      expect(work.todos.ordered).to eq([ work_todo, home_todo ])
+    end
+
+    it "does not move a todo to another user's list" do
+      patch "/api/todos/#{home_todo.id}",
+        params: { list_id: other_user.default_list.id }.to_json,
+        headers: { 'Content-Type' => 'application/json' }
+
+      expect(response).to have_http_status(:not_found)
+      expect(home_todo.reload.list).to eq(inbox)
+    end
+
+    it 'does not move a todo next to one in another list' do
+      patch "/api/todos/#{home_todo.id}/move",
+        params: { before_id: work_todo.id }.to_json,
+        headers: { 'Content-Type' => 'application/json' }
+
+      expect(response).to have_http_status(:unprocessable_content)
+      expect(home_todo.reload.list).to eq(inbox)
+    end
+
+    it 'responds to a bulk update with the todos of the list it changed' do
+      patch '/api/todos/bulk',
+        params: { ids: [ work_todo.id ], operation: 'complete' }.to_json,
+        headers: { 'Content-Type' => 'application/json' }
+
+      result = JSON.parse(response.body)
+      expect(result['todos'].map { |todo| todo['title'] }).to eq([ 'Write report' ])
+    end
+
+    it 'rejects a bulk update across lists' do
+      patch '/api/todos/bulk',
+        params: { ids: [ home_todo.id, work_todo.id ], operation: 'complete' }.to_json,
+        headers: { 'Content-Type' => 'application/json' }
+
+      expect(response).to have_http_status(:bad_request)
+      expect(home_todo.reload).to be_open
+    end
+  end
 end
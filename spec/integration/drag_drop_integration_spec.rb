@@ -28,7 +28,7 @@ RSpec.describe "Drag and Drop Integration", type: :request do
 
       initial_list = JSON.parse(response.body)['todos']
       expect(initial_list.map { |t| t['title'] }).to eq([ 'Todo 1', 'Todo 2', 'Todo 3', 'Todo 4', 'Todo 5' ])
-      expect(initial_list.map { |t| t['position'] }).to eq([ 1, 2, 3, 4, 5 ])
+      expect(initial_list.map { |t| t['position'] }).to eq([ 1, 2, 3, 4, 5 ].map { |n| n * Todo::POSITION_GAP })
 
       # Step 3: Move first todo to the end (position 5)
       patch '/api/todos/reorder',
@@ -96,7 +96,7 @@ RSpec.describe "Drag and Drop Integration", type: :request do
       expect(response).to have_http_status(:created)
 
       new_todo_result = JSON.parse(response.body)
-      expect(new_todo_result['todo']['position']).to eq(6)
+      expect(new_todo_result['todo']['position']).to eq(5 + Todo::POSITION_GAP)
 
       # Step 8: Reorder with the new todo included
       new_todo_id = new_todo_result['todo']['id']
@@ -236,7 +236,7 @@ RSpec.describe "Drag and Drop Integration", type: :request do
 
       new_result = JSON.parse(response.body)
       delta_id = new_result['todo']['id']
-      expect(new_result['todo']['position']).to eq(4)
+      expect(new_result['todo']['position']).to eq(3 + Todo::POSITION_GAP)
 
       # Step 5: Move new todo to position 2
       patch '/api/todos/reorder',
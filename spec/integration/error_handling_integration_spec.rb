@@ -518,7 +518,7 @@ RSpec.describe "Error Handling Integration", type: :request do
 
       initial_list = JSON.parse(response.body)['todos']
       expect(initial_list.length).to eq(3)
-      expect(initial_list.map { |t| t['position'] }.sort).to eq([ 1, 2, 3 ])
+      expect(initial_list.map { |t| t['position'] }.sort).to eq([ 1, 2, 3 ].map { |n| n * Todo::POSITION_GAP })
 
       # Simulate error during reorder by trying to reorder with invalid data
       patch '/api/todos/reorder',
@@ -535,7 +535,7 @@ RSpec.describe "Error Handling Integration", type: :request do
 
       consistent_list = JSON.parse(response.body)['todos']
       expect(consistent_list.length).to eq(3)
-      expect(consistent_list.map { |t| t['position'] }.sort).to eq([ 1, 2, 3 ])
+      expect(consistent_list.map { |t| t['position'] }.sort).to eq([ 1, 2, 3 ].map { |n| n * Todo::POSITION_GAP })
 
       # Verify original order maintained
       expect(consistent_list.map { |t| t['title'] }).to eq([ 'Consistency Test 1', 'Consistency Test 2', 'Consistency Test 3' ])
@@ -27,7 +27,7 @@ RSpec.describe "Todo Management Flow Integration", type: :request do
       expect(create_result['success']).to be true
       expect(create_result['todo']['title']).to eq('First Todo')
       expect(create_result['todo']['status']).to eq('open')
-      expect(create_result['todo']['position']).to eq(1)
+      expect(create_result['todo']['position']).to eq(Todo::POSITION_GAP)
 
       first_todo_id = create_result['todo']['id']
 
@@ -36,7 +36,7 @@ RSpec.describe "Todo Management Flow Integration", type: :request do
       expect(response).to have_http_status(:created)
 
       create_result2 = JSON.parse(response.body)
-      expect(create_result2['todo']['position']).to eq(2)
+      expect(create_result2['todo']['position']).to eq(2 * Todo::POSITION_GAP)
 
       second_todo_id = create_result2['todo']['id']
 
@@ -73,14 +73,14 @@ RSpec.describe "Todo Management Flow Integration", type: :request do
       delete_result = JSON.parse(response.body)
       expect(delete_result['success']).to be true
 
-      # Step 8: Verify todo list shows only first todo with adjusted position
+      # Step 8: Verify todo list shows only first todo, still at its own position
       get '/api/todos'
       expect(response).to have_http_status(:success)
 
       final_list = JSON.parse(response.body)
       expect(final_list['todos'].length).to eq(1)
       expect(final_list['todos'].first['id']).to eq(first_todo_id)
-      expect(final_list['todos'].first['position']).to eq(1)  # Position should be adjusted
+      expect(final_list['todos'].first['position']).to eq(Todo::POSITION_GAP)  # Deleting leaves a gap, not a renumbering
 
       # Step 9: Verify deleted todo cannot be accessed
       get "/api/todos/#{second_todo_id}"
@@ -252,7 +252,7 @@ RSpec.describe "Todo Management Flow Integration", type: :request do
         expect(response).to have_http_status(:created)
 
         result = JSON.parse(response.body)
-        expect(result['todo']['position']).to eq(i)
+        expect(result['todo']['position']).to eq(i * Todo::POSITION_GAP)
         todo_ids << result['todo']['id']
       end
 
@@ -264,7 +264,7 @@ RSpec.describe "Todo Management Flow Integration", type: :request do
       expect(list_result['todos'].length).to eq(5)
 
       list_result['todos'].each_with_index do |todo, index|
-        expect(todo['position']).to eq(index + 1)
+        expect(todo['position']).to eq((index + 1) * Todo::POSITION_GAP)
         expect(todo['title']).to eq("Todo #{index + 1}")
       end
 
@@ -272,42 +272,35 @@ RSpec.describe "Todo Management Flow Integration", type: :request do
       delete "/api/todos/#{todo_ids[2]}"
       expect(response).to have_http_status(:success)
 
-      # Step 4: Verify positions are adjusted correctly
+      # Step 4: Verify the remaining todos keep their positions
       get '/api/todos'
       expect(response).to have_http_status(:success)
 
       adjusted_list = JSON.parse(response.body)
       expect(adjusted_list['todos'].length).to eq(4)
 
-      expected_titles = [ 'Todo 1', 'Todo 2', 'Todo 4', 'Todo 5' ]
-      adjusted_list['todos'].each_with_index do |todo, index|
-        expect(todo['position']).to eq(index + 1)
-        expect(todo['title']).to eq(expected_titles[index])
-      end
+      expect(adjusted_list['todos'].map { |todo| todo['title'] }).to eq([ 'Todo 1', 'Todo 2', 'Todo 4', 'Todo 5' ])
+      expect(adjusted_list['todos'].map { |todo| todo['position'] }).to eq([ 1, 2, 4, 5 ].map { |n| n * Todo::POSITION_GAP })
 
       # Step 5: Delete first todo
       delete "/api/todos/#{todo_ids[0]}"
       expect(response).to have_http_status(:success)
 
-      # Step 6: Verify positions are adjusted again
+      # Step 6: Verify the order is unchanged
       get '/api/todos'
       expect(response).to have_http_status(:success)
 
       final_list = JSON.parse(response.body)
       expect(final_list['todos'].length).to eq(3)
 
-      expected_final_titles = [ 'Todo 2', 'Todo 4', 'Todo 5' ]
-      final_list['todos'].each_with_index do |todo, index|
-        expect(todo['position']).to eq(index + 1)
-        expect(todo['title']).to eq(expected_final_titles[index])
-      end
+      expect(final_list['todos'].map { |todo| todo['title'] }).to eq([ 'Todo 2', 'Todo 4', 'Todo 5' ])
 
-      # Step 7: Add new todo and verify it gets the next position
+      # Step 7: Add new todo and verify it goes after the last one
       post '/api/todos', params: { title: 'New Todo' }
       expect(response).to have_http_status(:created)
 
       new_result = JSON.parse(response.body)
-      expect(new_result['todo']['position']).to eq(4)
+      expect(new_result['todo']['position']).to eq(6 * Todo::POSITION_GAP)
 
       # Step 8: Final verification of complete list
       get '/api/todos'
@@ -317,7 +310,8 @@ RSpec.describe "Todo Management Flow Integration", type: :request do
       expect(complete_list['todos'].length).to eq(4)
 
       all_positions = complete_list['todos'].map { |t| t['position'] }
-      expect(all_positions).to eq([ 1, 2, 3, 4 ])
+      expect(all_positions).to eq([ 2, 4, 5, 6 ].map { |n| n * Todo::POSITION_GAP })
+      expect(complete_list['todos'].last['title']).to eq('New Todo')
     end
   end
 
@@ -345,7 +339,7 @@ RSpec.describe "Todo Management Flow Integration", type: :request do
       expect(response).to have_http_status(:created)
 
       create_result = JSON.parse(response.body)
-      expect(create_result['todo']['position']).to eq(3)
+      expect(create_result['todo']['position']).to eq(2 + Todo::POSITION_GAP)
 
       # Step 3: Simulate user2 session and operations
       allow_any_instance_of(ApplicationController).to receive(:current_user).and_return(user2)
@@ -363,7 +357,7 @@ RSpec.describe "Todo Management Flow Integration", type: :request do
       expect(response).to have_http_status(:created)
 
       user2_create_result = JSON.parse(response.body)
-      expect(user2_create_result['todo']['position']).to eq(3)  # Independent position counter
+      expect(user2_create_result['todo']['position']).to eq(2 + Todo::POSITION_GAP)  # Independent position counter
 
       # Step 5: Switch back to user1 session
       allow_any_instance_of(ApplicationController).to receive(:current_user).and_return(user)
@@ -384,8 +378,8 @@ RSpec.describe "Todo Management Flow Integration", type: :request do
       user1_positions = user.todos.pluck(:position).sort
       user2_positions = user2.todos.pluck(:position).sort
 
-      expect(user1_positions).to eq([ 1, 2, 3 ])
-      expect(user2_positions).to eq([ 1, 2, 3 ])
+      expect(user1_positions).to eq([ 1, 2, 2 + Todo::POSITION_GAP ])
+      expect(user2_positions).to eq([ 1, 2, 2 + Todo::POSITION_GAP ])
     end
   end
 
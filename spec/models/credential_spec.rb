@@ -75,5 +75,29 @@ RSpec.describe Credential, type: :model do
       )
       expect(credential).to be_valid
     end
+
+    it "strips whitespace from nickname and stores blank as nil" do
+      credential = user.credentials.create!(
+        credential_id: "test_id",
+        public_key: "test_key",
+        sign_count: 0,
+        nickname: "  Laptop  "
+      )
+      expect(credential.nickname).to eq("Laptop")
+
+      credential.update!(nickname: "   ")
+      expect(credential.nickname).to be_nil
+    end
+
+    it "validates nickname length" do
+      credential = user.credentials.build(
+        credential_id: "test_id",
+        public_key: "test_key",
+        sign_count: 0,
+        nickname: "a" * 65
+      )
+      expect(credential).not_to be_valid
+      expect(credential.errors[:nickname]).to include("is too long (maximum is 64 characters)")
+    end
   end
 end
@@ -0,0 +1,57 @@
+require 'rails_helper'
+
+RSpec.describe Label, type: :model do
+  let(:user) { User.create! }
+
+  describe "associations" do
+    it "is destroyed when user is destroyed" do
+      user.labels.create!(name: "bug", color: "#c53030")
+
+      expect { user.destroy }.to change(Label, :count).by(-1)
+    end
+
+    it "detaches itself from todos when destroyed" do
+      label = user.labels.create!(name: "bug", color: "#c53030")
+      todo = user.todos.create!(title: "Fix login", position: 1, labels: [ label ])
+
+      expect { label.destroy }.to change(TodoLabel, :count).by(-1)
+      expect(todo.reload.labels).to be_empty
+    end
+  end
+
+  describe "validations" do
+    it "requires a name" do
+      label = user.labels.build(name: "  ", color: "#c53030")
+      expect(label).not_to be_valid
+      expect(label.errors[:name]).to include("can't be blank")
+    end
+
+    it "requires a unique name per user, ignoring case" do
+      user.labels.create!(name: "Bug", color: "#c53030")
+
+      expect(user.labels.build(name: "bug", color: "#1f883d")).not_to be_valid
+      expect(User.create!.labels.build(name: "bug", color: "#1f883d")).to be_valid
+    end
+
+    it "requires a hex colour" do
+      expect(user.labels.build(name: "bug", color: "red")).not_to be_valid
+      expect(user.labels.build(name: "bug", color: "#C53030")).to be_valid
+    end
+
+    it "normalizes the name and colour" do
+      label = user.labels.create!(name: "  bug ", color: "#C53030")
+      expect(label.name).to eq("bug")
+      expect(label.color).to eq("#c53030")
+    end
+  end
+
+  describe "todo labels" do
+    it "cannot be attached to another user's todo" do
+      label = User.create!.labels.create!(name: "bug", color: "#c53030")
+      todo = user.todos.create!(title: "Fix login", position: 1)
+
+      todo_label = TodoLabel.new(todo: todo, label: label)
+      expect(todo_label).not_to be_valid
+    end
+  end
+end
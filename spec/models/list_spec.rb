@@ -0,0 +1,52 @@
+require 'rails_helper'
+
+RSpec.describe List, type: :model do
+  let(:user) { User.create! }
+
+  describe "validations" do
+    it "requires a name" do
+      list = user.lists.build(name: "  ")
+      expect(list).not_to be_valid
+      expect(list.errors[:name]).to include("can't be blank")
+    end
+
+    it "keeps names unique per user, ignoring case" do
+      user.lists.create!(name: "Work")
+
+      expect(user.lists.build(name: "work")).not_to be_valid
+      expect(User.create!.lists.build(name: "Work")).to be_valid
+    end
+
+    it "limits names to 50 characters" do
+      expect(user.lists.build(name: "a" * 51)).not_to be_valid
+    end
+  end
+
+  it "puts new lists at the bottom" do
+    first = user.lists.create!(name: "Work")
+    second = user.lists.create!(name: "Home")
+
+    expect(user.lists.ordered).to eq([ first, second ])
+  end
+
+  it "removes its todos with it" do
+    list = user.lists.create!(name: "Groceries")
+    user.todos.create!(title: "Milk", position: 1, list: list)
+
+    expect { list.destroy }.to change(Todo, :count).by(-1)
+  end
+
+  describe "User#default_list" do
+    it "makes an Inbox the first time" do
+      expect { user.default_list }.to change(user.lists, :count).by(1)
+      expect(user.default_list.name).to eq(List::DEFAULT_NAME)
+    end
+
+    it "is the user's first list" do
+      first = user.lists.create!(name: "Work")
+      user.lists.create!(name: "Home")
+
+      expect(user.default_list).to eq(first)
+    end
+  end
+end
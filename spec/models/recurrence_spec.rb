@@ -0,0 +1,63 @@
+require 'rails_helper'
+
+RSpec.describe Recurrence do
+  # A Wednesday
+  let(:now) { Time.utc(2024, 1, 17, 12, 0, 0) }
+
+  describe "validation" do
+    it "accepts each kind of rule" do
+      expect(Recurrence.new("frequency" => "daily", "interval" => 2)).to be_valid
+      expect(Recurrence.new("frequency" => "weekly", "weekdays" => [ 1, 4 ])).to be_valid
+      expect(Recurrence.new("frequency" => "monthly", "day" => 31, "utc_offset" => -300)).to be_valid
+    end
+
+    it "explains what is wrong with a rule" do
+      expect(Recurrence.new("frequency" => "yearly").errors).to eq([ "must be daily, weekly or monthly" ])
+      expect(Recurrence.new("frequency" => "daily", "interval" => 0).errors).to eq([ "must repeat every 1 to 365 days" ])
+      expect(Recurrence.new("frequency" => "weekly", "weekdays" => []).errors).to eq([ "must name at least one weekday" ])
+      expect(Recurrence.new("frequency" => "weekly", "weekdays" => [ 7 ]).errors).to eq([ "must name at least one weekday" ])
+      expect(Recurrence.new("frequency" => "monthly", "day" => "last").errors).to eq([ "must fall on a day of the month from 1 to 31" ])
+      expect(Recurrence.new("frequency" => "daily", "utc_offset" => 24 * 60).errors).to eq([ "has an invalid time zone offset" ])
+      expect(Recurrence.new("every day").errors).to eq([ "must be daily, weekly or monthly" ])
+    end
+  end
+
+  describe "#next_due_at" do
+    it "counts days from the previous due date" do
+      rule = Recurrence.new("frequency" => "daily", "interval" => 2)
+
+      expect(rule.next_due_at(Time.utc(2024, 1, 17, 18, 0), now: now)).to eq(Time.utc(2024, 1, 19, 18, 0))
+    end
+
+    it "skips dates that have already passed" do
+      rule = Recurrence.new("frequency" => "daily", "interval" => 3)
+
+      expect(rule.next_due_at(Time.utc(2024, 1, 10, 18, 0), now: now)).to eq(Time.utc(2024, 1, 19, 18, 0))
+    end
+
+    it "goes to the next of the chosen weekdays" do
+      rule = Recurrence.new("frequency" => "weekly", "weekdays" => [ 1, 4 ])
+
+      expect(rule.next_due_at(Time.utc(2024, 1, 18, 18, 0), now: now)).to eq(Time.utc(2024, 1, 22, 18, 0))
+    end
+
+    it "uses the last day of months too short for the rule" do
+      rule = Recurrence.new("frequency" => "monthly", "day" => 31)
+
+      expect(rule.next_due_at(Time.utc(2024, 1, 31, 18, 0), now: now)).to eq(Time.utc(2024, 2, 29, 18, 0))
+    end
+
+    it "is due by the end of the day without a previous due date" do
+      rule = Recurrence.new("frequency" => "daily", "interval" => 1)
+
+      expect(rule.next_due_at(nil, now: now)).to eq(Time.utc(2024, 1, 18, 23, 59, 59))
+    end
+
+    it "counts weekdays in the time zone the rule was set in" do
+      # Thursday 23:59:59 in UTC-5 is already Friday in UTC
+      rule = Recurrence.new("frequency" => "weekly", "weekdays" => [ 4 ], "utc_offset" => -300)
+
+      expect(rule.next_due_at(Time.utc(2024, 1, 19, 4, 59, 59), now: now)).to eq(Time.utc(2024, 1, 26, 4, 59, 59))
+    end
+  end
+end
@@ -0,0 +1,66 @@
+require 'rails_helper'
+
+RSpec.describe Subtask, type: :model do
+  let(:user) { User.create! }
+  let(:todo) { user.todos.create!(title: "Plan trip", position: 1) }
+
+  describe "associations" do
+    it "is destroyed with its todo" do
+      todo.subtasks.create!(title: "Book flights", position: 1)
+
+      expect { todo.destroy }.to change(Subtask, :count).by(-1)
+    end
+
+    it "comes back from its todo in position order" do
+      second = todo.subtasks.create!(title: "Pack", position: 2)
+      first = todo.subtasks.create!(title: "Book flights", position: 1)
+
+      expect(todo.subtasks.reload).to eq([ first, second ])
+    end
+  end
+
+  describe "validations" do
+    it "requires a title, ignoring surrounding whitespace" do
+      subtask = todo.subtasks.build(title: "   ", position: 1)
+      expect(subtask).not_to be_valid
+      expect(subtask.errors[:title]).to include("can't be blank")
+    end
+
+    it "requires a unique position within its todo" do
+      todo.subtasks.create!(title: "Book flights", position: 1)
+
+      duplicate = todo.subtasks.build(title: "Pack", position: 1)
+      expect(duplicate).not_to be_valid
+      expect(duplicate.errors[:position]).to include("has already been taken")
+    end
+  end
+
+  describe "completing the parent todo" do
+    before do
+      todo.subtasks.create!(title: "Book flights", position: 1, done: true)
+      todo.subtasks.create!(title: "Pack", position: 2)
+    end
+
+    it "completes a todo that opted in once every subtask is done" do
+      todo.update!(complete_with_subtasks: true)
+      todo.subtasks.last.update!(done: true)
+
+      todo.complete_if_subtasks_done!
+      expect(todo.reload).to be_done
+    end
+
+    it "leaves the todo open while a subtask is unchecked" do
+      todo.update!(complete_with_subtasks: true)
+
+      todo.complete_if_subtasks_done!
+      expect(todo.reload).to be_open
+    end
+
+    it "leaves todos that did not opt in alone" do
+      todo.subtasks.last.update!(done: true)
+
+      todo.complete_if_subtasks_done!
+      expect(todo.reload).to be_open
+    end
+  end
+end
@@ -7,6 +7,13 @@ RSpec.describe Todo, type: :model do
       expect(Todo.reflect_on_association(:user).macro).to eq(:belongs_to)
     end
 
+    it "belongs to a list, the user's default list unless given" do
+      user = User.create!
+      todo = user.todos.create!(title: "Test todo", position: 1)
+
+      expect(todo.list).to eq(user.default_list)
+    end
+
     it "is destroyed when user is destroyed" do
       user = User.create!
       todo = user.todos.create!(title: "Test todo", position: 1)
@@ -30,7 +37,7 @@ RSpec.describe Todo, type: :model do
       expect(todo.errors[:position]).to include("can't be blank")
     end
 
-    it "validates uniqueness of position within user scope" do
+    it "validates uniqueness of position within list scope" do
       user.todos.create!(title: "First todo", position: 1)
 
       duplicate_position_todo = user.todos.build(title: "Second todo", position: 1)
@@ -48,6 +55,20 @@ RSpec.describe Todo, type: :model do
       expect(todo2).to be_valid
     end
 
+    it "allows same position in different lists" do
+      user.todos.create!(title: "Inbox todo", position: 1)
+      todo = user.todos.build(title: "Work todo", position: 1, list: user.lists.create!(name: "Work"))
+
+      expect(todo).to be_valid
+    end
+
+    it "rejects another user's list" do
+      todo = user.todos.build(title: "Sneaky", position: 1, list: User.create!.default_list)
+
+      expect(todo).not_to be_valid
+      expect(todo.errors[:list]).to include("must be one of your lists")
+    end
+
     it "rejects whitespace-only titles" do
       todo = user.todos.build(title: "   \t\n   ", position: 1)
       expect(todo).not_to be_valid
@@ -58,6 +79,25 @@ RSpec.describe Todo, type: :model do
       todo = user.todos.build(title: "Valid todo title", position: 1)
       expect(todo).to be_valid
     end
+
+    it "limits the title to 255 characters" do
+      expect(user.todos.build(title: "a" * 255, position: 1)).to be_valid
+
+      todo = user.todos.build(title: "a" * 256, position: 1)
+      expect(todo).not_to be_valid
+      expect(todo.errors[:title]).to include("is too long (maximum is 255 characters)")
+    end
+
+    it "limits the description to 10,000 characters" do
+      todo = user.todos.build(title: "Notes", position: 1, description: "a" * 10_001)
+      expect(todo).not_to be_valid
+      expect(todo.errors[:description]).to include("is too long (maximum is 10000 characters)")
+    end
+
+    it "stores a blank description as nil" do
+      todo = user.todos.create!(title: "Notes", position: 1, description: "  \n ")
+      expect(todo.description).to be_nil
+    end
   end
 
   describe "Property 4: Input Validation" do
@@ -99,11 +139,171 @@ RSpec.describe Todo, type: :model do
     it "defines status enum correctly" do
       expect(Todo.statuses).to eq({ "open" => 0, "done" => 1 })
     end
+
+    it "defines priority enum correctly" do
+      expect(Todo.priorities).to eq({ "low" => 0, "medium" => 1, "high" => 2, "urgent" => 3 })
+    end
+
+    it "defaults to medium priority" do
+      expect(Todo.new.priority).to eq("medium")
+    end
+
+    it "rejects unknown priorities" do
+      todo = User.create!.todos.build(title: "Pick", position: 1, priority: "critical")
+      expect(todo).not_to be_valid
+      expect(todo.errors[:priority]).to include("is not included in the list")
+    end
   end
 
   describe "scopes" do
     it "has ordered scope" do
       expect(Todo).to respond_to(:ordered)
     end
+
+    it "search matches titles case-insensitively and ignores a blank query" do
+      user = User.create!
+      milk = user.todos.create!(title: "Buy Milk", position: 1)
+      user.todos.create!(title: "Walk the dog", position: 2)
+
+      expect(user.todos.search(" milk ")).to eq([ milk ])
+      expect(user.todos.search("").count).to eq(2)
+      expect(user.todos.search(nil).count).to eq(2)
+    end
+
+    it "separates active todos from archived ones" do
+      user = User.create!
+      active = user.todos.create!(title: "Active", position: 1)
+      archived = user.todos.create!(title: "Archived", position: 2, archived_at: Time.current)
+
+      expect(user.todos.active).to eq([ active ])
+      expect(user.todos.archived).to eq([ archived ])
+      expect(archived).to be_archived
+    end
+  end
+
+  describe "positions" do
+    let(:user) { User.create! }
+
+    it "appends new todos a gap after the last one in their list" do
+      expect(Todo.next_position_for(user.default_list)).to eq(Todo::POSITION_GAP)
+
+      user.todos.create!(title: "First", position: 5)
+      expect(Todo.next_position_for(user.default_list)).to eq(5 + Todo::POSITION_GAP)
+      expect(Todo.next_position_for(user.lists.create!(name: "Work"))).to eq(Todo::POSITION_GAP)
+    end
+
+    it "moves a todo to the midpoint between its new neighbours" do
+      first = user.todos.create!(title: "First", position: 1024)
+      second = user.todos.create!(title: "Second", position: 2048)
+      third = user.todos.create!(title: "Third", position: 3072)
+
+      third.move_next_to!(first, :after)
+
+      expect(third.reload.position).to eq(1536)
+      expect(user.todos.ordered).to eq([ first, third, second ])
+    end
+
+    it "spreads the list out when there is no room left" do
+      first = user.todos.create!(title: "First", position: 1)
+      second = user.todos.create!(title: "Second", position: 2)
+      third = user.todos.create!(title: "Third", position: 3)
+
+      third.move_next_to!(second, :before)
+
+      expect(user.todos.ordered).to eq([ first, third, second ])
+      expect(user.todos.ordered.map(&:position)).to eq([ 1024, 1536, 2048 ])
+    end
+
+    it "moves a todo to the end of another list" do
+      work = user.lists.create!(name: "Work")
+      report = user.todos.create!(title: "Report", position: 1024, list: work)
+      todo = user.todos.create!(title: "Slides", position: 1024)
+
+      todo.move_to_list!(work)
+
+      expect(todo.reload.list).to eq(work)
+      expect(work.todos.ordered).to eq([ report, todo ])
+    end
+
+    it "only moves next to todos in the same list" do
+      first = user.todos.create!(title: "First", position: 1024)
+      other = user.todos.create!(title: "Other", position: 1024, list: user.lists.create!(name: "Work"))
+
+      expect { first.move_next_to!(other, :before) }.to raise_error(ArgumentError)
+    end
+  end
+
+  describe "completion tracking" do
+    let(:user) { User.create! }
+
+    it "records when a todo is completed and forgets it when reopened" do
+      todo = user.todos.create!(title: "Test todo", position: 1)
+      expect(todo.completed_at).to be_nil
+
+      todo.update!(status: "done")
+      expect(todo.completed_at).to be_within(1.second).of(Time.current)
+
+      todo.update!(status: "open")
+      expect(todo.completed_at).to be_nil
+    end
+
+    it "keeps the completion time when other fields change" do
+      todo = user.todos.create!(title: "Test todo", position: 1, status: "done")
+      completed_at = todo.completed_at
+
+      todo.update!(title: "Renamed")
+      expect(todo.completed_at).to eq(completed_at)
+    end
+  end
+
+  describe "recurrence" do
+    let(:user) { User.create! }
+    let(:rule) { { "frequency" => "daily", "interval" => 1 } }
+
+    it "rejects an invalid rule" do
+      todo = user.todos.build(title: "Water plants", position: 1, recurrence: { "frequency" => "hourly" })
+
+      expect(todo).not_to be_valid
+      expect(todo.errors[:recurrence]).to include("must be daily, weekly or monthly")
+    end
+
+    it "stores an empty rule as not repeating" do
+      todo = user.todos.create!(title: "Water plants", position: 1, recurrence: {})
+
+      expect(todo.recurrence).to be_nil
+      expect(todo).not_to be_recurring
+    end
+
+    it "creates the next occurrence when a repeating todo is completed" do
+      label = user.labels.create!(name: "home", color: "#0969da")
+      todo = user.todos.create!(title: "Water plants", position: 1, recurrence: rule,
+        due_at: 1.hour.from_now, priority: :high, labels: [ label ])
+      todo.subtasks.create!(title: "Fern", position: 1, done: true)
+
+      expect { todo.update!(status: "done") }.to change(Todo, :count).by(1)
+
+      next_todo = todo.next_occurrence
+      expect(next_todo).to have_attributes(title: "Water plants", status: "open", priority: "high", recurrence: rule)
+      expect(next_todo.due_at).to be_within(1.second).of(todo.due_at + 1.day)
+      expect(next_todo.labels).to eq([ label ])
+      expect(next_todo.subtasks.map { |subtask| [ subtask.title, subtask.done ] }).to eq([ [ "Fern", false ] ])
+      expect(next_todo.position).to be > todo.position
+      expect(todo.reload.recurrence).to be_nil
+    end
+
+    it "does not repeat a todo again when it is reopened and completed" do
+      todo = user.todos.create!(title: "Water plants", position: 1, recurrence: rule)
+      todo.update!(status: "done")
+      todo.update!(status: "open")
+
+      expect { todo.update!(status: "done") }.not_to change(Todo, :count)
+    end
+
+    it "leaves todos that do not repeat alone" do
+      todo = user.todos.create!(title: "Buy milk", position: 1)
+
+      expect { todo.update!(status: "done") }.not_to change(Todo, :count)
+      expect(todo.next_occurrence).to be_nil
+    end
   end
 end
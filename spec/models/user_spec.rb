@@ -12,6 +12,39 @@ RSpec.describe User, type: :model do
     end
   end
 
+  describe "auto-archiving" do
+    let(:user) { User.create! }
+
+    it "accepts a whole number of days up to a year, or nothing" do
+      expect(user.update(auto_archive_after_days: 7)).to be true
+      expect(user.update(auto_archive_after_days: nil)).to be true
+      expect(user.update(auto_archive_after_days: 0)).to be false
+      expect(user.update(auto_archive_after_days: 366)).to be false
+      expect(user.update(auto_archive_after_days: 1.5)).to be false
+    end
+
+    it "archives only todos completed longer ago than the rule allows" do
+      user.update!(auto_archive_after_days: 7)
+      stale = user.todos.create!(title: "Stale", position: 1, status: "done")
+      stale.update_column(:completed_at, 8.days.ago)
+      recent = user.todos.create!(title: "Recent", position: 2, status: "done")
+      open_todo = user.todos.create!(title: "Open", position: 3)
+
+      expect(user.archive_stale_completed_todos!).to eq(1)
+      expect(stale.reload).to be_archived
+      expect(recent.reload).not_to be_archived
+      expect(open_todo.reload).not_to be_archived
+    end
+
+    it "does nothing when the rule is off" do
+      todo = user.todos.create!(title: "Stale", position: 1, status: "done")
+      todo.update_column(:completed_at, 1.year.ago)
+
+      expect(user.archive_stale_completed_todos!).to eq(0)
+      expect(todo.reload).not_to be_archived
+    end
+  end
+
   describe "Property 14: Credential Storage Security" do
     # **Feature: passkey-todo-board, Property 14: Credential Storage Security**
     # **Validates: Requirements 9.2**
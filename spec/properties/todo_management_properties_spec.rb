@@ -43,7 +43,7 @@ RSpec.describe "Todo Management Properties", type: :request do
           )
         end
 
-        expected_position = existing_todo_count + 1
+        expected_position = existing_todo_count + Todo::POSITION_GAP
         initial_todo_count = Todo.count
 
         # Create new todo via API
@@ -640,11 +640,10 @@ RSpec.describe "Todo Management Properties", type: :request do
           )
         end
 
-        # Select a random todo to delete (not first or last to test position adjustment)
+        # Select a random todo to delete (not first or last, so it leaves a gap in the middle)
         delete_index = Rantly { range(1, todo_count - 2) } if todo_count > 2
         delete_index ||= Rantly { range(0, todo_count - 1) }
         todo_to_delete = todos[delete_index]
-        deleted_position = todo_to_delete.position
 
         initial_todo_count = Todo.count
 
@@ -662,35 +661,23 @@ RSpec.describe "Todo Management Properties", type: :request do
         expect(Todo.count).to eq(initial_todo_count - 1)
         expect(Todo.exists?(todo_to_delete.id)).to be false
 
-        # Verify remaining todos have valid, sequential positions
+        # Verify remaining todos keep their order
         remaining_todos = user.todos.ordered.to_a
         expect(remaining_todos.length).to eq(todo_count - 1)
+        expect(remaining_todos.map(&:id)).to eq(todos.map(&:id) - [ todo_to_delete.id ])
 
-        # Check that positions are sequential starting from 1
-        remaining_todos.each_with_index do |todo, index|
-          expect(todo.position).to eq(index + 1)
-        end
-
-        # Verify todos that had positions greater than deleted todo were decremented
+        # Verify no other todo was renumbered; the deleted todo just leaves a gap
         todos.each do |original_todo|
           next if original_todo.id == todo_to_delete.id
 
           current_todo = Todo.find_by(id: original_todo.id)
           expect(current_todo).to be_present
-
-          if original_todo.position > deleted_position
-            # Position should be decremented by 1
-            expect(current_todo.position).to eq(original_todo.position - 1)
-          else
-            # Position should remain the same
-            expect(current_todo.position).to eq(original_todo.position)
-          end
+          expect(current_todo.position).to eq(original_todo.position)
         end
 
-        # Verify no gaps in position sequence
-        positions = remaining_todos.map(&:position).sort
-        expected_positions = (1..remaining_todos.length).to_a
-        expect(positions).to eq(expected_positions)
+        # Verify positions are still unique
+        positions = remaining_todos.map(&:position)
+        expect(positions.uniq).to eq(positions)
 
         # Verify todos are still retrievable in correct order via API
         get '/api/todos'
@@ -704,7 +691,7 @@ RSpec.describe "Todo Management Properties", type: :request do
         # Verify API returns todos in position order
         api_positions = api_todos.map { |t| t['position'] }
         expect(api_positions).to eq(api_positions.sort)
-        expect(api_positions).to eq((1..api_todos.length).to_a)
+        expect(api_positions).to eq(remaining_todos.map(&:position))
 
         # Verify deleted todo is not in API response
         expect(api_todos.none? { |t| t['id'] == todo_to_delete.id }).to be true